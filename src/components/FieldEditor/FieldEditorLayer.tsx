@@ -0,0 +1,275 @@
+import React, { useRef, useState } from 'react';
+import { AuthoredField, AuthoredFieldType, BoundingBox } from '../../types';
+import { clampFieldBox, DEFAULT_FIELD_SIZES, MIN_FIELD_SIZE } from '../../utils/layout-utils';
+
+// Same colors as the signing overlays; dates in grey like auto-filled fields
+const FIELD_COLORS: Record<AuthoredFieldType, string> = {
+  signature: '#2196F3',
+  initials: '#9C27B0',
+  date: '#757575',
+};
+
+const FIELD_TYPE_LABELS: Record<AuthoredFieldType, string> = {
+  signature: 'Signature',
+  initials: 'Initials',
+  date: 'Date signed',
+};
+
+export interface FieldEditorLayerProps {
+  pageIndex: number;
+  fields: AuthoredField[]; // All authored fields; those on this page are shown
+  selectedId: string | null;
+  tool: AuthoredFieldType; // Type of the fields drawn on the page
+  roles?: string[];
+  pageWidth: number;
+  pageHeight: number;
+  onAdd: (type: AuthoredFieldType, pageIndex: number, boundingBox: BoundingBox) => void;
+  onUpdate: (id: string, updates: Partial<Omit<AuthoredField, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onSelect: (id: string | null) => void;
+}
+
+type Drag =
+  | { mode: 'draw'; start: { x: number; y: number } }
+  | { mode: 'move' | 'resize'; id: string; start: { x: number; y: number }; origin: BoundingBox };
+
+/**
+ * Field placement layer over one page
+ *
+ * Dragging on the page draws a field of the current tool's type (a click
+ * places one of the default size); fields are moved by dragging, resized
+ * with their corner handle, nudged with the arrow keys and removed with
+ * Delete. The selected field's name, type, role and required flag are
+ * edited in a panel below it.
+ */
+export const FieldEditorLayer: React.FC<FieldEditorLayerProps> = ({
+  pageIndex,
+  fields,
+  selectedId,
+  tool,
+  roles,
+  pageWidth,
+  pageHeight,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onSelect,
+}) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  const fieldsOnPage = fields.filter((field) => field.pageIndex === pageIndex);
+  const selected = fieldsOnPage.find((field) => field.id === selectedId) ?? null;
+
+  // Pointer position in PDF points (top-left origin)
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * pageWidth,
+      y: ((e.clientY - rect.top) / rect.height) * pageHeight,
+    };
+  };
+
+  const boxBetween = (a: { x: number; y: number }, b: { x: number; y: number }): BoundingBox => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  });
+
+  const startDrag = (e: React.PointerEvent, drag: Drag) => {
+    e.stopPropagation();
+    e.preventDefault();
+    layerRef.current?.setPointerCapture?.(e.pointerId);
+    dragRef.current = drag;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toPoint(e);
+
+    if (drag.mode === 'draw') {
+      setDraft(boxBetween(drag.start, point));
+      return;
+    }
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+    const box = drag.mode === 'move'
+      ? { ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy }
+      : { ...drag.origin, width: drag.origin.width + dx, height: drag.origin.height + dy };
+    onUpdate(drag.id, { boundingBox: clampFieldBox(box, pageWidth, pageHeight) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDraft(null);
+    if (drag?.mode !== 'draw') return;
+
+    const point = toPoint(e);
+    const drawn = boxBetween(drag.start, point);
+    // A click (or a tiny drag) places a field of the default size
+    const box = drawn.width < MIN_FIELD_SIZE || drawn.height < MIN_FIELD_SIZE
+      ? { x: drag.start.x, y: drag.start.y, ...DEFAULT_FIELD_SIZES[tool] }
+      : drawn;
+    onAdd(tool, pageIndex, clampFieldBox(box, pageWidth, pageHeight));
+  };
+
+  const handleFieldKeyDown = (e: React.KeyboardEvent, field: AuthoredField) => {
+    if (e.target !== e.currentTarget) return;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      onRemove(field.id);
+      return;
+    }
+    const step = e.shiftKey ? 10 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    const move = moves[e.key];
+    if (move) {
+      e.preventDefault();
+      const { boundingBox } = field;
+      onUpdate(field.id, {
+        boundingBox: clampFieldBox(
+          { ...boundingBox, x: boundingBox.x + move[0], y: boundingBox.y + move[1] },
+          pageWidth,
+          pageHeight
+        ),
+      });
+    }
+  };
+
+  const position = (box: BoundingBox): React.CSSProperties => ({
+    position: 'absolute',
+    left: `${(box.x / pageWidth) * 100}%`,
+    top: `${(box.y / pageHeight) * 100}%`,
+    width: `${(box.width / pageWidth) * 100}%`,
+    height: `${(box.height / pageHeight) * 100}%`,
+  });
+
+  return (
+    <div
+      ref={layerRef}
+      className="field-editor-layer"
+      data-testid={`field-editor-layer-${pageIndex}`}
+      onPointerDown={(e) => {
+        onSelect(null);
+        startDrag(e, { mode: 'draw', start: toPoint(e) });
+      }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {fieldsOnPage.map((field) => (
+        <div
+          key={field.id}
+          className={`field-editor-field ${field.type}${field.id === selectedId ? ' selected' : ''}`}
+          style={{ ...position(field.boundingBox), borderColor: FIELD_COLORS[field.type], color: FIELD_COLORS[field.type] }}
+          data-testid={`authored-field-${field.id}`}
+          role="button"
+          tabIndex={0}
+          aria-label={`${FIELD_TYPE_LABELS[field.type]} field ${field.fieldName}`}
+          aria-pressed={field.id === selectedId}
+          onPointerDown={(e) => {
+            onSelect(field.id);
+            startDrag(e, { mode: 'move', id: field.id, start: toPoint(e), origin: field.boundingBox });
+          }}
+          onFocus={() => onSelect(field.id)}
+          onKeyDown={(e) => handleFieldKeyDown(e, field)}
+        >
+          <span className="field-editor-field-label">
+            {field.fieldName}
+            {field.required ? ' *' : ''}
+            {field.role ? ` (${field.role})` : ''}
+          </span>
+          <span
+            className="field-editor-resize-handle"
+            aria-hidden="true"
+            onPointerDown={(e) => {
+              onSelect(field.id);
+              startDrag(e, { mode: 'resize', id: field.id, start: toPoint(e), origin: field.boundingBox });
+            }}
+          />
+        </div>
+      ))}
+
+      {draft && (
+        <div className="field-editor-draft" style={{ ...position(draft), borderColor: FIELD_COLORS[tool] }} />
+      )}
+
+      {selected && (
+        <div
+          className="field-editor-panel"
+          style={{
+            position: 'absolute',
+            left: `${(selected.boundingBox.x / pageWidth) * 100}%`,
+            top: `${((selected.boundingBox.y + selected.boundingBox.height) / pageHeight) * 100}%`,
+          }}
+          onPointerDown={(e) => e.stopPropagation()}
+          role="group"
+          aria-label={`Properties of ${selected.fieldName}`}
+        >
+          <label>
+            Name
+            <input
+              type="text"
+              value={selected.fieldName}
+              maxLength={100}
+              // Field names keep to the characters sanitizeFieldName allows
+              onChange={(e) => onUpdate(selected.id, { fieldName: e.target.value.replace(/[^a-zA-Z0-9_-]/g, '') })}
+            />
+          </label>
+          <label>
+            Type
+            <select
+              value={selected.type}
+              onChange={(e) => onUpdate(selected.id, { type: e.target.value as AuthoredFieldType })}
+            >
+              {(Object.keys(FIELD_TYPE_LABELS) as AuthoredFieldType[]).map((type) => (
+                <option key={type} value={type}>
+                  {FIELD_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {roles && roles.length > 0 && (
+            <label>
+              Signer
+              <select
+                value={selected.role ?? ''}
+                onChange={(e) => onUpdate(selected.id, { role: e.target.value || undefined })}
+              >
+                <option value="">Any signer</option>
+                {roles.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="field-editor-checkbox">
+            <input
+              type="checkbox"
+              checked={selected.required}
+              onChange={(e) => onUpdate(selected.id, { required: e.target.checked })}
+            />
+            Required
+          </label>
+          <button
+            type="button"
+            className="signature-btn signature-btn-secondary"
+            onClick={() => onRemove(selected.id)}
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AuthoredFieldType, FieldLayout } from '../../types';
+
+const TOOLS: Array<{ type: AuthoredFieldType; label: string }> = [
+  { type: 'signature', label: 'Signature' },
+  { type: 'initials', label: 'Initials' },
+  { type: 'date', label: 'Date Signed' },
+];
+
+export interface FieldEditorToolsProps {
+  tool: AuthoredFieldType;
+  onToolChange: (tool: AuthoredFieldType) => void;
+  layout: FieldLayout;
+}
+
+/**
+ * Field type picker and layout export for the field editor
+ */
+export const FieldEditorTools: React.FC<FieldEditorToolsProps> = ({ tool, onToolChange, layout }) => {
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(layout, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'field-layout.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="field-editor-tools" role="toolbar" aria-label="Field editor">
+      <span className="field-editor-tools-hint">Drag on the page to add:</span>
+      {TOOLS.map(({ type, label }) => (
+        <button
+          key={type}
+          type="button"
+          className={`pdf-toolbar-btn${tool === type ? ' active' : ''}`}
+          aria-pressed={tool === type}
+          onClick={() => onToolChange(type)}
+        >
+          {label}
+        </button>
+      ))}
+      <span className="pdf-toolbar-text">
+        {layout.fields.length} field{layout.fields.length === 1 ? '' : 's'}
+      </span>
+      <button type="button" className="pdf-toolbar-btn" onClick={handleDownload}>
+        Download Layout
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { KioskHandoffRejection, KioskSigner } from '../../types';
+import { matchesSignerName } from '../../utils/kiosk-utils';
+
+interface KioskHandoffProps {
+  candidates: KioskSigner[]; // Signers who may sign next; the first is suggested
+  verifyIdentity?: (signer: KioskSigner) => Promise<boolean>;
+  onConfirm: (signer: KioskSigner) => void;
+  onReject: (signer: KioskSigner, reason: KioskHandoffRejection) => void;
+}
+
+/**
+ * Handoff screen between kiosk signers
+ *
+ * Covers the document until the next signer confirms who they are by
+ * typing their name (and passing verifyIdentity, if given). When several
+ * signers may sign next, the one taking the device is picked from a list.
+ */
+export const KioskHandoff: React.FC<KioskHandoffProps> = ({ candidates, verifyIdentity, onConfirm, onReject }) => {
+  const [signerId, setSignerId] = useState(candidates[0]?.signerId);
+  const [typedName, setTypedName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const signer = candidates.find((candidate) => candidate.signerId === signerId) ?? candidates[0];
+  if (!signer) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isVerifying) return;
+
+    if (!matchesSignerName(typedName, signer.signerName)) {
+      setError(`The name does not match. Please hand the device to ${signer.signerName}.`);
+      onReject(signer, 'name-mismatch');
+      return;
+    }
+    if (verifyIdentity) {
+      setIsVerifying(true);
+      let verified = false;
+      try {
+        verified = await verifyIdentity(signer);
+      } catch (err) {
+        console.error('[Kiosk] Identity verification failed:', err);
+      }
+      setIsVerifying(false);
+      if (!verified) {
+        setError('Your identity could not be verified.');
+        onReject(signer, 'verification-failed');
+        return;
+      }
+    }
+    setTypedName('');
+    setError(null);
+    onConfirm(signer);
+  };
+
+  return (
+    <div className="signature-dialog-overlay kiosk-handoff-overlay">
+      <form
+        className="signature-dialog kiosk-handoff"
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="kiosk-handoff-title"
+      >
+        <div className="signature-dialog-header">
+          <h2 id="kiosk-handoff-title">Please hand the device to {signer.signerName}</h2>
+        </div>
+        <div className="signature-dialog-content">
+          {candidates.length > 1 && (
+            <label className="kiosk-handoff-field">
+              Who is signing next?
+              <select
+                value={signer.signerId}
+                onChange={(e) => {
+                  setSignerId(e.target.value);
+                  setError(null);
+                }}
+                disabled={isVerifying}
+              >
+                {candidates.map((candidate) => (
+                  <option key={candidate.signerId} value={candidate.signerId}>
+                    {candidate.signerName} ({candidate.role})
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <p className="kiosk-handoff-hint">
+            You are signing as <strong>{signer.role}</strong>. Type your full name to confirm it is you.
+          </p>
+          <input
+            type="text"
+            value={typedName}
+            onChange={(e) => setTypedName(e.target.value)}
+            className="signature-typed-input"
+            aria-label="Your full name"
+            placeholder="Your full name"
+            autoComplete="off"
+            disabled={isVerifying}
+            autoFocus
+            aria-invalid={error !== null}
+            aria-describedby={error ? 'kiosk-handoff-error' : undefined}
+          />
+          {error && (
+            <div id="kiosk-handoff-error" className="signature-validation-error kiosk-handoff-error" role="alert">
+              {error}
+            </div>
+          )}
+          <div className="signature-preview-actions">
+            <button type="submit" disabled={!typedName.trim() || isVerifying} className="signature-btn signature-btn-primary">
+              {isVerifying ? 'Verifying...' : 'Continue'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { KioskSigner } from '../../types';
+
+interface KioskSignerBannerProps {
+  signer: KioskSigner;
+  onSwitchSigner: () => void;
+}
+
+/**
+ * Who is signing on a kiosk, with a way to hand the device on
+ */
+export const KioskSignerBanner: React.FC<KioskSignerBannerProps> = ({ signer, onSwitchSigner }) => (
+  <div className="kiosk-signer-banner" role="status" data-testid="kiosk-signer">
+    <span>
+      Signing as <strong>{signer.signerName}</strong> ({signer.role})
+    </span>
+    <button type="button" className="pdf-toolbar-btn" onClick={onSwitchSigner}>
+      Switch Signer
+    </button>
+  </div>
+);
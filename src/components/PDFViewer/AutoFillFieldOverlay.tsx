@@ -0,0 +1,55 @@
+import React from 'react';
+import { AutoFillField } from '../../types';
+
+// Shown until the linked signature field is signed
+const PLACEHOLDER = {
+  date: 'Date filled on signing',
+  name: 'Name filled on signing',
+};
+
+interface AutoFillFieldOverlayProps {
+  field: AutoFillField;
+  value?: string; // Set once the linked signature field is signed
+  scale: number;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+/**
+ * Read-only display of an auto-filled date or name field
+ *
+ * The value comes from the linked signature and cannot be edited.
+ */
+export const AutoFillFieldOverlay: React.FC<AutoFillFieldOverlayProps> = ({
+  field,
+  value,
+  scale,
+  pageWidth,
+  pageHeight,
+}) => {
+  const { boundingBox } = field;
+  const isFilled = value !== undefined;
+
+  const style: React.CSSProperties = {
+    position: 'absolute',
+    left: `${(boundingBox.x / pageWidth) * 100}%`,
+    top: `${(boundingBox.y / pageHeight) * 100}%`,
+    width: `${(boundingBox.width / pageWidth) * 100}%`,
+    height: `${(boundingBox.height / pageHeight) * 100}%`,
+    fontSize: `${Math.min(boundingBox.height * 0.6, 12) * scale}px`,
+  };
+
+  return (
+    <div
+      className={`autofill-field-overlay ${field.source} ${isFilled ? 'filled' : 'empty'}`}
+      style={style}
+      data-testid={`autofill-field-${field.id}`}
+      data-source={field.source}
+      role="textbox"
+      aria-readonly="true"
+      aria-label={`${field.source === 'date' ? 'Date signed' : 'Printed name'}: ${field.fieldName}`}
+    >
+      {isFilled ? value : PLACEHOLDER[field.source]}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useRef } from 'react';
+import { FormField, FormFieldValue } from '../../types';
+
+interface FormFieldOverlayProps {
+  field: FormField;
+  value?: FormFieldValue;
+  onChange: (value: FormFieldValue) => void;
+  onCommit: (value: FormFieldValue | undefined) => void; // Text: on blur after a change; other types: with each change
+  scale: number;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+/**
+ * Fillable overlay for one text, check box, radio button or dropdown widget
+ */
+export const FormFieldOverlay: React.FC<FormFieldOverlayProps> = ({
+  field,
+  value,
+  onChange,
+  onCommit,
+  scale,
+  pageWidth,
+  pageHeight,
+}) => {
+  const { boundingBox } = field;
+  const valueOnFocus = useRef<FormFieldValue | undefined>(undefined);
+
+  const style: React.CSSProperties = {
+    position: 'absolute',
+    left: `${(boundingBox.x / pageWidth) * 100}%`,
+    top: `${(boundingBox.y / pageHeight) * 100}%`,
+    width: `${(boundingBox.width / pageWidth) * 100}%`,
+    height: `${(boundingBox.height / pageHeight) * 100}%`,
+    fontSize: `${Math.min(boundingBox.height * 0.6, 12) * scale}px`,
+  };
+
+  const common = {
+    className: 'form-field-input',
+    disabled: field.readOnly,
+    required: field.required,
+    'aria-required': field.required,
+    'aria-label': field.fieldName,
+    'data-testid': `form-field-${field.id}`,
+  };
+
+  const change = (next: FormFieldValue) => {
+    onChange(next);
+    onCommit(next);
+  };
+
+  let input: React.ReactNode;
+  switch (field.type) {
+    case 'checkbox':
+      input = (
+        <input {...common} type="checkbox" checked={value === true} onChange={(e) => change(e.target.checked)} />
+      );
+      break;
+    case 'radio':
+      input = (
+        <input
+          {...common}
+          type="radio"
+          name={`form-field-${field.fieldName}`}
+          aria-label={`${field.fieldName}: ${field.exportValue}`}
+          checked={value === field.exportValue}
+          onChange={() => change(field.exportValue!)}
+        />
+      );
+      break;
+    case 'dropdown':
+      input = (
+        <select {...common} value={typeof value === 'string' ? value : ''} onChange={(e) => change(e.target.value)}>
+          <option value="">Select…</option>
+          {field.options?.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+    default: {
+      const textProps = {
+        ...common,
+        value: typeof value === 'string' ? value : '',
+        maxLength: field.maxLength,
+        onFocus: () => {
+          valueOnFocus.current = value;
+        },
+        onBlur: () => {
+          if (value !== valueOnFocus.current) onCommit(value);
+        },
+      };
+      input = field.multiline ? (
+        <textarea {...textProps} onChange={(e) => onChange(e.target.value)} />
+      ) : (
+        <input {...textProps} type="text" onChange={(e) => onChange(e.target.value)} />
+      );
+    }
+  }
+
+  return (
+    <div
+      className={`form-field-overlay ${field.type}${field.required ? ' required' : ''}`}
+      style={style}
+      data-field-type={field.type}
+    >
+      {input}
+    </div>
+  );
+};
@@ -1,15 +1,29 @@
 import React from 'react';
 import { Page } from 'react-pdf';
-import { SignatureField } from '../../types';
+import { AutoFillField, FormField, FormFieldValue, FormValues, ManifestationTemplate, SignatureData, SignatureField } from '../../types';
 import { SignatureFieldOverlay } from './SignatureFieldOverlay';
+import { AutoFillFieldOverlay } from './AutoFillFieldOverlay';
+import { FormFieldOverlay } from './FormFieldOverlay';
+import { FieldEditorLayer, FieldEditorLayerProps } from '../FieldEditor/FieldEditorLayer';
 
 interface PDFPageProps {
   pageNumber: number;
   scale: number;
   signatureFields: SignatureField[];
   signedFieldIds: Set<string>;
+  lockedFieldIds?: Set<string>; // Fields the current signer cannot sign
+  signatures?: Map<string, SignatureData>;
+  autoFillFields?: AutoFillField[];
+  autoFillValues?: Map<string, string>; // Keyed by auto-fill field ID
+  formFields?: FormField[];
+  formValues?: FormValues;
+  onFormFieldChange?: (field: FormField, value: FormFieldValue) => void;
+  onFormFieldCommit?: (field: FormField, value: FormFieldValue | undefined) => void;
+  manifestationTemplate?: ManifestationTemplate;
   onSignatureFieldClick: (field: SignatureField) => void;
   onLoadSuccess?: (page: any) => void;
+  // Author mode: show the field editor instead of the signing overlays
+  authoring?: Omit<FieldEditorLayerProps, 'pageIndex' | 'pageWidth' | 'pageHeight'>;
 }
 
 export const PDFPage: React.FC<PDFPageProps> = ({
@@ -17,8 +31,18 @@ export const PDFPage: React.FC<PDFPageProps> = ({
   scale,
   signatureFields,
   signedFieldIds,
+  lockedFieldIds,
+  signatures,
+  autoFillFields = [],
+  autoFillValues,
+  formFields = [],
+  formValues,
+  onFormFieldChange,
+  onFormFieldCommit,
+  manifestationTemplate,
   onSignatureFieldClick,
   onLoadSuccess,
+  authoring,
 }) => {
   const [pageDimensions, setPageDimensions] = React.useState<{
     width: number;
@@ -37,6 +61,12 @@ export const PDFPage: React.FC<PDFPageProps> = ({
   const fieldsOnPage = signatureFields.filter(
     (field) => field.pageIndex === pageNumber - 1
   );
+  const autoFillFieldsOnPage = autoFillFields.filter(
+    (field) => field.pageIndex === pageNumber - 1
+  );
+  const formFieldsOnPage = formFields.filter(
+    (field) => field.pageIndex === pageNumber - 1
+  );
 
   return (
     <div className="pdf-page-container">
@@ -48,18 +78,53 @@ export const PDFPage: React.FC<PDFPageProps> = ({
           renderTextLayer={false}
           onLoadSuccess={handlePageLoad}
         />
-        {pageDimensions &&
+        {pageDimensions && authoring && (
+          <FieldEditorLayer
+            {...authoring}
+            pageIndex={pageNumber - 1}
+            pageWidth={pageDimensions.width}
+            pageHeight={pageDimensions.height}
+          />
+        )}
+        {pageDimensions && !authoring &&
           fieldsOnPage.map((field) => (
             <SignatureFieldOverlay
               key={field.id}
               field={field}
               isSigned={signedFieldIds.has(field.id)}
+              isLocked={lockedFieldIds?.has(field.id)}
+              signature={signatures?.get(field.id)}
+              manifestationTemplate={manifestationTemplate}
               onClick={() => onSignatureFieldClick(field)}
               scale={scale}
               pageWidth={pageDimensions.width}
               pageHeight={pageDimensions.height}
             />
           ))}
+        {pageDimensions && !authoring &&
+          autoFillFieldsOnPage.map((field) => (
+            <AutoFillFieldOverlay
+              key={field.id}
+              field={field}
+              value={autoFillValues?.get(field.id)}
+              scale={scale}
+              pageWidth={pageDimensions.width}
+              pageHeight={pageDimensions.height}
+            />
+          ))}
+        {pageDimensions && !authoring &&
+          formFieldsOnPage.map((field) => (
+            <FormFieldOverlay
+              key={field.id}
+              field={field}
+              value={formValues?.[field.fieldName]}
+              onChange={(value) => onFormFieldChange?.(field, value)}
+              onCommit={(value) => onFormFieldCommit?.(field, value)}
+              scale={scale}
+              pageWidth={pageDimensions.width}
+              pageHeight={pageDimensions.height}
+            />
+          ))}
       </div>
     </div>
   );
@@ -1,14 +1,34 @@
-import React, { forwardRef, useImperativeHandle, useState, useEffect, useMemo } from 'react';
+import React, { forwardRef, useCallback, useImperativeHandle, useState, useEffect, useMemo } from 'react';
 import { Document } from 'react-pdf';
-import { PDFSignerRef, PDFSignerProps, SignatureField, SignatureData } from '../../types';
+import { AuthoredField, AuthoredFieldType, FormField, FormFieldValue, FormValues, KioskHandoffRejection, KioskSigner, PDFSignerRef, PDFSignerProps, SignatureField, SignatureData } from '../../types';
 import { usePDFDocument } from '../../hooks/usePDFDocument';
 import { useSignatureFields } from '../../hooks/useSignatureFields';
 import { useSignatureCapture } from '../../hooks/useSignatureCapture';
 import { useSignatureStatus } from '../../hooks/useSignatureStatus';
-import { createPSPDFKitInstantJSON } from '../../utils/signature-utils';
+import { useSignatureVerification } from '../../hooks/useSignatureVerification';
+import { useAuditLog } from '../../hooks/useAuditLog';
+import { useFormFields } from '../../hooks/useFormFields';
+import { useFieldLayout } from '../../hooks/useFieldLayout';
+import { createPSPDFKitInstantJSON, createSignedPDF } from '../../utils/signature-utils';
+import { signPdfFields } from '../../utils/pdf-signing-utils';
+import { appendCompletionCertificate, createCompletionCertificate } from '../../utils/certificate-utils';
+import { applyVerificationResults } from '../../utils/verification-utils';
+import { applyFieldIntents } from '../../utils/intent-utils';
+import { applyFieldKinds } from '../../utils/initials-utils';
+import { applyFieldRoles } from '../../utils/role-utils';
+import { createAutoFillFormFieldValues, createAutoFillValues, fillAutoFillFields } from '../../utils/autofill-utils';
+import { createFormFieldValues, fillFormFields, isFormValueFilled } from '../../utils/form-utils';
+import { createFieldLayout, linkAuthoredDateFields, mergeAuthoredFields, writeAuthoredFields } from '../../utils/layout-utils';
+import { KioskConfigError, createKioskSignatureContext, getKioskCandidates, validateKioskSigners } from '../../utils/kiosk-utils';
 import { Toolbar } from './Toolbar';
 import { PDFPage } from './PDFPage';
 import { SignatureDialog } from '../SignatureCapture/SignatureDialog';
+import { FieldEditorTools } from '../FieldEditor/FieldEditorTools';
+import { KioskHandoff } from '../Kiosk/KioskHandoff';
+import { KioskSignerBanner } from '../Kiosk/KioskSignerBanner';
+
+// Stable default, so the field pipeline is not recomputed on every render
+const NO_AUTHORED_FIELDS: AuthoredField[] = [];
 
 export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) => {
   const {
@@ -22,15 +42,151 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
     initialPage = 1,
     signatureContext,
     defaultSignatureIntent,
+    fieldIntents,
+    initialsFields,
     collectDeviceInfo = false,
+    biometricEncryption,
+    signatureStorage,
+    signer,
+    signatureProfile,
+    timestampAuthority,
+    fetchValidationData,
+    trustedCertificates,
+    onSignaturesVerified,
+    completionCertificate,
+    manifestationTemplate,
+    reauthenticate,
+    reauthentication,
+    auditSink,
+    autoFill = true,
+    enableFormFields = true,
+    onFormFieldChange,
+    fieldRules,
+    fields = NO_AUTHORED_FIELDS,
+    mode = 'sign',
+    signerRoles,
+    onFieldLayoutChange,
+    anchors,
+    fieldRoles,
+    signingOrder,
+    onRoleStatusChange,
+    kiosk,
+    onKioskHandoff,
   } = props;
+  const authoring = mode === 'author';
+
+  // Kiosk signers are checked once per kiosk object, so hosts should
+  // memoize it. Signatures are only bound to a kiosk signer within a
+  // signatureContext (session and document hash).
+  const hasSignatureContext = Boolean(signatureContext);
+  const kioskError = useMemo(() => {
+    if (!kiosk) return null;
+    try {
+      if (!hasSignatureContext) {
+        throw new KioskConfigError('Kiosk mode needs a signatureContext');
+      }
+      validateKioskSigners(kiosk.signers);
+      return null;
+    } catch (err) {
+      return err as Error;
+    }
+  }, [kiosk, hasSignatureContext]);
+  const kioskSigners = useMemo(() => (kiosk && !kioskError ? kiosk.signers : null), [kiosk, kioskError]);
+  const [kioskSigner, setKioskSigner] = useState<KioskSigner | null>(null);
+  const [isHandoffOpen, setIsHandoffOpen] = useState(false);
+
+  // In kiosk mode the identity (and role) is that of the signer holding the
+  // device; without one, nothing can be signed
+  const effectiveContext = useMemo(
+    () => (kioskSigners && signatureContext
+      ? kioskSigner ? createKioskSignatureContext(signatureContext, kioskSigner) : undefined
+      : signatureContext),
+    [kioskSigners, signatureContext, kioskSigner]
+  );
+  const roles = useMemo(
+    () => (kioskSigners ? [...new Set([...(signerRoles ?? []), ...kioskSigners.map((s) => s.role)])] : signerRoles),
+    [kioskSigners, signerRoles]
+  );
 
   const [pageNumber, setPageNumber] = useState(initialPage);
   const [zoom, setZoom] = useState(1.0);
   const [pageDimensions, setPageDimensions] = useState<Map<number, { width: number; height: number }>>(new Map());
+  const [editorTool, setEditorTool] = useState<AuthoredFieldType>('signature');
+  const fieldEditor = useFieldLayout(fields);
+
+  // On a kiosk, entries are attributed to the signer holding the device
+  const actorContext = effectiveContext ?? signatureContext;
+  const auditLog = useAuditLog({
+    actor: actorContext && { signerId: actorContext.signerId, sessionId: actorContext.sessionId },
+    sink: auditSink,
+    onSinkError: (sinkError) => onError?.(sinkError),
+  });
 
-  const { document, numPages, isLoading, error } = usePDFDocument(documentUrl);
-  const { signatureFields, updateField } = useSignatureFields(document);
+  const { document, documentHash, numPages, isLoading, error } = usePDFDocument(documentUrl);
+  const {
+    signatureFields: extractedFields,
+    autoFillFields: linkedFields,
+    formFields: fillableFields,
+    anchorFields,
+    updateField,
+  } = useSignatureFields(document, anchors);
+  const { verificationResults, error: verificationError } = useSignatureVerification(document, {
+    trustedCertificates,
+  });
+
+  // Authored fields, and fields placed at anchor text, are added to the ones
+  // in the PDF
+  const authoredFields = useMemo(
+    () => (anchorFields.length > 0 ? [...fields, ...anchorFields] : fields),
+    [fields, anchorFields]
+  );
+
+  // Fields the PDF already carries digital signatures for are shown as signed
+  // with their verification status, and cannot be signed again. Each field
+  // also carries its kind (signature or initials), the signature meanings it
+  // allows and the signer role it is for.
+  const signatureFields = useMemo(
+    () => applyFieldRoles(
+      applyFieldIntents(
+        applyFieldKinds(
+          applyVerificationResults(mergeAuthoredFields(extractedFields, authoredFields), verificationResults ?? []),
+          initialsFields
+        ),
+        fieldIntents,
+        defaultSignatureIntent
+      ),
+      fieldRoles,
+      roles
+    ),
+    [
+      extractedFields,
+      authoredFields,
+      verificationResults,
+      initialsFields,
+      fieldIntents,
+      defaultSignatureIntent,
+      fieldRoles,
+      roles,
+    ]
+  );
+
+  // Date and printed-name fields linked to a signature field (never to one
+  // configured as initials) are filled from its signature and locked;
+  // authored date fields link to the nearest signature field on their page
+  const autoFillOptions = useMemo(
+    () => (autoFill === false ? null : autoFill === true ? {} : autoFill),
+    [autoFill]
+  );
+  const autoFillFields = useMemo(
+    () => autoFillOptions === null
+      ? []
+      : [...linkedFields, ...linkAuthoredDateFields(authoredFields, signatureFields)].filter((field) =>
+        signatureFields.some((signatureField) =>
+          signatureField.id === field.signatureFieldId && signatureField.kind !== 'initials'
+        )
+      ),
+    [linkedFields, authoredFields, signatureFields, autoFillOptions]
+  );
   const {
     isDialogOpen,
     currentField,
@@ -39,33 +195,195 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
     closeDialog,
     applySignature,
     hasSignature,
-  } = useSignatureCapture();
+    adoptedSignature,
+    adoptSignature,
+    forgetAdoptedSignature,
+  } = useSignatureCapture({
+    signerId: effectiveContext?.signerId,
+    storage: signatureStorage,
+    onStorageError: onError,
+  });
 
   // PERFORMANCE FIX: Memoize signedFieldIds to prevent unnecessary recreations
-  // Only recreate Set when signatures Map changes
+  // Only recreate Set when signatures or fields change (fields already signed
+  // in the loaded PDF are shown as signed)
   // Prevents useSignatureStatus from recomputing on every render
   const signedFieldIds = useMemo(
-    () => new Set(signatures.keys()),
-    [signatures]
+    () => new Set([
+      ...signatures.keys(),
+      ...signatureFields.filter((field) => field.verificationStatus).map((field) => field.id),
+    ]),
+    [signatures, signatureFields]
+  );
+  // Only signatures already in the PDF that verify count toward completion;
+  // the others are reported as blockers
+  const completedFieldIds = useMemo(
+    () => new Set([
+      ...signatures.keys(),
+      ...signatureFields.filter((field) => field.verificationStatus === 'valid').map((field) => field.id),
+    ]),
+    [signatures, signatureFields]
+  );
+
+  // Auto-filled fields are not editable; with autoFill off they are ordinary text fields
+  const formFields = useMemo(
+    () => {
+      if (!enableFormFields) return [];
+      const autoFilledNames = new Set(autoFillFields.map((field) => field.fieldName));
+      return fillableFields.filter((field) => !autoFilledNames.has(field.fieldName));
+    },
+    [enableFormFields, fillableFields, autoFillFields]
+  );
+  const {
+    values: formValues,
+    setValue: setFormValue,
+    setValues: setFormValues,
+  } = useFormFields(formFields);
+
+  // Field rules decide which fields are shown and required; hidden fields,
+  // with their signatures and values, are left out of every export. Fields
+  // for other signer roles, or all while the signer's turn has not come,
+  // are locked. In kiosk mode every field is locked while no signer has
+  // confirmed their identity.
+  const {
+    currentIndex,
+    allSigned: allSignedByRole,
+    counts,
+    blockers,
+    roleStatus,
+    lockedFieldIds: roleLockedFieldIds,
+    visibleSignatureFields,
+    signerSignatureFields,
+    visibleFormFields,
+    nextSignature,
+    previousSignature,
+  } = useSignatureStatus(signatureFields, completedFieldIds, {
+    formFields,
+    formValues,
+    rules: fieldRules,
+    signerRole: kioskSigners ? kioskSigner?.role : signatureContext?.signerRole,
+    signerRoles: roles,
+    signingOrder,
+  });
+  const kioskLocked = kioskSigners !== null && (!kioskSigner || isHandoffOpen);
+  const lockedFieldIds = useMemo(
+    () => (kioskLocked ? new Set(visibleSignatureFields.map((field) => field.id)) : roleLockedFieldIds),
+    [kioskLocked, visibleSignatureFields, roleLockedFieldIds]
+  );
+  const kioskCandidates = useMemo(
+    () => (kioskSigners ? getKioskCandidates(kioskSigners, roleStatus) : []),
+    [kioskSigners, roleStatus]
+  );
+  // Kiosk signing is only complete once every signer's role is
+  const kioskComplete = !kioskSigners || roleStatus.roles.every((progress) => progress.state === 'completed');
+  const allSigned = allSignedByRole && kioskComplete;
+  const activeSignatures = useMemo(
+    () => new Map(
+      Array.from(signatures).filter(([fieldId]) => visibleSignatureFields.some((field) => field.id === fieldId))
+    ),
+    [signatures, visibleSignatureFields]
   );
 
-  const { currentIndex, allSigned, nextSignature, previousSignature } = useSignatureStatus(
-    signatureFields,
-    signedFieldIds
+  const autoFillValues = useMemo(
+    () => createAutoFillValues(autoFillFields, activeSignatures, autoFillOptions ?? {}),
+    [autoFillFields, activeSignatures, autoFillOptions]
   );
 
   useEffect(() => {
     if (error) {
+      auditLog.record('document.load-failed', { details: { message: error.message } });
       onError?.(error);
     }
-  }, [error, onError]);
+  }, [error, onError, auditLog]);
+
+  useEffect(() => {
+    if (document) {
+      auditLog.record('document.loaded', { details: { numPages: document.numPages, documentHash } });
+    }
+  }, [document, documentHash, auditLog]);
+
+  useEffect(() => {
+    if (document) {
+      auditLog.record('page.viewed', { details: { page: pageNumber } });
+    }
+  }, [document, pageNumber, auditLog]);
+
+  useEffect(() => {
+    if (verificationError) {
+      onError?.(verificationError);
+    }
+  }, [verificationError, onError]);
+
+  useEffect(() => {
+    if (verificationResults) {
+      auditLog.record('signatures.verified', {
+        details: {
+          count: verificationResults.length,
+          valid: verificationResults.filter((result) => result.status === 'valid').length,
+        },
+      });
+      onSignaturesVerified?.(verificationResults);
+    }
+  }, [verificationResults, onSignaturesVerified, auditLog]);
 
   useEffect(() => {
-    onSignatureStatusChange?.(allSigned, currentIndex);
-  }, [allSigned, currentIndex, onSignatureStatusChange]);
+    onSignatureStatusChange?.(allSigned, currentIndex, blockers);
+  }, [allSigned, currentIndex, blockers, onSignatureStatusChange]);
+
+  useEffect(() => {
+    onRoleStatusChange?.(roleStatus);
+  }, [roleStatus, onRoleStatusChange]);
+
+  useEffect(() => {
+    if (kioskError) {
+      console.error('[Kiosk] Invalid kiosk configuration:', kioskError.message);
+      onError?.(kioskError);
+    }
+  }, [kioskError, onError]);
+
+  const startKioskHandoff = useCallback(() => {
+    if (!kioskSigners || isHandoffOpen) return;
+    auditLog.record('kiosk.handoff-requested', {
+      details: { from: kioskSigner?.signerId ?? null, pending: kioskCandidates.map((signer) => signer.role).join(', ') },
+    });
+    closeDialog();
+    setIsHandoffOpen(true);
+  }, [kioskSigners, isHandoffOpen, kioskSigner, kioskCandidates, auditLog, closeDialog]);
+
+  // The device is handed on once the signer holding it has nothing left to
+  // sign (or, at the start, to the first signer)
+  const kioskTurnOver = kioskSigners !== null && kioskCandidates.length > 0 &&
+    !kioskCandidates.some((signer) => signer.signerId === kioskSigner?.signerId);
+  useEffect(() => {
+    if (kioskTurnOver && !isDialogOpen && !authoring) {
+      startKioskHandoff();
+    }
+  }, [kioskTurnOver, isDialogOpen, authoring, startKioskHandoff]);
+
+  const handleKioskConfirm = (next: KioskSigner) => {
+    auditLog.record('kiosk.handoff-confirmed', {
+      details: { role: next.role, signerId: next.signerId, previousSignerId: kioskSigner?.signerId ?? null },
+    });
+    setKioskSigner(next);
+    setIsHandoffOpen(false);
+    onKioskHandoff?.(next);
+  };
+
+  const handleKioskReject = (rejected: KioskSigner, reason: KioskHandoffRejection) => {
+    auditLog.record('kiosk.handoff-rejected', {
+      details: { role: rejected.role, signerId: rejected.signerId, reason },
+    });
+  };
+
+  useEffect(() => {
+    if (authoring) {
+      onFieldLayoutChange?.(fieldEditor.layout);
+    }
+  }, [authoring, fieldEditor.layout, onFieldLayoutChange]);
 
   const handleSignatureFieldClick = (field: SignatureField) => {
-    if (!hasSignature(field.id)) {
+    if (authoring || lockedFieldIds.has(field.id)) return;
+    if (!hasSignature(field.id) && !field.verificationStatus) {
       openDialog(field);
     }
   };
@@ -73,22 +391,70 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
   // SECURITY FIX: Use proper SignatureData type instead of `any`
   // Ensures type safety and catches signature data structure issues at compile time
   const handleSignatureComplete = (data: SignatureData) => {
+    // SECURITY: Fields for other roles, or out of turn, are never signed (CWE-285)
+    if (currentField && lockedFieldIds.has(currentField.id)) {
+      console.error(`[Security] Refusing signature for locked field: ${currentField.id}`);
+      closeDialog();
+      return;
+    }
+    // SECURITY: A kiosk signature must be bound to the signer holding the device (CWE-287)
+    if (kioskSigners && data.signerId !== kioskSigner?.signerId) {
+      console.error(`[Security] Refusing kiosk signature not bound to the current signer for field: ${currentField?.id}`);
+      closeDialog();
+      return;
+    }
     if (currentField) {
+      auditLog.record('signature.applied', {
+        fieldId: currentField.id,
+        details: {
+          signatureType: data.type,
+          signatureHash: data.signatureHash,
+          documentHash: data.documentHash,
+          role: currentField.role ?? null,
+          signerId: data.signerId ?? null,
+        },
+      });
       applySignature(currentField.id, data);
+      // A newly captured signature becomes the one offered for the remaining
+      // fields (initials are never adopted in place of the signature)
+      if (currentField.kind !== 'initials' && !data.adoptedAt && adoptSignature(data)) {
+        auditLog.record('signature.adopted', {
+          fieldId: currentField.id,
+          details: { signatureType: data.type, remembered: Boolean(signatureStorage) },
+        });
+      }
       updateField(currentField.id, {
         signedBy: data.signerName || 'user', // Use actual signer name from CFR data
         signedAt: data.timestamp,
+        signedIntent: data.signerIntent,
       });
       onSignatureApplied?.(data);
     }
   };
 
+  const handleFormFieldChange = (field: FormField, value: FormFieldValue) => {
+    try {
+      onFormFieldChange?.(field.fieldName, setFormValue(field.fieldName, value));
+    } catch (err) {
+      console.error(`[Form] Rejected value for ${field.fieldName}:`, err);
+      onError?.(err as Error);
+    }
+  };
+
+  // Recorded once per edit (text on blur), without the value itself
+  const recordFormFieldChange = (field: FormField, value: FormFieldValue | undefined, source: 'signer' | 'host') => {
+    auditLog.record('form.field-changed', {
+      fieldId: field.id,
+      details: { fieldName: field.fieldName, fieldType: field.type, filled: isFormValueFilled(field, value), source },
+    });
+  };
+
   const handleNextSignature = () => {
     const field = nextSignature();
     if (field) {
       const pageIndex = field.pageIndex + 1;
       setPageNumber(pageIndex);
-      openDialog(field);
+      if (!lockedFieldIds.has(field.id)) openDialog(field);
     }
   };
 
@@ -108,16 +474,16 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
       handlePreviousSignature();
     },
     updateSignatureStatus: () => {
-      onSignatureStatusChange?.(allSigned, currentIndex);
+      onSignatureStatusChange?.(allSigned, currentIndex, blockers);
     },
     getTotalSignatureCount: () => {
-      return signatureFields.length;
+      return visibleSignatureFields.length;
     },
     getSignatures: () => {
       // SECURITY FIX: Remove non-null assertion and properly handle missing fields
       // Filter out signatures for fields that no longer exist (defensive programming)
       const signatureMap = new Map(
-        Array.from(signatures.entries())
+        Array.from(activeSignatures.entries())
           .map(([fieldId, data]) => {
             const field = signatureFields.find((f) => f.id === fieldId);
 
@@ -144,11 +510,84 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
             entry !== null
           )
       );
-      return createPSPDFKitInstantJSON(signatureMap);
+      return createPSPDFKitInstantJSON(signatureMap, [
+        ...createFormFieldValues(visibleFormFields, formValues),
+        ...createAutoFillFormFieldValues(autoFillFields, activeSignatures, autoFillOptions ?? {}),
+      ]);
+    },
+    getSignedPdf: async () => {
+      if (!document) {
+        throw new Error('Cannot export signed PDF: document is not loaded');
+      }
+      const details = {
+        signatures: activeSignatures.size,
+        profile: signer ? signatureProfile ?? 'pkcs7' : null,
+        completionCertificate: Boolean(completionCertificate),
+      };
+      try {
+        const pdfBytes = await document.getData();
+        let flattened = await createSignedPDF(pdfBytes, activeSignatures, signatureFields, manifestationTemplate);
+        flattened = await fillAutoFillFields(flattened, autoFillFields, activeSignatures, autoFillOptions ?? {});
+        flattened = await fillFormFields(flattened, visibleFormFields, formValues);
+        // Appended before digital signing, so the signatures cover the certificate too
+        if (completionCertificate) {
+          flattened = await appendCompletionCertificate(
+            flattened,
+            activeSignatures,
+            signatureFields,
+            completionCertificate === true ? {} : completionCertificate
+          );
+        }
+        const signedPdf = signer
+          ? await signPdfFields(flattened, activeSignatures, signatureFields, signer, {
+            profile: signatureProfile,
+            timestampAuthority,
+            fetchValidationData,
+          })
+          : flattened;
+        auditLog.record('signed-pdf.exported', { details: { ...details, bytes: signedPdf.length } });
+        return signedPdf;
+      } catch (err) {
+        auditLog.record('signed-pdf.export-failed', { details: { ...details, message: (err as Error).message } });
+        throw err;
+      }
     },
     goToPage: (page: number) => {
       setPageNumber(Math.max(1, Math.min(page, numPages)));
     },
+    getCompletionCertificate: async () => {
+      const certificate = await createCompletionCertificate(
+        activeSignatures,
+        signatureFields,
+        typeof completionCertificate === 'object' ? completionCertificate : {}
+      );
+      auditLog.record('completion-certificate.generated', { details: { signatures: activeSignatures.size } });
+      return certificate;
+    },
+    getAuditTrail: () => auditLog.getEntries(),
+    getCompletionBlockers: () => blockers,
+    getFieldLayout: () => (authoring ? fieldEditor.layout : createFieldLayout(authoredFields)),
+    getRoleStatus: () => roleStatus,
+    getKioskSigner: () => (kioskSigners ? kioskSigner : null),
+    startKioskHandoff,
+    getPreparedPdf: async () => {
+      if (!document) {
+        throw new Error('Cannot export prepared PDF: document is not loaded');
+      }
+      const placed = authoring ? fieldEditor.fields : authoredFields;
+      const preparedPdf = await writeAuthoredFields(await document.getData(), placed);
+      auditLog.record('prepared-pdf.exported', { details: { fields: placed.length, bytes: preparedPdf.length } });
+      return preparedPdf;
+    },
+    verifyAuditTrail: () => auditLog.verify(),
+    getFormValues: () => ({ ...formValues }),
+    setFormValues: (values: FormValues) => {
+      const applied = setFormValues(values);
+      for (const [fieldName, value] of Object.entries(applied)) {
+        const field = formFields.find((f) => f.fieldName === fieldName);
+        if (field) recordFormFieldChange(field, value, 'host');
+      }
+    },
   }));
 
   if (isLoading) {
@@ -161,6 +600,14 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
 
   return (
     <div className={`pdf-viewer ${className}`}>
+      {authoring && (
+        <FieldEditorTools tool={editorTool} onToolChange={setEditorTool} layout={fieldEditor.layout} />
+      )}
+
+      {kioskSigner && kioskSigners && !isHandoffOpen && !authoring && (
+        <KioskSignerBanner signer={kioskSigner} onSwitchSigner={startKioskHandoff} />
+      )}
+
       {enableNavigation && (
         <Toolbar
           currentPage={pageNumber}
@@ -168,10 +615,13 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
           zoom={zoom}
           onZoomChange={enableZoom ? setZoom : () => {}}
           onPageChange={setPageNumber}
-          onNextSignature={handleNextSignature}
-          onPreviousSignature={handlePreviousSignature}
+          onNextSignature={authoring ? undefined : handleNextSignature}
+          onPreviousSignature={authoring ? undefined : handlePreviousSignature}
           currentSignatureIndex={currentIndex}
-          totalSignatures={signatureFields.length}
+          totalSignatures={authoring ? 0 : signerSignatureFields.length}
+          signatureCounts={authoring ? undefined : counts}
+          completionBlockers={authoring ? undefined : blockers}
+          roleStatus={authoring ? undefined : roleStatus}
         />
       )}
 
@@ -180,9 +630,28 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
           <PDFPage
             pageNumber={pageNumber}
             scale={zoom}
-            signatureFields={signatureFields}
+            signatureFields={visibleSignatureFields}
             signedFieldIds={signedFieldIds}
+            lockedFieldIds={lockedFieldIds}
+            signatures={signatures}
+            autoFillFields={autoFillFields}
+            autoFillValues={autoFillValues}
+            formFields={visibleFormFields}
+            formValues={formValues}
+            onFormFieldChange={handleFormFieldChange}
+            onFormFieldCommit={(field, value) => recordFormFieldChange(field, value, 'signer')}
+            manifestationTemplate={manifestationTemplate}
             onSignatureFieldClick={handleSignatureFieldClick}
+            authoring={authoring ? {
+              fields: fieldEditor.fields,
+              selectedId: fieldEditor.selectedId,
+              tool: editorTool,
+              roles: signerRoles,
+              onAdd: fieldEditor.addField,
+              onUpdate: fieldEditor.updateField,
+              onRemove: fieldEditor.removeField,
+              onSelect: fieldEditor.selectField,
+            } : undefined}
             onLoadSuccess={(page) => {
               const viewport = page.getViewport({ scale: 1 });
               setPageDimensions((prev) => {
@@ -199,14 +668,31 @@ export const PDFViewer = forwardRef<PDFSignerRef, PDFSignerProps>((props, ref) =
       </div>
 
       <SignatureDialog
-        isOpen={isDialogOpen}
+        isOpen={isDialogOpen && !authoring}
         field={currentField}
         onComplete={handleSignatureComplete}
         onCancel={closeDialog}
-        signatureContext={signatureContext}
+        signatureContext={effectiveContext}
         defaultSignatureIntent={defaultSignatureIntent}
         collectDeviceInfo={collectDeviceInfo}
+        biometricEncryption={biometricEncryption}
+        auditLog={auditLog}
+        renderedDocumentHash={documentHash}
+        onError={onError}
+        reauthenticate={reauthenticate}
+        reauthentication={reauthentication}
+        adoptedSignature={adoptedSignature}
+        onForgetAdoptedSignature={forgetAdoptedSignature}
       />
+
+      {kioskSigners && isHandoffOpen && !authoring && (
+        <KioskHandoff
+          candidates={kioskCandidates}
+          verifyIdentity={kiosk?.verifyIdentity}
+          onConfirm={handleKioskConfirm}
+          onReject={handleKioskReject}
+        />
+      )}
     </div>
   );
 });
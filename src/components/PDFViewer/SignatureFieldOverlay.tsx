@@ -1,9 +1,43 @@
 import React from 'react';
-import { SignatureField } from '../../types';
+import { ManifestationTemplate, SignatureData, SignatureField, SignatureVerificationStatus } from '../../types';
+import { SignatureManifestation } from './SignatureManifestation';
+
+// Presentation of digital signatures that were already in the loaded PDF
+const VERIFICATION_DISPLAY: Record<
+  SignatureVerificationStatus,
+  { icon: string; text: string; color: string; background: string }
+> = {
+  valid: { icon: '✓', text: 'Signature valid', color: '#4CAF50', background: 'rgba(76, 175, 80, 0.1)' },
+  'modified-after-signing': {
+    icon: '⚠',
+    text: 'Modified after signing',
+    color: '#F44336',
+    background: 'rgba(244, 67, 54, 0.1)',
+  },
+  'untrusted-cert': {
+    icon: '⚠',
+    text: 'Untrusted certificate',
+    color: '#FF9800',
+    background: 'rgba(255, 152, 0, 0.1)',
+  },
+  invalid: { icon: '✗', text: 'Invalid signature', color: '#F44336', background: 'rgba(244, 67, 54, 0.1)' },
+};
+
+// Unsigned fields: signatures in blue, initials in purple
+const UNSIGNED_DISPLAY = {
+  signature: { label: 'Click to Sign', ariaLabel: 'Click to sign', color: '#2196F3', background: 'rgba(33, 150, 243, 0.1)' },
+  initials: { label: 'Initial', ariaLabel: 'Click to initial', color: '#9C27B0', background: 'rgba(156, 39, 176, 0.1)' },
+};
+
+// Unsigned fields for another signer role, or waiting for an earlier one
+const LOCKED_DISPLAY = { color: '#9E9E9E', background: 'rgba(158, 158, 158, 0.1)' };
 
 interface SignatureFieldOverlayProps {
   field: SignatureField;
   isSigned: boolean;
+  isLocked?: boolean; // Not signable by the current signer
+  signature?: SignatureData; // Captured in this session; drawn with its manifestation
+  manifestationTemplate?: ManifestationTemplate;
   onClick: () => void;
   scale: number;
   pageWidth: number;
@@ -13,12 +47,26 @@ interface SignatureFieldOverlayProps {
 export const SignatureFieldOverlay: React.FC<SignatureFieldOverlayProps> = ({
   field,
   isSigned,
+  isLocked = false,
+  signature,
+  manifestationTemplate,
   onClick,
   scale,
   pageWidth,
   pageHeight,
 }) => {
-  const { boundingBox } = field;
+  const { boundingBox, verificationStatus } = field;
+  const verification = verificationStatus ? VERIFICATION_DISPLAY[verificationStatus] : null;
+  const signedColor = verification?.color ?? '#4CAF50';
+  const kind = field.kind ?? 'signature';
+  const locked = !isSigned && isLocked;
+  const unsigned = locked
+    ? {
+      ...LOCKED_DISPLAY,
+      label: field.role ? `For ${field.role}` : 'Waiting',
+      ariaLabel: field.role ? `For ${field.role}, not available to sign` : 'Not available to sign yet',
+    }
+    : UNSIGNED_DISPLAY[kind];
 
   const style: React.CSSProperties = {
     position: 'absolute',
@@ -26,36 +74,55 @@ export const SignatureFieldOverlay: React.FC<SignatureFieldOverlayProps> = ({
     top: `${(boundingBox.y / pageHeight) * 100}%`,
     width: `${(boundingBox.width / pageWidth) * 100}%`,
     height: `${(boundingBox.height / pageHeight) * 100}%`,
-    border: isSigned ? '2px solid #4CAF50' : '2px dashed #2196F3',
-    backgroundColor: isSigned ? 'rgba(76, 175, 80, 0.1)' : 'rgba(33, 150, 243, 0.1)',
-    cursor: isSigned ? 'default' : 'pointer',
+    border: isSigned ? `2px solid ${signedColor}` : `2px dashed ${unsigned.color}`,
+    backgroundColor: isSigned
+      ? verification?.background ?? 'rgba(76, 175, 80, 0.1)'
+      : unsigned.background,
+    cursor: isSigned ? 'default' : locked ? 'not-allowed' : 'pointer',
     display: 'flex',
     alignItems: 'center',
     justifyContent: 'center',
     fontSize: '12px',
-    color: isSigned ? '#4CAF50' : '#2196F3',
+    color: isSigned ? signedColor : unsigned.color,
     fontWeight: 'bold',
-    pointerEvents: isSigned ? 'none' : 'auto',
+    pointerEvents: isSigned || locked ? 'none' : 'auto',
   };
 
+  const signedLabel = verification
+    ? `${verification.icon} ${verification.text}${field.signedBy ? ` (${field.signedBy})` : ''}`
+    : kind === 'initials'
+      ? '✓ Initialed'
+      : `✓ Signed${field.signedIntent ? `: ${field.signedIntent}` : ''}`;
+
   return (
     <div
-      className={`signature-field-overlay ${isSigned ? 'signed' : 'unsigned'}`}
+      className={`signature-field-overlay ${kind} ${isSigned ? 'signed' : 'unsigned'}${locked ? ' locked' : ''}`}
       style={style}
       onClick={onClick}
       data-testid={`signature-field-${field.id}`}
       data-signed={isSigned}
+      data-kind={kind}
+      data-role={field.role}
+      aria-disabled={locked || undefined}
+      data-verification-status={verificationStatus}
       role="button"
-      tabIndex={isSigned ? -1 : 0}
-      aria-label={`${isSigned ? 'Signed' : 'Click to sign'}: ${field.fieldName}`}
+      tabIndex={isSigned || locked ? -1 : 0}
+      aria-label={`${isSigned ? verification?.text ?? 'Signed' : unsigned.ariaLabel}: ${field.fieldName}`}
       onKeyDown={(e) => {
-        if (!isSigned && (e.key === 'Enter' || e.key === ' ')) {
+        if (!isSigned && !locked && (e.key === 'Enter' || e.key === ' ')) {
           e.preventDefault();
           onClick();
         }
       }}
     >
-      {isSigned ? '✓ Signed' : 'Click to Sign'}
+      {isSigned && signature ? (
+        <SignatureManifestation
+          field={field}
+          signature={signature}
+          scale={scale}
+          template={manifestationTemplate}
+        />
+      ) : isSigned ? signedLabel : unsigned.label}
     </div>
   );
 };
@@ -0,0 +1,84 @@
+import React from 'react';
+import { ManifestationRect, ManifestationTemplate, SignatureData, SignatureField } from '../../types';
+import { validateImageDataUrl } from '../../utils/signature-utils';
+import { layoutManifestation, renderManifestationLines } from '../../utils/manifestation-utils';
+import { SIGNATURE_STROKE_WIDTH, strokesToSvgPath } from '../../utils/stroke-utils';
+
+interface SignatureManifestationProps {
+  field: SignatureField;
+  signature: SignatureData;
+  scale: number;
+  template?: ManifestationTemplate;
+}
+
+/**
+ * CFR Part 11.50(b): Signature image with the signer's name, date and
+ * meaning, laid out exactly as in the flattened PDF (see layoutManifestation)
+ */
+export const SignatureManifestation: React.FC<SignatureManifestationProps> = ({
+  field,
+  signature,
+  scale,
+  template,
+}) => {
+  const { width, height } = field.boundingBox;
+  const { strokes, canvasSize } = signature;
+  const lines = renderManifestationLines(signature, template);
+  const layout = layoutManifestation({ width, height }, lines.length, template);
+
+  const area = (rect: ManifestationRect): React.CSSProperties => ({
+    position: 'absolute',
+    left: `${(rect.x / width) * 100}%`,
+    top: `${(rect.y / height) * 100}%`,
+    width: `${(rect.width / width) * 100}%`,
+    height: `${(rect.height / height) * 100}%`,
+  });
+
+  return (
+    <div className="signature-manifestation" data-testid={`signature-manifestation-${field.id}`}>
+      {/* Drawn strokes are traced as a vector path so they stay sharp at any zoom */}
+      {strokes && canvasSize ? (
+        <svg
+          viewBox={`0 0 ${canvasSize.width} ${canvasSize.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          role="img"
+          aria-label={`Signature of ${signature.signerName}`}
+          className="signature-manifestation-image"
+          style={area(layout.image)}
+        >
+          <path
+            d={strokesToSvgPath(strokes)}
+            fill="none"
+            stroke="#000"
+            strokeWidth={SIGNATURE_STROKE_WIDTH}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        </svg>
+      ) : validateImageDataUrl(signature.data) && (
+        /* SECURITY: Only raster data URLs are rendered (see validateImageDataUrl) */
+        <img
+          src={signature.data}
+          alt={`Signature of ${signature.signerName}`}
+          className="signature-manifestation-image"
+          style={{ ...area(layout.image), objectFit: 'contain' }}
+        />
+      )}
+      {layout.text && (
+        <div
+          className="signature-manifestation-text"
+          style={{
+            ...area(layout.text),
+            fontSize: `${layout.fontSize * scale}px`,
+            lineHeight: `${layout.lineHeight * scale}px`,
+            textAlign: template?.layout === 'right' ? 'left' : 'center',
+          }}
+        >
+          {lines.map((line, index) => (
+            <div key={index}>{line}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
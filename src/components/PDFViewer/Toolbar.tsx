@@ -11,6 +11,9 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onPreviousSignature,
   currentSignatureIndex,
   totalSignatures,
+  signatureCounts,
+  completionBlockers,
+  roleStatus,
 }) => {
   const handleZoomIn = () => {
     onZoomChange(Math.min(zoom + 0.25, 3.0));
@@ -103,6 +106,43 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           >
             Next Signature →
           </button>
+          {signatureCounts && signatureCounts.initials.total > 0 && (
+            <span className="pdf-toolbar-text pdf-toolbar-progress" data-testid="signature-progress">
+              Signatures {signatureCounts.signatures.signed}/{signatureCounts.signatures.total}
+              {' · '}
+              Initials {signatureCounts.initials.signed}/{signatureCounts.initials.total}
+            </span>
+          )}
+        </div>
+      )}
+
+      {roleStatus && roleStatus.waitingOn.length > 0 && (
+        <div className="pdf-toolbar-section">
+          <span
+            className="pdf-toolbar-text pdf-toolbar-waiting"
+            role="status"
+            title={roleStatus.roles
+              .map((progress) => `${progress.role}: ${progress.signed}/${progress.required} signed`)
+              .join('\n')}
+            data-testid="waiting-on"
+          >
+            Waiting on {roleStatus.waitingOn.join(', ')}
+            {!roleStatus.canSign && ' to sign first'}
+          </span>
+        </div>
+      )}
+
+      {completionBlockers && completionBlockers.length > 0 && (
+        <div className="pdf-toolbar-section">
+          <span
+            className="pdf-toolbar-text pdf-toolbar-blockers"
+            role="status"
+            title={completionBlockers.map((blocker) => blocker.message).join('\n')}
+            data-testid="completion-blockers"
+          >
+            {completionBlockers[0].message}
+            {completionBlockers.length > 1 && ` (+${completionBlockers.length - 1} more)`}
+          </span>
         </div>
       )}
     </div>
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ReauthenticationPromptProps } from '../../types';
+
+const CREDENTIAL_INPUTS = {
+  password: {
+    label: 'Password',
+    autoComplete: 'current-password',
+    inputMode: 'text',
+  },
+  otp: {
+    label: 'One-time code',
+    autoComplete: 'one-time-code',
+    inputMode: 'numeric',
+  },
+} as const;
+
+/**
+ * CFR Part 11.200: Credential prompt shown between preview and apply
+ *
+ * SECURITY: The credential lives only in this component's state and is
+ * cleared as soon as it is submitted.
+ */
+export const ReauthenticationPrompt: React.FC<ReauthenticationPromptProps> = ({
+  credentialType,
+  remainingAttempts,
+  isVerifying,
+  lockedOut,
+  error,
+  onSubmit,
+  onBack,
+  onClose,
+}) => {
+  const [credential, setCredential] = useState('');
+  const { label, autoComplete, inputMode } = CREDENTIAL_INPUTS[credentialType];
+
+  if (lockedOut) {
+    return (
+      <div className="signature-reauth-container">
+        <div className="signature-validation-error" role="alert" style={{
+          padding: '20px',
+          textAlign: 'center',
+          color: '#d32f2f',
+          backgroundColor: '#ffebee',
+          borderRadius: '4px',
+        }}>
+          <h3 style={{ marginBottom: '8px' }}>Signing Locked</h3>
+          <p style={{ marginBottom: '16px', fontSize: '14px' }}>
+            Too many failed attempts. Contact your administrator to restore signing access.
+          </p>
+          <button onClick={onClose} className="signature-btn signature-btn-secondary">
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!credential || isVerifying) return;
+    onSubmit(credential);
+    setCredential('');
+  };
+
+  return (
+    <form className="signature-reauth-container" onSubmit={handleSubmit}>
+      <div className="signature-preview-header">
+        <h3>Confirm Your Identity</h3>
+      </div>
+      <p className="signature-reauth-hint">
+        Re-enter your {label.toLowerCase()} to apply this signature.
+      </p>
+      <input
+        type="password"
+        value={credential}
+        onChange={(e) => setCredential(e.target.value)}
+        className="signature-typed-input"
+        aria-label={label}
+        placeholder={label}
+        autoComplete={autoComplete}
+        inputMode={inputMode}
+        disabled={isVerifying}
+        autoFocus
+        aria-invalid={error !== null}
+        aria-describedby={error ? 'signature-reauth-error' : undefined}
+      />
+      {error && (
+        <div
+          id="signature-reauth-error"
+          className="signature-validation-error"
+          role="alert"
+          style={{
+            color: '#d32f2f',
+            fontSize: '0.875rem',
+            padding: '0.5rem',
+            backgroundColor: '#ffebee',
+            borderRadius: '4px',
+            border: '1px solid #ffcdd2',
+          }}
+        >
+          {error} {remainingAttempts > 0 && `(${remainingAttempts} attempt${remainingAttempts === 1 ? '' : 's'} remaining)`}
+        </div>
+      )}
+      <div className="signature-preview-actions">
+        <button type="button" onClick={onBack} disabled={isVerifying} className="signature-btn signature-btn-secondary">
+          Back
+        </button>
+        <button type="submit" disabled={!credential || isVerifying} className="signature-btn signature-btn-primary">
+          {isVerifying ? 'Verifying...' : 'Confirm and Sign'}
+        </button>
+      </div>
+    </form>
+  );
+};
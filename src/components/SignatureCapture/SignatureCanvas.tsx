@@ -1,7 +1,9 @@
 import React, { useRef, useEffect, useState } from 'react';
 import SignaturePad from 'signature_pad';
-import { SignatureCanvasProps } from '../../types';
-import { createCFRCompliantSignature } from '../../utils/signature-utils';
+import { EncryptedBiometricRecord, SignatureCanvasProps } from '../../types';
+import { createCFRCompliantSignature, handleDocumentHashMismatch } from '../../utils/signature-utils';
+import { toSignatureStrokes } from '../../utils/stroke-utils';
+import { createBiometricRecord, encryptBiometricRecord, stripStrokeDynamics } from '../../utils/biometric-utils';
 
 export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
   onComplete,
@@ -11,6 +13,10 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
   signatureContext,
   defaultSignatureIntent = 'I approve this document',
   collectDeviceInfo = false,
+  auditLog,
+  renderedDocumentHash,
+  onError,
+  biometricEncryption,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [signaturePad, setSignaturePad] = useState<SignaturePad | null>(null);
@@ -38,6 +44,7 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
   }, []);
 
   const handleClear = () => {
+    auditLog?.record('signature.canvas-cleared', { details: { strokes: signaturePad?.toData().length ?? 0 } });
     signaturePad?.clear();
     setIsEmpty(true);
   };
@@ -45,27 +52,68 @@ export const SignatureCanvas: React.FC<SignatureCanvasProps> = ({
   const handleApply = async () => {
     if (signaturePad && !signaturePad.isEmpty()) {
       const dataUrl = signaturePad.toDataURL('image/png');
+      // Vector record of the same signature, in canvas pixels
+      const canvasSize = { width, height };
+      let strokes = toSignatureStrokes(signaturePad.toData(), canvasSize);
+
+      // SECURITY: With biometric capture, timing and pressure leave the
+      // browser only inside the encrypted record; the plaintext strokes keep
+      // just the shape
+      let biometrics: EncryptedBiometricRecord | undefined;
+      if (biometricEncryption) {
+        try {
+          biometrics = await encryptBiometricRecord(createBiometricRecord(strokes, canvasSize), biometricEncryption);
+          strokes = stripStrokeDynamics(strokes);
+        } catch (error) {
+          console.error('[Security] Failed to encrypt biometric record:', error);
+          auditLog?.record('signature.validation-failed', {
+            details: { signatureType: 'drawn', message: (error as Error).message },
+          });
+          onError?.(error as Error);
+          alert('Failed to secure signature data. Please try again.');
+          return;
+        }
+      }
 
       // CFR Part 11 COMPLIANCE: Create signature with required fields
       if (signatureContext) {
         try {
           const signatureData = await createCFRCompliantSignature(
-            { type: 'drawn', data: dataUrl },
+            { type: 'drawn', data: dataUrl, strokes, canvasSize, biometrics },
             signatureContext,
             defaultSignatureIntent,
-            collectDeviceInfo // GDPR: Only collect if explicitly opted-in
+            collectDeviceInfo, // GDPR: Only collect if explicitly opted-in
+            renderedDocumentHash ?? null
           );
+          auditLog?.record('signature.captured', {
+            details: {
+              signatureType: 'drawn',
+              strokes: strokes.length,
+              biometrics: Boolean(biometrics),
+              signatureHash: signatureData.signatureHash,
+            },
+          });
           onComplete(signatureData);
         } catch (error) {
+          auditLog?.record('signature.validation-failed', {
+            details: { signatureType: 'drawn', message: (error as Error).message },
+          });
+          if (handleDocumentHashMismatch(error, onError)) return;
           console.error('Failed to create CFR-compliant signature:', error);
           alert('Failed to create signature. Please ensure all required fields are provided.');
         }
       } else {
         // Fallback for non-CFR environments (development/testing)
         console.warn('[CFR Part 11] signatureContext not provided - using minimal signature data');
+        auditLog?.record('signature.captured', {
+          details: { signatureType: 'drawn', strokes: strokes.length, signatureHash: null },
+        });
         onComplete({
           type: 'drawn',
           data: dataUrl,
+          strokes,
+          canvasSize,
+          biometrics,
           timestamp: new Date().toISOString(),
           // GDPR: Only collect userAgent if explicitly opted-in
           userAgent: collectDeviceInfo ? navigator.userAgent : undefined,
@@ -1,8 +1,42 @@
-import React, { useState } from 'react';
-import { SignatureDialogProps, SignatureData } from '../../types';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  SignatureDialogProps,
+  SignatureData,
+  ReauthenticationAttempts,
+  ReauthenticationResult,
+} from '../../types';
+import {
+  applyReauthentication,
+  getReauthenticationAttempts,
+  handleDocumentHashMismatch,
+  ReauthenticationLockoutError,
+  recordReauthenticationResult,
+} from '../../utils/signature-utils';
+import { reuseAdoptedSignature } from '../../utils/adoption-utils';
+import { DEFAULT_SIGNATURE_INTENT } from '../../utils/intent-utils';
 import { SignatureCanvas } from './SignatureCanvas';
 import { SignatureTyped } from './SignatureTyped';
+import { SignatureUpload } from './SignatureUpload';
+import { SignatureInitials } from './SignatureInitials';
 import { SignaturePreview } from './SignaturePreview';
+import { ReauthenticationPrompt } from './ReauthenticationPrompt';
+
+const DEFAULT_MAX_REAUTH_ATTEMPTS = 3;
+
+type CaptureMode = 'draw' | 'type' | 'upload';
+
+// Initials default to typed initials and cannot be uploaded
+const CAPTURE_MODES: Record<'signature' | 'initials', Array<{ mode: CaptureMode; label: string }>> = {
+  signature: [
+    { mode: 'draw', label: 'Draw' },
+    { mode: 'type', label: 'Type' },
+    { mode: 'upload', label: 'Upload' },
+  ],
+  initials: [
+    { mode: 'type', label: 'Type' },
+    { mode: 'draw', label: 'Draw' },
+  ],
+};
 
 export const SignatureDialog: React.FC<SignatureDialogProps> = ({
   isOpen,
@@ -12,31 +46,230 @@ export const SignatureDialog: React.FC<SignatureDialogProps> = ({
   signatureContext,
   defaultSignatureIntent,
   collectDeviceInfo,
+  biometricEncryption,
+  auditLog,
+  renderedDocumentHash,
+  onError,
+  reauthenticate,
+  reauthentication = {},
+  adoptedSignature,
+  onForgetAdoptedSignature,
 }) => {
-  const [mode, setMode] = useState<'draw' | 'type'>('draw');
+  const {
+    credentialType = 'password',
+    maxAttempts = DEFAULT_MAX_REAUTH_ATTEMPTS,
+    scope = 'every-signing',
+  } = reauthentication;
+
+  const [mode, setMode] = useState<CaptureMode>('draw');
   const [preview, setPreview] = useState<SignatureData | null>(null);
+  const [selectedIntent, setSelectedIntent] = useState<string | null>(null);
+  const [isReauthenticating, setIsReauthenticating] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [reauthError, setReauthError] = useState<string | null>(null);
+  // SECURITY: Failed attempts and lockout survive cancel/reopen, so closing the
+  // dialog cannot reset the retry limit (CWE-307). They are kept per signer,
+  // so kiosk signers do not inherit each other's failures or lockout.
+  const [reauthAttempts, setReauthAttempts] = useState<Record<string, ReauthenticationAttempts>>({});
+  const [sessionAuth, setSessionAuth] = useState<{
+    sessionId: string;
+    signerId: string; // Kiosk sessions have several signers; each re-authenticates
+    authMethod: string;
+    authenticatedAt: string;
+  } | null>(null);
+  // Bumped on cancel so a re-authentication still in flight cannot apply the signature
+  const attemptTokenRef = useRef(0);
+  const fieldId = isOpen ? field?.id : undefined;
+  const fieldKind = field?.kind ?? 'signature';
+
+  useEffect(() => {
+    setSelectedIntent(null);
+    setMode(CAPTURE_MODES[fieldKind][0].mode);
+    if (fieldId) {
+      auditLog?.record('signature.dialog-opened', { fieldId, details: { kind: fieldKind } });
+    }
+  }, [fieldId, fieldKind, auditLog]);
 
   if (!isOpen || !field) return null;
 
+  const { remaining: remainingAttempts, lockedOut } = getReauthenticationAttempts(
+    reauthAttempts,
+    preview?.signerId ?? signatureContext?.signerId ?? '',
+    maxAttempts
+  );
+
+  // CFR Part 11.50(a)(3): A field allowing several meanings requires the signer to pick one
+  const intents = field.intents?.length ? field.intents : [defaultSignatureIntent ?? DEFAULT_SIGNATURE_INTENT];
+  const signatureIntent = intents.length === 1 ? intents[0] : selectedIntent;
+
+  const handleIntentChange = (intent: string) => {
+    auditLog?.record('signature.intent-selected', { fieldId: field.id, details: { intent } });
+    setSelectedIntent(intent);
+  };
+
+  const handleModeChange = (nextMode: CaptureMode) => {
+    if (nextMode === mode) return;
+    auditLog?.record('signature.mode-changed', { fieldId: field.id, details: { from: mode, to: nextMode } });
+    setMode(nextMode);
+  };
+
   const handleComplete = (data: SignatureData) => {
     setPreview(data);
   };
 
-  const handleApply = () => {
-    if (preview) {
-      onComplete(preview);
-      setPreview(null);
-      setMode('draw');
+  const finish = (data: SignatureData) => {
+    onComplete(data);
+    setPreview(null);
+    setIsReauthenticating(false);
+    setReauthError(null);
+  };
+
+  const apply = async (signature: SignatureData) => {
+    if (!reauthenticate) {
+      finish(signature);
+      return;
+    }
+
+    // CFR Part 11.200(a)(1)(i): later signings in the same session may reuse the first
+    if (
+      scope === 'first-in-session' &&
+      sessionAuth?.sessionId === signature.sessionId &&
+      sessionAuth.signerId === signature.signerId
+    ) {
+      const token = attemptTokenRef.current;
+      const data = await applyReauthentication(signature, sessionAuth.authMethod, sessionAuth.authenticatedAt);
+      if (token === attemptTokenRef.current) finish(data);
+      return;
+    }
+
+    auditLog?.record('signature.reauth-requested', { fieldId: field.id, details: { credentialType } });
+    setPreview(signature);
+    setReauthError(null);
+    setIsReauthenticating(true);
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+
+    auditLog?.record('signature.preview-accepted', {
+      fieldId: field.id,
+      details: { signatureType: preview.type, signatureHash: preview.signatureHash },
+    });
+    await apply(preview);
+  };
+
+  // One click: the adopted image is signed anew for this field (own timestamp,
+  // meaning and signatureHash), then re-authenticated like any other signature
+  const handleReuseAdopted = async () => {
+    if (!adoptedSignature || !signatureContext || !signatureIntent) return;
+
+    const token = attemptTokenRef.current;
+    let data: SignatureData;
+    try {
+      data = await reuseAdoptedSignature(
+        adoptedSignature,
+        signatureContext,
+        signatureIntent,
+        collectDeviceInfo,
+        renderedDocumentHash ?? null
+      );
+    } catch (error) {
+      auditLog?.record('signature.validation-failed', {
+        fieldId: field.id,
+        details: { signatureType: adoptedSignature.type, adopted: true, message: (error as Error).message },
+      });
+      if (handleDocumentHashMismatch(error, onError)) return;
+      console.error('Failed to reuse adopted signature:', error);
+      alert('Failed to create signature. Please sign again.');
+      return;
+    }
+    if (token !== attemptTokenRef.current) return;
+
+    auditLog?.record('signature.adopted-reused', {
+      fieldId: field.id,
+      details: { signatureType: data.type, adoptedAt: adoptedSignature.adoptedAt, signatureHash: data.signatureHash },
+    });
+    await apply(data);
+  };
+
+  const handleForgetAdopted = () => {
+    auditLog?.record('signature.adopted-forgotten', { fieldId: field.id });
+    onForgetAdoptedSignature?.();
+  };
+
+  const handleReauthSubmit = async (credential: string) => {
+    if (!preview || !reauthenticate) return;
+
+    const token = attemptTokenRef.current;
+    const attempt = getReauthenticationAttempts(reauthAttempts, preview.signerId, maxAttempts).failed + 1;
+    setIsVerifying(true);
+
+    let result: ReauthenticationResult;
+    try {
+      result = await reauthenticate({
+        signerId: preview.signerId,
+        sessionId: preview.sessionId,
+        credentialType,
+        credential,
+        attempt,
+        field,
+      });
+    } catch (err) {
+      // Infrastructure failures do not count against the signer's attempts
+      console.error('[Security] Re-authentication request failed:', err);
+      auditLog?.record('signature.reauth-failed', { fieldId: field.id, details: { attempt, error: true } });
+      setReauthError('Could not verify your credentials. Please try again.');
+      setIsVerifying(false);
+      return;
     }
+
+    setIsVerifying(false);
+    if (token !== attemptTokenRef.current) return;
+
+    if (result.success) {
+      const authMethod = result.authMethod ?? preview.authMethod;
+      const authenticatedAt = result.authenticatedAt ?? new Date().toISOString();
+      auditLog?.record('signature.reauth-succeeded', { fieldId: field.id, details: { attempt, authMethod } });
+      setReauthAttempts((attempts) => recordReauthenticationResult(attempts, preview.signerId, result, maxAttempts));
+      setSessionAuth({ sessionId: preview.sessionId, signerId: preview.signerId, authMethod, authenticatedAt });
+
+      const data = await applyReauthentication(preview, authMethod, authenticatedAt);
+      if (token === attemptTokenRef.current) finish(data);
+      return;
+    }
+
+    const updated = recordReauthenticationResult(reauthAttempts, preview.signerId, result, maxAttempts);
+    const { remaining } = updated[preview.signerId];
+    setReauthAttempts(updated);
+    auditLog?.record('signature.reauth-failed', { fieldId: field.id, details: { attempt, remainingAttempts: remaining } });
+
+    if (updated[preview.signerId].lockedOut) {
+      console.error(`[Security] Re-authentication locked out for signer ${preview.signerId} after ${attempt} attempts`);
+      auditLog?.record('signature.reauth-locked-out', { fieldId: field.id, details: { attempts: attempt } });
+      onError?.(new ReauthenticationLockoutError(preview.signerId, attempt));
+      return;
+    }
+
+    setReauthError(result.message ?? 'The credentials you entered are incorrect.');
+  };
+
+  const handleReauthBack = () => {
+    setIsReauthenticating(false);
+    setReauthError(null);
   };
 
   const handleEdit = () => {
+    auditLog?.record('signature.preview-edited', { fieldId: field.id, details: { signatureType: preview?.type ?? null } });
     setPreview(null);
   };
 
   const handleCancel = () => {
+    auditLog?.record('signature.dialog-cancelled', { fieldId: field.id, details: { mode, hadPreview: preview !== null } });
+    attemptTokenRef.current++;
     setPreview(null);
-    setMode('draw');
+    setIsReauthenticating(false);
+    setIsVerifying(false);
+    setReauthError(null);
     onCancel();
   };
 
@@ -44,7 +277,7 @@ export const SignatureDialog: React.FC<SignatureDialogProps> = ({
     <div className="signature-dialog-overlay" onClick={handleCancel}>
       <div className="signature-dialog" onClick={(e) => e.stopPropagation()}>
         <div className="signature-dialog-header">
-          <h2>Sign Here</h2>
+          <h2>{fieldKind === 'initials' ? 'Initial Here' : 'Sign Here'}</h2>
           <button
             onClick={handleCancel}
             className="signature-dialog-close"
@@ -54,48 +287,128 @@ export const SignatureDialog: React.FC<SignatureDialogProps> = ({
           </button>
         </div>
 
-        {!preview && (
+        {lockedOut && (
+          <div className="signature-dialog-content">
+            <ReauthenticationPrompt
+              credentialType={credentialType}
+              remainingAttempts={0}
+              isVerifying={false}
+              lockedOut
+              error={null}
+              onSubmit={() => {}}
+              onBack={handleCancel}
+              onClose={handleCancel}
+            />
+          </div>
+        )}
+
+        {!lockedOut && !preview && (
           <>
             <div className="signature-dialog-tabs">
-              <button
-                onClick={() => setMode('draw')}
-                className={`signature-tab ${mode === 'draw' ? 'active' : ''}`}
-              >
-                Draw
-              </button>
-              <button
-                onClick={() => setMode('type')}
-                className={`signature-tab ${mode === 'type' ? 'active' : ''}`}
-              >
-                Type
-              </button>
+              {CAPTURE_MODES[fieldKind].map(({ mode: tabMode, label }) => (
+                <button
+                  key={tabMode}
+                  onClick={() => handleModeChange(tabMode)}
+                  className={`signature-tab ${mode === tabMode ? 'active' : ''}`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
 
+            {intents.length > 1 && (
+              <fieldset className="signature-intent-picker">
+                <legend>Meaning of this signature (required)</legend>
+                {intents.map((intent) => (
+                  <label key={intent} className="signature-intent-option">
+                    <input
+                      type="radio"
+                      name={`signature-intent-${field.id}`}
+                      value={intent}
+                      checked={selectedIntent === intent}
+                      onChange={() => handleIntentChange(intent)}
+                    />
+                    {intent}
+                  </label>
+                ))}
+              </fieldset>
+            )}
+
             <div className="signature-dialog-content">
-              {mode === 'draw' && (
+              {!signatureIntent && (
+                <p className="signature-intent-required">Select the meaning of your signature to continue.</p>
+              )}
+              {signatureIntent && fieldKind === 'signature' && adoptedSignature && signatureContext && (
+                <div className="signature-adopted">
+                  <img src={adoptedSignature.data} alt="Your adopted signature" className="signature-adopted-image" />
+                  <div className="signature-adopted-actions">
+                    <button onClick={handleForgetAdopted} className="signature-btn signature-btn-secondary">
+                      Forget
+                    </button>
+                    <button onClick={handleReuseAdopted} className="signature-btn signature-btn-primary">
+                      Use This Signature
+                    </button>
+                  </div>
+                  <p className="signature-adopted-hint">Or sign below to replace it.</p>
+                </div>
+              )}
+              {signatureIntent && mode === 'draw' && (
                 <SignatureCanvas
+                  {...(fieldKind === 'initials' && { width: 250, height: 125 })}
                   onComplete={handleComplete}
                   onCancel={handleCancel}
                   signatureContext={signatureContext}
-                  defaultSignatureIntent={defaultSignatureIntent}
+                  defaultSignatureIntent={signatureIntent}
                   collectDeviceInfo={collectDeviceInfo}
+                  auditLog={auditLog}
+                  renderedDocumentHash={renderedDocumentHash}
+                  onError={onError}
+                  biometricEncryption={biometricEncryption}
                 />
               )}
-              {mode === 'type' && (
+              {signatureIntent && fieldKind === 'initials' && mode === 'type' && (
+                <SignatureInitials
+                  onComplete={handleComplete}
+                  onCancel={handleCancel}
+                  signatureContext={signatureContext}
+                  defaultSignatureIntent={signatureIntent}
+                  collectDeviceInfo={collectDeviceInfo}
+                  auditLog={auditLog}
+                  renderedDocumentHash={renderedDocumentHash}
+                  onError={onError}
+                />
+              )}
+              {signatureIntent && fieldKind === 'signature' && mode === 'type' && (
                 <SignatureTyped
                   onComplete={handleComplete}
                   onCancel={handleCancel}
                   signatureContext={signatureContext}
-                  defaultSignatureIntent={defaultSignatureIntent}
+                  defaultSignatureIntent={signatureIntent}
                   collectDeviceInfo={collectDeviceInfo}
+                  auditLog={auditLog}
+                  renderedDocumentHash={renderedDocumentHash}
+                  onError={onError}
+                />
+              )}
+              {signatureIntent && fieldKind === 'signature' && mode === 'upload' && (
+                <SignatureUpload
+                  onComplete={handleComplete}
+                  onCancel={handleCancel}
+                  signatureContext={signatureContext}
+                  defaultSignatureIntent={signatureIntent}
+                  collectDeviceInfo={collectDeviceInfo}
+                  auditLog={auditLog}
+                  renderedDocumentHash={renderedDocumentHash}
+                  onError={onError}
                 />
               )}
             </div>
           </>
         )}
 
-        {preview && (
+        {!lockedOut && preview && !isReauthenticating && (
           <div className="signature-dialog-content">
+            <p className="signature-intent-summary">Meaning: {preview.signerIntent}</p>
             <SignaturePreview
               dataUrl={preview.data}
               onApply={handleApply}
@@ -103,6 +416,21 @@ export const SignatureDialog: React.FC<SignatureDialogProps> = ({
             />
           </div>
         )}
+
+        {!lockedOut && preview && isReauthenticating && (
+          <div className="signature-dialog-content">
+            <ReauthenticationPrompt
+              credentialType={credentialType}
+              remainingAttempts={remainingAttempts}
+              isVerifying={isVerifying}
+              lockedOut={false}
+              error={reauthError}
+              onSubmit={handleReauthSubmit}
+              onBack={handleReauthBack}
+              onClose={handleCancel}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
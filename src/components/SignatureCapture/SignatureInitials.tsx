@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { SignatureInitialsProps } from '../../types';
+import { createCFRCompliantSignature, handleDocumentHashMismatch } from '../../utils/signature-utils';
+import { DEFAULT_INITIALS_INTENT } from '../../utils/intent-utils';
+import { deriveInitials, MAX_INITIALS_LENGTH } from '../../utils/initials-utils';
+
+// SECURITY: Letters only (CWE-20); the same characters typed signatures allow, minus punctuation
+const ALLOWED_INITIALS = /^[A-Za-z]+$/;
+const INITIALS_FONT = '"Dancing Script", "Brush Script MT", "Apple Chancery", cursive';
+
+function sanitizeInitials(text: string): string {
+  const initials = text.replace(/[\s.]/g, '').toUpperCase();
+  if (initials.length === 0) {
+    throw new Error('Enter your initials');
+  }
+  if (initials.length > MAX_INITIALS_LENGTH) {
+    throw new Error(`Initials must be ${MAX_INITIALS_LENGTH} letters or less`);
+  }
+  if (!ALLOWED_INITIALS.test(initials)) {
+    throw new Error('Initials can only contain letters');
+  }
+  return initials;
+}
+
+export const SignatureInitials: React.FC<SignatureInitialsProps> = ({
+  onComplete,
+  onCancel,
+  signatureContext,
+  defaultSignatureIntent = DEFAULT_INITIALS_INTENT,
+  collectDeviceInfo = false,
+  auditLog,
+  renderedDocumentHash,
+  onError,
+}) => {
+  // Suggested from the authenticated signer's name; the signer can edit it
+  const [text, setText] = useState(() => deriveInitials(signatureContext?.signerName ?? ''));
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    let initials: string;
+    try {
+      initials = sanitizeInitials(text);
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      setValidationError(errorMessage);
+      auditLog?.record('signature.validation-failed', {
+        details: { signatureType: 'typed', initials: true, message: errorMessage },
+      });
+      return;
+    }
+    setValidationError(null);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 250;
+    canvas.height = 125;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.font = `64px ${INITIALS_FONT}`;
+    ctx.fillStyle = 'black';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(initials, canvas.width / 2, canvas.height / 2);
+    const dataUrl = canvas.toDataURL('image/png');
+
+    // CFR Part 11 COMPLIANCE: Create signature with required fields
+    if (signatureContext) {
+      try {
+        const signatureData = await createCFRCompliantSignature(
+          { type: 'typed', data: dataUrl },
+          signatureContext,
+          defaultSignatureIntent,
+          collectDeviceInfo, // GDPR: Only collect if explicitly opted-in
+          renderedDocumentHash ?? null
+        );
+        auditLog?.record('signature.captured', {
+          details: { signatureType: 'typed', initials: true, signatureHash: signatureData.signatureHash },
+        });
+        onComplete(signatureData);
+      } catch (error) {
+        auditLog?.record('signature.validation-failed', {
+          details: { signatureType: 'typed', initials: true, message: (error as Error).message },
+        });
+        if (handleDocumentHashMismatch(error, onError)) return;
+        console.error('Failed to create CFR-compliant signature:', error);
+        alert('Failed to create signature. Please ensure all required fields are provided.');
+      }
+    } else {
+      // Fallback for non-CFR environments (development/testing)
+      console.warn('[CFR Part 11] signatureContext not provided - using minimal signature data');
+      auditLog?.record('signature.captured', {
+        details: { signatureType: 'typed', initials: true, signatureHash: null },
+      });
+      onComplete({
+        type: 'typed',
+        data: dataUrl,
+        timestamp: new Date().toISOString(),
+        // GDPR: Only collect userAgent if explicitly opted-in
+        userAgent: collectDeviceInfo ? navigator.userAgent : undefined,
+        // Required CFR fields with placeholder values
+        signerName: 'Not Provided',
+        signerId: 'not-provided',
+        signerIntent: defaultSignatureIntent,
+        authMethod: 'unknown',
+        signatureHash: 'not-computed',
+        documentHash: 'not-provided',
+        sessionId: 'not-provided',
+        signatureVersion: '1.0.0',
+      });
+    }
+  };
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setText(e.target.value);
+    if (validationError) {
+      setValidationError(null);
+    }
+  };
+
+  return (
+    <div className="signature-initials-container">
+      <div className="signature-initials-row">
+        <input
+          type="text"
+          value={text}
+          onChange={handleTextChange}
+          placeholder="Initials"
+          className="signature-initials-input"
+          maxLength={MAX_INITIALS_LENGTH + 4}
+          autoFocus
+          aria-label="Your initials"
+          aria-invalid={validationError !== null}
+          aria-describedby={validationError ? 'signature-initials-error' : undefined}
+        />
+        <div className="signature-initials-preview" style={{ fontFamily: INITIALS_FONT }}>
+          {text.replace(/[\s.]/g, '').toUpperCase() || 'Preview'}
+        </div>
+      </div>
+      {validationError && (
+        <div
+          id="signature-initials-error"
+          className="signature-validation-error"
+          role="alert"
+          style={{
+            color: '#d32f2f',
+            fontSize: '0.875rem',
+            padding: '0.5rem',
+            backgroundColor: '#ffebee',
+            borderRadius: '4px',
+            border: '1px solid #ffcdd2',
+          }}
+        >
+          {validationError}
+        </div>
+      )}
+
+      <div className="signature-initials-actions">
+        <button onClick={onCancel} className="signature-btn signature-btn-secondary">
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!text.trim()}
+          className="signature-btn signature-btn-primary"
+        >
+          Apply Initials
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { SignatureTypedProps } from '../../types';
-import { createCFRCompliantSignature } from '../../utils/signature-utils';
+import { createCFRCompliantSignature, handleDocumentHashMismatch } from '../../utils/signature-utils';
 
 /**
  * SECURITY: Input validation constants for typed signatures
@@ -55,6 +55,10 @@ const SIGNATURE_FONTS = [
   },
 ];
 
+function fontName(value: string): string {
+  return SIGNATURE_FONTS.find((font) => font.value === value)?.name ?? value;
+}
+
 /**
  * SECURITY: Sanitize and validate typed signature text
  *
@@ -102,6 +106,9 @@ export const SignatureTyped: React.FC<SignatureTypedProps> = ({
   signatureContext,
   defaultSignatureIntent = 'I approve this document',
   collectDeviceInfo = false,
+  auditLog,
+  renderedDocumentHash,
+  onError,
 }) => {
   const [text, setText] = useState(defaultName);
   const [selectedFont, setSelectedFont] = useState(SIGNATURE_FONTS[0].value);
@@ -175,16 +182,27 @@ export const SignatureTyped: React.FC<SignatureTypedProps> = ({
               { type: 'typed', data: dataUrl },
               signatureContext,
               defaultSignatureIntent,
-              collectDeviceInfo // GDPR: Only collect if explicitly opted-in
+              collectDeviceInfo, // GDPR: Only collect if explicitly opted-in
+              renderedDocumentHash ?? null
             );
+            auditLog?.record('signature.captured', {
+              details: { signatureType: 'typed', font: fontName(selectedFont), signatureHash: signatureData.signatureHash },
+            });
             onComplete(signatureData);
           } catch (error) {
+            auditLog?.record('signature.validation-failed', {
+              details: { signatureType: 'typed', message: (error as Error).message },
+            });
+            if (handleDocumentHashMismatch(error, onError)) return;
             console.error('Failed to create CFR-compliant signature:', error);
             alert('Failed to create signature. Please ensure all required fields are provided.');
           }
         } else {
           // Fallback for non-CFR environments (development/testing)
           console.warn('[CFR Part 11] signatureContext not provided - using minimal signature data');
+          auditLog?.record('signature.captured', {
+            details: { signatureType: 'typed', font: fontName(selectedFont), signatureHash: null },
+          });
           onComplete({
             type: 'typed',
             data: dataUrl,
@@ -207,10 +225,17 @@ export const SignatureTyped: React.FC<SignatureTypedProps> = ({
       // Display validation error to user
       const errorMessage = error instanceof Error ? error.message : 'Invalid signature format';
       setValidationError(errorMessage);
+      auditLog?.record('signature.validation-failed', { details: { signatureType: 'typed', message: errorMessage } });
       console.warn('[Input Validation] Typed signature validation failed:', errorMessage);
     }
   };
 
+  const handleFontChange = (font: string) => {
+    if (font === selectedFont) return;
+    auditLog?.record('signature.font-changed', { details: { from: fontName(selectedFont), to: fontName(font) } });
+    setSelectedFont(font);
+  };
+
   // Clear validation error when user types
   const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setText(e.target.value);
@@ -258,7 +283,7 @@ export const SignatureTyped: React.FC<SignatureTypedProps> = ({
         {SIGNATURE_FONTS.map((font) => (
           <button
             key={font.value}
-            onClick={() => setSelectedFont(font.value)}
+            onClick={() => handleFontChange(font.value)}
             className={`signature-font-btn ${
               selectedFont === font.value ? 'selected' : ''
             }`}
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { SignatureUploadProps } from '../../types';
+import { createCFRCompliantSignature, handleDocumentHashMismatch } from '../../utils/signature-utils';
+import { processSignatureUpload, SignatureUploadError } from '../../utils/upload-utils';
+
+export const SignatureUpload: React.FC<SignatureUploadProps> = ({
+  onComplete,
+  onCancel,
+  signatureContext,
+  defaultSignatureIntent = 'I approve this document',
+  collectDeviceInfo = false,
+  auditLog,
+  renderedDocumentHash,
+  onError,
+}) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [fileType, setFileType] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setDataUrl(null);
+    setValidationError(null);
+    setIsProcessing(true);
+    try {
+      setDataUrl(await processSignatureUpload(file));
+      setFileType(file.type);
+    } catch (error) {
+      // Only messages written for the signer are shown; decoder errors stay in the console
+      const errorMessage = error instanceof SignatureUploadError ? error.message : 'The image could not be read';
+      setValidationError(errorMessage);
+      auditLog?.record('signature.validation-failed', { details: { signatureType: 'uploaded', message: errorMessage } });
+      console.warn('[Input Validation] Signature upload rejected:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!dataUrl) return;
+
+    // CFR Part 11 COMPLIANCE: Create signature with required fields
+    if (signatureContext) {
+      try {
+        const signatureData = await createCFRCompliantSignature(
+          { type: 'uploaded', data: dataUrl },
+          signatureContext,
+          defaultSignatureIntent,
+          collectDeviceInfo, // GDPR: Only collect if explicitly opted-in
+          renderedDocumentHash ?? null
+        );
+        auditLog?.record('signature.captured', {
+          details: { signatureType: 'uploaded', fileType, signatureHash: signatureData.signatureHash },
+        });
+        onComplete(signatureData);
+      } catch (error) {
+        auditLog?.record('signature.validation-failed', {
+          details: { signatureType: 'uploaded', message: (error as Error).message },
+        });
+        if (handleDocumentHashMismatch(error, onError)) return;
+        console.error('Failed to create CFR-compliant signature:', error);
+        alert('Failed to create signature. Please ensure all required fields are provided.');
+      }
+    } else {
+      // Fallback for non-CFR environments (development/testing)
+      console.warn('[CFR Part 11] signatureContext not provided - using minimal signature data');
+      auditLog?.record('signature.captured', {
+        details: { signatureType: 'uploaded', fileType, signatureHash: null },
+      });
+      onComplete({
+        type: 'uploaded',
+        data: dataUrl,
+        timestamp: new Date().toISOString(),
+        // GDPR: Only collect userAgent if explicitly opted-in
+        userAgent: collectDeviceInfo ? navigator.userAgent : undefined,
+        // Required CFR fields with placeholder values
+        signerName: 'Not Provided',
+        signerId: 'not-provided',
+        signerIntent: defaultSignatureIntent,
+        authMethod: 'unknown',
+        signatureHash: 'not-computed',
+        documentHash: 'not-provided',
+        sessionId: 'not-provided',
+        signatureVersion: '1.0.0',
+      });
+    }
+  };
+
+  return (
+    <div className="signature-upload-container">
+      <input
+        type="file"
+        accept="image/png,image/jpeg"
+        onChange={handleFileChange}
+        className="signature-upload-input"
+        aria-label="Signature image"
+        aria-invalid={validationError !== null}
+        aria-describedby={validationError ? 'signature-upload-error' : undefined}
+      />
+      <p className="signature-upload-hint">
+        PNG or JPEG of your signature on a white background. The background is removed automatically.
+      </p>
+      {validationError && (
+        <div
+          id="signature-upload-error"
+          className="signature-validation-error"
+          role="alert"
+          style={{
+            color: '#d32f2f',
+            fontSize: '0.875rem',
+            padding: '0.5rem',
+            backgroundColor: '#ffebee',
+            borderRadius: '4px',
+            border: '1px solid #ffcdd2',
+          }}
+        >
+          {validationError}
+        </div>
+      )}
+
+      <div className="signature-upload-preview">
+        {isProcessing && 'Processing image...'}
+        {!isProcessing && dataUrl && <img src={dataUrl} alt="Uploaded signature" />}
+        {!isProcessing && !dataUrl && 'Preview'}
+      </div>
+
+      <div className="signature-upload-actions">
+        <button onClick={onCancel} className="signature-btn signature-btn-secondary">
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!dataUrl || isProcessing}
+          className="signature-btn signature-btn-primary"
+        >
+          Apply Signature
+        </button>
+      </div>
+    </div>
+  );
+};
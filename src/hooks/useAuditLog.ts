@@ -0,0 +1,36 @@
+import { useRef, useEffect } from 'react';
+import { AuditEntry, AuditLog, AuditLogOptions } from '../types';
+import { createAuditLog } from '../utils/audit-utils';
+
+/**
+ * Hold one hash-chained audit log for the lifetime of a component
+ *
+ * The log itself never changes identity, so it can be passed to child
+ * components without re-rendering them. The latest actor, sink and error
+ * handler are always used, so inline callbacks are fine.
+ */
+export function useAuditLog(options: AuditLogOptions = {}): AuditLog {
+  const { actor, sink, onSinkError } = options;
+  const sinkRef = useRef(sink);
+  const onSinkErrorRef = useRef(onSinkError);
+  const actorRef = useRef(actor);
+  const logRef = useRef<AuditLog | null>(null);
+  // Updated during render, so entries recorded by child effects already see it
+  actorRef.current = actor;
+
+  useEffect(() => {
+    sinkRef.current = sink;
+    onSinkErrorRef.current = onSinkError;
+  }, [sink, onSinkError]);
+
+  if (!logRef.current) {
+    // Each entry records the actor of the latest render (the kiosk signer, if any)
+    logRef.current = createAuditLog({
+      actor: () => (typeof actorRef.current === 'function' ? actorRef.current() : actorRef.current),
+      sink: (entry: AuditEntry) => sinkRef.current?.(entry),
+      onSinkError: (error, entry) => onSinkErrorRef.current?.(error, entry),
+    });
+  }
+
+  return logRef.current;
+}
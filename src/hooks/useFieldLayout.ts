@@ -0,0 +1,48 @@
+import { useState, useCallback, useMemo } from 'react';
+import { AuthoredField, AuthoredFieldType, BoundingBox } from '../types';
+import { createFieldLayout, generateAuthoredFieldId, nextFieldName } from '../utils/layout-utils';
+
+/**
+ * Track the fields placed with the field editor
+ *
+ * initialFields seeds the editor once; later changes to it are ignored so
+ * an inline array does not discard the author's edits.
+ */
+export function useFieldLayout(initialFields: AuthoredField[] = []) {
+  const [fields, setFields] = useState<AuthoredField[]>(initialFields);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const addField = useCallback(
+    (type: AuthoredFieldType, pageIndex: number, boundingBox: BoundingBox, role?: string) => {
+      const id = generateAuthoredFieldId();
+      setFields((prev) => [
+        ...prev,
+        { id, pageIndex, fieldName: nextFieldName(prev, type), type, boundingBox, required: true, role },
+      ]);
+      setSelectedId(id);
+      return id;
+    },
+    []
+  );
+
+  const updateField = useCallback((id: string, updates: Partial<Omit<AuthoredField, 'id'>>) => {
+    setFields((prev) => prev.map((field) => (field.id === id ? { ...field, ...updates } : field)));
+  }, []);
+
+  const removeField = useCallback((id: string) => {
+    setFields((prev) => prev.filter((field) => field.id !== id));
+    setSelectedId((prev) => (prev === id ? null : prev));
+  }, []);
+
+  const layout = useMemo(() => createFieldLayout(fields), [fields]);
+
+  return {
+    fields,
+    layout,
+    selectedId,
+    selectField: setSelectedId,
+    addField,
+    updateField,
+    removeField,
+  };
+}
@@ -0,0 +1,71 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { FormField, FormFieldValue, FormValues } from '../types';
+import {
+  FormFieldValueError,
+  getDefaultFormValues,
+  getMissingRequiredFormFields,
+  groupFormFields,
+  validateFormValue,
+} from '../utils/form-utils';
+
+/**
+ * Track the values of a document's form fields
+ *
+ * Values start from those stored in the PDF and are keyed by field name.
+ * setValue and setValues validate before storing (see validateFormValue)
+ * and throw FormFieldValueError for values that do not fit the field.
+ */
+export function useFormFields(formFields: FormField[]) {
+  const [values, setValuesState] = useState<FormValues>({});
+  const groups = useMemo(() => groupFormFields(formFields), [formFields]);
+
+  useEffect(() => {
+    setValuesState(getDefaultFormValues(formFields));
+  }, [formFields]);
+
+  const validate = useCallback(
+    (fieldName: string, value: unknown): FormFieldValue => {
+      const widgets = groups.get(fieldName);
+      if (!widgets) {
+        throw new FormFieldValueError(`Unknown form field: ${fieldName.slice(0, 100)}`);
+      }
+      return validateFormValue(widgets, value);
+    },
+    [groups]
+  );
+
+  const setValue = useCallback(
+    (fieldName: string, value: FormFieldValue): FormFieldValue => {
+      const validated = validate(fieldName, value);
+      setValuesState((prev) => ({ ...prev, [fieldName]: validated }));
+      return validated;
+    },
+    [validate]
+  );
+
+  // All values are validated before any is stored
+  const setValues = useCallback(
+    (updates: FormValues): FormValues => {
+      const validated: FormValues = {};
+      for (const [fieldName, value] of Object.entries(updates)) {
+        validated[fieldName] = validate(fieldName, value);
+      }
+      setValuesState((prev) => ({ ...prev, ...validated }));
+      return validated;
+    },
+    [validate]
+  );
+
+  const missingRequired = useMemo(
+    () => getMissingRequiredFormFields(formFields, values),
+    [formFields, values]
+  );
+
+  return {
+    values,
+    setValue,
+    setValues,
+    missingRequired,
+    allRequiredFilled: missingRequired.length === 0,
+  };
+}
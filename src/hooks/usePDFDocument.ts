@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { pdfjs, PDFDocumentProxy } from 'pdfjs-dist';
 import { validateDocumentUrl } from '../utils/pdf-utils';
+import { computeDocumentHash } from '../utils/signature-utils';
 
 // SECURITY FIX: Bundle PDF.js worker locally instead of loading from CDN
 // This prevents supply chain attacks via compromised CDN
@@ -15,6 +16,7 @@ if (typeof window !== 'undefined') {
 export function usePDFDocument(documentUrl: string) {
   const [document, setDocument] = useState<PDFDocumentProxy | null>(null);
   const [numPages, setNumPages] = useState<number>(0);
+  const [documentHash, setDocumentHash] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<Error | null>(null);
 
@@ -44,8 +46,19 @@ export function usePDFDocument(documentUrl: string) {
         const loadingTask = pdfjs.getDocument(documentUrl);
         const pdf = await loadingTask.promise;
 
+        // CFR Part 11.70: Hash the bytes actually rendered, so signatures can be
+        // checked against the backend-provided signatureContext.documentHash
+        let hash: string;
+        try {
+          hash = await computeDocumentHash(await pdf.getData());
+        } catch (hashError) {
+          pdf.destroy();
+          throw hashError;
+        }
+
         if (!cancelled) {
           loadedDocument = pdf;
+          setDocumentHash(hash);
           setDocument(pdf);
           setNumPages(pdf.numPages);
           setIsLoading(false);
@@ -80,5 +93,5 @@ export function usePDFDocument(documentUrl: string) {
     };
   }, [documentUrl]);
 
-  return { document, numPages, isLoading, error };
+  return { document, documentHash, numPages, isLoading, error };
 }
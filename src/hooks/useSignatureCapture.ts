@@ -1,10 +1,58 @@
-import { useState, useCallback } from 'react';
-import { SignatureData, SignatureField } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AdoptedSignature, SignatureCaptureOptions, SignatureData, SignatureField } from '../types';
+import { toAdoptedSignature, validateAdoptedSignature } from '../utils/adoption-utils';
 
-export function useSignatureCapture() {
+/**
+ * Track the signature dialog, the signature applied to each field and the
+ * signer's adopted signature
+ *
+ * With a signerId, each captured signature is adopted so later fields can
+ * reuse it. With a storage adapter, the adopted signature is also loaded
+ * and saved across sessions; pass a stable (memoized) adapter, since a new
+ * one on every render reloads it.
+ */
+export function useSignatureCapture(options: SignatureCaptureOptions = {}) {
+  const { signerId, storage, onStorageError } = options;
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [currentField, setCurrentField] = useState<SignatureField | null>(null);
   const [signatures, setSignatures] = useState<Map<string, SignatureData>>(new Map());
+  const [adoptedSignature, setAdoptedSignature] = useState<AdoptedSignature | null>(null);
+  const onStorageErrorRef = useRef(onStorageError);
+
+  useEffect(() => {
+    onStorageErrorRef.current = onStorageError;
+  }, [onStorageError]);
+
+  const reportStorageError = useCallback((err: unknown) => {
+    console.error('[Signature Storage] Adopted signature storage failed:', err);
+    onStorageErrorRef.current?.(err instanceof Error ? err : new Error(String(err)));
+  }, []);
+
+  useEffect(() => {
+    setAdoptedSignature(null);
+    if (!signerId || !storage) {
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const stored = await storage.load(signerId);
+        // SECURITY: Stored signatures are untrusted input
+        if (!cancelled && stored !== null && validateAdoptedSignature(stored, signerId)) {
+          setAdoptedSignature(stored);
+        }
+      } catch (err) {
+        if (!cancelled) reportStorageError(err);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signerId, storage, reportStorageError]);
 
   const openDialog = useCallback((field: SignatureField) => {
     setCurrentField(field);
@@ -41,6 +89,33 @@ export function useSignatureCapture() {
     return signatures.has(fieldId);
   }, [signatures]);
 
+  /**
+   * Adopt a signature of the current signer for later fields
+   *
+   * @returns The adopted signature, or null if there is no identified signer
+   */
+  const adoptSignature = useCallback((data: SignatureData): AdoptedSignature | null => {
+    if (!signerId || data.signerId !== signerId) return null;
+
+    const adopted = toAdoptedSignature(data);
+    setAdoptedSignature(adopted);
+    if (storage) {
+      Promise.resolve()
+        .then(() => storage.save(signerId, adopted))
+        .catch(reportStorageError);
+    }
+    return adopted;
+  }, [signerId, storage, reportStorageError]);
+
+  const forgetAdoptedSignature = useCallback(() => {
+    setAdoptedSignature(null);
+    if (signerId && storage) {
+      Promise.resolve()
+        .then(() => storage.remove(signerId))
+        .catch(reportStorageError);
+    }
+  }, [signerId, storage, reportStorageError]);
+
   return {
     isDialogOpen,
     currentField,
@@ -51,5 +126,8 @@ export function useSignatureCapture() {
     clearSignature,
     getSignature,
     hasSignature,
+    adoptedSignature,
+    adoptSignature,
+    forgetAdoptedSignature,
   };
 }
@@ -1,16 +1,49 @@
 import { useState, useEffect } from 'react';
 import { PDFDocumentProxy } from 'pdfjs-dist';
-import { SignatureField } from '../types';
-import { extractSignatureFields } from '../utils/pdf-utils';
+import { AnchorRule, AuthoredField, AutoFillField, FormField, SignatureField } from '../types';
+import { extractAutoFillFields, extractFormFields, extractSignatureFields } from '../utils/pdf-utils';
+import { extractAnchorFields } from '../utils/anchor-utils';
 
-export function useSignatureFields(pdfDocument: PDFDocumentProxy | null) {
+const NO_ANCHORS: AnchorRule[] = [];
+
+/**
+ * Run an optional extraction pass, so that its failure (a page whose text
+ * cannot be read, a bad anchor pattern) does not discard the other fields
+ */
+async function optionalPass<T>(name: string, pass: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await pass();
+  } catch (err) {
+    console.error(`[Fields] ${name} failed; continuing without them:`, err);
+    return [];
+  }
+}
+
+/**
+ * Find the fields of a loaded PDF
+ *
+ * anchorFields are placed from anchors (see extractAnchorFields). Pass a
+ * stable (memoized) anchors array; a new array on every render re-runs
+ * extraction.
+ *
+ * Only a failure to read the signature fields sets error. Auto-fill links,
+ * form fields and anchor placement are extra passes: when one fails it is
+ * logged and yields no fields, and the rest are still returned.
+ */
+export function useSignatureFields(pdfDocument: PDFDocumentProxy | null, anchors: AnchorRule[] = NO_ANCHORS) {
   const [signatureFields, setSignatureFields] = useState<SignatureField[]>([]);
+  const [autoFillFields, setAutoFillFields] = useState<AutoFillField[]>([]);
+  const [formFields, setFormFields] = useState<FormField[]>([]);
+  const [anchorFields, setAnchorFields] = useState<AuthoredField[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
 
   useEffect(() => {
     if (!pdfDocument) {
       setSignatureFields([]);
+      setAutoFillFields([]);
+      setFormFields([]);
+      setAnchorFields([]);
       return;
     }
 
@@ -21,9 +54,19 @@ export function useSignatureFields(pdfDocument: PDFDocumentProxy | null) {
     const loadFields = async () => {
       try {
         const fields = await extractSignatureFields(pdfDocument);
+        const linkedFields = await optionalPass('Auto-fill field extraction', () =>
+          extractAutoFillFields(pdfDocument, fields)
+        );
+        const fillableFields = await optionalPass('Form field extraction', () => extractFormFields(pdfDocument));
+        const placedFields = await optionalPass('Anchor field placement', () =>
+          extractAnchorFields(pdfDocument, anchors)
+        );
 
         if (!cancelled) {
           setSignatureFields(fields);
+          setAutoFillFields(linkedFields);
+          setFormFields(fillableFields);
+          setAnchorFields(placedFields);
           setIsLoading(false);
         }
       } catch (err) {
@@ -39,7 +82,7 @@ export function useSignatureFields(pdfDocument: PDFDocumentProxy | null) {
     return () => {
       cancelled = true;
     };
-  }, [pdfDocument]);
+  }, [pdfDocument, anchors]);
 
   const updateField = (fieldId: string, updates: Partial<SignatureField>) => {
     setSignatureFields((prev) =>
@@ -51,6 +94,9 @@ export function useSignatureFields(pdfDocument: PDFDocumentProxy | null) {
 
   return {
     signatureFields,
+    autoFillFields,
+    formFields,
+    anchorFields,
     isLoading,
     error,
     updateField,
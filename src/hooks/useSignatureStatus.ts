@@ -1,22 +1,75 @@
-import { useEffect, useState, useCallback } from 'react';
-import { SignatureField } from '../types';
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { SignatureField, SignatureStatusOptions } from '../types';
+import { countSignatureStatus } from '../utils/initials-utils';
+import { applyFieldRules } from '../utils/rule-utils';
+import { getRoleStatus, isFieldForSigner } from '../utils/role-utils';
 
+/**
+ * Track signing progress
+ *
+ * Field rules decide which signature and form fields are shown and
+ * required (see applyFieldRules). allSigned is true once every required,
+ * visible field is signed or filled; blockers lists the ones that are not,
+ * with a message naming the rule that requires them. Pass only validly
+ * signed fields of the loaded PDF in signedFieldIds: the others are
+ * reported as blockers.
+ *
+ * With a signerRole, fields for other roles, and all fields while the
+ * signer's turn has not come (see getRoleStatus), are in lockedFieldIds.
+ * Navigation, counts, blockers and allSigned then cover only the signer's
+ * own fields (and fields without a role).
+ */
 export function useSignatureStatus(
-  signatureFields: SignatureField[],
-  signedFieldIds: Set<string>
+  allSignatureFields: SignatureField[],
+  signedFieldIds: Set<string>,
+  options: SignatureStatusOptions = {}
 ) {
+  const { formFields, formValues, rules, signerRole, signerRoles, signingOrder } = options;
   const [currentIndex, setCurrentIndex] = useState(0);
   const [allSigned, setAllSigned] = useState(false);
+  const ruleState = useMemo(
+    () => applyFieldRules(rules ?? [], allSignatureFields, signedFieldIds, formFields, formValues),
+    [rules, allSignatureFields, signedFieldIds, formFields, formValues]
+  );
+  const visibleFields = ruleState.signatureFields;
+  const roleStatus = useMemo(
+    () => getRoleStatus(visibleFields, signedFieldIds, { signerRole, signerRoles, signingOrder }),
+    [visibleFields, signedFieldIds, signerRole, signerRoles, signingOrder]
+  );
+  const signatureFields = useMemo(
+    () => visibleFields.filter((field) => isFieldForSigner(field, signerRole)),
+    [visibleFields, signerRole]
+  );
+  const lockedFieldIds = useMemo(
+    () => new Set(
+      visibleFields
+        .filter((field) => !roleStatus.canSign || !isFieldForSigner(field, signerRole))
+        .map((field) => field.id)
+    ),
+    [visibleFields, roleStatus, signerRole]
+  );
+  // Other roles' fields are reported through roleStatus instead
+  const blockers = useMemo(
+    () => ruleState.blockers.filter(
+      (blocker) => blocker.kind === 'form' || signatureFields.some((field) => field.id === blocker.fieldId)
+    ),
+    [ruleState.blockers, signatureFields]
+  );
+  // Signatures and initials are counted separately
+  const counts = useMemo(
+    () => countSignatureStatus(signatureFields, signedFieldIds),
+    [signatureFields, signedFieldIds]
+  );
 
   useEffect(() => {
-    const signedCount = Array.from(signedFieldIds).length;
     const requiredCount = signatureFields.filter((f) => f.required).length;
-    setAllSigned(signedCount >= requiredCount && requiredCount > 0);
-  }, [signatureFields, signedFieldIds]);
+    setAllSigned(roleStatus.canSign && blockers.length === 0 && requiredCount > 0);
+  }, [signatureFields, blockers, roleStatus]);
 
   const nextSignature = useCallback(() => {
+    // Fields the loaded PDF already carries a signature for cannot be signed again
     const unsignedFields = signatureFields.filter(
-      (field) => !signedFieldIds.has(field.id)
+      (field) => !signedFieldIds.has(field.id) && !lockedFieldIds.has(field.id) && !field.verificationStatus
     );
 
     if (unsignedFields.length > 0) {
@@ -27,7 +80,7 @@ export function useSignatureStatus(
     }
 
     return null;
-  }, [signatureFields, signedFieldIds]);
+  }, [signatureFields, signedFieldIds, lockedFieldIds]);
 
   const previousSignature = useCallback(() => {
     const signedFields = signatureFields.filter((field) =>
@@ -47,6 +100,13 @@ export function useSignatureStatus(
   return {
     currentIndex,
     allSigned,
+    counts,
+    blockers,
+    roleStatus,
+    lockedFieldIds,
+    visibleSignatureFields: visibleFields,
+    signerSignatureFields: signatureFields,
+    visibleFormFields: ruleState.formFields,
     nextSignature,
     previousSignature,
   };
@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { SignatureVerificationOptions, SignatureVerificationResult } from '../types';
+import { verifySignatures } from '../utils/verification-utils';
+
+/**
+ * Verify the digital signatures already present in a loaded PDF
+ *
+ * verificationResults is null until verification of the current document
+ * has finished.
+ *
+ * Pass a stable (memoized) trustedCertificates array; a new array on every
+ * render re-runs verification.
+ */
+export function useSignatureVerification(
+  pdfDocument: PDFDocumentProxy | null,
+  options: SignatureVerificationOptions = {}
+) {
+  const { trustedCertificates } = options;
+  const [verificationResults, setVerificationResults] = useState<SignatureVerificationResult[] | null>(null);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setVerificationResults(null);
+    if (!pdfDocument) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsVerifying(true);
+    setError(null);
+
+    const verify = async () => {
+      try {
+        const results = await verifySignatures(pdfDocument, { trustedCertificates });
+
+        if (!cancelled) {
+          setVerificationResults(results);
+          setIsVerifying(false);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err as Error);
+          setIsVerifying(false);
+        }
+      }
+    };
+
+    verify();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, trustedCertificates]);
+
+  return {
+    verificationResults,
+    isVerifying,
+    error,
+  };
+}
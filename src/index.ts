@@ -3,15 +3,27 @@ export { PDFErrorBoundary } from './components/PDFViewer/PDFErrorBoundary';
 export { SignatureDialog } from './components/SignatureCapture/SignatureDialog';
 export { SignatureCanvas } from './components/SignatureCapture/SignatureCanvas';
 export { SignatureTyped } from './components/SignatureCapture/SignatureTyped';
+export { SignatureUpload } from './components/SignatureCapture/SignatureUpload';
+export { SignatureInitials } from './components/SignatureCapture/SignatureInitials';
+export { FieldEditorLayer } from './components/FieldEditor/FieldEditorLayer';
+export { FieldEditorTools } from './components/FieldEditor/FieldEditorTools';
+export { KioskHandoff } from './components/Kiosk/KioskHandoff';
+export { KioskSignerBanner } from './components/Kiosk/KioskSignerBanner';
 
 export * from './types';
 export * from './hooks/usePDFDocument';
 export * from './hooks/useSignatureFields';
 export * from './hooks/useSignatureCapture';
+export * from './hooks/useAuditLog';
 export * from './hooks/useSignatureStatus';
+export * from './hooks/useSignatureVerification';
+export * from './hooks/useFormFields';
+export * from './hooks/useFieldLayout';
 // Export PDF utilities including security validation
 export {
   extractSignatureFields,
+  extractAutoFillFields,
+  extractFormFields,
   getPageDimensions,
   convertBBoxToPSPDFKit,
   validateDocumentUrl,
@@ -22,8 +34,120 @@ export {
 export {
   createPSPDFKitAnnotation,
   createPSPDFKitInstantJSON,
+  createSignedPDF,
+  computeDocumentHash,
+  DocumentHashMismatchError,
+  ReauthenticationLockoutError,
   dataURLToBase64,
   generateSignatureId,
   validateImageDataUrl,
   sanitizeImageDataUrl,
 } from './utils/signature-utils';
+
+// Export PDF digital signature utilities
+export {
+  signPdfFields,
+} from './utils/pdf-signing-utils';
+export {
+  createSoftwareSigner,
+  parseCertificate,
+  pemToDer,
+} from './utils/cms-utils';
+export {
+  toSignatureStrokes,
+  validateStrokes,
+  strokesToInkLines,
+  strokesToSvgPath,
+  createSignatureSvg,
+} from './utils/stroke-utils';
+export {
+  createBiometricRecord,
+  encryptBiometricRecord,
+  decryptBiometricRecord,
+  stripStrokeDynamics,
+  BIOMETRIC_RECORD_VERSION,
+  BIOMETRIC_ENCRYPTION_ALGORITHM,
+} from './utils/biometric-utils';
+export {
+  processSignatureUpload,
+  removeBackground,
+  cropToContent,
+  SignatureUploadError,
+  MAX_UPLOAD_DIMENSION,
+  UPLOAD_OUTPUT_SIZE,
+} from './utils/upload-utils';
+export {
+  toAdoptedSignature,
+  validateAdoptedSignature,
+  reuseAdoptedSignature,
+  createWebStorageSignatureStorage,
+} from './utils/adoption-utils';
+export {
+  isInitialsFieldName,
+  applyFieldKinds,
+  deriveInitials,
+  countSignatureStatus,
+  MAX_INITIALS_LENGTH,
+} from './utils/initials-utils';
+export {
+  validateFormValue,
+  isFormValueFilled,
+  getMissingRequiredFormFields,
+  getDefaultFormValues,
+  createFormFieldValues,
+  fillFormFields,
+  FormFieldValueError,
+  MAX_FORM_TEXT_LENGTH,
+} from './utils/form-utils';
+export { applyFieldRules, describeCondition } from './utils/rule-utils';
+export { applyFieldRoles, roleFromFieldName, isFieldForSigner, getRoleStatus } from './utils/role-utils';
+export {
+  parseFieldLayout,
+  createFieldLayout,
+  mergeAuthoredFields,
+  linkAuthoredDateFields,
+  clampFieldBox,
+  isValidFieldRole,
+  writeAuthoredFields,
+  FieldLayoutError,
+  FIELD_LAYOUT_VERSION,
+} from './utils/layout-utils';
+export { extractAnchorFields } from './utils/anchor-utils';
+export {
+  validateKioskSigners,
+  matchesSignerName,
+  getKioskCandidates,
+  createKioskSignatureContext,
+  KioskConfigError,
+  DEFAULT_KIOSK_AUTH_METHOD,
+} from './utils/kiosk-utils';
+export {
+  classifyAutoFillFieldName,
+  linkAutoFillField,
+  formatAutoFillDate,
+  createAutoFillValues,
+  createAutoFillFormFieldValues,
+  fillAutoFillFields,
+  DEFAULT_AUTOFILL_DATE_FORMAT,
+} from './utils/autofill-utils';
+export {
+  renderManifestationLines,
+  layoutManifestation,
+  drawSignatureManifestation,
+  formatManifestationDate,
+  DEFAULT_MANIFESTATION_LINES,
+} from './utils/manifestation-utils';
+export {
+  parseFieldNameIntents,
+  resolveFieldIntents,
+  applyFieldIntents,
+  DEFAULT_SIGNATURE_INTENT,
+  DEFAULT_INITIALS_INTENT,
+} from './utils/intent-utils';
+export { createCompletionCertificate, appendCompletionCertificate } from './utils/certificate-utils';
+export { createHttpTimestampAuthority } from './utils/timestamp-utils';
+export { verifySignatures, applyVerificationResults } from './utils/verification-utils';
+export { detectChangesSinceSigned, getDocMdpPermissions } from './utils/modification-utils';
+
+// Export CFR Part 11 audit trail utilities
+export { createAuditLog, verifyChain, AUDIT_GENESIS_HASH } from './utils/audit-utils';
@@ -1,3 +1,7 @@
+/**
+ * A field's box in PDF points, measured from the top-left corner of the
+ * page (as the overlays draw it)
+ */
 export interface BoundingBox {
   x: number;
   y: number;
@@ -5,16 +9,267 @@ export interface BoundingBox {
   height: number;
 }
 
+/**
+ * What a field asks for: a full signature or the signer's initials
+ */
+export type SignatureFieldKind = 'signature' | 'initials';
+
 export interface SignatureField {
   id: string;
   pageIndex: number;
   fieldName: string;
   boundingBox: BoundingBox;
   required: boolean;
+  kind?: SignatureFieldKind; // Default: 'signature'
+  formFieldType?: 'Sig' | 'Tx'; // AcroForm type of the widget; only 'Sig' fields are digitally signed (default: 'Sig')
+  authored?: boolean; // Placed with the field editor; has no widget in the PDF, so it is only flattened
+  role?: string; // Signer role the field is assigned to
   signedBy: string | null;
   signedAt: string | null;
+  intents?: string[]; // Allowed signature meanings; the signer picks one when there are several
+  signedIntent?: string | null; // Meaning of the applied signature
+  verificationStatus?: SignatureVerificationStatus; // Set when the loaded PDF already carries a digital signature
+  changesSinceSigned?: ChangesSinceSigned | null; // Incremental updates appended after that signature
+}
+
+/**
+ * What an auto-filled text field shows once its signature field is signed
+ */
+export type AutoFillSource = 'date' | 'name';
+
+/**
+ * A text field filled from the signature of a linked signature field
+ * ("Date" and "Printed Name" boxes next to a signature)
+ */
+export interface AutoFillField {
+  id: string;
+  pageIndex: number;
+  fieldName: string;
+  boundingBox: BoundingBox;
+  source: AutoFillSource; // 'date': SignatureData.timestamp, 'name': signerName
+  signatureFieldId: string; // Signature field it is linked to
+  authored?: boolean; // Placed with the field editor; the value is drawn onto the page
+}
+
+/**
+ * What an authored field asks for
+ */
+export type AuthoredFieldType = 'signature' | 'initials' | 'date';
+
+/**
+ * A field placed with the field editor on a PDF that lacks it
+ *
+ * boundingBox is in PDF points with a top-left origin, like the overlays.
+ * Date fields show the signing date of the nearest signature field on the
+ * page (preferring one with the same role).
+ */
+export interface AuthoredField {
+  id: string;
+  pageIndex: number;
+  fieldName: string;
+  type: AuthoredFieldType;
+  boundingBox: BoundingBox;
+  required: boolean;
+  role?: string;
+}
+
+/**
+ * Places a field wherever its anchor text appears in the PDF
+ *
+ * The field's top-left corner is at offset from the top-left corner of the
+ * matched text (its top-right with relativeTo 'end'), in PDF points with a
+ * top-left origin. A regex with a named group "role" (e.g.
+ * /\{\{sig:(?<role>\w+)\}\}/) takes the field's role from the text.
+ */
+export interface AnchorRule {
+  pattern: string | RegExp; // Literal text, or a regex matched against each page's text
+  type?: AuthoredFieldType; // Default: 'signature'
+  fieldName?: string; // Default: Signature_1, Initials_1, ...; later matches get _2, _3, ...
+  relativeTo?: 'start' | 'end'; // Default: 'start'
+  offset?: { x: number; y: number }; // Default: { x: 0, y: 0 }
+  size?: { width: number; height: number }; // Default: DEFAULT_FIELD_SIZES for the type
+  required?: boolean; // Default: true
+  role?: string;
+}
+
+/**
+ * Authored fields as exported by the field editor
+ */
+export interface FieldLayout {
+  version: 1;
+  fields: AuthoredField[];
+}
+
+export interface AutoFillOptions {
+  locale?: string; // Default: 'en-US'
+  timeZone?: string; // IANA time zone of the date; default: 'UTC'
+  dateFormat?: Intl.DateTimeFormatOptions; // Default: { year: 'numeric', month: '2-digit', day: '2-digit' }
+}
+
+/**
+ * Kind of a fillable AcroForm field: Tx, Btn (check box or radio button) or Ch
+ */
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown';
+
+/**
+ * Value of a form field: checked state for check boxes, text or the chosen
+ * option's export value for the other types
+ */
+export type FormFieldValue = string | boolean;
+
+/**
+ * One widget of a fillable form field
+ *
+ * Radio groups have one FormField per button, sharing fieldName; values are
+ * keyed by fieldName.
+ */
+export interface FormField {
+  id: string;
+  pageIndex: number;
+  fieldName: string;
+  boundingBox: BoundingBox;
+  type: FormFieldType;
+  required: boolean;
+  readOnly: boolean;
+  defaultValue: FormFieldValue; // Value stored in the loaded PDF
+  exportValue?: string; // Check box or radio button: value when this widget is on
+  options?: Array<{ value: string; label: string }>; // Dropdown: export values and display labels
+  multiline?: boolean; // Text
+  maxLength?: number; // Text
+}
+
+/**
+ * Form values keyed by field name
+ */
+export type FormValues = Record<string, FormFieldValue>;
+
+/**
+ * Condition on another field, referenced by name (or ID for signature fields)
+ *
+ * - equals: a form field has the value, or one of the values
+ * - filled: a form field is filled (check boxes: checked) or a signature field is signed
+ * - signed: a signature field is signed
+ */
+export type FieldCondition =
+  | { field: string; equals: FormFieldValue | FormFieldValue[] }
+  | { field: string; filled: boolean }
+  | { field: string; signed: boolean };
+
+/**
+ * Declarative rule for a signature or form field, referenced by name or ID
+ *
+ * With requiredWhen, the field is required exactly when its conditions all
+ * hold (instead of the PDF's required flag; an empty list means whenever
+ * the field is shown). With visibleWhen, the field is
+ * shown only when its conditions all hold; hidden fields are never required
+ * and are left out of exports.
+ */
+export interface FieldRule {
+  field: string;
+  requiredWhen?: FieldCondition | FieldCondition[];
+  visibleWhen?: FieldCondition | FieldCondition[];
+  message?: string; // Shown when this rule makes the field required and it is not yet completed
+}
+
+/**
+ * Fields after applying the rules, and what keeps the document from being complete
+ */
+export interface FieldRuleState {
+  signatureFields: SignatureField[]; // Visible fields, with required set by the rules
+  formFields: FormField[]; // Visible fields, with required set by the rules
+  blockers: CompletionBlocker[]; // Required visible fields not yet signed or filled, in field order
+}
+
+/**
+ * Form fields and rules taken into account by useSignatureStatus
+ */
+export interface SignatureStatusOptions {
+  formFields?: FormField[];
+  formValues?: FormValues;
+  rules?: FieldRule[];
+  signerRole?: string; // Role of the current signer; other roles' fields are locked
+  signerRoles?: string[]; // Roles in signing order
+  signingOrder?: SigningOrder; // Default: 'parallel'
+}
+
+/**
+ * Whether signer roles sign one after another (in signerRoles order) or at any time
+ */
+export type SigningOrder = 'sequential' | 'parallel';
+
+/**
+ * 'completed': every required field of the role is signed; 'waiting': an
+ * earlier role in a sequential order has not finished
+ */
+export type SignerRoleState = 'completed' | 'active' | 'waiting';
+
+export interface SignerRoleProgress {
+  role: string;
+  state: SignerRoleState;
+  signed: number; // Required fields signed
+  required: number;
+}
+
+/**
+ * Where the current signer stands among the signer roles
+ */
+export interface RoleStatus {
+  signerRole?: string;
+  canSign: boolean; // False while the signer's turn has not come
+  waitingOn: string[]; // Roles ahead of the signer, or, once the signer is done, roles still to sign
+  roles: SignerRoleProgress[]; // In signing order
+}
+
+/**
+ * A person signing on a shared device in kiosk mode
+ */
+export interface KioskSigner {
+  role: string; // Signs the fields for this role (see signerRoles)
+  signerName: string;
+  signerId: string;
+  authMethod?: string; // Default: 'kiosk-attestation'
+}
+
+/**
+ * Several signers taking turns on one device
+ */
+export interface KioskOptions {
+  signers: KioskSigner[]; // In handoff order
+  // Optional: further identity check at each handoff (e.g. a PIN or ID scan),
+  // after the signer has typed their name; resolves true to continue
+  verifyIdentity?: (signer: KioskSigner) => Promise<boolean>;
 }
 
+/**
+ * Why a handoff was not confirmed: the typed name was not the signer's, or
+ * verifyIdentity did not pass
+ */
+export type KioskHandoffRejection = 'name-mismatch' | 'verification-failed';
+
+/**
+ * Signer role per field, keyed by field name or field ID
+ */
+export type FieldRoles = Record<string, string>;
+
+/**
+ * A required field that keeps the document from being complete
+ */
+export interface CompletionBlocker {
+  fieldId: string;
+  fieldName: string;
+  kind: 'signature' | 'initials' | 'form';
+  message: string; // e.g. "Spouse_Signature must be signed because Married is Yes"
+  rule?: FieldRule; // Rule that made the field required, if any
+}
+
+/**
+ * Signature meanings per field, keyed by field name or field ID
+ *
+ * e.g. { Author: 'I am the author of this document',
+ *        QA: ['I have reviewed this document', 'I approve this document'] }
+ */
+export type FieldIntents = Record<string, string | string[]>;
+
 /**
  * Signature data with CFR Part 11 compliance fields
  *
@@ -28,8 +283,8 @@ export interface SignatureField {
  */
 export interface SignatureData {
   // Basic signature information
-  type: 'drawn' | 'typed';
-  data: string; // Data URL for drawn signatures, text for typed
+  type: 'drawn' | 'typed' | 'uploaded';
+  data: string; // PNG data URL (typed names are rendered in the chosen font)
   timestamp: string; // ISO 8601 UTC timestamp
   userAgent?: string; // Browser information for audit trail
 
@@ -40,6 +295,7 @@ export interface SignatureData {
   // CFR Part 11.100 - REQUIRED: General Requirements
   signerId: string; // Unique user identifier from authentication system
   authMethod: string; // Authentication method used (e.g., "okta_2fa", "saml_sso")
+  authenticatedAt?: string; // CFR Part 11.200: ISO 8601 time of re-authentication for this signing
 
   // CFR Part 11.70 - REQUIRED: Signature/Record Linking
   signatureHash: string; // SHA-256 hash of signature data for integrity
@@ -50,6 +306,14 @@ export interface SignatureData {
   ipAddress?: string; // IP address (should be captured server-side)
   signatureVersion: string; // Library version for audit purposes
 
+  // Drawn signatures: raw pen strokes, relative to the capture canvas
+  strokes?: SignatureStroke[];
+  canvasSize?: { width: number; height: number };
+  biometrics?: EncryptedBiometricRecord; // Signing dynamics, encrypted for forensic comparison
+
+  // Reused signatures: ISO 8601 time the signer adopted the signature image
+  adoptedAt?: string;
+
   // Optional device metadata
   deviceInfo?: {
     platform: string; // e.g., "MacOS", "Windows", "iOS", "Android"
@@ -59,6 +323,431 @@ export interface SignatureData {
   };
 }
 
+/**
+ * A sampled point of a drawn signature stroke
+ *
+ * time and pressure are left out of SignatureData.strokes when the signing
+ * dynamics are kept in an encrypted biometric record instead.
+ */
+export interface SignaturePoint {
+  x: number; // Canvas pixels from the left edge
+  y: number; // Canvas pixels from the top edge
+  time?: number; // Milliseconds since the first point of the signature
+  pressure?: number; // 0-1; pointer devices without pressure report 0.5
+}
+
+/**
+ * One continuous pen-down to pen-up movement
+ */
+export interface SignatureStroke {
+  points: SignaturePoint[];
+}
+
+/**
+ * A signature the signer adopted for reuse on later fields
+ *
+ * Holds the image (and stroke shape) only: every reuse is signed anew with
+ * its own timestamp, meaning and signatureHash. Pen timing, pressure and
+ * biometrics belong to the original capture and are not kept.
+ */
+export interface AdoptedSignature {
+  type: SignatureData['type'];
+  data: string; // PNG data URL
+  strokes?: SignatureStroke[]; // x/y only
+  canvasSize?: { width: number; height: number };
+  signerId: string; // Signer who adopted it; never offered to anyone else
+  adoptedAt: string; // ISO 8601 UTC timestamp
+}
+
+/**
+ * Remembers a signer's adopted signature across sessions
+ *
+ * Loaded values are treated as untrusted and validated before use.
+ */
+export interface SignatureStorageAdapter {
+  load: (signerId: string) => AdoptedSignature | null | Promise<AdoptedSignature | null>;
+  save: (signerId: string, signature: AdoptedSignature) => void | Promise<void>;
+  remove: (signerId: string) => void | Promise<void>;
+}
+
+export interface SignatureCaptureOptions {
+  signerId?: string; // Signatures are only adopted for an identified signer
+  storage?: SignatureStorageAdapter; // Remembers the adopted signature across sessions
+  onStorageError?: (error: Error) => void; // Storage failures never block signing
+}
+
+/**
+ * RGBA pixels of an image (compatible with the canvas ImageData)
+ */
+export interface SignatureImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // 4 bytes per pixel, row by row
+}
+
+/**
+ * A point of a biometric record, with the pen dynamics at that point
+ */
+export interface BiometricPoint {
+  x: number; // Canvas pixels
+  y: number; // Canvas pixels
+  t: number; // Milliseconds since the first pen-down
+  pressure: number; // 0-1; 0.5 when the device reports no pressure
+  velocity: number; // Pixels/ms since the previous point of the stroke (0 at pen-down)
+  acceleration: number; // Pixels/ms² since the previous point of the stroke (0 at pen-down)
+}
+
+/**
+ * One pen-down to pen-up movement of a biometric record
+ */
+export interface BiometricStroke {
+  penDown: number; // Milliseconds since the first pen-down
+  penUp: number; // Milliseconds since the first pen-down
+  points: BiometricPoint[];
+}
+
+/**
+ * Signing dynamics of a handwritten signature, for forensic comparison
+ *
+ * Version 1.0 of the format; see BIOMETRIC_RECORD_VERSION.
+ */
+export interface BiometricRecord {
+  version: '1.0';
+  canvasSize: { width: number; height: number };
+  strokes: BiometricStroke[];
+  penUpIntervals: number[]; // Milliseconds between each pen-up and the next pen-down
+  duration: number; // Milliseconds from the first pen-down to the last pen-up
+}
+
+/**
+ * A BiometricRecord encrypted for the holder of a private key
+ *
+ * The record's JSON is encrypted with a random AES-256-GCM key, which is
+ * itself encrypted with the recipient's RSA-OAEP (SHA-256) public key.
+ */
+export interface EncryptedBiometricRecord {
+  version: '1.0'; // Version of the BiometricRecord inside
+  algorithm: 'RSA-OAEP-256+A256GCM';
+  keyId?: string; // Identifies the recipient key
+  encryptedKey: string; // Base64 RSA-OAEP-encrypted AES key
+  iv: string; // Base64 AES-GCM nonce
+  ciphertext: string; // Base64 AES-GCM ciphertext with authentication tag
+}
+
+export interface BiometricEncryptionOptions {
+  publicKey: CryptoKey; // RSA-OAEP with SHA-256, usage 'encrypt'
+  keyId?: string; // Stored with the record to identify the key
+}
+
+/**
+ * Digital signature profile for signed PDF output
+ *
+ * - 'pkcs7': adbe.pkcs7.detached
+ * - 'pades-b-b': PAdES baseline B (ETSI.CAdES.detached + signing-certificate-v2)
+ * - 'pades-b-t': B-B plus an RFC 3161 signature timestamp
+ * - 'pades-b-lt': B-T plus a DSS dictionary with certificates, CRLs and OCSP responses
+ */
+export type SignatureProfile = 'pkcs7' | 'pades-b-b' | 'pades-b-t' | 'pades-b-lt';
+
+/**
+ * Context passed to a Signer for each PDF signature it produces
+ */
+export interface SignerContext {
+  field: SignatureField;
+  signature: SignatureData;
+  profile: SignatureProfile;
+}
+
+/**
+ * Pluggable producer of PDF digital signatures
+ *
+ * Receives the SHA-256 digest of the bytes covered by the signature's
+ * /ByteRange and returns a DER-encoded CMS SignedData (detached). Implement
+ * this against a backend HSM, or use createSoftwareSigner with a local key.
+ */
+export interface Signer {
+  sign: (digest: Uint8Array, context: SignerContext) => Promise<Uint8Array>;
+}
+
+/**
+ * RFC 3161 Time-Stamp Authority
+ *
+ * Receives the SHA-256 message imprint and returns a DER-encoded
+ * TimeStampToken. Use createHttpTimestampAuthority for a TSA endpoint,
+ * or implement directly (e.g. a local stub in tests).
+ */
+export interface TimestampAuthority {
+  timestamp: (messageImprint: Uint8Array) => Promise<Uint8Array>;
+}
+
+/**
+ * Long-term validation material stored in the PAdES B-LT DSS dictionary
+ * (all DER-encoded)
+ */
+export interface ValidationData {
+  certificates?: Uint8Array[];
+  crls?: Uint8Array[];
+  ocspResponses?: Uint8Array[];
+}
+
+/**
+ * Outcome of verifying a digital signature already present in a PDF
+ *
+ * - 'valid': the signature verifies, any later revisions only make
+ *   permitted changes, and its certificate chains to a trusted certificate
+ * - 'modified-after-signing': the signed bytes no longer match the
+ *   signature, or a later revision made changes DocMDP does not permit
+ * - 'untrusted-cert': the signature verifies but its certificate does not
+ *   chain to a trusted certificate (or was not valid at signing time)
+ * - 'invalid': the signature dictionary or CMS is malformed, or the
+ *   signature value does not verify
+ */
+export type SignatureVerificationStatus =
+  | 'valid'
+  | 'modified-after-signing'
+  | 'untrusted-cert'
+  | 'invalid';
+
+/**
+ * Classification of an object changed in an incremental update
+ *
+ * - 'validation-data': DSS/VRI entries and document timestamps
+ * - 'signature': signature dictionaries and signed /Sig field values
+ * - 'form-fill': form field values, widgets and their appearances
+ * - 'metadata': document information dictionary and XMP metadata
+ * - 'annotation': non-widget annotations and their appearances
+ * - 'page': page dictionaries and the page tree
+ * - 'content': page content streams and resources
+ * - 'other': anything else (catalog entries, unreferenced objects)
+ */
+export type DocumentChangeType =
+  | 'validation-data'
+  | 'signature'
+  | 'form-fill'
+  | 'metadata'
+  | 'annotation'
+  | 'page'
+  | 'content'
+  | 'other';
+
+export interface DocumentChange {
+  type: DocumentChangeType;
+  objectNumber: number;
+  added: boolean; // New object, as opposed to a modified one
+  permitted: boolean; // Allowed by the DocMDP permissions
+}
+
+/**
+ * Changes made to a document after a signature was applied
+ */
+export interface ChangesSinceSigned {
+  revisions: number; // Incremental updates appended after the signed revision
+  docMdpPermissions: 1 | 2 | 3 | null; // From the certification signature; null if uncertified
+  changes: DocumentChange[];
+  types: DocumentChangeType[]; // Distinct change types, in order of appearance
+  permitted: boolean; // Whether every change is allowed
+}
+
+export interface SignatureVerificationResult {
+  fieldName: string;
+  pageIndex: number;
+  boundingBox: BoundingBox;
+  status: SignatureVerificationStatus;
+  signedBy: string | null; // /Name, falling back to the certificate's common name
+  signedAt: string | null; // ISO 8601, from /M or the signingTime attribute (claimed by the signer)
+  reason: string | null; // /Reason
+  subFilter: string | null; // e.g. 'adbe.pkcs7.detached', 'ETSI.CAdES.detached'
+  // ISO 8601, from a trusted RFC 3161 signature timestamp; null means the
+  // signing time is not trusted and the certificate was checked at verification time
+  timestampedAt: string | null;
+  byteRange: [number, number, number, number] | null;
+  coversWholeDocument: boolean;
+  changesSinceSigned: ChangesSinceSigned | null; // null when the signature covers the whole document
+  detail?: string; // Why the status is not 'valid'
+}
+
+export interface SignatureVerificationOptions {
+  /** DER-encoded trust anchors; without them no signature is reported 'valid' */
+  trustedCertificates?: Uint8Array[];
+}
+
+/**
+ * Credential the signer re-enters before a signature is applied
+ */
+export type ReauthenticationCredentialType = 'password' | 'otp';
+
+/**
+ * Passed to the reauthenticate callback for each attempt
+ *
+ * SECURITY: credential is the raw secret the signer typed. Verify it
+ * server-side and never log or store it.
+ */
+export interface ReauthenticationRequest {
+  signerId: string;
+  sessionId: string;
+  credentialType: ReauthenticationCredentialType;
+  credential: string;
+  attempt: number; // 1-based, within the current lockout window
+  field: SignatureField;
+}
+
+export interface ReauthenticationResult {
+  success: boolean;
+  authMethod?: string; // Replaces SignatureData.authMethod, e.g. "password_reauth", "totp"
+  authenticatedAt?: string; // ISO 8601; default: when the result was received
+  lockedOut?: boolean; // The backend has locked the account
+  remainingAttempts?: number; // Backend-reported; overrides the local count
+  message?: string; // Shown to the signer on failure
+}
+
+/**
+ * One signer's re-authentication attempts within the current lockout window
+ */
+export interface ReauthenticationAttempts {
+  failed: number;
+  remaining: number;
+  lockedOut: boolean;
+}
+
+export interface ReauthenticationOptions {
+  credentialType?: ReauthenticationCredentialType; // Default: 'password'
+  maxAttempts?: number; // Failed attempts before lockout (default: 3)
+  // 'every-signing' (default) or only the first signing in a session (CFR 11.200(a)(1)(i))
+  scope?: 'every-signing' | 'first-in-session';
+}
+
+/**
+ * Options for the certificate-of-completion page(s)
+ */
+export interface CompletionCertificateOptions {
+  title?: string; // Default: "Certificate of Completion"
+  documentName?: string; // Shown under the title
+  generatedAt?: string; // ISO 8601; default: now
+}
+
+/**
+ * Layout and wording of the signature manifestation drawn in each field
+ *
+ * Line templates may use the placeholders {signerName}, {signerId},
+ * {signerIntent}, {date} and {authMethod}.
+ */
+export interface ManifestationTemplate {
+  lines?: string[]; // Default: ['{signerName}', '{date}', '{signerIntent}']
+  layout?: 'below' | 'right'; // Text below or right of the signature image (default: 'below')
+  imageRatio?: number; // Share of the box height ('below') or width ('right') for the image (default: 0.55)
+  maxFontSize?: number; // In PDF points; text shrinks to fit the box (default: 8)
+  formatDate?: (timestamp: string) => string; // Formats {date} (default: "YYYY-MM-DD HH:MM:SS UTC")
+}
+
+/**
+ * A rectangle in PDF points, relative to the top-left corner of a field
+ */
+export interface ManifestationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where the signature image and text go within a field's bounding box
+ */
+export interface ManifestationLayout {
+  image: ManifestationRect;
+  text: ManifestationRect | null; // null when the box is too small for legible text
+  fontSize: number;
+  lineHeight: number;
+}
+
+/**
+ * Events recorded in the audit trail
+ */
+export type AuditEventType =
+  | 'document.loaded'
+  | 'document.load-failed'
+  | 'page.viewed'
+  | 'signature.dialog-opened'
+  | 'signature.dialog-cancelled'
+  | 'signature.mode-changed'
+  | 'signature.intent-selected'
+  | 'signature.canvas-cleared'
+  | 'signature.font-changed'
+  | 'signature.validation-failed'
+  | 'signature.captured'
+  | 'signature.preview-edited'
+  | 'signature.preview-accepted'
+  | 'signature.adopted'
+  | 'signature.adopted-reused'
+  | 'signature.adopted-forgotten'
+  | 'signature.applied'
+  | 'signatures.verified'
+  | 'signed-pdf.exported'
+  | 'signed-pdf.export-failed'
+  | 'prepared-pdf.exported'
+  | 'completion-certificate.generated'
+  | 'signature.reauth-requested'
+  | 'signature.reauth-succeeded'
+  | 'signature.reauth-failed'
+  | 'signature.reauth-locked-out'
+  | 'form.field-changed'
+  | 'kiosk.handoff-requested'
+  | 'kiosk.handoff-confirmed'
+  | 'kiosk.handoff-rejected';
+
+export type AuditDetails = Record<string, string | number | boolean | null>;
+
+/**
+ * One entry of the hash-chained audit trail
+ *
+ * hash is the SHA-256 (hex) of the canonical JSON of every other field,
+ * including previousHash, so each entry commits to the whole trail before it.
+ */
+export interface AuditEntry {
+  sequence: number; // 0-based, contiguous
+  timestamp: string; // ISO 8601 UTC timestamp
+  type: AuditEventType;
+  fieldId?: string;
+  details?: AuditDetails;
+  actor?: {
+    signerId: string;
+    sessionId: string;
+  };
+  previousHash: string; // hash of the previous entry; 64 zeros for the first
+  hash: string;
+}
+
+/**
+ * Receives each audit entry once it is chained, in sequence order
+ */
+export type AuditSink = (entry: AuditEntry) => void | Promise<void>;
+
+export interface AuditLogOptions {
+  // Recorded on every entry; a function is called at each record(), so the
+  // actor can change during the session (kiosk signers taking turns)
+  actor?: AuditEntry['actor'] | (() => AuditEntry['actor']);
+  sink?: AuditSink;
+  // Called when the sink throws or rejects (the entry remains in the local
+  // chain), or with a null entry when an event could not be chained
+  onSinkError?: (error: Error, entry: AuditEntry | null) => void;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  brokenAt: number | null; // Index of the first entry that fails verification
+  reason?: string;
+}
+
+/**
+ * Append-only, hash-chained audit log (see createAuditLog)
+ */
+export interface AuditLog {
+  // Never rejects; resolves to null when the event could not be chained
+  record: (type: AuditEventType, data?: { fieldId?: string; details?: AuditDetails }) => Promise<AuditEntry | null>;
+  getEntries: () => AuditEntry[]; // Snapshot of the entries chained so far
+  flush: () => Promise<void>; // Resolves once every recorded event is chained and delivered
+  verify: () => Promise<AuditChainVerification>;
+}
+
 export interface PSPDFKitAnnotation {
   id: string;
   type: 'pspdfkit/ink' | 'pspdfkit/image' | 'pspdfkit/widget';
@@ -74,6 +763,7 @@ export interface PSPDFKitAnnotation {
     points: number[];
   }>;
   imageAttachmentId?: string;
+  contentType?: string; // MIME type of the image attachment
   formFieldName?: string;
   blendMode?: string;
   opacity?: number;
@@ -81,9 +771,17 @@ export interface PSPDFKitAnnotation {
   strokeWidth?: number;
 }
 
+export interface PSPDFKitFormFieldValue {
+  v: 1;
+  type: 'pspdfkit/form-field-value';
+  name: string;
+  value: string | string[] | null; // Check boxes: the checked export values
+}
+
 export interface PSPDFKitInstantJSON {
   format: 'https://pspdfkit.com/instant-json/v1';
   annotations: PSPDFKitAnnotation[];
+  formFieldValues?: PSPDFKitFormFieldValue[];
   attachments?: Record<string, {
     contentType: string;
     data: string; // Base64
@@ -96,12 +794,24 @@ export interface PDFSignerRef {
   updateSignatureStatus: () => void;
   getTotalSignatureCount: () => number;
   getSignatures: () => PSPDFKitInstantJSON;
+  getSignedPdf: () => Promise<Uint8Array>;
   goToPage: (pageNumber: number) => void;
+  getCompletionCertificate: () => Promise<Uint8Array>;
+  getAuditTrail: () => AuditEntry[];
+  verifyAuditTrail: () => Promise<AuditChainVerification>;
+  getFormValues: () => FormValues;
+  setFormValues: (values: FormValues) => void;
+  getCompletionBlockers: () => CompletionBlocker[];
+  getFieldLayout: () => FieldLayout;
+  getPreparedPdf: () => Promise<Uint8Array>; // The PDF with the authored fields as AcroForm fields
+  getRoleStatus: () => RoleStatus;
+  getKioskSigner: () => KioskSigner | null; // Who is signing in kiosk mode
+  startKioskHandoff: () => void; // Show the handoff screen, e.g. when a signer walks away
 }
 
 export interface PDFSignerProps {
   documentUrl: string;
-  onSignatureStatusChange?: (allSigned: boolean, currentIndex: number) => void;
+  onSignatureStatusChange?: (allSigned: boolean, currentIndex: number, blockers: CompletionBlocker[]) => void;
   onSignatureApplied?: (data: SignatureData) => void;
   onError?: (error: Error) => void;
   className?: string;
@@ -117,15 +827,95 @@ export interface PDFSignerProps {
     documentHash: string; // From backend
     authMethod: string; // Authentication method used
     ipAddress?: string; // Should be captured server-side
+    signerRole?: string; // Role the signer signs as; only fields for that role (or none) can be signed
   };
 
+  // Optional: Produce PKCS#7/CMS digital signatures in getSignedPdf()
+  signer?: Signer;
+  signatureProfile?: SignatureProfile; // Default: 'pkcs7'
+  timestampAuthority?: TimestampAuthority; // Required for 'pades-b-t' and 'pades-b-lt'
+  // Revocation data for the certificates embedded in the signatures ('pades-b-lt')
+  fetchValidationData?: (certificates: Uint8Array[]) => Promise<ValidationData>;
+
+  // Optional: DER-encoded trust anchors for verifying signatures already in the PDF
+  trustedCertificates?: Uint8Array[];
+  // Called with the verification results (including changes since each signature)
+  onSignaturesVerified?: (results: SignatureVerificationResult[]) => void;
+
+  // CFR Part 11.200: Verify re-entered credentials before each signature is applied
+  reauthenticate?: (request: ReauthenticationRequest) => Promise<ReauthenticationResult>;
+  reauthentication?: ReauthenticationOptions;
+
+  // CFR Part 11.50(b): Name, date and meaning drawn with each signature,
+  // on screen and in getSignedPdf() output
+  manifestationTemplate?: ManifestationTemplate;
+
+  // Optional: Append a certificate-of-completion page to getSignedPdf() output
+  // (not possible once the loaded PDF is digitally signed)
+  completionCertificate?: boolean | CompletionCertificateOptions;
+
+  // CFR Part 11.10(e) audit trail: receives every hash-chained audit entry
+  auditSink?: AuditSink;
+
   // Optional: Override default signature intent
   defaultSignatureIntent?: string; // Default: "I approve this document"
+  // Optional: Per-field signature meanings (otherwise parsed from field names)
+  fieldIntents?: FieldIntents;
+  // Optional: Names or IDs of fields that take initials (otherwise detected
+  // from field names such as "Initials_Page1")
+  initialsFields?: string[];
+  // Date and printed-name text fields linked to a signature field are filled
+  // from the signature and locked (default: true)
+  autoFill?: boolean | AutoFillOptions;
+
+  // Optional: Fill text, check box, radio and dropdown fields in the signer
+  // (default: true). Required fields must be filled before allSigned is true.
+  enableFormFields?: boolean;
+  onFormFieldChange?: (fieldName: string, value: FormFieldValue) => void;
+
+  // Optional: Conditional requirements and visibility of signature and form
+  // fields (e.g. a spouse signature required when "Married" is checked)
+  fieldRules?: FieldRule[];
+
+  // Optional: Fields placed with the field editor, merged with the fields in
+  // the PDF (see parseFieldLayout)
+  fields?: AuthoredField[];
+  // 'author' shows the field editor instead of the signing UI (default: 'sign')
+  mode?: 'sign' | 'author';
+  // Signer roles in signing order: offered in the field editor and matched
+  // against field names ("Buyer_Signature" is for "Buyer")
+  signerRoles?: string[];
+  onFieldLayoutChange?: (layout: FieldLayout) => void;
+
+  // Optional: Place fields next to anchor text such as "Signature: ____" or
+  // "{{sig:approver}}", added like authored fields (memoize it)
+  anchors?: AnchorRule[];
+
+  // Optional: Multi-signer routing. Fields are assigned to roles by
+  // fieldRoles, their authored role or their name (see signerRoles); with
+  // 'sequential' order each role signs only after the ones before it.
+  fieldRoles?: FieldRoles;
+  signingOrder?: SigningOrder; // Default: 'parallel'
+  onRoleStatusChange?: (status: RoleStatus) => void;
+
+  // Optional: Kiosk mode for several signers on one device. Each signer
+  // confirms their identity on a handoff screen and signs their role's
+  // fields; signatureContext supplies the session and document hash.
+  kiosk?: KioskOptions;
+  onKioskHandoff?: (signer: KioskSigner) => void;
 
   // GDPR/CCPA Compliance: Opt-in for device info collection
   // Set to true to collect userAgent and deviceInfo (browser, platform, screen resolution)
   // Default: false (compliant with GDPR - requires explicit consent)
   collectDeviceInfo?: boolean;
+
+  // Optional: Capture drawn-signature dynamics in a biometric record,
+  // encrypted with this public key before it is attached to SignatureData
+  biometricEncryption?: BiometricEncryptionOptions;
+
+  // Optional: Remember the adopted signature across sessions
+  // (it is reused across fields within a session either way)
+  signatureStorage?: SignatureStorageAdapter;
 }
 
 export interface SignatureDialogProps {
@@ -136,6 +926,14 @@ export interface SignatureDialogProps {
   signatureContext?: PDFSignerProps['signatureContext'];
   defaultSignatureIntent?: string;
   collectDeviceInfo?: boolean;
+  auditLog?: AuditLog;
+  renderedDocumentHash?: string | null; // SHA-256 of the loaded document; checked against (and required with) signatureContext.documentHash
+  onError?: (error: Error) => void; // Receives DocumentHashMismatchError and ReauthenticationLockoutError
+  biometricEncryption?: BiometricEncryptionOptions;
+  reauthenticate?: PDFSignerProps['reauthenticate'];
+  reauthentication?: ReauthenticationOptions;
+  adoptedSignature?: AdoptedSignature | null; // Offered for one-click reuse
+  onForgetAdoptedSignature?: () => void;
 }
 
 export interface SignatureCanvasProps {
@@ -146,6 +944,10 @@ export interface SignatureCanvasProps {
   signatureContext?: PDFSignerProps['signatureContext'];
   defaultSignatureIntent?: string;
   collectDeviceInfo?: boolean;
+  auditLog?: AuditLog;
+  renderedDocumentHash?: string | null; // SHA-256 of the loaded document; checked against (and required with) signatureContext.documentHash
+  onError?: (error: Error) => void; // Receives DocumentHashMismatchError and biometric encryption failures
+  biometricEncryption?: BiometricEncryptionOptions;
 }
 
 export interface SignatureTypedProps {
@@ -155,6 +957,42 @@ export interface SignatureTypedProps {
   signatureContext?: PDFSignerProps['signatureContext'];
   defaultSignatureIntent?: string;
   collectDeviceInfo?: boolean;
+  auditLog?: AuditLog;
+  renderedDocumentHash?: string | null; // SHA-256 of the loaded document; checked against (and required with) signatureContext.documentHash
+  onError?: (error: Error) => void; // Receives DocumentHashMismatchError
+}
+
+export interface SignatureInitialsProps {
+  onComplete: (data: SignatureData) => void;
+  onCancel: () => void;
+  signatureContext?: PDFSignerProps['signatureContext'];
+  defaultSignatureIntent?: string;
+  collectDeviceInfo?: boolean;
+  auditLog?: AuditLog;
+  renderedDocumentHash?: string | null; // SHA-256 of the loaded document; checked against (and required with) signatureContext.documentHash
+  onError?: (error: Error) => void; // Receives DocumentHashMismatchError
+}
+
+export interface SignatureUploadProps {
+  onComplete: (data: SignatureData) => void;
+  onCancel: () => void;
+  signatureContext?: PDFSignerProps['signatureContext'];
+  defaultSignatureIntent?: string;
+  collectDeviceInfo?: boolean;
+  auditLog?: AuditLog;
+  renderedDocumentHash?: string | null; // SHA-256 of the loaded document; checked against (and required with) signatureContext.documentHash
+  onError?: (error: Error) => void; // Receives DocumentHashMismatchError
+}
+
+export interface ReauthenticationPromptProps {
+  credentialType: ReauthenticationCredentialType;
+  remainingAttempts: number;
+  isVerifying: boolean;
+  lockedOut: boolean;
+  error: string | null;
+  onSubmit: (credential: string) => void;
+  onBack: () => void;
+  onClose: () => void;
 }
 
 export interface SignaturePreviewProps {
@@ -163,6 +1001,20 @@ export interface SignaturePreviewProps {
   onEdit: () => void;
 }
 
+/**
+ * Progress of one kind of field (see useSignatureStatus)
+ */
+export interface FieldStatusCount {
+  signed: number;
+  required: number;
+  total: number;
+}
+
+export interface SignatureStatusCounts {
+  signatures: FieldStatusCount;
+  initials: FieldStatusCount;
+}
+
 export interface ToolbarProps {
   currentPage: number;
   numPages: number;
@@ -173,4 +1025,7 @@ export interface ToolbarProps {
   onPreviousSignature?: () => void;
   currentSignatureIndex?: number;
   totalSignatures?: number;
+  signatureCounts?: SignatureStatusCounts; // Shown as separate signature and initials progress
+  completionBlockers?: CompletionBlocker[]; // The first is shown; all are in its tooltip
+  roleStatus?: RoleStatus; // Shown when the signer is waiting on other roles
 }
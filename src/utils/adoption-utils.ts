@@ -0,0 +1,142 @@
+import { AdoptedSignature, PDFSignerProps, SignatureData, SignatureStorageAdapter } from '../types';
+import { createCFRCompliantSignature, validateImageDataUrl } from './signature-utils';
+import { stripStrokeDynamics } from './biometric-utils';
+import { validateStrokes } from './stroke-utils';
+
+const SIGNATURE_TYPES: ReadonlyArray<SignatureData['type']> = ['drawn', 'typed', 'uploaded'];
+
+/**
+ * Adopt a captured signature for reuse on later fields
+ *
+ * Keeps the image and the stroke shape. Pen timing, pressure and
+ * biometrics stay with the original capture. Adopting a reused signature
+ * keeps its original adoption time.
+ *
+ * @param data - Signature data from createCFRCompliantSignature
+ */
+export function toAdoptedSignature(data: SignatureData): AdoptedSignature {
+  return {
+    type: data.type,
+    data: data.data,
+    ...(data.strokes && data.canvasSize && {
+      strokes: stripStrokeDynamics(data.strokes),
+      canvasSize: { ...data.canvasSize },
+    }),
+    signerId: data.signerId,
+    adoptedAt: data.adoptedAt ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * SECURITY: Validate an adopted signature before offering it for reuse
+ *
+ * Values loaded from storage are untrusted: the image must pass
+ * validateImageDataUrl, strokes must pass validateStrokes, and the
+ * signature must belong to the current signer.
+ *
+ * @param value - Value loaded from a SignatureStorageAdapter
+ * @param signerId - Current signer
+ * @returns true if the signature can be offered to this signer
+ */
+export function validateAdoptedSignature(value: unknown, signerId: string): value is AdoptedSignature {
+  if (typeof value !== 'object' || value === null) {
+    console.error('[Security] Adopted signature rejected: Not an object');
+    return false;
+  }
+
+  const adopted = value as Partial<AdoptedSignature>;
+  if (adopted.signerId !== signerId) {
+    console.error('[Security] Adopted signature rejected: Belongs to a different signer');
+    return false;
+  }
+  if (
+    !SIGNATURE_TYPES.includes(adopted.type as SignatureData['type']) ||
+    typeof adopted.adoptedAt !== 'string' ||
+    Number.isNaN(Date.parse(adopted.adoptedAt))
+  ) {
+    console.error('[Security] Adopted signature rejected: Invalid type or adoption time');
+    return false;
+  }
+  if (typeof adopted.data !== 'string' || !validateImageDataUrl(adopted.data)) {
+    return false;
+  }
+  if (adopted.strokes !== undefined && (!adopted.canvasSize || !validateStrokes(adopted.strokes, adopted.canvasSize))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Sign a field with an adopted signature
+ *
+ * The adopted image is signed anew through createCFRCompliantSignature, so
+ * each reuse gets its own timestamp, meaning and signatureHash; adoptedAt
+ * records when the signer adopted the image and is covered by the hash.
+ *
+ * @param adopted - Signature adopted by the current signer
+ * @param context - Required CFR Part 11 context (signer, session, document)
+ * @param signatureIntent - Meaning of this signature
+ * @param collectDeviceInfo - Opt-in flag for device metadata collection
+ * @param renderedDocumentHash - SHA-256 of the loaded document (see createCFRCompliantSignature)
+ * @throws Error if the signature was adopted by a different signer
+ */
+export async function reuseAdoptedSignature(
+  adopted: AdoptedSignature,
+  context: NonNullable<PDFSignerProps['signatureContext']>,
+  signatureIntent: string,
+  collectDeviceInfo: boolean = false,
+  renderedDocumentHash: string | null
+): Promise<SignatureData> {
+  // SECURITY: A signature may only ever be applied by the signer who adopted it
+  if (adopted.signerId !== context.signerId) {
+    console.error('[Security] Refusing to reuse a signature adopted by a different signer');
+    throw new Error('The adopted signature belongs to a different signer');
+  }
+
+  return createCFRCompliantSignature(
+    {
+      type: adopted.type,
+      data: adopted.data,
+      ...(adopted.strokes && { strokes: adopted.strokes, canvasSize: adopted.canvasSize }),
+      adoptedAt: adopted.adoptedAt,
+    },
+    context,
+    signatureIntent,
+    collectDeviceInfo,
+    renderedDocumentHash
+  );
+}
+
+/**
+ * Create a SignatureStorageAdapter backed by Web Storage
+ *
+ * Entries are keyed by signer ID. Use sessionStorage to forget the
+ * signature when the tab closes; on shared devices (kiosks) do not
+ * remember signatures at all.
+ *
+ * @param storage - Web Storage area (default: localStorage)
+ * @param keyPrefix - Prefix of the storage keys
+ */
+export function createWebStorageSignatureStorage(
+  storage: Storage = window.localStorage,
+  keyPrefix: string = 'helix-pdf-signer:adopted-signature:'
+): SignatureStorageAdapter {
+  return {
+    load: (signerId) => {
+      const stored = storage.getItem(keyPrefix + signerId);
+      if (stored === null) return null;
+      try {
+        return JSON.parse(stored) as AdoptedSignature;
+      } catch {
+        console.error('[Security] Adopted signature rejected: Stored value is not valid JSON');
+        return null;
+      }
+    },
+    save: (signerId, signature) => {
+      storage.setItem(keyPrefix + signerId, JSON.stringify(signature));
+    },
+    remove: (signerId) => {
+      storage.removeItem(keyPrefix + signerId);
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { AnchorRule, AuthoredField, AuthoredFieldType, BoundingBox } from '../types';
+import { clampFieldBox, DEFAULT_FIELD_SIZES, isValidFieldRole, nextFieldName } from './layout-utils';
+import { sanitizeFieldName } from './pdf-utils';
+
+// SECURITY: Bound the fields a document's text can create (CWE-400)
+const MAX_ANCHOR_FIELDS = 500;
+
+// pdf.js TextItem | TextMarkedContent, as returned by getTextContent
+type TextContentItem = Awaited<ReturnType<PDFPageProxy['getTextContent']>>['items'][number];
+
+// A text item's characters in the page text, and its box (top-left origin)
+interface TextRun {
+  start: number;
+  end: number;
+  x: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Join a page's text items into one string, remembering where each came from
+ *
+ * Items that end a line are followed by '\n', so patterns only span lines
+ * when they allow it (e.g. with \s).
+ */
+function joinPageText(items: TextContentItem[], view: number[]): { text: string; runs: TextRun[] } {
+  let text = '';
+  const runs: TextRun[] = [];
+
+  for (const item of items) {
+    // Marked-content items carry no text
+    if (!('str' in item) || typeof item.str !== 'string' || !Array.isArray(item.transform)) continue;
+    const x = Number(item.transform[4]);
+    const baseline = Number(item.transform[5]);
+    const width = Number(item.width);
+    const height = Number(item.height);
+    if (![x, baseline, width, height].every(Number.isFinite)) continue;
+
+    runs.push({
+      start: text.length,
+      end: text.length + item.str.length,
+      x: x - view[0],
+      top: view[3] - baseline - height,
+      width,
+      height,
+    });
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+  }
+
+  return { text, runs };
+}
+
+/**
+ * Box around characters start..end of the page text
+ *
+ * Characters are assumed to share their item's width evenly.
+ */
+function matchBox(runs: TextRun[], start: number, end: number): BoundingBox | null {
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+
+  for (const run of runs) {
+    const length = run.end - run.start;
+    if (length === 0 || run.end <= start || run.start >= end) continue;
+    const charWidth = run.width / length;
+    left = Math.min(left, run.x + charWidth * (Math.max(start, run.start) - run.start));
+    right = Math.max(right, run.x + charWidth * (Math.min(end, run.end) - run.start));
+    top = Math.min(top, run.top);
+    bottom = Math.max(bottom, run.top + run.height);
+  }
+
+  return left === Infinity ? null : { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function findMatches(pattern: string | RegExp, text: string) {
+  const regex = typeof pattern === 'string'
+    ? new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
+    : new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+  // Empty matches (e.g. from an empty string or /x*/) place nothing
+  return Array.from(text.matchAll(regex))
+    .filter((match) => match[0].length > 0)
+    .map((match) => ({ start: match.index!, end: match.index! + match[0].length, role: match.groups?.role }));
+}
+
+function anchorFieldName(rule: AnchorRule, type: AuthoredFieldType, fields: AuthoredField[]): string {
+  const base = sanitizeFieldName(rule.fieldName);
+  if (!base) return nextFieldName(fields, type);
+
+  const names = new Set(fields.map((field) => field.fieldName));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+}
+
+/**
+ * Place fields next to anchor text found with PDF.js getTextContent
+ *
+ * Each rule's pattern is matched against the text of every page, and each
+ * match places a field at the rule's offset and size relative to the
+ * matched text (see AnchorRule). Fields are returned as authored fields,
+ * so they are merged and signed like the ones from the field editor.
+ *
+ * Only horizontal text on unrotated pages is placed accurately.
+ *
+ * SECURITY: Anchor text is document content (CWE-20). Roles taken from it
+ * must pass the layout role check (matches with an invalid role place no
+ * field), and at most 500 fields are placed.
+ *
+ * @param pdfDocument - Loaded PDF.js document
+ * @param anchors - Anchor rules, in order
+ * @returns Fields in page order, then rule order
+ */
+export async function extractAnchorFields(
+  pdfDocument: PDFDocumentProxy,
+  anchors: AnchorRule[]
+): Promise<AuthoredField[]> {
+  const fields: AuthoredField[] = [];
+  if (anchors.length === 0) return fields;
+
+  for (let i = 1; i <= pdfDocument.numPages; i++) {
+    const page = await pdfDocument.getPage(i);
+    const view = page.view;
+    const pageWidth = view[2] - view[0];
+    const pageHeight = view[3] - view[1];
+    const { items } = await page.getTextContent();
+    const { text, runs } = joinPageText(items, view);
+
+    for (const [ruleIndex, rule] of anchors.entries()) {
+      for (const [matchIndex, match] of findMatches(rule.pattern, text).entries()) {
+        if (fields.length >= MAX_ANCHOR_FIELDS) {
+          console.error(`[Security] Anchor text matched more than ${MAX_ANCHOR_FIELDS} fields; ignoring the rest`);
+          return fields;
+        }
+        const box = matchBox(runs, match.start, match.end);
+        if (!box) continue;
+
+        const role = match.role ?? rule.role;
+        // SECURITY: A field without a role can be signed by anyone, so a
+        // malformed role must not fall back to no role
+        if (role !== undefined && !isValidFieldRole(role)) {
+          console.error(`[Anchor] Ignoring anchor text with an invalid role on page ${i}`);
+          continue;
+        }
+        const type = rule.type ?? 'signature';
+        const size = rule.size ?? DEFAULT_FIELD_SIZES[type];
+        const offset = rule.offset ?? { x: 0, y: 0 };
+        const x = rule.relativeTo === 'end' ? box.x + box.width : box.x;
+
+        fields.push({
+          id: `anchor-${i}-${ruleIndex}-${matchIndex}`,
+          pageIndex: i - 1,
+          fieldName: anchorFieldName(rule, type, fields),
+          type,
+          boundingBox: clampFieldBox(
+            { x: x + offset.x, y: box.y + offset.y, width: size.width, height: size.height },
+            pageWidth,
+            pageHeight
+          ),
+          required: rule.required !== false,
+          ...(role !== undefined && { role }),
+        });
+      }
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,309 @@
+/**
+ * Minimal ASN.1 DER encoder/decoder
+ *
+ * Covers exactly what the CMS signing and verification code needs:
+ * building SignedData structures and walking certificates and signatures
+ * embedded in PDFs. It is not a general-purpose ASN.1 library.
+ *
+ * SECURITY: The decoder enforces definite lengths and bounds-checks every
+ * element against its parent, so malformed input from an untrusted PDF
+ * throws instead of reading out of range.
+ *
+ * CWE-125: Out-of-bounds Read
+ * CWE-20: Improper Input Validation
+ */
+
+export const ASN1_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  ENUMERATED: 0x0a,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+// SECURITY: Bound nesting depth to prevent stack exhaustion on hostile input
+const MAX_DEPTH = 32;
+
+export interface Asn1Node {
+  tag: number;
+  constructed: boolean;
+  /** Offset of the tag byte within the parsed buffer */
+  start: number;
+  /** Offset of the first content byte */
+  contentStart: number;
+  /** Offset just past the last content byte */
+  end: number;
+  /** Full encoding (tag + length + content) */
+  der: Uint8Array;
+  /** Content octets only */
+  content: Uint8Array;
+  children: Asn1Node[];
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return Uint8Array.of(length);
+  }
+  const bytes: number[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function derEncode(tag: number, content: Uint8Array): Uint8Array {
+  return concatBytes(Uint8Array.of(tag), encodeLength(content.length), content);
+}
+
+export function derSequence(...items: Uint8Array[]): Uint8Array {
+  return derEncode(ASN1_TAG.SEQUENCE, concatBytes(...items));
+}
+
+/**
+ * DER requires SET OF elements to be sorted by their encodings
+ */
+export function derSet(...items: Uint8Array[]): Uint8Array {
+  const sorted = [...items].sort(compareBytes);
+  return derEncode(ASN1_TAG.SET, concatBytes(...sorted));
+}
+
+export function derContext(tagNumber: number, content: Uint8Array, constructed = true): Uint8Array {
+  return derEncode((constructed ? 0xa0 : 0x80) | tagNumber, content);
+}
+
+export function derNull(): Uint8Array {
+  return Uint8Array.of(ASN1_TAG.NULL, 0x00);
+}
+
+export function derOctetString(bytes: Uint8Array): Uint8Array {
+  return derEncode(ASN1_TAG.OCTET_STRING, bytes);
+}
+
+export function derBoolean(value: boolean): Uint8Array {
+  return Uint8Array.of(ASN1_TAG.BOOLEAN, 0x01, value ? 0xff : 0x00);
+}
+
+/**
+ * Encode an INTEGER from a small number or big-endian unsigned bytes
+ */
+export function derInteger(value: number | Uint8Array): Uint8Array {
+  let bytes: Uint8Array;
+  if (typeof value === 'number') {
+    const list: number[] = [];
+    let remaining = value;
+    do {
+      list.unshift(remaining & 0xff);
+      remaining = Math.floor(remaining / 256);
+    } while (remaining > 0);
+    bytes = Uint8Array.from(list);
+  } else {
+    // Strip redundant leading zeros
+    let i = 0;
+    while (i < value.length - 1 && value[i] === 0) i++;
+    bytes = value.slice(i);
+  }
+  // Prepend 0x00 so the value stays positive
+  if (bytes[0] & 0x80) {
+    bytes = concatBytes(Uint8Array.of(0), bytes);
+  }
+  return derEncode(ASN1_TAG.INTEGER, bytes);
+}
+
+export function derOid(oid: string): Uint8Array {
+  const parts = oid.split('.').map(Number);
+  if (parts.length < 2 || parts.some((n) => !Number.isInteger(n) || n < 0)) {
+    throw new Error(`Invalid OID: ${oid}`);
+  }
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f];
+    let remaining = Math.floor(part / 128);
+    while (remaining > 0) {
+      chunk.unshift((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    bytes.push(...chunk);
+  }
+  return derEncode(ASN1_TAG.OID, Uint8Array.from(bytes));
+}
+
+export function derUtf8String(value: string): Uint8Array {
+  return derEncode(ASN1_TAG.UTF8_STRING, new TextEncoder().encode(value));
+}
+
+function timeDigits(date: Date): string {
+  // YYYY-MM-DDTHH:mm:ss.sssZ -> YYYYMMDDHHmmss
+  return date.toISOString().slice(0, 19).replace(/[-:T]/g, '');
+}
+
+export function derGeneralizedTime(date: Date): Uint8Array {
+  return derEncode(ASN1_TAG.GENERALIZED_TIME, new TextEncoder().encode(`${timeDigits(date)}Z`));
+}
+
+/**
+ * Encode a time as UTCTime (years 1950-2049) or GeneralizedTime, per RFC 5280
+ */
+export function derTime(date: Date): Uint8Array {
+  const year = date.getUTCFullYear();
+  if (year >= 1950 && year < 2050) {
+    return derEncode(ASN1_TAG.UTC_TIME, new TextEncoder().encode(`${timeDigits(date).slice(2)}Z`));
+  }
+  return derGeneralizedTime(date);
+}
+
+/**
+ * Parse one DER element (and, for constructed types, its children)
+ *
+ * @param bytes - Buffer containing the encoding
+ * @param offset - Offset of the tag byte
+ * @throws Error if the encoding is malformed or runs past the buffer
+ */
+export function parseDer(bytes: Uint8Array, offset = 0, depth = 0): Asn1Node {
+  if (depth > MAX_DEPTH) {
+    throw new Error('ASN.1 structure nested too deeply');
+  }
+  if (offset + 2 > bytes.length) {
+    throw new Error('ASN.1 element truncated');
+  }
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('ASN.1 high-tag-number form is not supported');
+  }
+
+  let pos = offset + 1;
+  let length = bytes[pos++];
+  if (length & 0x80) {
+    const numBytes = length & 0x7f;
+    if (numBytes === 0) {
+      throw new Error('ASN.1 indefinite length is not allowed in DER');
+    }
+    if (numBytes > 4) {
+      throw new Error('ASN.1 length too large');
+    }
+    length = 0;
+    for (let i = 0; i < numBytes; i++) {
+      if (pos >= bytes.length) throw new Error('ASN.1 length truncated');
+      length = length * 256 + bytes[pos++];
+    }
+  }
+
+  const contentStart = pos;
+  const end = contentStart + length;
+  if (end > bytes.length) {
+    throw new Error('ASN.1 element exceeds buffer');
+  }
+
+  const constructed = (tag & 0x20) !== 0;
+  const children: Asn1Node[] = [];
+  if (constructed) {
+    let childOffset = contentStart;
+    while (childOffset < end) {
+      const child = parseDer(bytes.subarray(0, end), childOffset, depth + 1);
+      children.push(child);
+      childOffset = child.end;
+    }
+  }
+
+  return {
+    tag,
+    constructed,
+    start: offset,
+    contentStart,
+    end,
+    der: bytes.subarray(offset, end),
+    content: bytes.subarray(contentStart, end),
+    children,
+  };
+}
+
+export function decodeOid(node: Asn1Node): string {
+  if (node.tag !== ASN1_TAG.OID || node.content.length === 0) {
+    throw new Error('ASN.1 element is not an OID');
+  }
+  const bytes = node.content;
+  const parts: number[] = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+export function decodeTime(node: Asn1Node): Date {
+  const text = new TextDecoder().decode(node.content);
+  // UTCTime has a two-digit year, GeneralizedTime a four-digit one
+  const yearDigits = node.tag === ASN1_TAG.UTC_TIME ? 2 : 4;
+  const match = text.match(
+    new RegExp(`^(\\d{${yearDigits}})(\\d{2})(\\d{2})(\\d{2})(\\d{2})(\\d{2})?(?:\\.\\d+)?Z$`)
+  );
+  if (!match || (node.tag !== ASN1_TAG.UTC_TIME && node.tag !== ASN1_TAG.GENERALIZED_TIME)) {
+    throw new Error('ASN.1 element is not a valid time');
+  }
+  let year = Number(match[1]);
+  if (node.tag === ASN1_TAG.UTC_TIME) {
+    year += year < 50 ? 2000 : 1900;
+  }
+  return new Date(Date.UTC(
+    year,
+    Number(match[2]) - 1,
+    Number(match[3]),
+    Number(match[4]),
+    Number(match[5]),
+    Number(match[6] ?? 0)
+  ));
+}
+
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return compareBytes(a, b) === 0;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, '');
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
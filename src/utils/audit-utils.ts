@@ -0,0 +1,150 @@
+import {
+  AuditChainVerification,
+  AuditEntry,
+  AuditEventType,
+  AuditLog,
+  AuditLogOptions,
+  AuditDetails,
+} from '../types';
+import { bytesToHex } from './asn1-utils';
+
+/**
+ * previousHash of the first entry in a chain
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Serialize a value as JSON with object keys sorted, so the hash of an
+ * entry does not depend on property insertion order
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+/**
+ * SHA-256 over every field of an entry except its own hash
+ */
+async function hashEntry(entry: Omit<AuditEntry, 'hash'>): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalJson(entry));
+  return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
+}
+
+/**
+ * Verify the integrity of an audit trail
+ *
+ * Recomputes every entry's hash and checks that each entry links to its
+ * predecessor and that sequence numbers are contiguous from 0, so edits,
+ * deletions, insertions and reordering are all detected.
+ *
+ * CFR Part 11.10(e): Secure, computer-generated, time-stamped audit trails
+ * that do not obscure previously recorded information.
+ */
+export async function verifyChain(entries: readonly AuditEntry[]): Promise<AuditChainVerification> {
+  let previousHash = AUDIT_GENESIS_HASH;
+
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...rest } = entries[i];
+    if (rest.sequence !== i) {
+      return { valid: false, brokenAt: i, reason: `Expected sequence ${i}, found ${rest.sequence}` };
+    }
+    if (rest.previousHash !== previousHash) {
+      return { valid: false, brokenAt: i, reason: 'Entry does not link to the previous entry' };
+    }
+    if ((await hashEntry(rest)) !== hash) {
+      return { valid: false, brokenAt: i, reason: 'Entry hash does not match its contents' };
+    }
+    previousHash = hash;
+  }
+
+  return { valid: true, brokenAt: null };
+}
+
+/**
+ * Create an append-only, SHA-256 hash-chained audit log
+ *
+ * Each entry carries the hash of its predecessor, so any later change to
+ * a recorded entry breaks the chain (see verifyChain). Entries are frozen
+ * and the log has no way to remove or rewrite them.
+ *
+ * Appends are serialized: entries are numbered, hashed and delivered to
+ * the sink strictly in record() order. The sequence number is taken when
+ * the entry is chained, so an event that fails to hash leaves no gap.
+ *
+ * record() never rejects, so callers may fire and forget: failures are
+ * logged and passed to onSinkError, and later events are still chained.
+ *
+ * @param options - Actor recorded on every entry, sink and sink error handler
+ */
+export function createAuditLog(options: AuditLogOptions = {}): AuditLog {
+  const entries: AuditEntry[] = [];
+  let tail: Promise<unknown> = Promise.resolve();
+
+  const reportError = (error: Error, entry: AuditEntry | null) => {
+    try {
+      options.onSinkError?.(error, entry);
+    } catch (handlerError) {
+      console.error('[Audit] onSinkError threw:', handlerError);
+    }
+  };
+
+  const record = (
+    type: AuditEventType,
+    data: { fieldId?: string; details?: AuditDetails } = {}
+  ): Promise<AuditEntry | null> => {
+    const timestamp = new Date().toISOString();
+    const actor = typeof options.actor === 'function' ? options.actor() : options.actor;
+
+    const appended = tail.then(async () => {
+      const unsigned: Omit<AuditEntry, 'hash'> = {
+        sequence: entries.length,
+        timestamp,
+        type,
+        fieldId: data.fieldId,
+        // Copies, so later changes to the caller's objects cannot reach the entry
+        details: data.details && Object.freeze({ ...data.details }),
+        actor: actor && Object.freeze({ ...actor }),
+        previousHash: entries.length > 0 ? entries[entries.length - 1].hash : AUDIT_GENESIS_HASH,
+      };
+      const entry: AuditEntry = Object.freeze({ ...unsigned, hash: await hashEntry(unsigned) });
+      entries.push(entry);
+
+      if (options.sink) {
+        try {
+          await options.sink(entry);
+        } catch (err) {
+          // The entry stays in the local chain; the sink owner decides how to recover
+          console.error(`[Audit] Sink failed for entry ${entry.sequence} (${type}):`, err);
+          reportError(err as Error, entry);
+        }
+      }
+      return entry;
+    }).catch((err) => {
+      // Nothing was chained, so the next event takes this sequence number
+      console.error(`[Audit] Could not record ${type}:`, err);
+      reportError(err as Error, null);
+      return null;
+    });
+
+    tail = appended;
+    return appended;
+  };
+
+  return {
+    record,
+    getEntries: () => [...entries],
+    flush: () => tail.then(() => undefined),
+    verify: async () => {
+      await tail;
+      return verifyChain(entries);
+    },
+  };
+}
@@ -0,0 +1,251 @@
+import { PDFAcroText, PDFTextField, StandardFonts } from 'pdf-lib';
+import {
+  AutoFillField,
+  AutoFillOptions,
+  AutoFillSource,
+  BoundingBox,
+  PSPDFKitFormFieldValue,
+  SignatureData,
+  SignatureField,
+} from '../types';
+import { splitFieldName } from './intent-utils';
+import { fitText, toPrintable } from './manifestation-utils';
+import {
+  boundingBoxToRect,
+  findFieldWidget,
+  getPageView,
+  hasDigitalSignatures,
+  loadForIncrementalUpdate,
+  saveEdits,
+} from './pdf-signing-utils';
+
+export const DEFAULT_AUTOFILL_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+};
+
+// Largest distance (in PDF points, between box centers) for linking a plainly
+// named text field ("Date") to the nearest signature field
+const MAX_LINK_DISTANCE = 200;
+
+// Words that describe the value of a date or name field; any other word is
+// a prefix naming the signer ("Buyer_Date", "Witness Printed Name")
+const DATE_WORDS = new Set(['date', 'dated', 'signed', 'signing', 'signature', 'sig', 'of']);
+const NAME_WORDS = new Set(['name', 'printed', 'print', 'signer', 'signatory', 'full', 'of', 'signature', 'sig']);
+const SIGNATURE_WORDS = new Set(['signature', 'sig', 'sign', 'signed', 'here', 'by']);
+
+/**
+ * Recognise date and printed-name text fields by name
+ *
+ * "Date", "Date_Signed", "Buyer_Date", "PrintedName" and "Witness Print
+ * Name" match; names with other value words ("Date of Birth",
+ * "Company Name") keep those words in the prefix and only match a signature
+ * field named with the same prefix.
+ *
+ * @returns The value the field takes and the prefix naming its signer, or null
+ */
+export function classifyAutoFillFieldName(fieldName: string): { source: AutoFillSource; prefix: string[] } | null {
+  const words = splitFieldName(fieldName);
+  const isDate = words.includes('date') || words.includes('dated');
+  const isName = words.includes('name');
+  if (isDate === isName) return null;
+
+  const valueWords = isDate ? DATE_WORDS : NAME_WORDS;
+  return {
+    source: isDate ? 'date' : 'name',
+    prefix: words.filter((word) => !valueWords.has(word)),
+  };
+}
+
+/**
+ * Find the signature field a date or name field belongs to
+ *
+ * A field with a prefix links to the signature field with the same prefix
+ * ("Buyer_Date" → "Buyer_Signature"), preferring one on the same page. A
+ * field without one links to the nearest signature field on its page, within
+ * MAX_LINK_DISTANCE points. Initials fields are never linked.
+ *
+ * @returns ID of the linked signature field, or null
+ */
+export function linkAutoFillField(
+  candidate: { pageIndex: number; boundingBox: BoundingBox; prefix: string[] },
+  signatureFields: SignatureField[]
+): string | null {
+  const signatures = signatureFields.filter((field) => field.kind !== 'initials');
+
+  if (candidate.prefix.length > 0) {
+    const key = candidate.prefix.join(' ');
+    const matches = signatures.filter(
+      (field) => splitFieldName(field.fieldName).filter((word) => !SIGNATURE_WORDS.has(word)).join(' ') === key
+    );
+    const samePage = matches.filter((field) => field.pageIndex === candidate.pageIndex);
+    return nearest(samePage, candidate.boundingBox)?.id ?? matches[0]?.id ?? null;
+  }
+
+  const onPage = signatures.filter((field) => field.pageIndex === candidate.pageIndex);
+  return nearest(onPage, candidate.boundingBox, MAX_LINK_DISTANCE)?.id ?? null;
+}
+
+// Boxes read from the PDF and authored ones share the top-left origin (see
+// rectToBoundingBox), so their centers can be compared directly
+function nearest(fields: SignatureField[], box: BoundingBox, maxDistance = Infinity): SignatureField | null {
+  let best: SignatureField | null = null;
+  let bestDistance = maxDistance;
+  for (const field of fields) {
+    const distance = Math.hypot(
+      field.boundingBox.x + field.boundingBox.width / 2 - (box.x + box.width / 2),
+      field.boundingBox.y + field.boundingBox.height / 2 - (box.y + box.height / 2)
+    );
+    if (distance <= bestDistance) {
+      best = field;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Format a signing time for a date field
+ *
+ * Uses Intl.DateTimeFormat with the configured locale, time zone and
+ * format. An invalid locale or time zone falls back to the default format
+ * in UTC and is logged.
+ *
+ * @param timestamp - ISO 8601 timestamp (SignatureData.timestamp)
+ * @param options - Locale, time zone and date format
+ * @returns The formatted date, or an empty string for an invalid timestamp
+ */
+export function formatAutoFillDate(timestamp: string, options: AutoFillOptions = {}): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return '';
+
+  const { locale = 'en-US', timeZone = 'UTC', dateFormat = DEFAULT_AUTOFILL_DATE_FORMAT } = options;
+  try {
+    return new Intl.DateTimeFormat(locale, { ...dateFormat, timeZone }).format(date);
+  } catch (err) {
+    console.error('[AutoFill] Invalid locale, time zone or date format; using the default:', err);
+    return new Intl.DateTimeFormat('en-US', { ...DEFAULT_AUTOFILL_DATE_FORMAT, timeZone: 'UTC' }).format(date);
+  }
+}
+
+/**
+ * Compute the value of each auto-filled field whose signature field is signed
+ *
+ * @param fields - Auto-fill fields (see extractAutoFillFields)
+ * @param signatures - Signature data keyed by field ID (from useSignatureCapture)
+ * @param options - Date locale, time zone and format
+ * @returns Values keyed by auto-fill field ID
+ */
+export function createAutoFillValues(
+  fields: AutoFillField[],
+  signatures: Map<string, SignatureData>,
+  options: AutoFillOptions = {}
+): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const field of fields) {
+    const signature = signatures.get(field.signatureFieldId);
+    if (!signature) continue;
+    values.set(
+      field.id,
+      field.source === 'date' ? formatAutoFillDate(signature.timestamp, options) : signature.signerName
+    );
+  }
+  return values;
+}
+
+/**
+ * Auto-filled values as PSPDFKit Instant JSON form field values
+ *
+ * Authored fields are left out; they have no form field to fill.
+ */
+export function createAutoFillFormFieldValues(
+  fields: AutoFillField[],
+  signatures: Map<string, SignatureData>,
+  options: AutoFillOptions = {}
+): PSPDFKitFormFieldValue[] {
+  const values = createAutoFillValues(fields, signatures, options);
+  return fields
+    .filter((field) => values.has(field.id) && !field.authored)
+    .map((field) => ({
+      v: 1,
+      type: 'pspdfkit/form-field-value',
+      name: field.fieldName,
+      value: values.get(field.id)!,
+    }));
+}
+
+/**
+ * Fill auto-fill text fields in a PDF and lock them
+ *
+ * Each field whose signature field is signed gets its value, the ReadOnly
+ * flag and a Helvetica appearance. Values are reduced to what Helvetica can
+ * encode (see toPrintable) and cut to the field's MaxLen. Authored fields
+ * have no text field; their value is drawn onto the page, which a digitally
+ * signed PDF does not allow (it throws; see saveEdits).
+ *
+ * @param pdfBytes - Document bytes (e.g. the output of createSignedPDF)
+ * @param fields - Auto-fill fields (see extractAutoFillFields)
+ * @param signatures - Signature data keyed by field ID (from useSignatureCapture)
+ * @param options - Date locale, time zone and format
+ * @returns Promise resolving to the filled PDF bytes
+ */
+export async function fillAutoFillFields(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  fields: AutoFillField[],
+  signatures: Map<string, SignatureData>,
+  options: AutoFillOptions = {}
+): Promise<Uint8Array> {
+  const values = createAutoFillValues(fields, signatures, options);
+  if (values.size === 0) {
+    return pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  }
+
+  const original = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  const pdfDoc = await loadForIncrementalUpdate(original);
+  const signed = hasDigitalSignatures(pdfDoc);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+  for (const field of fields) {
+    const value = values.get(field.id);
+    if (value === undefined) continue;
+
+    if (field.authored) {
+      if (signed) {
+        throw new Error(
+          `Auto-fill field "${field.fieldName}" has no text field in this digitally signed PDF; ` +
+          'drawing it onto the page would invalidate the existing signatures'
+        );
+      }
+      const page = pdfDoc.getPages()[field.pageIndex];
+      if (!page) {
+        console.error(`[AutoFill] Field "${field.fieldName}" references missing page ${field.pageIndex + 1}`);
+        continue;
+      }
+      const [x, y, x2, y2] = boundingBoxToRect(field.boundingBox, getPageView(page));
+      const width = x2 - x;
+      const height = y2 - y;
+      const size = Math.min(height * 0.6, 12);
+      page.drawText(fitText(value, font, size, width - 4), {
+        x: x + 2,
+        y: y + (height - size) / 2 + size * 0.2,
+        size,
+        font,
+      });
+      continue;
+    }
+
+    const widget = findFieldWidget(pdfDoc, field, 'Tx');
+    if (!widget) {
+      console.error(`[AutoFill] No text field found for "${field.fieldName}" on page ${field.pageIndex + 1}`);
+      continue;
+    }
+
+    const textField = PDFTextField.of(PDFAcroText.fromDict(widget.fieldDict, widget.fieldRef), widget.fieldRef, pdfDoc);
+    textField.setText(toPrintable(value).slice(0, textField.getMaxLength()));
+    textField.enableReadOnly();
+    textField.updateAppearances(font);
+  }
+
+  return saveEdits(original, pdfDoc);
+}
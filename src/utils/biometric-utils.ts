@@ -0,0 +1,158 @@
+import {
+  BiometricEncryptionOptions,
+  BiometricPoint,
+  BiometricRecord,
+  EncryptedBiometricRecord,
+  SignatureStroke,
+} from '../types';
+
+export const BIOMETRIC_RECORD_VERSION = '1.0';
+export const BIOMETRIC_ENCRYPTION_ALGORITHM = 'RSA-OAEP-256+A256GCM';
+
+// Pressure recorded when the device does not report one (matches signature_pad)
+const DEFAULT_PRESSURE = 0.5;
+
+/**
+ * Build the biometric record of a drawn signature
+ *
+ * Velocity and acceleration are computed per point from the previous point
+ * of the same stroke; points sampled at the same millisecond repeat the
+ * previous values. Pen-up intervals are the gaps between strokes.
+ *
+ * @param strokes - Strokes with timing and pressure (see toSignatureStrokes)
+ * @param canvasSize - Size of the capture canvas
+ */
+export function createBiometricRecord(
+  strokes: SignatureStroke[],
+  canvasSize: { width: number; height: number }
+): BiometricRecord {
+  const biometricStrokes = strokes
+    .filter((stroke) => stroke.points.length > 0)
+    .map((stroke) => {
+      const points: BiometricPoint[] = [];
+      for (const [index, { x, y, time = 0, pressure = DEFAULT_PRESSURE }] of stroke.points.entries()) {
+        const previous = points[index - 1];
+        const dt = previous ? time - previous.t : 0;
+        const velocity = previous
+          ? dt > 0 ? Math.hypot(x - previous.x, y - previous.y) / dt : previous.velocity
+          : 0;
+        const acceleration = previous
+          ? dt > 0 ? (velocity - previous.velocity) / dt : previous.acceleration
+          : 0;
+        points.push({ x, y, t: time, pressure, velocity: round(velocity), acceleration: round(acceleration) });
+      }
+      return { penDown: points[0].t, penUp: points[points.length - 1].t, points };
+    });
+
+  const penUpIntervals = biometricStrokes
+    .slice(1)
+    .map((stroke, index) => stroke.penDown - biometricStrokes[index].penUp);
+  const duration = biometricStrokes.length > 0
+    ? biometricStrokes[biometricStrokes.length - 1].penUp - biometricStrokes[0].penDown
+    : 0;
+
+  return {
+    version: BIOMETRIC_RECORD_VERSION,
+    canvasSize: { ...canvasSize },
+    strokes: biometricStrokes,
+    penUpIntervals,
+    duration,
+  };
+}
+
+/**
+ * Drop timing and pressure from strokes, keeping only their shape
+ *
+ * Used for the plaintext strokes in SignatureData once the dynamics are in
+ * an encrypted biometric record.
+ */
+export function stripStrokeDynamics(strokes: SignatureStroke[]): SignatureStroke[] {
+  return strokes.map((stroke) => ({ points: stroke.points.map(({ x, y }) => ({ x, y })) }));
+}
+
+/**
+ * SECURITY: Encrypt a biometric record for the holder of a private key
+ *
+ * Raw signing dynamics never leave the browser unencrypted: the record is
+ * encrypted with a fresh AES-256-GCM key, and that key with the supplied
+ * RSA-OAEP public key. Only the private-key holder (e.g. a forensic
+ * examiner's service) can read the record.
+ *
+ * @param record - Biometric record (see createBiometricRecord)
+ * @param options - Recipient public key and optional key ID
+ * @returns Promise resolving to the encrypted record
+ */
+export async function encryptBiometricRecord(
+  record: BiometricRecord,
+  options: BiometricEncryptionOptions
+): Promise<EncryptedBiometricRecord> {
+  const { publicKey, keyId } = options;
+  if (publicKey.algorithm.name !== 'RSA-OAEP' || !publicKey.usages.includes('encrypt')) {
+    throw new Error('Biometric encryption requires an RSA-OAEP public key with the "encrypt" usage');
+  }
+
+  const contentKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(record));
+
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, contentKey, plaintext);
+  const rawKey = await crypto.subtle.exportKey('raw', contentKey);
+  const encryptedKey = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, rawKey);
+
+  return {
+    version: record.version,
+    algorithm: BIOMETRIC_ENCRYPTION_ALGORITHM,
+    ...(keyId !== undefined && { keyId }),
+    encryptedKey: toBase64(new Uint8Array(encryptedKey)),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a biometric record with the recipient's private key
+ *
+ * For forensic tooling; the viewer itself never decrypts records.
+ *
+ * @param encrypted - Record from SignatureData.biometrics
+ * @param privateKey - RSA-OAEP (SHA-256) private key with the "decrypt" usage
+ * @returns Promise resolving to the biometric record
+ */
+export async function decryptBiometricRecord(
+  encrypted: EncryptedBiometricRecord,
+  privateKey: CryptoKey
+): Promise<BiometricRecord> {
+  if (encrypted.algorithm !== BIOMETRIC_ENCRYPTION_ALGORITHM || encrypted.version !== BIOMETRIC_RECORD_VERSION) {
+    throw new Error(
+      `Unsupported biometric record: version ${encrypted.version}, algorithm ${encrypted.algorithm}`
+    );
+  }
+
+  const rawKey = await crypto.subtle.decrypt(
+    { name: 'RSA-OAEP' },
+    privateKey,
+    fromBase64(encrypted.encryptedKey) as BufferSource
+  );
+  const contentKey = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) as BufferSource },
+    contentKey,
+    fromBase64(encrypted.ciphertext) as BufferSource
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as BiometricRecord;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,229 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { CompletionCertificateOptions, SignatureData, SignatureField } from '../types';
+import { embedSignatureImage } from './signature-utils';
+import { fitText, formatManifestationDate } from './manifestation-utils';
+import { hasDigitalSignatures } from './pdf-signing-utils';
+
+// US Letter, matching the default page size used elsewhere
+const PAGE_SIZE: [number, number] = [612, 792];
+const MARGIN = 50;
+const ENTRY_HEIGHT = 118;
+const THUMBNAIL_WIDTH = 140;
+const THUMBNAIL_HEIGHT = 56;
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+
+interface CertificateFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  mono: PDFFont;
+}
+
+function drawHeader(
+  page: PDFPage,
+  fonts: CertificateFonts,
+  options: CompletionCertificateOptions & { title: string; generatedAt: string },
+  signatureCount: number
+): number {
+  const width = page.getWidth() - 2 * MARGIN;
+  let y = page.getHeight() - MARGIN - 18;
+
+  page.drawText(fitText(options.title, fonts.bold, 18, width), { x: MARGIN, y, size: 18, font: fonts.bold, color: TEXT_COLOR });
+  y -= 18;
+
+  if (options.documentName) {
+    page.drawText(fitText(`Document: ${options.documentName}`, fonts.regular, 10, width), {
+      x: MARGIN, y, size: 10, font: fonts.regular, color: TEXT_COLOR,
+    });
+    y -= 14;
+  }
+
+  const summary = `${signatureCount} signature${signatureCount === 1 ? '' : 's'} - generated ${formatManifestationDate(options.generatedAt)}`;
+  page.drawText(fitText(summary, fonts.regular, 9, width), { x: MARGIN, y, size: 9, font: fonts.regular, color: MUTED_COLOR });
+  y -= 12;
+
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: page.getWidth() - MARGIN, y },
+    thickness: 1,
+    color: RULE_COLOR,
+  });
+
+  return y - 12;
+}
+
+/**
+ * Draw one signature record with its top edge at `top`
+ */
+async function drawEntry(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  fonts: CertificateFonts,
+  top: number,
+  field: SignatureField,
+  data: SignatureData
+): Promise<void> {
+  const thumbnailTop = top - 4;
+  page.drawRectangle({
+    x: MARGIN,
+    y: thumbnailTop - THUMBNAIL_HEIGHT,
+    width: THUMBNAIL_WIDTH,
+    height: THUMBNAIL_HEIGHT,
+    borderColor: RULE_COLOR,
+    borderWidth: 0.5,
+  });
+
+  const image = await embedSignatureImage(pdfDoc, field.id, data);
+  if (image) {
+    const { width, height } = image.scaleToFit(THUMBNAIL_WIDTH - 8, THUMBNAIL_HEIGHT - 8);
+    page.drawImage(image, {
+      x: MARGIN + (THUMBNAIL_WIDTH - width) / 2,
+      y: thumbnailTop - THUMBNAIL_HEIGHT + (THUMBNAIL_HEIGHT - height) / 2,
+      width,
+      height,
+    });
+  } else {
+    page.drawText('Image unavailable', {
+      x: MARGIN + 8, y: thumbnailTop - THUMBNAIL_HEIGHT / 2 - 3, size: 8, font: fonts.regular, color: MUTED_COLOR,
+    });
+  }
+
+  const x = MARGIN + THUMBNAIL_WIDTH + 16;
+  const width = page.getWidth() - MARGIN - x;
+  const lines: Array<{ text: string; font: PDFFont; size: number; color?: typeof TEXT_COLOR }> = [
+    { text: data.signerName, font: fonts.bold, size: 11 },
+    { text: `Meaning: ${data.signerIntent}`, font: fonts.regular, size: 9 },
+    { text: `Signed: ${formatManifestationDate(data.timestamp)}`, font: fonts.regular, size: 9 },
+    { text: `Authentication: ${data.authMethod}`, font: fonts.regular, size: 9 },
+    { text: `Field: ${field.fieldName} (page ${field.pageIndex + 1})`, font: fonts.regular, size: 9 },
+    { text: `Signature hash: ${data.signatureHash}`, font: fonts.mono, size: 7, color: MUTED_COLOR },
+    { text: `Document hash:  ${data.documentHash}`, font: fonts.mono, size: 7, color: MUTED_COLOR },
+  ];
+
+  let y = top - 11;
+  for (const line of lines) {
+    page.drawText(fitText(line.text, line.font, line.size, width), {
+      x, y, size: line.size, font: line.font, color: line.color ?? TEXT_COLOR,
+    });
+    y -= line.size + 5;
+  }
+
+  page.drawLine({
+    start: { x: MARGIN, y: top - ENTRY_HEIGHT + 6 },
+    end: { x: page.getWidth() - MARGIN, y: top - ENTRY_HEIGHT + 6 },
+    thickness: 0.5,
+    color: RULE_COLOR,
+  });
+}
+
+/**
+ * Draw certificate-of-completion pages at the end of a document
+ *
+ * Signatures are listed in the order of `fields` (document order); entries
+ * for unknown fields are skipped and logged.
+ */
+async function drawCompletionCertificate(
+  pdfDoc: PDFDocument,
+  signatures: Map<string, SignatureData>,
+  fields: SignatureField[],
+  options: CompletionCertificateOptions
+): Promise<void> {
+  for (const fieldId of signatures.keys()) {
+    if (!fields.some((field) => field.id === fieldId)) {
+      console.error(
+        `[Security] Signature exists for unknown field: ${fieldId}. ` +
+        'This may indicate data corruption or tampering.'
+      );
+    }
+  }
+  const entries = fields
+    .filter((field) => signatures.has(field.id))
+    .map((field) => ({ field, data: signatures.get(field.id)! }));
+
+  const fonts: CertificateFonts = {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+    mono: await pdfDoc.embedFont(StandardFonts.Courier),
+  };
+  const headerOptions = {
+    ...options,
+    title: options.title ?? 'Certificate of Completion',
+    generatedAt: options.generatedAt ?? new Date().toISOString(),
+  };
+
+  let page = pdfDoc.addPage(PAGE_SIZE);
+  let top = drawHeader(page, fonts, headerOptions, entries.length);
+
+  if (entries.length === 0) {
+    page.drawText('No signatures were applied.', { x: MARGIN, y: top - 11, size: 10, font: fonts.regular, color: MUTED_COLOR });
+  }
+
+  for (const { field, data } of entries) {
+    if (top - ENTRY_HEIGHT < MARGIN) {
+      page = pdfDoc.addPage(PAGE_SIZE);
+      top = drawHeader(page, fonts, headerOptions, entries.length);
+    }
+    await drawEntry(pdfDoc, page, fonts, top, field, data);
+    top -= ENTRY_HEIGHT;
+  }
+}
+
+/**
+ * Generate a certificate of completion as a separate PDF
+ *
+ * A human-readable summary for auditors of every collected signature: the
+ * printed name, meaning (signerIntent), UTC time, authentication method,
+ * signature and document hashes, field name and page, and a thumbnail of
+ * the signature image.
+ *
+ * CFR Part 11.50: The certificate repeats each signature's manifestation
+ * (name, date and time, meaning) in human-readable form.
+ *
+ * @param signatures - Signature data keyed by field ID (from useSignatureCapture)
+ * @param fields - Signature fields of the document
+ * @param options - Title, document name and generation time
+ * @returns Promise resolving to the bytes of the certificate PDF
+ */
+export async function createCompletionCertificate(
+  signatures: Map<string, SignatureData>,
+  fields: SignatureField[],
+  options: CompletionCertificateOptions = {}
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(options.title ?? 'Certificate of Completion');
+  await drawCompletionCertificate(pdfDoc, signatures, fields, options);
+  return pdfDoc.save();
+}
+
+/**
+ * Append a certificate of completion to a document
+ *
+ * Same content as createCompletionCertificate, added as new pages at the
+ * end so existing page indexes (and signature fields) are unaffected.
+ *
+ * SECURITY: Pages may not be added once a document is digitally signed,
+ * so a signed PDF is refused rather than having its signatures
+ * invalidated; use createCompletionCertificate for a separate file.
+ *
+ * @param pdfBytes - Raw bytes of the (flattened) document
+ * @param signatures - Signature data keyed by field ID (from useSignatureCapture)
+ * @param fields - Signature fields of the document
+ * @param options - Title, document name and generation time
+ * @returns Promise resolving to the bytes of the document with the certificate appended
+ */
+export async function appendCompletionCertificate(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  signatures: Map<string, SignatureData>,
+  fields: SignatureField[],
+  options: CompletionCertificateOptions = {}
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  if (hasDigitalSignatures(pdfDoc)) {
+    throw new Error(
+      'Cannot append a completion certificate to a digitally signed PDF without invalidating its signatures'
+    );
+  }
+  await drawCompletionCertificate(pdfDoc, signatures, fields, options);
+  return pdfDoc.save();
+}
@@ -0,0 +1,419 @@
+import { Signer, SignatureProfile, TimestampAuthority } from '../types';
+import {
+  ASN1_TAG,
+  Asn1Node,
+  bytesEqual,
+  concatBytes,
+  decodeOid,
+  derContext,
+  derEncode,
+  derInteger,
+  derNull,
+  derOctetString,
+  derOid,
+  derSequence,
+  derSet,
+  derTime,
+  parseDer,
+} from './asn1-utils';
+
+/**
+ * Object identifiers used by CMS (RFC 5652) and PDF signatures
+ */
+export const OID = {
+  DATA: '1.2.840.113549.1.7.1',
+  SIGNED_DATA: '1.2.840.113549.1.7.2',
+  CONTENT_TYPE: '1.2.840.113549.1.9.3',
+  MESSAGE_DIGEST: '1.2.840.113549.1.9.4',
+  SIGNING_TIME: '1.2.840.113549.1.9.5',
+  SIGNING_CERTIFICATE_V2: '1.2.840.113549.1.9.16.2.47',
+  SIGNATURE_TIMESTAMP_TOKEN: '1.2.840.113549.1.9.16.2.14',
+  TST_INFO: '1.2.840.113549.1.9.16.1.4',
+  SHA256: '2.16.840.1.101.3.4.2.1',
+  SHA384: '2.16.840.1.101.3.4.2.2',
+  SHA512: '2.16.840.1.101.3.4.2.3',
+  RSA_ENCRYPTION: '1.2.840.113549.1.1.1',
+  SHA256_WITH_RSA: '1.2.840.113549.1.1.11',
+  SHA384_WITH_RSA: '1.2.840.113549.1.1.12',
+  SHA512_WITH_RSA: '1.2.840.113549.1.1.13',
+  EC_PUBLIC_KEY: '1.2.840.10045.2.1',
+  ECDSA_WITH_SHA256: '1.2.840.10045.4.3.2',
+  ECDSA_WITH_SHA384: '1.2.840.10045.4.3.3',
+  ECDSA_WITH_SHA512: '1.2.840.10045.4.3.4',
+  SECP256R1: '1.2.840.10045.3.1.7',
+  SECP384R1: '1.3.132.0.34',
+  SECP521R1: '1.3.132.0.35',
+  COMMON_NAME: '2.5.4.3',
+  BASIC_CONSTRAINTS: '2.5.29.19',
+} as const;
+
+/**
+ * The parts of an X.509 certificate the CMS code needs
+ */
+export interface ParsedCertificate {
+  der: Uint8Array;
+  serialNumber: Uint8Array; // Full INTEGER encoding
+  issuer: Uint8Array; // Full Name encoding
+  subject: Uint8Array; // Full Name encoding
+  subjectPublicKeyInfo: Uint8Array;
+  notBefore: Asn1Node;
+  notAfter: Asn1Node;
+  tbsCertificate: Uint8Array; // Bytes covered by the issuer's signature
+  signatureAlgorithm: string; // OID
+  signatureValue: Uint8Array; // BIT STRING contents without the unused-bits byte
+  isCA: boolean; // basicConstraints cA
+}
+
+/**
+ * Parse the identifying fields of a DER-encoded X.509 certificate
+ *
+ * @throws Error if the bytes are not a certificate
+ */
+export function parseCertificate(der: Uint8Array): ParsedCertificate {
+  const cert = parseDer(der);
+  const tbs = cert.children[0];
+  if (cert.tag !== ASN1_TAG.SEQUENCE || !tbs || tbs.tag !== ASN1_TAG.SEQUENCE) {
+    throw new Error('Invalid certificate: expected SEQUENCE');
+  }
+
+  // Skip the optional [0] EXPLICIT version
+  const fields = tbs.children[0]?.tag === 0xa0 ? tbs.children.slice(1) : tbs.children;
+  const [serial, , issuer, validity, subject, spki] = fields;
+  if (!serial || !issuer || !validity || !subject || !spki || validity.children.length !== 2) {
+    throw new Error('Invalid certificate: missing TBSCertificate fields');
+  }
+
+  const [, signatureAlgorithm, signatureValue] = cert.children;
+  if (!signatureAlgorithm || signatureValue?.tag !== ASN1_TAG.BIT_STRING) {
+    throw new Error('Invalid certificate: missing signature');
+  }
+
+  // Extensions: [3] EXPLICIT SEQUENCE OF { extnID, critical?, extnValue }
+  const extensions = fields.find((field) => field.tag === 0xa3)?.children[0]?.children ?? [];
+  const basicConstraints = extensions.find((ext) => decodeOid(ext.children[0]) === OID.BASIC_CONSTRAINTS);
+  const basicConstraintsValue = basicConstraints?.children[basicConstraints.children.length - 1];
+  const cA = basicConstraintsValue ? parseDer(basicConstraintsValue.content).children[0] : undefined;
+
+  return {
+    der: cert.der,
+    serialNumber: serial.der,
+    issuer: issuer.der,
+    subject: subject.der,
+    subjectPublicKeyInfo: spki.der,
+    notBefore: validity.children[0],
+    notAfter: validity.children[1],
+    tbsCertificate: tbs.der,
+    signatureAlgorithm: decodeOid(signatureAlgorithm.children[0]),
+    signatureValue: signatureValue.content.subarray(1),
+    isCA: cA?.tag === ASN1_TAG.BOOLEAN && cA.content[0] !== 0,
+  };
+}
+
+/**
+ * Extract the commonName from a DER-encoded X.500 Name, if present
+ */
+export function getCommonName(name: Uint8Array): string | null {
+  for (const rdn of parseDer(name).children) {
+    for (const attribute of rdn.children) {
+      if (decodeOid(attribute.children[0]) === OID.COMMON_NAME && attribute.children[1]) {
+        return new TextDecoder().decode(attribute.children[1].content);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode a PEM block into DER bytes
+ */
+export function pemToDer(pem: string): Uint8Array {
+  const base64 = pem
+    .replace(/-----BEGIN [^-]+-----/, '')
+    .replace(/-----END [^-]+-----/, '')
+    .replace(/\s+/g, '');
+  const binary = atob(base64);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function algorithmIdentifier(oid: string, withNullParams: boolean): Uint8Array {
+  return withNullParams ? derSequence(derOid(oid), derNull()) : derSequence(derOid(oid));
+}
+
+export function cmsAttribute(oid: string, ...values: Uint8Array[]): Uint8Array {
+  return derSequence(derOid(oid), derSet(...values));
+}
+
+/**
+ * WebCrypto returns ECDSA signatures as raw r||s; CMS wants a DER SEQUENCE
+ */
+function ecdsaRawToDer(raw: Uint8Array): Uint8Array {
+  const half = raw.length / 2;
+  return derSequence(derInteger(raw.slice(0, half)), derInteger(raw.slice(half)));
+}
+
+function signatureAlgorithmFor(key: CryptoKey): {
+  params: Algorithm | EcdsaParams;
+  identifier: Uint8Array;
+} {
+  switch (key.algorithm.name) {
+    case 'RSASSA-PKCS1-v1_5':
+      return {
+        params: { name: 'RSASSA-PKCS1-v1_5' },
+        identifier: algorithmIdentifier(OID.SHA256_WITH_RSA, true),
+      };
+    case 'ECDSA':
+      return {
+        params: { name: 'ECDSA', hash: 'SHA-256' },
+        identifier: algorithmIdentifier(OID.ECDSA_WITH_SHA256, false),
+      };
+    default:
+      throw new Error(`Unsupported signing key algorithm: ${key.algorithm.name}`);
+  }
+}
+
+export interface SignedDataOptions {
+  certificate: Uint8Array;
+  certificateChain?: Uint8Array[];
+  signedAttributes: Uint8Array[];
+  unsignedAttributes?: Uint8Array[];
+  signatureAlgorithm: Uint8Array;
+  signature: Uint8Array;
+  /** Embedded content (e.g. TSTInfo); omitted for detached signatures */
+  encapsulatedContent?: { contentType: string; content: Uint8Array };
+}
+
+/**
+ * Assemble a detached CMS SignedData ContentInfo (RFC 5652 §5)
+ */
+export function buildSignedData(options: SignedDataOptions): Uint8Array {
+  const cert = parseCertificate(options.certificate);
+  const digestAlgorithm = algorithmIdentifier(OID.SHA256, false);
+
+  // signedAttrs are encoded [0] IMPLICIT, i.e. the SET contents re-tagged
+  const signedAttrsSet = derSet(...options.signedAttributes);
+  const signedAttrs = derEncode(0xa0, parseDer(signedAttrsSet).content);
+
+  const signerInfoParts = [
+    derInteger(1),
+    derSequence(cert.issuer, cert.serialNumber),
+    digestAlgorithm,
+    signedAttrs,
+    options.signatureAlgorithm,
+    derOctetString(options.signature),
+  ];
+  if (options.unsignedAttributes && options.unsignedAttributes.length > 0) {
+    const unsignedSet = derSet(...options.unsignedAttributes);
+    signerInfoParts.push(derEncode(0xa1, parseDer(unsignedSet).content));
+  }
+
+  const certificates = [options.certificate, ...(options.certificateChain ?? [])];
+  const { encapsulatedContent } = options;
+  const encapContentInfo = encapsulatedContent
+    ? derSequence(
+      derOid(encapsulatedContent.contentType),
+      derContext(0, derOctetString(encapsulatedContent.content))
+    )
+    : derSequence(derOid(OID.DATA)); // Detached: no eContent
+
+  const signedData = derSequence(
+    derInteger(encapsulatedContent ? 3 : 1),
+    derSet(digestAlgorithm),
+    encapContentInfo,
+    derEncode(0xa0, concatBytes(...certificates)),
+    derSet(derSequence(...signerInfoParts))
+  );
+
+  return derSequence(derOid(OID.SIGNED_DATA), derContext(0, signedData));
+}
+
+/**
+ * Build the ESS signing-certificate-v2 attribute (RFC 5035) that binds
+ * the signer's certificate into the signed attributes, as PAdES requires
+ */
+export async function signingCertificateV2Attribute(certificate: Uint8Array): Promise<Uint8Array> {
+  const cert = parseCertificate(certificate);
+  const certHash = new Uint8Array(await crypto.subtle.digest('SHA-256', certificate as BufferSource));
+
+  // hashAlgorithm is omitted because SHA-256 is the DEFAULT
+  const essCertIdV2 = derSequence(
+    derOctetString(certHash),
+    derSequence(derSequence(derContext(4, cert.issuer)), cert.serialNumber)
+  );
+  return cmsAttribute(OID.SIGNING_CERTIFICATE_V2, derSequence(derSequence(essCertIdV2)));
+}
+
+export interface ParsedSignerInfo {
+  node: Asn1Node;
+  signedAttrs: Asn1Node | null;
+  signatureAlgorithm: string;
+  signature: Uint8Array;
+  unsignedAttrs: Asn1Node | null;
+}
+
+export interface ParsedSignedData {
+  contentInfo: Asn1Node;
+  signedData: Asn1Node;
+  encapContentType: string;
+  encapContent: Uint8Array | null;
+  certificates: Uint8Array[];
+  signerInfo: ParsedSignerInfo;
+}
+
+/**
+ * Parse a CMS ContentInfo wrapping SignedData with a single SignerInfo
+ *
+ * Trailing bytes (such as the zero padding of a PDF /Contents placeholder)
+ * are ignored.
+ *
+ * @throws Error if the structure is not SignedData
+ */
+export function parseSignedData(cms: Uint8Array): ParsedSignedData {
+  const contentInfo = parseDer(cms);
+  if (contentInfo.children.length < 2 || decodeOid(contentInfo.children[0]) !== OID.SIGNED_DATA) {
+    throw new Error('CMS ContentInfo does not contain SignedData');
+  }
+
+  const signedData = contentInfo.children[1].children[0];
+  if (!signedData || signedData.tag !== ASN1_TAG.SEQUENCE || signedData.children.length < 4) {
+    throw new Error('Invalid CMS SignedData');
+  }
+
+  const encap = signedData.children[2];
+  const encapContentType = decodeOid(encap.children[0]);
+  const encapContent = encap.children[1]?.children[0]?.content ?? null;
+
+  const certificatesNode = signedData.children.find((child) => child.tag === 0xa0);
+  const signerInfos = signedData.children[signedData.children.length - 1];
+  const signerInfo = signerInfos.children[0];
+  if (signerInfos.tag !== ASN1_TAG.SET || !signerInfo) {
+    throw new Error('CMS SignedData has no SignerInfo');
+  }
+
+  // SignerInfo: version, sid, digestAlgorithm, [0] signedAttrs?, signatureAlgorithm, signature, [1] unsignedAttrs?
+  const rest = signerInfo.children.slice(3);
+  const signedAttrs = rest[0]?.tag === 0xa0 ? rest.shift()! : null;
+  const [signatureAlgorithm, signature, unsignedAttrs] = rest;
+  if (!signatureAlgorithm || !signature || signature.tag !== ASN1_TAG.OCTET_STRING) {
+    throw new Error('Invalid CMS SignerInfo');
+  }
+
+  return {
+    contentInfo,
+    signedData,
+    encapContentType,
+    encapContent,
+    certificates: certificatesNode ? certificatesNode.children.map((cert) => cert.der) : [],
+    signerInfo: {
+      node: signerInfo,
+      signedAttrs,
+      signatureAlgorithm: decodeOid(signatureAlgorithm.children[0]),
+      signature: signature.content,
+      unsignedAttrs: unsignedAttrs?.tag === 0xa1 ? unsignedAttrs : null,
+    },
+  };
+}
+
+/**
+ * Find the first value of an attribute in a signedAttrs/unsignedAttrs node
+ */
+export function findAttributeValue(attrs: Asn1Node | null, oid: string): Asn1Node | undefined {
+  const attribute = attrs?.children.find((attr) => decodeOid(attr.children[0]) === oid);
+  return attribute?.children[1]?.children[0];
+}
+
+/**
+ * Add an RFC 3161 signature timestamp (PAdES B-T) to a CMS signature
+ *
+ * The timestamp covers the SignerInfo signature value and is stored as the
+ * id-aa-signatureTimeStampToken unsigned attribute.
+ *
+ * SECURITY: The token's message imprint is checked against the signature
+ * so a misbehaving TSA cannot attach a timestamp for different data.
+ */
+export async function addSignatureTimestamp(
+  cms: Uint8Array,
+  timestampAuthority: TimestampAuthority
+): Promise<Uint8Array> {
+  const parsed = parseSignedData(cms);
+  const imprint = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', parsed.signerInfo.signature as BufferSource)
+  );
+  const token = await timestampAuthority.timestamp(imprint);
+
+  const tstInfo = parseSignedData(token);
+  if (tstInfo.encapContentType !== OID.TST_INFO || !tstInfo.encapContent) {
+    throw new Error('Timestamp token does not contain TSTInfo');
+  }
+  const messageImprint = parseDer(tstInfo.encapContent).children[2];
+  if (!messageImprint || !bytesEqual(messageImprint.children[1].content, imprint)) {
+    throw new Error('Timestamp token message imprint does not match the signature');
+  }
+
+  const signerInfo = parsed.signerInfo.node;
+  const existing = parsed.signerInfo.unsignedAttrs?.children.map((attr) => attr.der) ?? [];
+  const unsignedSet = derSet(...existing, cmsAttribute(OID.SIGNATURE_TIMESTAMP_TOKEN, parseDer(token).der));
+
+  const newSignerInfo = derSequence(
+    ...signerInfo.children.filter((child) => child.tag !== 0xa1).map((child) => child.der),
+    derEncode(0xa1, parseDer(unsignedSet).content)
+  );
+
+  const signedDataChildren = parsed.signedData.children.map((child) => child.der);
+  signedDataChildren[signedDataChildren.length - 1] = derSet(newSignerInfo);
+
+  return derSequence(
+    derOid(OID.SIGNED_DATA),
+    derContext(0, derSequence(...signedDataChildren))
+  );
+}
+
+export interface SoftwareSignerOptions {
+  certificate: Uint8Array; // DER-encoded signing certificate
+  privateKey: CryptoKey; // RSASSA-PKCS1-v1_5 or ECDSA key with SHA-256
+  certificateChain?: Uint8Array[]; // Intermediate certificates to embed
+}
+
+function isPAdESProfile(profile: SignatureProfile): boolean {
+  return profile.startsWith('pades-');
+}
+
+/**
+ * Create a Signer backed by a WebCrypto private key
+ *
+ * For the 'pkcs7' profile, produces adbe.pkcs7.detached CMS with
+ * contentType, signingTime and messageDigest signed attributes. For PAdES
+ * profiles, signingTime is replaced by signing-certificate-v2 (the signing
+ * time lives in the signature dictionary's /M entry instead).
+ *
+ * Intended for tests and for deployments where the key lives in the
+ * browser; production deployments will usually implement Signer against
+ * their backend HSM instead.
+ */
+export function createSoftwareSigner(options: SoftwareSignerOptions): Signer {
+  const { params, identifier } = signatureAlgorithmFor(options.privateKey);
+
+  return {
+    sign: async (digest, context) => {
+      const signedAttributes = [
+        cmsAttribute(OID.CONTENT_TYPE, derOid(OID.DATA)),
+        cmsAttribute(OID.MESSAGE_DIGEST, derOctetString(digest)),
+        isPAdESProfile(context.profile)
+          ? await signingCertificateV2Attribute(options.certificate)
+          : cmsAttribute(OID.SIGNING_TIME, derTime(new Date())),
+      ];
+
+      // The signature covers the DER SET encoding of the signed attributes
+      const signature = new Uint8Array(
+        await crypto.subtle.sign(params, options.privateKey, derSet(...signedAttributes) as BufferSource)
+      );
+
+      return buildSignedData({
+        certificate: options.certificate,
+        certificateChain: options.certificateChain,
+        signedAttributes,
+        signatureAlgorithm: identifier,
+        signature: params.name === 'ECDSA' ? ecdsaRawToDer(signature) : signature,
+      });
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import {
+  PDFCheckBox,
+  PDFDropdown,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFTextField,
+  StandardFonts,
+} from 'pdf-lib';
+import { FormField, FormFieldType, FormFieldValue, FormValues, PSPDFKitFormFieldValue } from '../types';
+import { toPrintable } from './manifestation-utils';
+import { findFieldWidget, loadForIncrementalUpdate, saveEdits } from './pdf-signing-utils';
+
+// SECURITY: Upper bounds for values and options read from or written to a PDF (CWE-400)
+export const MAX_FORM_TEXT_LENGTH = 10000;
+export const MAX_FORM_OPTIONS = 500;
+
+// AcroForm field type (/FT) of each form field type
+const ACRO_FIELD_TYPES: Record<FormFieldType, string> = {
+  text: 'Tx',
+  checkbox: 'Btn',
+  radio: 'Btn',
+  dropdown: 'Ch',
+};
+
+/**
+ * A form value was rejected; the message can be shown to the signer
+ */
+export class FormFieldValueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormFieldValueError';
+  }
+}
+
+/**
+ * SECURITY: Strip control characters from form text (CWE-20)
+ *
+ * Tabs are kept; line breaks are kept in multiline fields and become spaces
+ * elsewhere.
+ */
+export function cleanFormText(text: string, multiline: boolean): string {
+  // eslint-disable-next-line no-control-regex
+  const cleaned = text.replace(/\r\n?/g, '\n').replace(/[\x00-\x08\x0B-\x1F\x7F]/g, '');
+  return (multiline ? cleaned : cleaned.replace(/\n/g, ' ')).slice(0, MAX_FORM_TEXT_LENGTH);
+}
+
+/**
+ * Group form widgets by field name (a radio group has one widget per button)
+ */
+export function groupFormFields(fields: FormField[]): Map<string, FormField[]> {
+  const groups = new Map<string, FormField[]>();
+  for (const field of fields) {
+    groups.set(field.fieldName, [...(groups.get(field.fieldName) ?? []), field]);
+  }
+  return groups;
+}
+
+/**
+ * Values stored in the loaded PDF, keyed by field name
+ */
+export function getDefaultFormValues(fields: FormField[]): FormValues {
+  const values: FormValues = {};
+  groupFormFields(fields).forEach((widgets, fieldName) => {
+    // Only the selected radio button carries the group's value
+    values[fieldName] = widgets.find((widget) => widget.defaultValue !== '')?.defaultValue ?? widgets[0].defaultValue;
+  });
+  return values;
+}
+
+/**
+ * Validate a value for a form field
+ *
+ * SECURITY: Values come from the signer or the host application and are
+ * written into the exported PDF (CWE-20). Text is cleaned of control
+ * characters and must fit the field's MaxLen; radio and dropdown values must
+ * be one of the field's options, or '' for none.
+ *
+ * @param widgets - All widgets of the field (see groupFormFields)
+ * @param value - Value to set
+ * @returns The value to store
+ * @throws FormFieldValueError if the field is read-only or the value does not fit it
+ */
+export function validateFormValue(widgets: FormField[], value: unknown): FormFieldValue {
+  const [field] = widgets;
+  if (field.readOnly) {
+    throw new FormFieldValueError(`${field.fieldName} is read-only`);
+  }
+
+  if (field.type === 'checkbox') {
+    if (typeof value !== 'boolean') {
+      throw new FormFieldValueError(`${field.fieldName} must be checked or unchecked`);
+    }
+    return value;
+  }
+
+  if (typeof value !== 'string') {
+    throw new FormFieldValueError(`${field.fieldName} must be text`);
+  }
+
+  if (field.type === 'text') {
+    const text = cleanFormText(value, field.multiline === true);
+    const maxLength = field.maxLength ?? MAX_FORM_TEXT_LENGTH;
+    if (value.length > MAX_FORM_TEXT_LENGTH || text.length > maxLength) {
+      throw new FormFieldValueError(`${field.fieldName} must be ${maxLength} characters or less`);
+    }
+    return text;
+  }
+
+  const allowed = field.type === 'radio'
+    ? widgets.map((widget) => widget.exportValue)
+    : (field.options ?? []).map((option) => option.value);
+  if (value !== '' && !allowed.includes(value)) {
+    throw new FormFieldValueError(`${field.fieldName} has no option "${value.slice(0, 50)}"`);
+  }
+  return value;
+}
+
+/**
+ * Whether a value fills a field: checked for check boxes, non-blank otherwise
+ */
+export function isFormValueFilled(field: FormField, value: FormFieldValue | undefined): boolean {
+  return field.type === 'checkbox' ? value === true : typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Names of required fields that are not filled
+ *
+ * A required check box must be checked (e.g. a consent box).
+ */
+export function getMissingRequiredFormFields(fields: FormField[], values: FormValues): string[] {
+  const missing: string[] = [];
+  groupFormFields(fields).forEach((widgets, fieldName) => {
+    if (widgets.some((widget) => widget.required) && !isFormValueFilled(widgets[0], values[fieldName])) {
+      missing.push(fieldName);
+    }
+  });
+  return missing;
+}
+
+/**
+ * Form values as PSPDFKit Instant JSON form field values
+ *
+ * Check boxes take the list of checked export values; unselected radio and
+ * dropdown fields take null.
+ */
+export function createFormFieldValues(fields: FormField[], values: FormValues): PSPDFKitFormFieldValue[] {
+  const formFieldValues: PSPDFKitFormFieldValue[] = [];
+  groupFormFields(fields).forEach((widgets, fieldName) => {
+    const value = values[fieldName];
+    if (value === undefined) return;
+
+    formFieldValues.push({
+      v: 1,
+      type: 'pspdfkit/form-field-value',
+      name: fieldName,
+      value: widgets[0].type === 'checkbox'
+        ? value === true ? [widgets[0].exportValue ?? 'Yes'] : []
+        : widgets[0].type === 'text' ? String(value) : (value as string) || null,
+    });
+  });
+  return formFieldValues;
+}
+
+/**
+ * Write form values into a PDF and lock the fields
+ *
+ * Each editable field with a value gets it, the ReadOnly flag and a
+ * Helvetica appearance. Text is reduced to what Helvetica can encode (see
+ * toPrintable). Fields not found in the PDF are logged and skipped. A
+ * digitally signed PDF gets the values as an incremental update (see
+ * saveEdits).
+ *
+ * @param pdfBytes - Document bytes (e.g. the output of createSignedPDF)
+ * @param fields - Form fields (see extractFormFields)
+ * @param values - Values keyed by field name, validated with validateFormValue
+ * @returns Promise resolving to the filled PDF bytes
+ */
+export async function fillFormFields(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  fields: FormField[],
+  values: FormValues
+): Promise<Uint8Array> {
+  const groups = [...groupFormFields(fields)].filter(
+    ([fieldName, widgets]) => values[fieldName] !== undefined && !widgets[0].readOnly
+  );
+  if (groups.length === 0) {
+    return pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  }
+
+  const original = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  const pdfDoc = await loadForIncrementalUpdate(original);
+  const form = pdfDoc.getForm();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const acroFields = form.getFields();
+
+  for (const [fieldName, widgets] of groups) {
+    const value = values[fieldName];
+    const widget = findFieldWidget(pdfDoc, widgets[0], ACRO_FIELD_TYPES[widgets[0].type]);
+    const field = widget && acroFields.find((candidate) => candidate.ref === widget.fieldRef);
+    if (!field) {
+      console.error(`[Form] No form field found for "${fieldName}" on page ${widgets[0].pageIndex + 1}`);
+      continue;
+    }
+
+    if (field instanceof PDFTextField) {
+      const text = String(value).split('\n').map(toPrintable).join('\n');
+      field.setText(text === '' ? undefined : text);
+    } else if (field instanceof PDFCheckBox) {
+      if (value === true) field.check();
+      else field.uncheck();
+    } else if (field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList) {
+      if (value === '') field.clear();
+      else field.select(value as string);
+    } else {
+      console.error(`[Form] Form field "${fieldName}" does not match its type (${widgets[0].type})`);
+      continue;
+    }
+    field.enableReadOnly();
+  }
+
+  form.updateFieldAppearances(font);
+  return saveEdits(original, pdfDoc);
+}
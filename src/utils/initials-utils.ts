@@ -0,0 +1,75 @@
+import { SignatureField, SignatureFieldKind, SignatureStatusCounts } from '../types';
+import { splitFieldName } from './intent-utils';
+
+// Longest initials accepted, e.g. "JRRT"
+export const MAX_INITIALS_LENGTH = 5;
+
+const INITIALS_WORD = /^initial(s|ed|led)?$/;
+
+/**
+ * Whether a field name marks an initials field
+ *
+ * Matches the word "initial(s)" anywhere in the name: "Initials_Page1",
+ * "buyer.initials", "InitialHere".
+ */
+export function isInitialsFieldName(fieldName: string): boolean {
+  return splitFieldName(fieldName).some((word) => INITIALS_WORD.test(word));
+}
+
+/**
+ * Set the kind of each field
+ *
+ * Fields listed in initialsFields (by name or ID) take initials; the others
+ * keep the kind detected from their widget and name.
+ *
+ * @param fields - Signature fields (see extractSignatureFields)
+ * @param initialsFields - Names or IDs supplied by the host application
+ */
+export function applyFieldKinds(fields: SignatureField[], initialsFields: string[] = []): SignatureField[] {
+  const listed = new Set(initialsFields);
+  return fields.map((field) => {
+    const kind: SignatureFieldKind =
+      listed.has(field.fieldName) || listed.has(field.id) ? 'initials' : field.kind ?? 'signature';
+    return { ...field, kind };
+  });
+}
+
+/**
+ * Derive initials from a signer's name
+ *
+ * Takes the first letter of each part of the name ("Mary-Jane O'Neil" →
+ * "MJO"), up to MAX_INITIALS_LENGTH letters. Only the letters a typed
+ * signature allows are used; the signer can edit the result.
+ */
+export function deriveInitials(signerName: string): string {
+  return signerName
+    .split(/[\s-]+/)
+    .map((part) => part.match(/[A-Za-z]/)?.[0] ?? '')
+    .join('')
+    .toUpperCase()
+    .slice(0, MAX_INITIALS_LENGTH);
+}
+
+/**
+ * Count signed, required and total fields separately for signatures and initials
+ *
+ * @param fields - Signature fields
+ * @param signedFieldIds - IDs of signed fields
+ */
+export function countSignatureStatus(
+  fields: SignatureField[],
+  signedFieldIds: Set<string>
+): SignatureStatusCounts {
+  const counts: SignatureStatusCounts = {
+    signatures: { signed: 0, required: 0, total: 0 },
+    initials: { signed: 0, required: 0, total: 0 },
+  };
+
+  for (const field of fields) {
+    const count = field.kind === 'initials' ? counts.initials : counts.signatures;
+    count.total++;
+    if (field.required) count.required++;
+    if (signedFieldIds.has(field.id)) count.signed++;
+  }
+  return counts;
+}
@@ -0,0 +1,95 @@
+import { FieldIntents, SignatureField } from '../types';
+
+export const DEFAULT_SIGNATURE_INTENT = 'I approve this document';
+export const DEFAULT_INITIALS_INTENT = 'I have read and accept this page';
+
+/**
+ * Signature meanings recognised in field names
+ *
+ * CFR Part 11.50(a)(3): Each signature must state its meaning, such as
+ * review, approval, responsibility or authorship.
+ */
+const FIELD_NAME_INTENTS: Array<{ pattern: RegExp; intent: string }> = [
+  { pattern: /^(author|authored|prepare|prepared|preparer)$/, intent: 'I am the author of this document' },
+  { pattern: /^(review|reviewed|reviewer)$/, intent: 'I have reviewed this document' },
+  { pattern: /^(approve|approved|approver|approval)$/, intent: 'I approve this document' },
+  { pattern: /^(verify|verified|verifier|verification)$/, intent: 'I have verified this document' },
+  { pattern: /^(responsible|responsibility)$/, intent: 'I take responsibility for this document' },
+  { pattern: /^(witness|witnessed)$/, intent: 'I witnessed this signing' },
+];
+
+/**
+ * Split a field name into lowercase words
+ *
+ * Handles separators and camel case, including acronyms:
+ * "Reviewer_Signature", "sig.approver", "QAReviewApproval".
+ */
+export function splitFieldName(fieldName: string): string[] {
+  return fieldName
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Infer signature meanings from a field name
+ *
+ * Names are split into words (see splitFieldName), and each word naming a
+ * role adds its meaning.
+ *
+ * @returns Meanings in the order they appear in the name (empty if none)
+ */
+export function parseFieldNameIntents(fieldName: string): string[] {
+  const intents: string[] = [];
+  for (const word of splitFieldName(fieldName)) {
+    const match = FIELD_NAME_INTENTS.find(({ pattern }) => pattern.test(word));
+    if (match && !intents.includes(match.intent)) {
+      intents.push(match.intent);
+    }
+  }
+  return intents;
+}
+
+/**
+ * Resolve the signature meanings a field allows
+ *
+ * In order of precedence: fieldIntents by field name, then by field ID,
+ * then meanings parsed from the field name, then the default intent
+ * (DEFAULT_INITIALS_INTENT for initials fields).
+ *
+ * @param field - Signature field
+ * @param fieldIntents - Meanings supplied by the host application
+ * @param defaultIntent - Fallback meaning (defaultSignatureIntent)
+ * @returns One or more meanings; more than one requires the signer to choose
+ */
+export function resolveFieldIntents(
+  field: SignatureField,
+  fieldIntents: FieldIntents = {},
+  defaultIntent: string = DEFAULT_SIGNATURE_INTENT
+): string[] {
+  // SECURITY: Own properties only, so field names like "constructor" cannot
+  // pick up Object.prototype members
+  const lookup = (key: string) => (Object.prototype.hasOwnProperty.call(fieldIntents, key) ? fieldIntents[key] : undefined);
+  const supplied = lookup(field.fieldName) ?? lookup(field.id);
+  if (supplied !== undefined) {
+    const intents = (Array.isArray(supplied) ? supplied : [supplied]).map((intent) => intent.trim()).filter(Boolean);
+    if (intents.length > 0) return [...new Set(intents)];
+  }
+
+  const parsed = parseFieldNameIntents(field.fieldName);
+  if (parsed.length > 0) return parsed;
+  return [field.kind === 'initials' ? DEFAULT_INITIALS_INTENT : defaultIntent];
+}
+
+/**
+ * Attach the resolved meanings to each field (see resolveFieldIntents)
+ */
+export function applyFieldIntents(
+  fields: SignatureField[],
+  fieldIntents?: FieldIntents,
+  defaultIntent?: string
+): SignatureField[] {
+  return fields.map((field) => ({ ...field, intents: resolveFieldIntents(field, fieldIntents, defaultIntent) }));
+}
@@ -0,0 +1,83 @@
+import { KioskSigner, PDFSignerProps, RoleStatus } from '../types';
+
+export const DEFAULT_KIOSK_AUTH_METHOD = 'kiosk-attestation';
+
+/**
+ * The kiosk signers cannot be told apart; the message says why
+ */
+export class KioskConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KioskConfigError';
+  }
+}
+
+/**
+ * Check that every kiosk signer has a name, an ID and a role of their own
+ *
+ * SECURITY: Signatures are bound to a signer by role (CWE-287). Two signers
+ * sharing a role or ID would be able to sign for each other.
+ *
+ * @throws KioskConfigError naming the first problem
+ */
+export function validateKioskSigners(signers: KioskSigner[]): void {
+  if (signers.length === 0) {
+    throw new KioskConfigError('Kiosk mode needs at least one signer');
+  }
+  const roles = new Set<string>();
+  const ids = new Set<string>();
+  for (const signer of signers) {
+    if (!signer.signerName?.trim() || !signer.signerId?.trim() || !signer.role?.trim()) {
+      throw new KioskConfigError('Each kiosk signer needs a signerName, signerId and role');
+    }
+    if (roles.has(signer.role)) {
+      throw new KioskConfigError(`More than one kiosk signer has the role "${signer.role}"`);
+    }
+    if (ids.has(signer.signerId)) {
+      throw new KioskConfigError(`More than one kiosk signer has the signerId "${signer.signerId}"`);
+    }
+    roles.add(signer.role);
+    ids.add(signer.signerId);
+  }
+}
+
+/**
+ * Whether a name typed at the handoff screen is the signer's
+ *
+ * Case, surrounding space and repeated spaces are ignored.
+ */
+export function matchesSignerName(typed: string, signerName: string): boolean {
+  const normalize = (name: string) => name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalize(typed) !== '' && normalize(typed) === normalize(signerName);
+}
+
+/**
+ * Kiosk signers who may sign next: those whose role is active
+ *
+ * In a sequential order that is the one role whose turn it is; in a
+ * parallel order every role with required fields left to sign.
+ */
+export function getKioskCandidates(signers: KioskSigner[], roleStatus: RoleStatus): KioskSigner[] {
+  return signers.filter((signer) =>
+    roleStatus.roles.some((progress) => progress.role === signer.role && progress.state === 'active')
+  );
+}
+
+/**
+ * The signature context for a kiosk signer
+ *
+ * The session and document hash stay those of the kiosk session; the
+ * identity and role are the signer's.
+ */
+export function createKioskSignatureContext(
+  base: NonNullable<PDFSignerProps['signatureContext']>,
+  signer: KioskSigner
+): NonNullable<PDFSignerProps['signatureContext']> {
+  return {
+    ...base,
+    signerName: signer.signerName,
+    signerId: signer.signerId,
+    authMethod: signer.authMethod ?? DEFAULT_KIOSK_AUTH_METHOD,
+    signerRole: signer.role,
+  };
+}
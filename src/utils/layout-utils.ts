@@ -0,0 +1,313 @@
+import { PDFDocument, PDFHexString } from 'pdf-lib';
+import { AuthoredField, AuthoredFieldType, AutoFillField, BoundingBox, FieldLayout, SignatureField } from '../types';
+import { sanitizeFieldName } from './pdf-utils';
+import { boundingBoxToRect, getPageView } from './pdf-signing-utils';
+import { isInitialsFieldName } from './initials-utils';
+import { classifyAutoFillFieldName } from './autofill-utils';
+
+export const FIELD_LAYOUT_VERSION = 1;
+
+// Smallest field the editor creates or accepts, in PDF points
+export const MIN_FIELD_SIZE = 10;
+
+// Default size of a field placed with a click, in PDF points
+export const DEFAULT_FIELD_SIZES: Record<AuthoredFieldType, { width: number; height: number }> = {
+  signature: { width: 200, height: 50 },
+  initials: { width: 60, height: 30 },
+  date: { width: 100, height: 20 },
+};
+
+// SECURITY: Bounds for layouts loaded from JSON (CWE-400)
+const MAX_LAYOUT_FIELDS = 500;
+const MAX_COORDINATE = 14400; // Largest PDF page dimension
+const MAX_PAGE_INDEX = 10000;
+const AUTHORED_FIELD_TYPES: AuthoredFieldType[] = ['signature', 'initials', 'date'];
+const ROLE_PATTERN = /^[A-Za-z0-9 _-]{1,50}$/;
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * A field layout was rejected; the message says which field and why
+ */
+export class FieldLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FieldLayoutError';
+  }
+}
+
+/**
+ * Whether a signer role is safe to store in a layout
+ */
+export function isValidFieldRole(role: unknown): role is string {
+  return typeof role === 'string' && ROLE_PATTERN.test(role);
+}
+
+/**
+ * Generate an ID for a newly placed field
+ */
+export function generateAuthoredFieldId(): string {
+  return `authored-${crypto.randomUUID()}`;
+}
+
+/**
+ * Next free default name for a field type ("Signature_1", "Initials_2", "Date_1")
+ */
+export function nextFieldName(fields: AuthoredField[], type: AuthoredFieldType): string {
+  const prefix = type.charAt(0).toUpperCase() + type.slice(1);
+  const names = new Set(fields.map((field) => field.fieldName));
+  let n = 1;
+  while (names.has(`${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+}
+
+/**
+ * Keep a field box on its page and at least MIN_FIELD_SIZE points in each direction
+ */
+export function clampFieldBox(box: BoundingBox, pageWidth: number, pageHeight: number): BoundingBox {
+  const width = Math.min(Math.max(box.width, MIN_FIELD_SIZE), pageWidth);
+  const height = Math.min(Math.max(box.height, MIN_FIELD_SIZE), pageHeight);
+  return {
+    x: Math.min(Math.max(box.x, 0), pageWidth - width),
+    y: Math.min(Math.max(box.y, 0), pageHeight - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Authored fields as a JSON-serializable layout
+ */
+export function createFieldLayout(fields: AuthoredField[]): FieldLayout {
+  return { version: FIELD_LAYOUT_VERSION, fields: fields.map((field) => ({ ...field })) };
+}
+
+/**
+ * Parse and validate a field layout exported by the field editor
+ *
+ * SECURITY: Layouts are untrusted input (CWE-20). Every field must have a
+ * known type, a safe ID and role, a name that survives sanitization and a
+ * finite box within PDF page limits; field IDs must be unique.
+ *
+ * @param input - Layout JSON, or the parsed object
+ * @returns The authored fields, for the fields prop
+ * @throws FieldLayoutError describing the first invalid entry
+ */
+export function parseFieldLayout(input: string | unknown): AuthoredField[] {
+  let layout: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      layout = JSON.parse(input);
+    } catch {
+      throw new FieldLayoutError('Field layout is not valid JSON');
+    }
+  }
+
+  if (typeof layout !== 'object' || layout === null) {
+    throw new FieldLayoutError('Field layout must be an object');
+  }
+  const { version, fields } = layout as Partial<FieldLayout>;
+  if (version !== FIELD_LAYOUT_VERSION) {
+    throw new FieldLayoutError(`Unsupported field layout version: ${String(version).slice(0, 20)}`);
+  }
+  if (!Array.isArray(fields) || fields.length > MAX_LAYOUT_FIELDS) {
+    throw new FieldLayoutError(`Field layout must have a list of at most ${MAX_LAYOUT_FIELDS} fields`);
+  }
+
+  const ids = new Set<string>();
+  return fields.map((value: unknown, index) => {
+    const field = value as Partial<AuthoredField> | null;
+    const where = `Field ${index + 1}`;
+    if (typeof field !== 'object' || field === null) {
+      throw new FieldLayoutError(`${where} must be an object`);
+    }
+    if (typeof field.id !== 'string' || !ID_PATTERN.test(field.id) || ids.has(field.id)) {
+      throw new FieldLayoutError(`${where} has a missing, invalid or duplicate id`);
+    }
+    ids.add(field.id);
+    if (!AUTHORED_FIELD_TYPES.includes(field.type as AuthoredFieldType)) {
+      throw new FieldLayoutError(`${where} has an unknown type`);
+    }
+    const fieldName = sanitizeFieldName(field.fieldName);
+    if (!fieldName) {
+      throw new FieldLayoutError(`${where} has an invalid name`);
+    }
+    if (!Number.isInteger(field.pageIndex) || field.pageIndex! < 0 || field.pageIndex! > MAX_PAGE_INDEX) {
+      throw new FieldLayoutError(`${where} has an invalid page index`);
+    }
+    const box = field.boundingBox;
+    const numbers = box ? [box.x, box.y, box.width, box.height] : [];
+    if (
+      numbers.length !== 4 ||
+      !numbers.every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= MAX_COORDINATE) ||
+      box!.width < MIN_FIELD_SIZE ||
+      box!.height < MIN_FIELD_SIZE
+    ) {
+      throw new FieldLayoutError(`${where} has an invalid bounding box`);
+    }
+    if (field.role !== undefined && !isValidFieldRole(field.role)) {
+      throw new FieldLayoutError(`${where} has an invalid role`);
+    }
+
+    return {
+      id: field.id,
+      pageIndex: field.pageIndex!,
+      fieldName,
+      type: field.type as AuthoredFieldType,
+      boundingBox: { x: box!.x, y: box!.y, width: box!.width, height: box!.height },
+      required: field.required !== false,
+      ...(field.role !== undefined && { role: field.role }),
+    };
+  });
+}
+
+/**
+ * Add authored signature and initials fields to the fields found in the PDF
+ *
+ * Authored fields whose ID is already taken are skipped and logged.
+ */
+export function mergeAuthoredFields(extracted: SignatureField[], authored: AuthoredField[]): SignatureField[] {
+  const ids = new Set(extracted.map((field) => field.id));
+  const merged = [...extracted];
+
+  for (const field of authored) {
+    if (field.type === 'date') continue;
+    if (ids.has(field.id)) {
+      console.error(`[Field Layout] Skipping authored field with duplicate id: ${field.id}`);
+      continue;
+    }
+    ids.add(field.id);
+    merged.push({
+      id: field.id,
+      pageIndex: field.pageIndex,
+      fieldName: field.fieldName,
+      boundingBox: field.boundingBox,
+      required: field.required,
+      kind: field.type === 'initials' ? 'initials' : 'signature',
+      authored: true,
+      role: field.role,
+      signedBy: null,
+      signedAt: null,
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Link authored date fields to the signature whose date they show
+ *
+ * Each links to the nearest signature field (not initials) on its page,
+ * preferring fields with the same role; date fields on pages without one
+ * are left out. Authored boxes and those read from the PDF (see
+ * rectToBoundingBox) both have a top-left origin, so distances compare
+ * like with like.
+ *
+ * @param authored - Authored fields
+ * @param signatureFields - All signature fields (see mergeAuthoredFields)
+ */
+export function linkAuthoredDateFields(authored: AuthoredField[], signatureFields: SignatureField[]): AutoFillField[] {
+  const center = (box: BoundingBox) => [box.x + box.width / 2, box.y + box.height / 2];
+
+  return authored.flatMap((field) => {
+    if (field.type !== 'date') return [];
+
+    const onPage = signatureFields.filter(
+      (candidate) => candidate.pageIndex === field.pageIndex && candidate.kind !== 'initials'
+    );
+    const sameRole = onPage.filter((candidate) => field.role !== undefined && candidate.role === field.role);
+    const [x, y] = center(field.boundingBox);
+    const nearest = (sameRole.length > 0 ? sameRole : onPage)
+      .map((candidate) => {
+        const [cx, cy] = center(candidate.boundingBox);
+        return { candidate, distance: Math.hypot(cx - x, cy - y) };
+      })
+      .sort((a, b) => a.distance - b.distance)[0]?.candidate;
+    if (!nearest) return [];
+
+    return [{
+      id: field.id,
+      pageIndex: field.pageIndex,
+      fieldName: field.fieldName,
+      boundingBox: field.boundingBox,
+      source: 'date' as const,
+      signatureFieldId: nearest.id,
+      authored: true,
+    }];
+  });
+}
+
+/**
+ * Write authored fields into a PDF as AcroForm fields
+ *
+ * Signature and initials fields become /Sig widgets and date fields /Tx
+ * text fields, with the Required flag from the field, so the prepared PDF
+ * works in other PDF software and its fields are found by
+ * extractSignatureFields on the next load (load it without the fields prop,
+ * or they appear twice). Boxes are converted to /Rects in the page's user
+ * space with boundingBoxToRect, so extractSignatureFields reads back the
+ * authored positions. Roles are not stored in the PDF.
+ *
+ * Initials and date fields are recognised by name when the PDF is loaded
+ * again; fields named otherwise are logged.
+ *
+ * @param pdfBytes - Document bytes, before signing
+ * @param fields - Authored fields (e.g. from parseFieldLayout)
+ * @returns The saved PDF
+ * @throws FieldLayoutError if a field name is already used or a page is missing
+ */
+export async function writeAuthoredFields(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  fields: AuthoredField[]
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const form = pdfDoc.getForm();
+  const pages = pdfDoc.getPages();
+  const names = new Set(form.getFields().map((field) => field.getName()));
+
+  for (const field of fields) {
+    const page = pages[field.pageIndex];
+    if (!page) {
+      throw new FieldLayoutError(`Field "${field.fieldName}" references missing page ${field.pageIndex + 1}`);
+    }
+    if (names.has(field.fieldName)) {
+      throw new FieldLayoutError(`A field named "${field.fieldName}" already exists in the PDF`);
+    }
+    names.add(field.fieldName);
+
+    if (field.type === 'initials' && !isInitialsFieldName(field.fieldName)) {
+      console.error(`[Field Layout] "${field.fieldName}" will be read back as a signature field; name it as initials`);
+    }
+    if (field.type === 'date' && classifyAutoFillFieldName(field.fieldName)?.source !== 'date') {
+      console.error(`[Field Layout] "${field.fieldName}" will not be auto-filled when read back; name it as a date`);
+    }
+
+    const [x1, y1, x2, y2] = boundingBoxToRect(field.boundingBox, getPageView(page));
+
+    if (field.type === 'date') {
+      const textField = form.createTextField(field.fieldName);
+      if (field.required) textField.enableRequired();
+      // No border: pdf-lib widens the widget by the border width
+      textField.addToPage(page, { x: x1, y: y1, width: x2 - x1, height: y2 - y1, borderWidth: 0 });
+      continue;
+    }
+
+    // pdf-lib cannot create signature fields; a merged field and widget
+    // dictionary is added to the page and the AcroForm directly
+    const widgetRef = pdfDoc.context.register(
+      pdfDoc.context.obj({
+        Type: 'Annot',
+        Subtype: 'Widget',
+        FT: 'Sig',
+        T: PDFHexString.fromText(field.fieldName),
+        Ff: field.required ? 2 : 0, // Bit 2: Required
+        Rect: [x1, y1, x2, y2],
+        F: 4, // Print
+        P: page.ref,
+      })
+    );
+    page.node.addAnnot(widgetRef);
+    form.acroForm.addField(widgetRef);
+  }
+
+  return pdfDoc.save();
+}
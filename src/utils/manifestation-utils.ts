@@ -0,0 +1,236 @@
+import {
+  Color,
+  degrees,
+  drawImage,
+  drawText,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFName,
+  PDFOperator,
+  PDFRef,
+  rgb,
+} from 'pdf-lib';
+import { ManifestationLayout, ManifestationRect, ManifestationTemplate, SignatureData } from '../types';
+
+export const DEFAULT_MANIFESTATION_LINES = ['{signerName}', '{date}', '{signerIntent}'];
+
+const DEFAULT_IMAGE_RATIO = 0.55;
+const DEFAULT_MAX_FONT_SIZE = 8;
+// Below this size the text is not legible; the image then fills the box
+const MIN_FONT_SIZE = 4;
+const LINE_SPACING = 1.2;
+const TEXT_GAP = 2;
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2);
+
+/**
+ * What a manifestation is drawn on: a PDFPage, or a widget appearance
+ * (see drawWidgetAppearance)
+ */
+export interface ManifestationCanvas {
+  drawImage(image: PDFImage, options: { x: number; y: number; width: number; height: number }): void;
+  drawText(text: string, options: { x: number; y: number; size: number; font: PDFFont; color: Color }): void;
+}
+
+/**
+ * SECURITY: Reduce text to what the standard (WinAnsi) fonts can encode
+ *
+ * Signer names and intents come from the host application; characters the
+ * standard fonts cannot encode would make pdf-lib throw, and control
+ * characters could break the layout. Both are replaced with '?'.
+ */
+export function toPrintable(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+/**
+ * Truncate text with an ellipsis so it fits within maxWidth
+ */
+export function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  const printable = toPrintable(text);
+  if (font.widthOfTextAtSize(printable, size) <= maxWidth) return printable;
+
+  let end = printable.length;
+  while (end > 0 && font.widthOfTextAtSize(`${printable.slice(0, end)}...`, size) > maxWidth) {
+    end--;
+  }
+  return `${printable.slice(0, end)}...`;
+}
+
+/**
+ * Format an ISO 8601 timestamp as "YYYY-MM-DD HH:MM:SS UTC"
+ */
+export function formatManifestationDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return timestamp;
+  return `${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Fill in the template's text lines for one signature
+ *
+ * Unknown placeholders are left as written. A formatDate that throws falls
+ * back to the default format, so a signature is never shown without its date.
+ */
+export function renderManifestationLines(data: SignatureData, template: ManifestationTemplate = {}): string[] {
+  let date: string;
+  try {
+    date = (template.formatDate ?? formatManifestationDate)(data.timestamp);
+  } catch (err) {
+    console.error('[Manifestation] formatDate failed; using the default format:', err);
+    date = formatManifestationDate(data.timestamp);
+  }
+
+  const values: Record<string, string> = {
+    signerName: data.signerName,
+    signerId: data.signerId,
+    signerIntent: data.signerIntent,
+    date,
+    authMethod: data.authMethod,
+  };
+  return (template.lines ?? DEFAULT_MANIFESTATION_LINES).map((line) =>
+    line.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+      Object.prototype.hasOwnProperty.call(values, key) ? values[key] : placeholder
+    )
+  );
+}
+
+/**
+ * Split a field's bounding box between the signature image and the text
+ *
+ * Shared by the on-screen overlay and the flattened PDF so both place the
+ * manifestation identically. Coordinates are in PDF points relative to the
+ * top-left corner of the box. The font shrinks (up to maxFontSize) until
+ * every line fits; if it would fall below a legible size, the text is
+ * dropped and the image fills the box.
+ *
+ * @param box - Size of the field's bounding box
+ * @param lineCount - Number of text lines (from renderManifestationLines)
+ * @param template - Layout options
+ */
+export function layoutManifestation(
+  box: { width: number; height: number },
+  lineCount: number,
+  template: ManifestationTemplate = {}
+): ManifestationLayout {
+  const whole: ManifestationRect = { x: 0, y: 0, width: box.width, height: box.height };
+  const ratio = Math.min(1, Math.max(0, template.imageRatio ?? DEFAULT_IMAGE_RATIO));
+
+  let image: ManifestationRect;
+  let text: ManifestationRect;
+  if (template.layout === 'right') {
+    const imageWidth = box.width * ratio;
+    image = { x: 0, y: 0, width: imageWidth, height: box.height };
+    text = { x: imageWidth + TEXT_GAP, y: 0, width: box.width - imageWidth - TEXT_GAP, height: box.height };
+  } else {
+    const imageHeight = box.height * ratio;
+    image = { x: 0, y: 0, width: box.width, height: imageHeight };
+    text = { x: 0, y: imageHeight, width: box.width, height: box.height - imageHeight };
+  }
+
+  const fontSize = lineCount > 0
+    ? Math.min(template.maxFontSize ?? DEFAULT_MAX_FONT_SIZE, text.height / (lineCount * LINE_SPACING))
+    : 0;
+  if (fontSize < MIN_FONT_SIZE || text.width <= 0) {
+    return { image: whole, text: null, fontSize: 0, lineHeight: 0 };
+  }
+  return { image, text, fontSize, lineHeight: fontSize * LINE_SPACING };
+}
+
+/**
+ * Draw a signature and its manifestation into a field on a PDF page
+ *
+ * CFR Part 11.50(b): The printed name, date and time, and meaning appear in
+ * human-readable form with the signature. The image is scaled to fit its
+ * area and centered, preserving its aspect ratio.
+ *
+ * @param page - Page holding the field, or the field's widget appearance
+ * @param image - Embedded signature image (see embedSignatureImage)
+ * @param font - Font for the text lines
+ * @param bbox - Field rectangle in PDF coordinates [x1, y1, x2, y2]
+ * @param data - Signature being drawn
+ * @param template - Wording, layout and date format
+ */
+export function drawSignatureManifestation(
+  page: ManifestationCanvas,
+  image: PDFImage,
+  font: PDFFont,
+  bbox: [number, number, number, number],
+  data: SignatureData,
+  template: ManifestationTemplate = {}
+): void {
+  const [x1, y1, x2, y2] = bbox;
+  const lines = renderManifestationLines(data, template);
+  const layout = layoutManifestation({ width: x2 - x1, height: y2 - y1 }, lines.length, template);
+
+  const { width, height } = image.scaleToFit(layout.image.width, layout.image.height);
+  page.drawImage(image, {
+    x: x1 + layout.image.x + (layout.image.width - width) / 2,
+    y: y2 - layout.image.y - layout.image.height + (layout.image.height - height) / 2,
+    width,
+    height,
+  });
+
+  const { text, fontSize, lineHeight } = layout;
+  if (!text) return;
+
+  lines.forEach((line, index) => {
+    const fitted = fitText(line, font, fontSize, text.width);
+    const offset = template.layout === 'right' ? 0 : (text.width - font.widthOfTextAtSize(fitted, fontSize)) / 2;
+    page.drawText(fitted, {
+      x: x1 + text.x + offset,
+      y: y2 - text.y - index * lineHeight - fontSize,
+      size: fontSize,
+      font,
+      color: TEXT_COLOR,
+    });
+  });
+}
+
+/**
+ * Draw into a widget's normal appearance instead of onto its page
+ *
+ * Page content may not change once a document is signed, but form field
+ * appearances may (PDF 32000-1 §12.8.2.2.2), so signatures added to an
+ * already-signed PDF are drawn here. Coordinates are page coordinates, as
+ * for drawing on the page.
+ *
+ * @param pdfDoc - Document holding the widget
+ * @param widgetRef - Widget annotation to draw into
+ * @param rect - The widget's /Rect [x1, y1, x2, y2]
+ * @param draw - Draws onto the appearance
+ */
+export function drawWidgetAppearance(
+  pdfDoc: PDFDocument,
+  widgetRef: PDFRef,
+  rect: [number, number, number, number],
+  draw: (canvas: ManifestationCanvas) => void
+): void {
+  const { context } = pdfDoc;
+  const operators: PDFOperator[] = [];
+  const xObjects: Record<string, PDFRef> = {};
+  const fonts: Record<string, PDFRef> = {};
+  const noRotation = { rotate: degrees(0), xSkew: degrees(0), ySkew: degrees(0) };
+
+  draw({
+    drawImage(image, options) {
+      const name = `Im${Object.keys(xObjects).length}`;
+      xObjects[name] = image.ref;
+      operators.push(...drawImage(name, { ...options, ...noRotation }));
+    },
+    drawText(text, { font, ...options }) {
+      const name = Object.keys(fonts).find((key) => fonts[key] === font.ref) ?? `F${Object.keys(fonts).length}`;
+      fonts[name] = font.ref;
+      operators.push(...drawText(font.encodeText(text), { ...options, font: name, ...noRotation }));
+    },
+  });
+
+  // A /BBox equal to /Rect maps the appearance onto the widget unscaled
+  const appearance = context.formXObject(operators, {
+    BBox: rect,
+    Resources: { XObject: xObjects, Font: fonts },
+  });
+  context.lookup(widgetRef, PDFDict).set(PDFName.of('AP'), context.obj({ N: context.register(appearance) }));
+}
@@ -0,0 +1,280 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+import { ChangesSinceSigned, DocumentChange, DocumentChangeType } from '../types';
+import { inheritedFieldType, objectsEqual } from './pdf-signing-utils';
+
+// Objects whose classification depends on which of their entries changed
+type ObjectRole = DocumentChangeType | 'catalog' | 'acroform' | 'page-dict' | 'field';
+
+/**
+ * Change types each DocMDP permission level allows (PDF 32000-1 §12.8.2.2)
+ *
+ * Validation data (DSS and document timestamps) may always be added, as
+ * PAdES long-term validation requires (ETSI EN 319 142-1 §5.4).
+ */
+const PERMITTED_CHANGES: Record<1 | 2 | 3, DocumentChangeType[]> = {
+  1: ['validation-data'],
+  2: ['validation-data', 'signature', 'form-fill', 'metadata'],
+  3: ['validation-data', 'signature', 'form-fill', 'metadata', 'annotation'],
+};
+
+// SECURITY: Bound reference walking so hostile PDFs cannot recurse forever
+const MAX_REF_DEPTH = 4;
+
+function refKey(ref: PDFRef): string {
+  return `${ref.objectNumber} ${ref.generationNumber}`;
+}
+
+/**
+ * Collect the indirect references held by an object, descending into
+ * direct arrays and dictionaries (but not through references)
+ */
+function collectRefs(obj: PDFObject | undefined, depth = 0): PDFRef[] {
+  if (!obj || depth > MAX_REF_DEPTH) return [];
+  if (obj instanceof PDFRef) return [obj];
+  if (obj instanceof PDFArray) return obj.asArray().flatMap((item) => collectRefs(item, depth + 1));
+  if (obj instanceof PDFDict) return obj.values().flatMap((item) => collectRefs(item, depth + 1));
+  return [];
+}
+
+/**
+ * Assign a role to every object the final revision reaches through the
+ * catalog, pages, annotations and DSS
+ *
+ * SECURITY: Roles are first-come, and page structure and content are
+ * assigned first, so a reference planted in a DSS array or a field value
+ * cannot relabel a content stream as a permitted change.
+ */
+function mapObjectRoles(pdfDoc: PDFDocument): Map<string, ObjectRole> {
+  const { context } = pdfDoc;
+  const roles = new Map<string, ObjectRole>();
+  const assign = (refs: PDFRef[], role: ObjectRole) => {
+    refs.forEach((ref) => {
+      if (!roles.has(refKey(ref))) roles.set(refKey(ref), role);
+    });
+  };
+
+  // Everything an object reaches through references, including stream dictionaries
+  const assignReachable = (obj: PDFObject | undefined, role: ObjectRole, depth = 0) => {
+    for (const ref of collectRefs(obj)) {
+      if (roles.has(refKey(ref))) continue;
+      roles.set(refKey(ref), role);
+      const target = context.lookup(ref);
+      const next = target instanceof PDFStream ? target.dict : target;
+      if (depth < MAX_REF_DEPTH && (next instanceof PDFDict || next instanceof PDFArray)) {
+        assignReachable(next, role, depth + 1);
+      }
+    }
+  };
+
+  const { Root, Info } = context.trailerInfo;
+  if (Root instanceof PDFRef) roles.set(refKey(Root), 'catalog');
+  const pages = pdfDoc.getPages();
+
+  for (const page of pages) {
+    assign([page.ref], 'page-dict');
+
+    // Page tree ancestors
+    let parentRef = page.node.get(PDFName.of('Parent'));
+    for (let depth = 0; parentRef instanceof PDFRef && depth < 32; depth++) {
+      assign([parentRef], 'page');
+      parentRef = context.lookupMaybe(parentRef, PDFDict)?.get(PDFName.of('Parent'));
+    }
+
+    assign(collectRefs(page.node.get(PDFName.of('Contents'))), 'content');
+    assign(collectRefs(page.node.get(PDFName.of('Resources'))), 'content');
+  }
+
+  for (const page of pages) {
+    const annotsEntry = page.node.get(PDFName.of('Annots'));
+    if (annotsEntry instanceof PDFRef) assign([annotsEntry], 'annotation');
+
+    for (const annotRef of collectRefs(page.node.Annots())) {
+      const annot = context.lookupMaybe(annotRef, PDFDict);
+      if (!annot) continue;
+      const isWidget = annot.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() === 'Widget';
+      assign([annotRef], isWidget ? 'field' : 'annotation');
+
+      // Appearance streams (/AP holds streams or state -> stream dictionaries)
+      // and the fonts and images their resources draw with
+      assignReachable(annot.get(PDFName.of('AP')), isWidget ? 'form-fill' : 'annotation');
+
+      // The widget's field and its ancestors, and the field value of signed /Sig fields
+      let fieldRef: PDFObject | undefined = annotRef;
+      for (let depth = 0; isWidget && fieldRef instanceof PDFRef && depth < 32; depth++) {
+        const field: PDFDict | undefined = context.lookupMaybe(fieldRef, PDFDict);
+        assign([fieldRef], 'field');
+
+        const value = field?.get(PDFName.of('V'));
+        const sigDict = value instanceof PDFRef ? context.lookupMaybe(value, PDFDict) : undefined;
+        const sigType = sigDict?.lookupMaybe(PDFName.of('Type'), PDFName)?.decodeText();
+        if (value instanceof PDFRef && field && inheritedFieldType(field) === 'Sig' && sigType) {
+          const isTimestamp = sigType === 'DocTimeStamp' ||
+            sigDict?.lookupMaybe(PDFName.of('SubFilter'), PDFName)?.decodeText() === 'ETSI.RFC3161';
+          assign([value], isTimestamp ? 'validation-data' : 'signature');
+        }
+
+        fieldRef = field?.get(PDFName.of('Parent'));
+      }
+    }
+  }
+
+  const catalog = pdfDoc.catalog;
+  assign(collectRefs(catalog.get(PDFName.of('AcroForm'))), 'acroform');
+
+  // DSS: the dictionary, its arrays and VRI entries, and the streams they hold
+  assignReachable(catalog.get(PDFName.of('DSS')), 'validation-data');
+
+  assign(collectRefs(Info), 'metadata');
+  assign(collectRefs(catalog.get(PDFName.of('Metadata'))), 'metadata');
+
+  return roles;
+}
+
+/**
+ * Keys whose values differ between two versions of a dictionary
+ */
+function changedKeys(before: PDFObject | undefined, after: PDFDict): string[] {
+  const previous = before instanceof PDFDict ? before : undefined;
+  const keys = new Set([...after.keys(), ...(previous?.keys() ?? [])].map((key) => key.decodeText()));
+  return [...keys].filter((key) => {
+    const name = PDFName.of(key);
+    return previous?.get(name)?.toString() !== after.get(name)?.toString();
+  });
+}
+
+function dictOf(obj: PDFObject): PDFDict | undefined {
+  if (obj instanceof PDFDict) return obj;
+  if (obj instanceof PDFStream) return obj.dict;
+  return undefined;
+}
+
+/**
+ * Classify one changed object; entry-level roles may yield several types
+ */
+function classifyChange(
+  obj: PDFObject,
+  previous: PDFObject | undefined,
+  role: ObjectRole | undefined
+): DocumentChangeType[] {
+  const dict = dictOf(obj);
+  // Cross-reference and object streams are file structure, not content
+  const type = dict?.lookupMaybe(PDFName.of('Type'), PDFName)?.decodeText();
+  if (obj instanceof PDFStream && (type === 'XRef' || type === 'ObjStm')) return [];
+
+  switch (role) {
+    case 'catalog':
+      return changedKeys(previous, dict!).map((key) => {
+        switch (key) {
+          case 'DSS': return 'validation-data';
+          case 'AcroForm': return 'form-fill';
+          case 'Metadata': return 'metadata';
+          case 'Pages': return 'page';
+          default: return 'other';
+        }
+      });
+    case 'acroform': {
+      // Setting /SigFlags accompanies the first signature
+      const keys = dict ? changedKeys(previous, dict) : [];
+      return keys.length > 0 && keys.every((key) => key === 'SigFlags') ? ['signature'] : ['form-fill'];
+    }
+    case 'page-dict':
+      return changedKeys(previous, dict!).map((key) => {
+        switch (key) {
+          case 'Annots': return 'annotation';
+          case 'Contents':
+          case 'Resources': return 'content';
+          default: return 'page';
+        }
+      });
+    case 'field':
+      return [dict && inheritedFieldType(dict) === 'Sig' ? 'signature' : 'form-fill'];
+    case undefined:
+      return ['other'];
+    default:
+      return [role];
+  }
+}
+
+/**
+ * Read the DocMDP permission level of a certification signature dictionary
+ *
+ * @returns 1, 2 or 3, or null if the signature does not certify the document
+ */
+export function getDocMdpPermissions(sigDict: PDFDict): 1 | 2 | 3 | null {
+  const references = sigDict.lookupMaybe(PDFName.of('Reference'), PDFArray);
+  for (const item of references?.asArray() ?? []) {
+    const reference = sigDict.context.lookupMaybe(item, PDFDict);
+    if (reference?.lookupMaybe(PDFName.of('TransformMethod'), PDFName)?.decodeText() !== 'DocMDP') continue;
+    const params = reference.lookupMaybe(PDFName.of('TransformParams'), PDFDict);
+    const p = params?.lookupMaybe(PDFName.of('P'), PDFNumber)?.asNumber() ?? 2; // Default per §12.8.2.2.2
+    return p === 1 || p === 3 ? p : 2;
+  }
+  return null;
+}
+
+/**
+ * Diff the revision a signature covers against the final document
+ *
+ * Loads the signed revision (the bytes up to the end of its /ByteRange)
+ * and compares every indirect object of the final document with it.
+ * Changed and added objects are classified by the role they play in the
+ * final document and checked against the DocMDP permission level.
+ *
+ * Without a certification signature, level 3 rules apply (form fill,
+ * signing and annotations), matching how common viewers report approval
+ * signatures.
+ *
+ * SECURITY: Changes are classified only by the role an object plays in the
+ * final document's structure, never by what the object says about itself
+ * (e.g. a /Type /Sig content stream is still content). Anything without a
+ * known role is 'other' and never permitted.
+ *
+ * @param bytes - Complete PDF bytes
+ * @param signedLength - Length of the signed revision (ByteRange end)
+ * @param finalDocument - The complete document, already loaded with pdf-lib
+ * @param docMdpPermissions - Level from the certification signature, if any
+ */
+export async function detectChangesSinceSigned(
+  bytes: Uint8Array,
+  signedLength: number,
+  finalDocument: PDFDocument,
+  docMdpPermissions: 1 | 2 | 3 | null
+): Promise<ChangesSinceSigned> {
+  const tail = bytes.subarray(signedLength);
+  let revisions = 0;
+  for (let i = 0; i + 5 <= tail.length; i++) {
+    // %%EOF
+    if (tail[i] === 0x25 && tail[i + 1] === 0x25 && tail[i + 2] === 0x45 && tail[i + 3] === 0x4f && tail[i + 4] === 0x46) {
+      revisions++;
+    }
+  }
+
+  const signedRevision = await PDFDocument.load(bytes.subarray(0, signedLength), { updateMetadata: false });
+  const roles = mapObjectRoles(finalDocument);
+  const allowed = PERMITTED_CHANGES[docMdpPermissions ?? 3];
+
+  const changes: DocumentChange[] = [];
+  for (const [ref, obj] of finalDocument.context.enumerateIndirectObjects()) {
+    const previous = signedRevision.context.lookup(ref);
+    if (previous && objectsEqual(previous, obj)) continue;
+
+    const types = new Set(classifyChange(obj, previous, roles.get(refKey(ref))));
+    for (const type of types) {
+      changes.push({
+        type,
+        objectNumber: ref.objectNumber,
+        added: !previous,
+        permitted: allowed.includes(type),
+      });
+    }
+  }
+
+  return {
+    revisions,
+    docMdpPermissions,
+    changes,
+    types: [...new Set(changes.map((change) => change.type))],
+    // Appended bytes that are not a revision cannot be classified
+    permitted: revisions > 0 && changes.every((change) => change.permitted),
+  };
+}
@@ -0,0 +1,673 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFObject, PDFPage, PDFRef, PDFStream } from 'pdf-lib';
+import {
+  BoundingBox,
+  SignatureData,
+  SignatureField,
+  SignatureProfile,
+  Signer,
+  TimestampAuthority,
+  ValidationData,
+} from '../types';
+import { bytesToHex, concatBytes } from './asn1-utils';
+import { addSignatureTimestamp, parseSignedData } from './cms-utils';
+
+// Bytes reserved for the CMS blob in /Contents (hex-encoded, so the
+// placeholder is twice this size). Large enough for an RSA-4096 chain.
+const DEFAULT_SIGNATURE_SIZE = 16384;
+
+// Fixed-width /ByteRange placeholder, patched in place once offsets are known
+const BYTE_RANGE_PLACEHOLDER = '[0 ********** ********** **********]';
+
+export interface SignPdfOptions {
+  /** Bytes reserved for each CMS signature (default: 16384) */
+  signatureSize?: number;
+  /** Optional /Location entry for the signature dictionaries */
+  location?: string;
+  /** Optional /ContactInfo entry for the signature dictionaries */
+  contactInfo?: string;
+  /** Signature profile (default: 'pkcs7') */
+  profile?: SignatureProfile;
+  /** Time-Stamp Authority, required for 'pades-b-t' and 'pades-b-lt' */
+  timestampAuthority?: TimestampAuthority;
+  /** Supplies CRLs/OCSP responses for the DSS dictionary ('pades-b-lt') */
+  fetchValidationData?: (certificates: Uint8Array[]) => Promise<ValidationData>;
+}
+
+interface IndirectUpdate {
+  ref: PDFRef;
+  body: string;
+  /** Stream data; body is then the stream dictionary */
+  stream?: Uint8Array;
+}
+
+/**
+ * Encode text as a PDF text string: literal for printable ASCII,
+ * UTF-16BE hex otherwise (PDF 32000-1 §7.9.2.2)
+ */
+export function encodePdfTextString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/([\\()])/g, '\\$1')})`;
+  }
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * Format an ISO 8601 timestamp as a PDF date string (D:YYYYMMDDHHmmssZ)
+ */
+export function toPdfDate(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp: ${isoTimestamp}`);
+  }
+  return `D:${date.toISOString().slice(0, 19).replace(/[-:T]/g, '')}Z`;
+}
+
+function latin1Bytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, fromIndex = 0): number {
+  outer: for (let i = fromIndex; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Locate the offset of the last cross-reference section
+ */
+export function findLastStartXref(bytes: Uint8Array): number {
+  // startxref lives in the last 1KB of a well-formed file
+  const tail = String.fromCharCode(...bytes.subarray(Math.max(0, bytes.length - 1024)));
+  const matches = [...tail.matchAll(/startxref\s+(\d+)/g)];
+  if (matches.length === 0) {
+    throw new Error('Invalid PDF: startxref not found');
+  }
+  return Number(matches[matches.length - 1][1]);
+}
+
+function isXrefTable(bytes: Uint8Array, offset: number): boolean {
+  let pos = offset;
+  while (pos < bytes.length && /\s/.test(String.fromCharCode(bytes[pos]))) pos++;
+  return String.fromCharCode(...bytes.subarray(pos, pos + 4)) === 'xref';
+}
+
+/**
+ * Load a document for appending an incremental update
+ *
+ * pdf-lib discards cross-reference stream objects while parsing, so its
+ * next object number can collide with them. Reserve every number below the
+ * previous trailer's /Size before allocating new objects.
+ */
+export async function loadForIncrementalUpdate(bytes: Uint8Array): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const prevStartXref = findLastStartXref(bytes);
+  // Tables are followed by the trailer; xref streams start with their dictionary
+  const dictStart = isXrefTable(bytes, prevStartXref)
+    ? indexOfBytes(bytes, latin1Bytes('trailer'), prevStartXref)
+    : prevStartXref;
+  const section = String.fromCharCode(...bytes.subarray(dictStart, dictStart + 1024));
+  const prevSize = Number(section.match(/\/Size\s+(\d+)/)?.[1] ?? 0);
+  pdfDoc.context.largestObjectNumber = Math.max(pdfDoc.context.largestObjectNumber, prevSize - 1);
+  return pdfDoc;
+}
+
+function normalizeRect(rect: number[]): [number, number, number, number] {
+  return [
+    Math.min(rect[0], rect[2]),
+    Math.min(rect[1], rect[3]),
+    Math.max(rect[0], rect[2]),
+    Math.max(rect[1], rect[3]),
+  ];
+}
+
+/**
+ * Resolve a field's /FT, which may be inherited from an ancestor field
+ */
+export function inheritedFieldType(dict: PDFDict): string | undefined {
+  let current: PDFDict | undefined = dict;
+  for (let depth = 0; current && depth < 32; depth++) {
+    const fieldType = current.lookupMaybe(PDFName.of('FT'), PDFName);
+    if (fieldType) return fieldType.decodeText();
+    current = current.lookupMaybe(PDFName.of('Parent'), PDFDict);
+  }
+  return undefined;
+}
+
+export interface FieldWidget {
+  pageIndex: number;
+  /** Normalized [x1, y1, x2, y2] */
+  rect: [number, number, number, number];
+  /** The rect as a field boundingBox (see rectToBoundingBox) */
+  boundingBox: BoundingBox;
+  widgetRef: PDFRef;
+  fieldRef: PDFRef;
+  fieldDict: PDFDict;
+}
+
+/**
+ * List the widget annotations of a given field type, page by page, together
+ * with the terminal form field each one belongs to
+ */
+export function listFieldWidgets(pdfDoc: PDFDocument, fieldType = 'Sig'): FieldWidget[] {
+  const widgets: FieldWidget[] = [];
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+    const view = getPageView(page);
+
+    for (let i = 0; i < annots.size(); i++) {
+      const ref = annots.get(i);
+      if (!(ref instanceof PDFRef)) continue;
+
+      const annot = pdfDoc.context.lookupMaybe(ref, PDFDict);
+      if (!annot || annot.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() !== 'Widget') continue;
+      if (inheritedFieldType(annot) !== fieldType) continue;
+
+      const rectArray = annot.lookupMaybe(PDFName.of('Rect'), PDFArray);
+      if (!rectArray || rectArray.size() !== 4) continue;
+      const rect = normalizeRect(
+        rectArray.asArray().map((n) => (n instanceof PDFNumber ? n.asNumber() : NaN))
+      );
+      const boundingBox = rectToBoundingBox(rect, view);
+
+      // Merged field/widget dictionaries carry /T; pure widgets point to their field via /Parent
+      const parentRef = annot.get(PDFName.of('Parent'));
+      if (!annot.has(PDFName.of('T')) && parentRef instanceof PDFRef) {
+        const parent = pdfDoc.context.lookup(parentRef, PDFDict);
+        widgets.push({ pageIndex, rect, boundingBox, widgetRef: ref, fieldRef: parentRef, fieldDict: parent });
+      } else {
+        widgets.push({ pageIndex, rect, boundingBox, widgetRef: ref, fieldRef: ref, fieldDict: annot });
+      }
+    }
+  });
+
+  return widgets;
+}
+
+/**
+ * The view (crop) box of a page as [x1, y1, x2, y2], like pdf.js page.view
+ */
+export function getPageView(page: PDFPage): [number, number, number, number] {
+  const { x, y, width, height } = page.getCropBox();
+  return [x, y, x + width, y + height];
+}
+
+/**
+ * Convert a normalized /Rect to a field boundingBox
+ *
+ * Field bounding boxes are in PDF points from the top-left corner of the
+ * page's view box, as the overlays draw them; a /Rect is in user space,
+ * from the bottom-left. view is the page's view box (pdf.js page.view, or
+ * getPageView).
+ */
+export function rectToBoundingBox(rect: number[], view: number[]): BoundingBox {
+  return {
+    x: rect[0] - view[0],
+    y: view[3] - rect[3],
+    width: rect[2] - rect[0],
+    height: rect[3] - rect[1],
+  };
+}
+
+/**
+ * Convert a field boundingBox to a /Rect in the page's user space
+ */
+export function boundingBoxToRect(boundingBox: BoundingBox, view: number[]): [number, number, number, number] {
+  const x = view[0] + boundingBox.x;
+  const y = view[3] - boundingBox.y - boundingBox.height;
+  return [x, y, x + boundingBox.width, y + boundingBox.height];
+}
+
+/**
+ * Whether two bounding boxes are the same field
+ *
+ * extractSignatureFields and listFieldWidgets derive them from the same
+ * /Rect, so the two agree up to rounding.
+ */
+export function boundingBoxesMatch(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    Math.abs(a.x - b.x) < 0.01 &&
+    Math.abs(a.y - b.y) < 0.01 &&
+    Math.abs(a.width - b.width) < 0.01 &&
+    Math.abs(a.height - b.height) < 0.01
+  );
+}
+
+/**
+ * Find the widget annotation (and its terminal form field) backing a field
+ */
+export function findFieldWidget(
+  pdfDoc: PDFDocument,
+  field: Pick<SignatureField, 'pageIndex' | 'boundingBox'>,
+  fieldType = 'Sig'
+): { widgetRef: PDFRef; fieldRef: PDFRef; fieldDict: PDFDict } | null {
+  return listFieldWidgets(pdfDoc, fieldType).find(
+    (widget) => widget.pageIndex === field.pageIndex && boundingBoxesMatch(widget.boundingBox, field.boundingBox)
+  ) ?? null;
+}
+
+/**
+ * Append an incremental update section containing the given objects
+ *
+ * Writes a classic xref table when the previous section was a table and
+ * an uncompressed xref stream otherwise, so earlier revisions (and any
+ * signatures over them) stay byte-for-byte intact.
+ */
+export function appendIncrementalUpdate(
+  original: Uint8Array,
+  pdfDoc: PDFDocument,
+  updates: IndirectUpdate[]
+): Uint8Array {
+  const prevStartXref = findLastStartXref(original);
+  const useXrefTable = isXrefTable(original, prevStartXref);
+  const { context } = pdfDoc;
+  const { Root, Info, ID } = context.trailerInfo;
+
+  const parts: Uint8Array[] = [];
+  let offset = original.length;
+  const push = (chunk: Uint8Array) => {
+    parts.push(chunk);
+    offset += chunk.length;
+  };
+
+  if (original[original.length - 1] !== 0x0a) {
+    push(latin1Bytes('\n'));
+  }
+
+  const entries: Array<{ ref: PDFRef; offset: number }> = [];
+  for (const update of updates) {
+    entries.push({ ref: update.ref, offset });
+    push(latin1Bytes(`${update.ref.objectNumber} ${update.ref.generationNumber} obj\n${update.body}\n`));
+    if (update.stream) {
+      push(latin1Bytes('stream\n'));
+      push(update.stream);
+      push(latin1Bytes('\nendstream\n'));
+    }
+    push(latin1Bytes('endobj\n'));
+  }
+
+  const xrefRef = useXrefTable ? null : context.nextRef();
+  const xrefOffset = offset;
+  if (xrefRef) {
+    entries.push({ ref: xrefRef, offset: xrefOffset });
+  }
+  entries.sort((a, b) => a.ref.objectNumber - b.ref.objectNumber);
+
+  // Group consecutive object numbers into xref subsections
+  const subsections: Array<typeof entries> = [];
+  for (const entry of entries) {
+    const last = subsections[subsections.length - 1];
+    if (last && last[last.length - 1].ref.objectNumber + 1 === entry.ref.objectNumber) {
+      last.push(entry);
+    } else {
+      subsections.push([entry]);
+    }
+  }
+
+  const size = context.largestObjectNumber + 1;
+  const trailerEntries = [
+    `/Size ${size}`,
+    Root ? `/Root ${Root.toString()}` : '',
+    Info ? `/Info ${Info.toString()}` : '',
+    ID ? `/ID ${ID.toString()}` : '',
+    `/Prev ${prevStartXref}`,
+  ].filter(Boolean).join(' ');
+
+  if (!xrefRef) {
+    let table = 'xref\n';
+    for (const subsection of subsections) {
+      table += `${subsection[0].ref.objectNumber} ${subsection.length}\n`;
+      for (const entry of subsection) {
+        table +=
+          `${String(entry.offset).padStart(10, '0')} ` +
+          `${String(entry.ref.generationNumber).padStart(5, '0')} n \n`;
+      }
+    }
+    push(latin1Bytes(`${table}trailer\n<< ${trailerEntries} >>\n`));
+  } else {
+    // Entry layout: type (1 byte), offset (4 bytes), generation (2 bytes)
+    const data = new Uint8Array(entries.length * 7);
+    entries.forEach((entry, i) => {
+      const base = i * 7;
+      data[base] = 1;
+      data[base + 1] = (entry.offset >>> 24) & 0xff;
+      data[base + 2] = (entry.offset >>> 16) & 0xff;
+      data[base + 3] = (entry.offset >>> 8) & 0xff;
+      data[base + 4] = entry.offset & 0xff;
+      data[base + 5] = (entry.ref.generationNumber >>> 8) & 0xff;
+      data[base + 6] = entry.ref.generationNumber & 0xff;
+    });
+    const index = subsections.map((s) => `${s[0].ref.objectNumber} ${s.length}`).join(' ');
+    push(latin1Bytes(
+      `${xrefRef.objectNumber} 0 obj\n` +
+      `<< /Type /XRef ${trailerEntries} /W [1 4 2] /Index [${index}] /Length ${data.length} >>\n` +
+      'stream\n'
+    ));
+    push(data);
+    push(latin1Bytes('\nendstream\nendobj\n'));
+  }
+
+  push(latin1Bytes(`startxref\n${xrefOffset}\n%%EOF\n`));
+
+  return concatBytes(original, ...parts);
+}
+
+/**
+ * Whether two versions of an indirect object are the same
+ *
+ * Streams are compared by dictionary and raw contents, everything else by
+ * its serialized form.
+ */
+export function objectsEqual(a: PDFObject, b: PDFObject): boolean {
+  if (a instanceof PDFStream && b instanceof PDFStream) {
+    const contentsA = a.getContents();
+    const contentsB = b.getContents();
+    return (
+      a.dict.toString() === b.dict.toString() &&
+      contentsA.length === contentsB.length &&
+      contentsA.every((byte, i) => byte === contentsB[i])
+    );
+  }
+  return a.toString() === b.toString();
+}
+
+/**
+ * Whether any signature field of the document already holds a signature
+ */
+export function hasDigitalSignatures(pdfDoc: PDFDocument): boolean {
+  return listFieldWidgets(pdfDoc).some((widget) => widget.fieldDict.has(PDFName.of('V')));
+}
+
+/**
+ * Save edits made to a document loaded with loadForIncrementalUpdate
+ *
+ * SECURITY: Rewriting a signed PDF (pdf-lib's save) moves every byte its
+ * signatures cover, so they no longer verify. Signed documents therefore
+ * get the new and changed objects appended as an incremental update; the
+ * edits themselves must be ones the signatures permit (see
+ * detectChangesSinceSigned). Unsigned documents are rewritten as before.
+ *
+ * @param original - The bytes the document was loaded from
+ * @param pdfDoc - The edited document
+ */
+export async function saveEdits(original: Uint8Array, pdfDoc: PDFDocument): Promise<Uint8Array> {
+  if (!hasDigitalSignatures(pdfDoc)) {
+    return pdfDoc.save();
+  }
+
+  await pdfDoc.flush();
+  const previous = await PDFDocument.load(original, { updateMetadata: false });
+  const updates: IndirectUpdate[] = [];
+  for (const [ref, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+    const before = previous.context.lookup(ref);
+    if (before && objectsEqual(before, obj)) continue;
+    if (obj instanceof PDFStream) {
+      obj.updateDict();
+      updates.push({ ref, body: obj.dict.toString(), stream: obj.getContents() });
+    } else {
+      updates.push({ ref, body: obj.toString() });
+    }
+  }
+
+  return updates.length > 0 ? appendIncrementalUpdate(original, pdfDoc, updates) : original;
+}
+
+/**
+ * Concatenate the bytes covered by a /ByteRange
+ */
+export function byteRangeContent(
+  bytes: Uint8Array,
+  byteRange: [number, number, number, number]
+): Uint8Array {
+  const [start1, length1, start2, length2] = byteRange;
+  return concatBytes(
+    bytes.subarray(start1, start1 + length1),
+    bytes.subarray(start2, start2 + length2)
+  );
+}
+
+/**
+ * Compute the digest (SHA-256 by default) of the bytes covered by a /ByteRange
+ */
+export async function digestByteRange(
+  bytes: Uint8Array,
+  byteRange: [number, number, number, number],
+  algorithm = 'SHA-256'
+): Promise<Uint8Array> {
+  const covered = byteRangeContent(bytes, byteRange);
+  return new Uint8Array(await crypto.subtle.digest(algorithm, covered as BufferSource));
+}
+
+/**
+ * Sign a single field: reserve the /Contents placeholder in a new revision,
+ * patch /ByteRange, digest the covered bytes and embed the signer's CMS
+ */
+async function signField(
+  pdfBytes: Uint8Array,
+  field: SignatureField,
+  signature: SignatureData,
+  signer: Signer,
+  options: SignPdfOptions
+): Promise<{ output: Uint8Array; cms: Uint8Array }> {
+  const profile = options.profile ?? 'pkcs7';
+  const pdfDoc = await loadForIncrementalUpdate(pdfBytes);
+  const { context } = pdfDoc;
+
+  const target = findFieldWidget(pdfDoc, field);
+  if (!target) {
+    throw new Error(`No /Sig widget found for signature field "${field.fieldName}"`);
+  }
+  if (target.fieldDict.has(PDFName.of('V'))) {
+    throw new Error(`Signature field "${field.fieldName}" is already digitally signed`);
+  }
+
+  const signatureSize = options.signatureSize ?? DEFAULT_SIGNATURE_SIZE;
+  const sigRef = context.nextRef();
+  const sigEntries = [
+    '/Type /Sig',
+    '/Filter /Adobe.PPKLite',
+    `/SubFilter ${profile === 'pkcs7' ? '/adbe.pkcs7.detached' : '/ETSI.CAdES.detached'}`,
+    `/ByteRange ${BYTE_RANGE_PLACEHOLDER}`,
+    `/Contents <${'0'.repeat(signatureSize * 2)}>`,
+    `/M ${encodePdfTextString(toPdfDate(signature.timestamp))}`,
+    `/Name ${encodePdfTextString(signature.signerName)}`,
+    `/Reason ${encodePdfTextString(signature.signerIntent)}`,
+    options.location ? `/Location ${encodePdfTextString(options.location)}` : '',
+    options.contactInfo ? `/ContactInfo ${encodePdfTextString(options.contactInfo)}` : '',
+  ].filter(Boolean);
+
+  const updates: IndirectUpdate[] = [{ ref: sigRef, body: `<<\n${sigEntries.join('\n')}\n>>` }];
+
+  target.fieldDict.set(PDFName.of('V'), sigRef);
+  updates.push({ ref: target.fieldRef, body: target.fieldDict.toString() });
+
+  // AcroForm /SigFlags: SignaturesExist (1) | AppendOnly (2)
+  const catalogRef = context.trailerInfo.Root as PDFRef;
+  const catalog = context.lookup(catalogRef, PDFDict);
+  const acroFormEntry: PDFObject | undefined = catalog.get(PDFName.of('AcroForm'));
+  const acroForm = context.lookupMaybe(acroFormEntry, PDFDict);
+  const sigFlags = acroForm?.lookupMaybe(PDFName.of('SigFlags'), PDFNumber)?.asNumber() ?? 0;
+
+  if (!acroForm) {
+    const newAcroForm = context.obj({ Fields: [target.fieldRef], SigFlags: 3 });
+    const acroFormRef = context.register(newAcroForm);
+    catalog.set(PDFName.of('AcroForm'), acroFormRef);
+    updates.push({ ref: acroFormRef, body: newAcroForm.toString() });
+    updates.push({ ref: catalogRef, body: catalog.toString() });
+  } else if ((sigFlags & 3) !== 3) {
+    acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(sigFlags | 3));
+    if (acroFormEntry instanceof PDFRef) {
+      updates.push({ ref: acroFormEntry, body: acroForm.toString() });
+    } else {
+      updates.push({ ref: catalogRef, body: catalog.toString() });
+    }
+  }
+
+  const output = appendIncrementalUpdate(pdfBytes, pdfDoc, updates);
+
+  // Locate the placeholders inside the new revision only
+  const placeholderStart = indexOfBytes(output, latin1Bytes(BYTE_RANGE_PLACEHOLDER), pdfBytes.length);
+  const contentsStart = indexOfBytes(output, latin1Bytes('/Contents <'), placeholderStart) + '/Contents '.length;
+  const contentsEnd = contentsStart + signatureSize * 2 + 2; // Includes < and >
+
+  const byteRange: [number, number, number, number] = [
+    0,
+    contentsStart,
+    contentsEnd,
+    output.length - contentsEnd,
+  ];
+  const byteRangeText = `[${byteRange.map((n, i) => (i === 0 ? `${n}` : `${n}`.padEnd(10, ' '))).join(' ')}]`;
+  output.set(latin1Bytes(byteRangeText.padEnd(BYTE_RANGE_PLACEHOLDER.length, ' ')), placeholderStart);
+
+  const digest = await digestByteRange(output, byteRange);
+  let cms = await signer.sign(digest, { field, signature, profile });
+
+  if (profile === 'pades-b-t' || profile === 'pades-b-lt') {
+    cms = await addSignatureTimestamp(cms, options.timestampAuthority!);
+  }
+
+  if (cms.length > signatureSize) {
+    throw new Error(
+      `Signature for field "${field.fieldName}" is ${cms.length} bytes, ` +
+      `exceeding the reserved ${signatureSize} bytes. Increase signatureSize.`
+    );
+  }
+
+  output.set(latin1Bytes(bytesToHex(cms).toUpperCase()), contentsStart + 1);
+  return { output, cms };
+}
+
+/**
+ * Collect every certificate embedded in a CMS signature, including those
+ * of its signature timestamp token
+ */
+function collectCertificates(cms: Uint8Array): Uint8Array[] {
+  const parsed = parseSignedData(cms);
+  const certificates = [...parsed.certificates];
+  for (const attr of parsed.signerInfo.unsignedAttrs?.children ?? []) {
+    for (const token of attr.children[1]?.children ?? []) {
+      try {
+        certificates.push(...parseSignedData(token.der).certificates);
+      } catch {
+        // Not a SignedData attribute value
+      }
+    }
+  }
+  return certificates;
+}
+
+/**
+ * Append the PAdES B-LT Document Security Store (ETSI EN 319 142-1 §5.4)
+ *
+ * Certificates are de-duplicated and merged with any existing DSS entries.
+ */
+async function appendDocumentSecurityStore(
+  pdfBytes: Uint8Array,
+  certificates: Uint8Array[],
+  validationData: ValidationData
+): Promise<Uint8Array> {
+  const pdfDoc = await loadForIncrementalUpdate(pdfBytes);
+  const { context } = pdfDoc;
+  const updates: IndirectUpdate[] = [];
+
+  const seen = new Set<string>();
+  const uniqueCertificates = [...certificates, ...(validationData.certificates ?? [])].filter((cert) => {
+    const key = bytesToHex(cert);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const catalogRef = context.trailerInfo.Root as PDFRef;
+  const catalog = context.lookup(catalogRef, PDFDict);
+  const existingDss = catalog.lookupMaybe(PDFName.of('DSS'), PDFDict);
+
+  const addStreams = (key: string, items: Uint8Array[]): string => {
+    const refs = existingDss?.lookupMaybe(PDFName.of(key), PDFArray)?.asArray().map((ref) => ref.toString()) ?? [];
+    for (const item of items) {
+      const ref = context.nextRef();
+      updates.push({ ref, body: `<< /Length ${item.length} >>`, stream: item });
+      refs.push(ref.toString());
+    }
+    return refs.length > 0 ? `/${key} [${refs.join(' ')}]` : '';
+  };
+
+  const dssEntries = [
+    '/Type /DSS',
+    addStreams('Certs', uniqueCertificates),
+    addStreams('CRLs', validationData.crls ?? []),
+    addStreams('OCSPs', validationData.ocspResponses ?? []),
+  ].filter(Boolean);
+
+  const dssRef = context.nextRef();
+  updates.push({ ref: dssRef, body: `<< ${dssEntries.join(' ')} >>` });
+
+  catalog.set(PDFName.of('DSS'), dssRef);
+  updates.push({ ref: catalogRef, body: catalog.toString() });
+
+  return appendIncrementalUpdate(pdfBytes, pdfDoc, updates);
+}
+
+/**
+ * Apply PKCS#7/CMS digital signatures to the /Sig fields of a PDF
+ *
+ * Each signed field gets its own incremental update, so every signature
+ * covers the document as it stood when that field was signed and earlier
+ * signatures remain valid. Fields without captured SignatureData are left
+ * untouched, as are initials on text fields (formFieldType 'Tx') and
+ * authored fields without a widget, which are only flattened.
+ *
+ * PAdES profiles use the ETSI.CAdES.detached SubFilter; 'pades-b-t' adds
+ * a signature timestamp from options.timestampAuthority, and 'pades-b-lt'
+ * additionally appends a DSS dictionary in a final revision.
+ *
+ * @param pdfBytes - Document bytes (e.g. the output of createSignedPDF)
+ * @param signatures - Signature data keyed by field ID (from useSignatureCapture)
+ * @param fields - Signature fields of the document
+ * @param signer - Produces the CMS for each field's ByteRange digest
+ * @param options - Placeholder size and optional signature dictionary entries
+ * @returns Promise resolving to the digitally signed PDF bytes
+ */
+export async function signPdfFields(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  signatures: Map<string, SignatureData>,
+  fields: SignatureField[],
+  signer: Signer,
+  options: SignPdfOptions = {}
+): Promise<Uint8Array> {
+  const profile = options.profile ?? 'pkcs7';
+  if ((profile === 'pades-b-t' || profile === 'pades-b-lt') && !options.timestampAuthority) {
+    throw new Error(`Signature profile "${profile}" requires a timestampAuthority`);
+  }
+
+  let output = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  const certificates: Uint8Array[] = [];
+
+  for (const field of fields) {
+    const signature = signatures.get(field.id);
+    if (!signature || field.formFieldType === 'Tx' || field.authored) continue;
+    const result = await signField(output, field, signature, signer, options);
+    output = result.output;
+    certificates.push(...collectCertificates(result.cms));
+  }
+
+  if (profile === 'pades-b-lt' && certificates.length > 0) {
+    const validationData = (await options.fetchValidationData?.(certificates)) ?? {};
+    output = await appendDocumentSecurityStore(output, certificates, validationData);
+  }
+
+  return output;
+}
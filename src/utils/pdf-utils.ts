@@ -1,5 +1,9 @@
 import { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
-import { SignatureField } from '../types';
+import { AutoFillField, FormField, FormFieldType, SignatureField } from '../types';
+import { isInitialsFieldName } from './initials-utils';
+import { classifyAutoFillFieldName, linkAutoFillField } from './autofill-utils';
+import { cleanFormText, MAX_FORM_OPTIONS } from './form-utils';
+import { rectToBoundingBox } from './pdf-signing-utils';
 
 // SECURITY: Allowed protocols for PDF loading
 // Only HTTPS and blob URLs are permitted to prevent:
@@ -165,7 +169,7 @@ export const documentUrlConfig = {
  * @param name - Raw field name from PDF annotation
  * @returns Sanitized field name or empty string if invalid
  */
-function sanitizeFieldName(name: unknown): string {
+export function sanitizeFieldName(name: unknown): string {
   // Handle non-string or missing names
   if (typeof name !== 'string' || !name) {
     return '';
@@ -268,9 +272,25 @@ function validateRect(rect: unknown): [number, number, number, number] | null {
   return nums as [number, number, number, number];
 }
 
+/**
+ * Field name as written in the PDF, for name conventions only
+ *
+ * Sanitizing drops separators such as the dots of hierarchical names
+ * ("buyer.initials"), which the conventions rely on. The result is never
+ * displayed or stored.
+ */
+function rawFieldName(name: unknown): string {
+  return typeof name === 'string' ? name.slice(0, 100) : '';
+}
+
 /**
  * Extract and validate signature fields from PDF document
  *
+ * Returns /Sig widgets, plus text (/Tx) widgets named as initials fields
+ * (see isInitialsFieldName). Fields named as initials get kind 'initials'.
+ * Bounding boxes are measured from the top-left corner of the page (see
+ * rectToBoundingBox), as are those of every other field.
+ *
  * SECURITY: Validates all annotation data before creating SignatureField objects
  * to prevent injection attacks and rendering errors from malicious PDFs
  */
@@ -286,6 +306,13 @@ export async function extractSignatureFields(
     const signatureFields = annotations.filter(
       (ann: any) => ann.subtype === 'Widget' && ann.fieldType === 'Sig'
     );
+    // Initials are often text fields; they are recognised by name
+    const initialsTextFields = annotations.filter(
+      (ann: any) =>
+        ann.subtype === 'Widget' &&
+        ann.fieldType === 'Tx' &&
+        isInitialsFieldName(rawFieldName(ann.fieldName))
+    );
 
     signatureFields.forEach((ann: any, idx: number) => {
       // SECURITY FIX: Validate annotation data before use
@@ -305,13 +332,32 @@ export async function extractSignatureFields(
         id: `sig-${i}-${idx}`,
         pageIndex: i - 1,
         fieldName: sanitizedFieldName || fallbackName,
-        boundingBox: {
-          x: validatedRect[0],
-          y: validatedRect[1],
-          width: validatedRect[2] - validatedRect[0],
-          height: validatedRect[3] - validatedRect[1],
-        },
+        boundingBox: rectToBoundingBox(validatedRect, page.view),
+        required: typeof ann.required === 'boolean' ? ann.required : true,
+        kind: isInitialsFieldName(rawFieldName(ann.fieldName)) ? 'initials' : 'signature',
+        signedBy: null,
+        signedAt: null,
+      });
+    });
+
+    initialsTextFields.forEach((ann: any, idx: number) => {
+      const validatedRect = validateRect(ann.rect);
+
+      if (!validatedRect) {
+        console.error(
+          `[Security] Skipping initials field on page ${i}, index ${idx}: invalid rect`
+        );
+        return;
+      }
+
+      allFields.push({
+        id: `initials-${i}-${idx}`,
+        pageIndex: i - 1,
+        fieldName: sanitizeFieldName(ann.fieldName) || `initials-${i}-${idx}`,
+        boundingBox: rectToBoundingBox(validatedRect, page.view),
         required: typeof ann.required === 'boolean' ? ann.required : true,
+        kind: 'initials',
+        formFieldType: 'Tx',
         signedBy: null,
         signedAt: null,
       });
@@ -321,6 +367,159 @@ export async function extractSignatureFields(
   return allFields;
 }
 
+/**
+ * Extract the fillable form fields of a document
+ *
+ * Returns text (/Tx), check box and radio button (/Btn) and single-choice
+ * (/Ch) widgets. Push buttons, hidden widgets, multi-select lists and text
+ * fields named as initials (see extractSignatureFields) are left out.
+ *
+ * SECURITY: Rects, names, default values and options are validated as in
+ * extractSignatureFields
+ */
+export async function extractFormFields(pdfDocument: PDFDocumentProxy): Promise<FormField[]> {
+  const allFields: FormField[] = [];
+
+  for (let i = 1; i <= pdfDocument.numPages; i++) {
+    const page = await pdfDocument.getPage(i);
+    const annotations = await page.getAnnotations();
+
+    annotations.forEach((ann: any, idx: number) => {
+      if (ann.subtype !== 'Widget' || ann.hidden) return;
+
+      const type = formFieldType(ann);
+      if (!type) return;
+
+      const validatedRect = validateRect(ann.rect);
+      if (!validatedRect) {
+        console.error(
+          `[Security] Skipping form field on page ${i}, index ${idx}: invalid rect`
+        );
+        return;
+      }
+
+      const field: FormField = {
+        id: `form-${i}-${idx}`,
+        pageIndex: i - 1,
+        fieldName: sanitizeFieldName(ann.fieldName) || `form-${i}-${idx}`,
+        boundingBox: rectToBoundingBox(validatedRect, page.view),
+        type,
+        required: ann.required === true,
+        readOnly: ann.readOnly === true,
+        defaultValue: '',
+      };
+
+      if (type === 'text') {
+        field.multiline = ann.multiLine === true;
+        if (Number.isInteger(ann.maxLen) && ann.maxLen > 0) field.maxLength = ann.maxLen;
+        field.defaultValue =
+          typeof ann.fieldValue === 'string' ? cleanFormText(ann.fieldValue, field.multiline) : '';
+      } else if (type === 'checkbox') {
+        field.exportValue = sanitizeOptionValue(ann.exportValue) || 'Yes';
+        field.defaultValue = ann.fieldValue === ann.exportValue;
+      } else if (type === 'radio') {
+        field.exportValue = sanitizeOptionValue(ann.buttonValue);
+        field.defaultValue = ann.fieldValue === ann.buttonValue ? field.exportValue : '';
+      } else {
+        field.options = (Array.isArray(ann.options) ? ann.options : [])
+          .slice(0, MAX_FORM_OPTIONS)
+          .map((option: any) => ({
+            value: sanitizeOptionValue(option?.exportValue),
+            label: sanitizeOptionValue(option?.displayValue) || sanitizeOptionValue(option?.exportValue),
+          }))
+          .filter((option: { value: string }) => option.value !== '');
+        const selected = Array.isArray(ann.fieldValue) ? ann.fieldValue[0] : ann.fieldValue;
+        field.defaultValue = field.options!.some((option) => option.value === selected) ? selected : '';
+      }
+
+      // Radio buttons without an on-state cannot be selected
+      if (type === 'radio' && !field.exportValue) return;
+
+      allFields.push(field);
+    });
+  }
+
+  return allFields;
+}
+
+function formFieldType(ann: any): FormFieldType | null {
+  switch (ann.fieldType) {
+    case 'Tx':
+      // Initials text fields are captured as signatures
+      return isInitialsFieldName(rawFieldName(ann.fieldName)) ? null : 'text';
+    case 'Btn':
+      return ann.checkBox ? 'checkbox' : ann.radioButton ? 'radio' : null;
+    case 'Ch':
+      return ann.multiSelect ? null : 'dropdown';
+    default:
+      return null;
+  }
+}
+
+// SECURITY: Export values and labels are shown and written back; keep them short and printable (CWE-20)
+function sanitizeOptionValue(value: unknown): string {
+  return typeof value === 'string' ? cleanFormText(value, false).slice(0, 200) : '';
+}
+
+/**
+ * Extract the date and printed-name text fields linked to signature fields
+ *
+ * Text (/Tx) widgets are recognised by name and linked to a signature field
+ * by name prefix or proximity (see classifyAutoFillFieldName and
+ * linkAutoFillField); unlinked ones are ignored.
+ *
+ * SECURITY: Rects and names are validated as in extractSignatureFields
+ *
+ * @param pdfDocument - Loaded document
+ * @param signatureFields - Signature fields of the document (see extractSignatureFields)
+ */
+export async function extractAutoFillFields(
+  pdfDocument: PDFDocumentProxy,
+  signatureFields: SignatureField[]
+): Promise<AutoFillField[]> {
+  const allFields: AutoFillField[] = [];
+
+  for (let i = 1; i <= pdfDocument.numPages; i++) {
+    const page = await pdfDocument.getPage(i);
+    const annotations = await page.getAnnotations();
+
+    const textFields = annotations.filter(
+      (ann: any) => ann.subtype === 'Widget' && ann.fieldType === 'Tx'
+    );
+
+    textFields.forEach((ann: any, idx: number) => {
+      const classified = classifyAutoFillFieldName(rawFieldName(ann.fieldName));
+      if (!classified) return;
+
+      const validatedRect = validateRect(ann.rect);
+      if (!validatedRect) {
+        console.error(
+          `[Security] Skipping auto-fill field on page ${i}, index ${idx}: invalid rect`
+        );
+        return;
+      }
+
+      const boundingBox = rectToBoundingBox(validatedRect, page.view);
+      const signatureFieldId = linkAutoFillField(
+        { pageIndex: i - 1, boundingBox, prefix: classified.prefix },
+        signatureFields
+      );
+      if (!signatureFieldId) return;
+
+      allFields.push({
+        id: `autofill-${i}-${idx}`,
+        pageIndex: i - 1,
+        fieldName: sanitizeFieldName(ann.fieldName) || `autofill-${i}-${idx}`,
+        boundingBox,
+        source: classified.source,
+        signatureFieldId,
+      });
+    });
+  }
+
+  return allFields;
+}
+
 export function getPageDimensions(page: PDFPageProxy) {
   const viewport = page.getViewport({ scale: 1 });
   return {
@@ -333,7 +532,7 @@ export function convertBBoxToPSPDFKit(
   boundingBox: { x: number; y: number; width: number; height: number },
   pageHeight: number
 ): [number, number, number, number] {
-  // PSPDFKit uses bottom-left origin, PDF.js uses top-left
+  // PSPDFKit uses bottom-left origin, field bounding boxes use top-left
   const pdfY = pageHeight - boundingBox.y - boundingBox.height;
   return [
     boundingBox.x,
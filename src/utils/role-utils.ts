@@ -0,0 +1,94 @@
+import { FieldRoles, RoleStatus, SignatureField, SignerRoleProgress, SigningOrder } from '../types';
+import { splitFieldName } from './intent-utils';
+
+/**
+ * Find the signer role a field name is for
+ *
+ * A role matches when its words appear together in the field name (see
+ * splitFieldName): "Buyer_Signature" and "buyer.initials" are for "Buyer",
+ * "LoanOfficerSign" for "Loan Officer". The first matching role wins.
+ *
+ * @param fieldName - Field name
+ * @param signerRoles - Known roles
+ */
+export function roleFromFieldName(fieldName: string, signerRoles: string[]): string | undefined {
+  const words = splitFieldName(fieldName);
+  return signerRoles.find((role) => {
+    const roleWords = splitFieldName(role);
+    if (roleWords.length === 0) return false;
+    return words.some((_, start) => roleWords.every((word, i) => words[start + i] === word));
+  });
+}
+
+/**
+ * Set the signer role of each field
+ *
+ * fieldRoles (by name or ID) comes first, then a role the field already has
+ * (e.g. from the field editor), then the role named in the field name.
+ * Fields without any keep no role and can be signed by every signer.
+ *
+ * @param fields - Signature fields
+ * @param fieldRoles - Roles supplied by the host application
+ * @param signerRoles - Known roles, matched against field names
+ */
+export function applyFieldRoles(
+  fields: SignatureField[],
+  fieldRoles: FieldRoles = {},
+  signerRoles: string[] = []
+): SignatureField[] {
+  const lookup = (key: string) => (Object.prototype.hasOwnProperty.call(fieldRoles, key) ? fieldRoles[key] : undefined);
+  return fields.map((field) => {
+    const role = lookup(field.id) ?? lookup(field.fieldName) ?? field.role ?? roleFromFieldName(field.fieldName, signerRoles);
+    return role === undefined ? field : { ...field, role };
+  });
+}
+
+/**
+ * Whether a field is for the signer (fields without a role are for everyone)
+ */
+export function isFieldForSigner(field: SignatureField, signerRole?: string): boolean {
+  return !signerRole || !field.role || field.role === signerRole;
+}
+
+/**
+ * Work out each role's progress and whether the signer may sign
+ *
+ * Roles come in signerRoles order, followed by roles only found on fields.
+ * A role is completed once its required fields are signed. In a
+ * sequential order only the first role that is not completed is active;
+ * in a parallel order every such role is.
+ *
+ * @param fields - Visible signature fields, with roles (see applyFieldRoles)
+ * @param signedFieldIds - IDs of signed fields
+ * @param options - Current signer's role, known roles and signing order
+ */
+export function getRoleStatus(
+  fields: SignatureField[],
+  signedFieldIds: Set<string>,
+  options: { signerRole?: string; signerRoles?: string[]; signingOrder?: SigningOrder } = {}
+): RoleStatus {
+  const { signerRole, signerRoles = [], signingOrder = 'parallel' } = options;
+  const order = [...new Set([...signerRoles, ...fields.flatMap((field) => (field.role ? [field.role] : []))])];
+
+  let turnTaken = false;
+  const roles: SignerRoleProgress[] = order.map((role) => {
+    const required = fields.filter((field) => field.role === role && field.required);
+    const signed = required.filter((field) => signedFieldIds.has(field.id)).length;
+    if (signed === required.length) {
+      return { role, state: 'completed', signed, required: required.length };
+    }
+    const state = signingOrder === 'sequential' && turnTaken ? 'waiting' : 'active';
+    turnTaken = true;
+    return { role, state, signed, required: required.length };
+  });
+
+  const own = roles.find((progress) => progress.role === signerRole);
+  const canSign = own?.state !== 'waiting';
+  const waitingOn = !canSign
+    ? roles.filter((progress) => progress.state === 'active').map((progress) => progress.role)
+    : signerRole && (!own || own.state === 'completed')
+      ? roles.filter((progress) => progress.role !== signerRole && progress.state !== 'completed').map((progress) => progress.role)
+      : [];
+
+  return { ...(signerRole && { signerRole }), canSign, waitingOn, roles };
+}
@@ -0,0 +1,131 @@
+import {
+  CompletionBlocker,
+  FieldCondition,
+  FieldRule,
+  FieldRuleState,
+  FormField,
+  FormValues,
+  SignatureField,
+} from '../types';
+import { groupFormFields, isFormValueFilled } from './form-utils';
+
+function asList<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function describeValue(value: unknown): string {
+  return value === true ? 'checked' : value === false ? 'unchecked' : `"${String(value)}"`;
+}
+
+/**
+ * Describe a condition for completion messages ("Married is checked")
+ */
+export function describeCondition(condition: FieldCondition): string {
+  if ('signed' in condition) {
+    return `${condition.field} is ${condition.signed ? 'signed' : 'not signed'}`;
+  }
+  if ('filled' in condition) {
+    return `${condition.field} is ${condition.filled ? 'filled in' : 'empty'}`;
+  }
+  return `${condition.field} is ${asList(condition.equals).map(describeValue).join(' or ')}`;
+}
+
+/**
+ * Apply conditional requirements and visibility to the fields
+ *
+ * Rules reference fields by name, or by ID for signature fields. Conditions
+ * on fields that do not exist never hold. A field with several rules is
+ * required when any requiredWhen holds, and hidden when any visibleWhen
+ * does not.
+ *
+ * @param rules - Rules supplied by the host application
+ * @param signatureFields - Signature fields, with required from the PDF
+ * @param signedFieldIds - IDs of signed fields (only validly signed ones
+ *   for fields the loaded PDF already carries a signature for)
+ * @param formFields - Form fields, with required from the PDF
+ * @param formValues - Form values keyed by field name
+ */
+export function applyFieldRules(
+  rules: FieldRule[],
+  signatureFields: SignatureField[],
+  signedFieldIds: Set<string>,
+  formFields: FormField[] = [],
+  formValues: FormValues = {}
+): FieldRuleState {
+  const formGroups = groupFormFields(formFields);
+
+  const isSigned = (key: string) =>
+    signatureFields.some((field) => (field.fieldName === key || field.id === key) && signedFieldIds.has(field.id));
+
+  const holds = (condition: FieldCondition): boolean => {
+    const widgets = formGroups.get(condition.field);
+    if ('signed' in condition) {
+      return isSigned(condition.field) === condition.signed;
+    }
+    if ('filled' in condition) {
+      const filled = widgets
+        ? isFormValueFilled(widgets[0], formValues[condition.field])
+        : isSigned(condition.field);
+      return filled === condition.filled;
+    }
+    return widgets !== undefined && asList(condition.equals).includes(formValues[condition.field]);
+  };
+
+  // Visibility and requirement of one field; activeRule made it required
+  const evaluate = (fieldName: string, fieldId: string | null, required: boolean) => {
+    const fieldRules = rules.filter((rule) => rule.field === fieldName || (fieldId !== null && rule.field === fieldId));
+    const visible = fieldRules.every((rule) => asList(rule.visibleWhen).every(holds));
+    const requiring = fieldRules.filter((rule) => rule.requiredWhen !== undefined);
+    if (requiring.length === 0) {
+      return { visible, required: visible && required, activeRule: undefined };
+    }
+    const activeRule = requiring.find((rule) => asList(rule.requiredWhen).every(holds));
+    return { visible, required: visible && activeRule !== undefined, activeRule };
+  };
+
+  const blockers: CompletionBlocker[] = [];
+  const block = (blocker: Omit<CompletionBlocker, 'message'>, requirement: string) => {
+    const { rule } = blocker;
+    const reason = rule ? asList(rule.requiredWhen).map(describeCondition).join(' and ') : '';
+    blockers.push({
+      ...blocker,
+      message: rule?.message ?? `${blocker.fieldName} ${requirement}${reason ? ` because ${reason}` : ''}`,
+    });
+  };
+
+  const visibleSignatureFields: SignatureField[] = [];
+  for (const field of signatureFields) {
+    const { visible, required, activeRule } = evaluate(field.fieldName, field.id, field.required);
+    if (!visible) continue;
+    visibleSignatureFields.push(field.required === required ? field : { ...field, required });
+
+    if (required && !signedFieldIds.has(field.id)) {
+      const kind = field.kind === 'initials' ? 'initials' : 'signature';
+      // A signature already in the PDF that did not verify cannot be replaced
+      const requirement = field.verificationStatus && field.verificationStatus !== 'valid'
+        ? `has a signature that is not valid (${field.verificationStatus})`
+        : kind === 'initials' ? 'must be initialed' : 'must be signed';
+      block({ fieldId: field.id, fieldName: field.fieldName, kind, rule: activeRule }, requirement);
+    }
+  }
+
+  const visibleFormFields: FormField[] = [];
+  formGroups.forEach((widgets, fieldName) => {
+    const { visible, required, activeRule } = evaluate(
+      fieldName,
+      null,
+      widgets.some((widget) => widget.required)
+    );
+    if (!visible) return;
+    visibleFormFields.push(...widgets.map((widget) => (widget.required === required ? widget : { ...widget, required })));
+
+    if (required && !isFormValueFilled(widgets[0], formValues[fieldName])) {
+      block(
+        { fieldId: widgets[0].id, fieldName, kind: 'form', rule: activeRule },
+        widgets[0].type === 'checkbox' ? 'must be checked' : 'must be filled in'
+      );
+    }
+  });
+
+  return { signatureFields: visibleSignatureFields, formFields: visibleFormFields, blockers };
+}
@@ -1,4 +1,26 @@
-import { PSPDFKitAnnotation, PSPDFKitInstantJSON, SignatureData, SignatureField } from '../types';
+import { PDFDocument, PDFFont, PDFImage, StandardFonts } from 'pdf-lib';
+import {
+  EncryptedBiometricRecord,
+  ManifestationTemplate,
+  PSPDFKitAnnotation,
+  PSPDFKitInstantJSON,
+  PSPDFKitFormFieldValue,
+  ReauthenticationAttempts,
+  ReauthenticationResult,
+  SignatureData,
+  SignatureField,
+  SignatureStroke,
+} from '../types';
+import { drawSignatureManifestation, drawWidgetAppearance } from './manifestation-utils';
+import {
+  boundingBoxToRect,
+  findFieldWidget,
+  getPageView,
+  hasDigitalSignatures,
+  loadForIncrementalUpdate,
+  saveEdits,
+} from './pdf-signing-utils';
+import { SIGNATURE_STROKE_WIDTH, strokesToInkLines, validateStrokes } from './stroke-utils';
 
 // SECURITY: Allowed image types for signature data URLs
 // Only raster formats to prevent SVG-based XSS
@@ -8,6 +30,9 @@ const ALLOWED_IMAGE_TYPES = ['png', 'jpeg', 'jpg', 'gif', 'webp'] as const;
 // Prevents memory exhaustion DoS attacks
 const MAX_DATA_URL_SIZE = 5 * 1024 * 1024; // 5MB
 
+// SECURITY: Maximum decoded image size (2MB)
+export const MAX_IMAGE_SIZE = 2 * 1024 * 1024;
+
 /**
  * SECURITY FIX: Validates image data URLs before rendering
  *
@@ -66,7 +91,6 @@ export function validateImageDataUrl(dataUrl: string): boolean {
   // Validate base64 length is reasonable
   // Base64 encodes 3 bytes as 4 characters, so actual size is ~75% of base64 length
   const estimatedByteSize = (base64Data.length * 3) / 4;
-  const MAX_IMAGE_SIZE = 2 * 1024 * 1024; // 2MB for actual image data
 
   if (estimatedByteSize > MAX_IMAGE_SIZE) {
     console.error(
@@ -94,6 +118,15 @@ export function sanitizeImageDataUrl(dataUrl: string): string | null {
   return validateImageDataUrl(dataUrl) ? dataUrl : null;
 }
 
+/**
+ * Create the Instant JSON annotation for a signature
+ *
+ * Drawn signatures with stroke data become a pspdfkit/ink annotation whose
+ * lines trace the pen strokes, with pen pressure as intensity. Typed
+ * signatures (and drawn ones without strokes) become a pspdfkit/image
+ * annotation referencing an attachment with the image (see
+ * createPSPDFKitInstantJSON), which keeps a typed name in the chosen font.
+ */
 export function createPSPDFKitAnnotation(
   signatureData: SignatureData,
   field: SignatureField,
@@ -101,24 +134,11 @@ export function createPSPDFKitAnnotation(
 ): PSPDFKitAnnotation {
   const timestamp = new Date().toISOString();
   const bbox = convertBBoxToPSPDFKit(field.boundingBox, pageHeight);
+  const { strokes, canvasSize } = signatureData;
 
-  if (signatureData.type === 'drawn') {
-    // For drawn signatures, create an image annotation with attachment
-    return {
-      id: `${field.id}-annotation`,
-      type: 'pspdfkit/image',
-      pageIndex: field.pageIndex,
-      bbox,
-      v: 1,
-      createdAt: timestamp,
-      updatedAt: timestamp,
-      imageAttachmentId: `${field.id}-attachment`,
-      formFieldName: field.fieldName,
-      blendMode: 'normal',
-      opacity: 1,
-    };
-  } else {
-    // For typed signatures, create an ink annotation with text-like appearance
+  if (signatureData.type === 'drawn' && strokes && canvasSize && validateStrokes(strokes, canvasSize)) {
+    const lines = strokesToInkLines(strokes, canvasSize, bbox);
+    const scale = Math.min((bbox[2] - bbox[0]) / canvasSize.width, (bbox[3] - bbox[1]) / canvasSize.height);
     return {
       id: `${field.id}-annotation`,
       type: 'pspdfkit/ink',
@@ -129,10 +149,25 @@ export function createPSPDFKitAnnotation(
       updatedAt: timestamp,
       formFieldName: field.fieldName,
       strokeColor: { r: 0, g: 0, b: 0 },
-      strokeWidth: 2,
-      lines: convertTextToInkLines(signatureData.data, field.boundingBox),
+      strokeWidth: Math.max(0.5, SIGNATURE_STROKE_WIDTH * scale),
+      lines,
     };
   }
+
+  return {
+    id: `${field.id}-annotation`,
+    type: 'pspdfkit/image',
+    pageIndex: field.pageIndex,
+    bbox,
+    v: 1,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    imageAttachmentId: `${field.id}-attachment`,
+    contentType: getImageContentType(signatureData.data),
+    formFieldName: field.fieldName,
+    blendMode: 'normal',
+    opacity: 1,
+  };
 }
 
 function convertBBoxToPSPDFKit(
@@ -148,40 +183,43 @@ function convertBBoxToPSPDFKit(
   ];
 }
 
-function convertTextToInkLines(
-  text: string,
-  boundingBox: { x: number; y: number; width: number; height: number }
-): Array<{ intensities: number[]; points: number[] }> {
-  // Simplified: create a single line representing the signature
-  // In a real implementation, you'd convert the text to actual path points
-  const centerY = boundingBox.height / 2;
-  return [
-    {
-      intensities: [1.0, 1.0],
-      points: [
-        10, centerY,
-        boundingBox.width - 10, centerY,
-      ],
-    },
-  ];
+/**
+ * MIME type of an image data URL ("data:image/jpeg;base64,..." -> "image/jpeg")
+ */
+function getImageContentType(dataUrl: string): string {
+  const type = /^data:image\/([a-z]+);/.exec(dataUrl)?.[1] ?? 'png';
+  return `image/${type === 'jpg' ? 'jpeg' : type}`;
 }
 
+/**
+ * Build PSPDFKit Instant JSON for the captured signatures
+ *
+ * SECURITY: Every image is run through validateImageDataUrl; signatures with
+ * invalid data are left out (annotation and attachment) and logged.
+ *
+ * @param signatures - Signatures with their fields and page heights
+ * @param formFieldValues - Text field values to include (e.g. from createAutoFillFormFieldValues)
+ */
 export function createPSPDFKitInstantJSON(
-  signatures: Map<string, { data: SignatureData; field: SignatureField; pageHeight: number }>
+  signatures: Map<string, { data: SignatureData; field: SignatureField; pageHeight: number }>,
+  formFieldValues: PSPDFKitFormFieldValue[] = []
 ): PSPDFKitInstantJSON {
   const annotations: PSPDFKitAnnotation[] = [];
   const attachments: Record<string, { contentType: string; data: string }> = {};
 
   signatures.forEach(({ data, field, pageHeight }) => {
+    if (!validateImageDataUrl(data.data)) {
+      console.error(`[Security] Skipping signature for field ${field.id}: invalid image data`);
+      return;
+    }
+
     const annotation = createPSPDFKitAnnotation(data, field, pageHeight);
     annotations.push(annotation);
 
-    // Add attachment for drawn signatures
-    if (data.type === 'drawn' && annotation.imageAttachmentId) {
-      const base64Data = data.data.split(',')[1]; // Remove data:image/png;base64, prefix
+    if (annotation.imageAttachmentId) {
       attachments[annotation.imageAttachmentId] = {
-        contentType: 'image/png',
-        data: base64Data,
+        contentType: annotation.contentType ?? 'image/png',
+        data: dataURLToBase64(data.data),
       };
     }
   });
@@ -190,9 +228,122 @@ export function createPSPDFKitInstantJSON(
     format: 'https://pspdfkit.com/instant-json/v1',
     annotations,
     ...(Object.keys(attachments).length > 0 && { attachments }),
+    ...(formFieldValues.length > 0 && { formFieldValues }),
   };
 }
 
+/**
+ * Embed a signature's image into a PDF
+ *
+ * SECURITY: The data URL is run through validateImageDataUrl before it is
+ * decoded. Invalid or unsupported images are logged and yield null.
+ *
+ * @param pdfDoc - Document to embed the image into
+ * @param fieldId - Field the signature belongs to (for logging)
+ * @param data - Signature data with a PNG or JPEG data URL
+ * @returns The embedded image, or null if it was rejected
+ */
+export async function embedSignatureImage(
+  pdfDoc: PDFDocument,
+  fieldId: string,
+  data: SignatureData
+): Promise<PDFImage | null> {
+  if (!validateImageDataUrl(data.data)) {
+    console.error(`[Security] Skipping signature for field ${fieldId}: invalid image data`);
+    return null;
+  }
+
+  // PDF can only embed PNG and JPEG natively
+  const imageType = data.data.match(/^data:image\/([a-z]+);/)?.[1];
+  if (imageType !== 'png' && imageType !== 'jpeg' && imageType !== 'jpg') {
+    console.error(`[Security] Skipping signature for field ${fieldId}: unsupported image type "${imageType}"`);
+    return null;
+  }
+
+  return imageType === 'png'
+    ? pdfDoc.embedPng(data.data)
+    : pdfDoc.embedJpg(data.data);
+}
+
+/**
+ * Flatten captured signatures into the PDF itself
+ *
+ * Draws each signature image into its field's bounding box on the correct
+ * page, so the resulting bytes can be downloaded or archived without a
+ * PSPDFKit backend. The signer's name, date and meaning are drawn with the
+ * image as laid out by the manifestation template (see
+ * drawSignatureManifestation).
+ *
+ * SECURITY: Every image is run through validateImageDataUrl before it is
+ * decoded; signatures with invalid data are skipped and logged.
+ *
+ * If the PDF is already digitally signed, signatures are drawn into their
+ * fields' widget appearances and appended as an incremental update (see
+ * saveEdits), so the earlier signatures stay valid. Fields without a
+ * widget cannot be added to such a PDF and throw.
+ *
+ * @param pdfBytes - Raw bytes of the loaded document
+ * @param signatures - Signature data keyed by field ID (from useSignatureCapture)
+ * @param fields - Signature fields of the document
+ * @param template - Wording, layout and date format of the manifestation
+ * @returns Promise resolving to the bytes of the signed PDF
+ */
+export async function createSignedPDF(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  signatures: Map<string, SignatureData>,
+  fields: SignatureField[],
+  template?: ManifestationTemplate
+): Promise<Uint8Array> {
+  const original = pdfBytes instanceof Uint8Array ? pdfBytes : new Uint8Array(pdfBytes);
+  const pdfDoc = await loadForIncrementalUpdate(original);
+  const signed = hasDigitalSignatures(pdfDoc);
+  const pages = pdfDoc.getPages();
+  let font: PDFFont | null = null;
+
+  for (const [fieldId, data] of signatures) {
+    const field = fields.find((f) => f.id === fieldId);
+    if (!field) {
+      console.error(
+        `[Security] Signature exists for unknown field: ${fieldId}. ` +
+        'This may indicate data corruption or tampering.'
+      );
+      continue;
+    }
+
+    const page = pages[field.pageIndex];
+    if (!page) {
+      console.error(`[Security] Signature field ${fieldId} references missing page ${field.pageIndex + 1}`);
+      continue;
+    }
+
+    // SECURITY: Drawing on the page of a signed PDF would invalidate its
+    // signatures, so the signature goes into the field's widget instead
+    const widget = signed ? findFieldWidget(pdfDoc, field, field.formFieldType ?? 'Sig') : null;
+    if (signed && !widget) {
+      throw new Error(
+        `Field "${field.fieldName}" has no widget in this digitally signed PDF; ` +
+        'drawing it onto the page would invalidate the existing signatures'
+      );
+    }
+
+    const image = await embedSignatureImage(pdfDoc, fieldId, data);
+    if (!image) continue;
+
+    font ??= await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const rect = boundingBoxToRect(field.boundingBox, getPageView(page));
+    if (widget) {
+      const fieldFont = font;
+      drawWidgetAppearance(pdfDoc, widget.widgetRef, rect, (canvas) =>
+        drawSignatureManifestation(canvas, image, fieldFont, rect, data, template)
+      );
+    } else {
+      drawSignatureManifestation(page, image, font, rect, data, template);
+    }
+  }
+
+  return saveEdits(original, pdfDoc);
+}
+
 export function dataURLToBase64(dataUrl: string): string {
   return dataUrl.split(',')[1];
 }
@@ -240,6 +391,17 @@ export async function generateSignatureHash(
     signerId: data.signerId,
     signerIntent: data.signerIntent,
     documentHash: data.documentHash,
+    // Drawn strokes are part of the signature once recorded (omitted
+    // otherwise, like re-authentication below)
+    ...(data.strokes && { strokes: data.strokes, canvasSize: data.canvasSize }),
+    ...(data.biometrics && { biometrics: data.biometrics }),
+    ...(data.adoptedAt && { adoptedAt: data.adoptedAt }),
+    // CFR Part 11.200: Re-authentication is covered once it has happened
+    // (omitted otherwise, so hashes of signatures without it are unchanged)
+    ...(data.authenticatedAt && {
+      authMethod: data.authMethod,
+      authenticatedAt: data.authenticatedAt,
+    }),
   });
 
   // Use Web Crypto API for SHA-256
@@ -254,6 +416,142 @@ export async function generateSignatureHash(
   return hashHex;
 }
 
+/**
+ * Compute the SHA-256 hash of a document's bytes
+ *
+ * @param pdfBytes - Raw bytes of the document
+ * @returns Promise resolving to the lowercase hex-encoded SHA-256 hash
+ */
+export async function computeDocumentHash(pdfBytes: Uint8Array | ArrayBuffer): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', pdfBytes as BufferSource);
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SECURITY: Thrown when the document being signed is not the document the
+ * backend vouched for
+ *
+ * expectedHash is signatureContext.documentHash; actualHash is the SHA-256
+ * of the bytes actually loaded and rendered (null if it could not be
+ * computed). Signing is refused, because the signature would otherwise be
+ * linked (CFR Part 11.70) to a record the signer never saw.
+ *
+ * CWE-345: Insufficient Verification of Data Authenticity
+ */
+export class DocumentHashMismatchError extends Error {
+  readonly expectedHash: string;
+  readonly actualHash: string | null;
+
+  constructor(expectedHash: string, actualHash: string | null) {
+    super(
+      actualHash
+        ? 'The loaded document does not match the document hash provided by the server. Signing was refused.'
+        : 'The loaded document has not been hashed yet. Signing was refused.'
+    );
+    this.name = 'DocumentHashMismatchError';
+    this.expectedHash = expectedHash;
+    this.actualHash = actualHash;
+  }
+}
+
+/**
+ * Report a signature refused because the document does not match
+ *
+ * Shared by the capture components: logs the refusal, passes the error to
+ * onError and tells the signer to reload the document.
+ *
+ * @returns true if error was a DocumentHashMismatchError and was reported
+ */
+export function handleDocumentHashMismatch(error: unknown, onError?: (error: Error) => void): boolean {
+  if (!(error instanceof DocumentHashMismatchError)) return false;
+  console.error('[Security] Refusing to sign: loaded document hash does not match signatureContext.documentHash');
+  onError?.(error);
+  alert('This document does not match the version you were asked to sign. Please reload it and try again.');
+  return true;
+}
+
+/**
+ * SECURITY: Thrown when a signer exhausts their re-authentication attempts
+ * (or the backend reports the account locked)
+ *
+ * CFR Part 11.300(d): Attempts at unauthorized use must be detected and
+ * reported, so the lockout is surfaced through onError and the audit trail.
+ *
+ * CWE-307: Improper Restriction of Excessive Authentication Attempts
+ */
+export class ReauthenticationLockoutError extends Error {
+  readonly signerId: string;
+  readonly attempts: number;
+
+  constructor(signerId: string, attempts: number) {
+    super('Re-authentication failed too many times. Signing is locked for this session.');
+    this.name = 'ReauthenticationLockoutError';
+    this.signerId = signerId;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * A signer's re-authentication attempts, or a fresh window if they have none
+ *
+ * SECURITY: Attempts are kept per signer, so on a kiosk one signer's
+ * failures and lockout never carry over to the next (CWE-307).
+ *
+ * @param attempts - Attempts keyed by signerId
+ * @param signerId - Signer to look up
+ * @param maxAttempts - Failed attempts allowed before lockout
+ */
+export function getReauthenticationAttempts(
+  attempts: Record<string, ReauthenticationAttempts>,
+  signerId: string,
+  maxAttempts: number
+): ReauthenticationAttempts {
+  return Object.prototype.hasOwnProperty.call(attempts, signerId)
+    ? attempts[signerId]
+    : { failed: 0, remaining: maxAttempts, lockedOut: false };
+}
+
+/**
+ * Record the outcome of one signer's re-authentication attempt
+ *
+ * Success starts a fresh window. A failure counts against the signer; the
+ * backend's remainingAttempts and lockedOut override the local count.
+ *
+ * @returns The updated attempts, keyed by signerId
+ */
+export function recordReauthenticationResult(
+  attempts: Record<string, ReauthenticationAttempts>,
+  signerId: string,
+  result: Pick<ReauthenticationResult, 'success' | 'lockedOut' | 'remainingAttempts'>,
+  maxAttempts: number
+): Record<string, ReauthenticationAttempts> {
+  if (result.success) {
+    return { ...attempts, [signerId]: { failed: 0, remaining: maxAttempts, lockedOut: false } };
+  }
+  const failed = getReauthenticationAttempts(attempts, signerId, maxAttempts).failed + 1;
+  const remaining = Math.max(0, result.remainingAttempts ?? maxAttempts - failed);
+  return { ...attempts, [signerId]: { failed, remaining, lockedOut: Boolean(result.lockedOut) || remaining === 0 } };
+}
+
+/**
+ * Fold the outcome of a re-authentication into signature data
+ *
+ * Replaces authMethod, records authenticatedAt and recomputes
+ * signatureHash, so both are covered by the signature's integrity hash.
+ *
+ * @param data - Signature data from createCFRCompliantSignature
+ * @param authMethod - Method used to re-authenticate
+ * @param authenticatedAt - ISO 8601 time of re-authentication
+ */
+export async function applyReauthentication(
+  data: import('../types').SignatureData,
+  authMethod: string,
+  authenticatedAt: string
+): Promise<import('../types').SignatureData> {
+  const reauthenticated = { ...data, authMethod, authenticatedAt };
+  return { ...reauthenticated, signatureHash: await generateSignatureHash(reauthenticated) };
+}
+
 /**
  * Helper to create CFR Part 11 compliant signature data
  * Validates required fields and generates hashes
@@ -268,11 +566,18 @@ export async function generateSignatureHash(
  * @param context - Required CFR Part 11 context (signer, session, document)
  * @param signatureIntent - Meaning of the signature (default: "I approve this document")
  * @param collectDeviceInfo - Opt-in flag for device metadata collection (default: false)
+ * @param renderedDocumentHash - SHA-256 of the loaded document (see usePDFDocument);
+ *   it must match context.documentHash; when it is null (not yet computed) or
+ *   does not match, DocumentHashMismatchError is thrown
  */
 export async function createCFRCompliantSignature(
   baseData: {
-    type: 'drawn' | 'typed';
+    type: 'drawn' | 'typed' | 'uploaded';
     data: string;
+    strokes?: SignatureStroke[];
+    canvasSize?: { width: number; height: number };
+    biometrics?: EncryptedBiometricRecord;
+    adoptedAt?: string;
   },
   context: {
     signerName: string;
@@ -283,7 +588,8 @@ export async function createCFRCompliantSignature(
     ipAddress?: string;
   },
   signatureIntent: string = 'I approve this document',
-  collectDeviceInfo: boolean = false
+  collectDeviceInfo: boolean = false,
+  renderedDocumentHash: string | null
 ): Promise<import('../types').SignatureData> {
   // Validate required fields
   if (!context.signerName) throw new Error('signerName is required for CFR Part 11 compliance');
@@ -291,6 +597,19 @@ export async function createCFRCompliantSignature(
   if (!context.documentHash) throw new Error('documentHash is required for CFR Part 11 compliance');
   if (!signatureIntent) throw new Error('signatureIntent is required for CFR Part 11 compliance');
 
+  // SECURITY: Never link a signature to a document hash the signer's bytes don't match
+  // (hex comparison is case-insensitive). Fails closed: a null rendered hash (or
+  // one omitted by a JavaScript caller) is a mismatch, not a reason to skip the check.
+  if (!renderedDocumentHash || renderedDocumentHash.toLowerCase() !== context.documentHash.trim().toLowerCase()) {
+    throw new DocumentHashMismatchError(context.documentHash, renderedDocumentHash ?? null);
+  }
+
+  // SECURITY: Stroke data is hashed and exported, so it must be well-formed
+  const { strokes, canvasSize } = baseData;
+  if (strokes && (!canvasSize || !validateStrokes(strokes, canvasSize))) {
+    throw new Error('Invalid signature stroke data');
+  }
+
   // Create base signature data
   const timestamp = new Date().toISOString();
 
@@ -309,6 +628,9 @@ export async function createCFRCompliantSignature(
     sessionId: context.sessionId,
     ipAddress: context.ipAddress,
     signatureVersion: '1.0.0', // Library version
+    ...(strokes && { strokes, canvasSize }),
+    ...(baseData.biometrics && { biometrics: baseData.biometrics }),
+    ...(baseData.adoptedAt && { adoptedAt: baseData.adoptedAt }),
     // Only collect device metadata if consent given
     deviceInfo: collectDeviceInfo ? {
       platform: navigator.platform,
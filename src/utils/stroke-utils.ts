@@ -0,0 +1,149 @@
+import { PSPDFKitAnnotation, SignaturePoint, SignatureStroke } from '../types';
+
+// SECURITY: Maximum number of points across all strokes
+// Bounds the size of the signature record and of the exported ink/SVG
+const MAX_STROKE_POINTS = 20000;
+
+// Pen width used for ink annotations and SVG paths, in canvas pixels
+export const SIGNATURE_STROKE_WIDTH = 2;
+
+/**
+ * Convert signature_pad's toData() output into signature strokes
+ *
+ * Times are made relative to the first point of the signature, so the
+ * record holds the signing rhythm rather than the wall-clock time (which is
+ * already in SignatureData.timestamp). signature_pad keeps tracking the
+ * pointer when a stroke leaves the canvas; those points are clamped to its
+ * edges, where the image clips them too.
+ *
+ * @param pointGroups - Result of SignaturePad.toData()
+ * @param canvasSize - Size of the capture canvas
+ */
+export function toSignatureStrokes(
+  pointGroups: Array<{ points: Array<Required<SignaturePoint>> }>,
+  canvasSize: { width: number; height: number }
+): SignatureStroke[] {
+  const start = pointGroups[0]?.points[0]?.time ?? 0;
+  return pointGroups
+    .filter((group) => group.points.length > 0)
+    .map((group) => ({
+      points: group.points.map(({ x, y, time, pressure }) => ({
+        x: round(Math.min(canvasSize.width, Math.max(0, x))),
+        y: round(Math.min(canvasSize.height, Math.max(0, y))),
+        time: Math.max(0, Math.round(time - start)),
+        pressure: round(Math.min(1, Math.max(0, pressure)), 3),
+      })),
+    }));
+}
+
+/**
+ * SECURITY: Validate stroke data before it is hashed or exported
+ *
+ * Strokes must contain only finite coordinates inside the capture canvas,
+ * valid times and pressures where present, and at most MAX_STROKE_POINTS
+ * points in total.
+ *
+ * @returns true if the strokes are safe to use
+ */
+export function validateStrokes(
+  strokes: SignatureStroke[],
+  canvasSize: { width: number; height: number }
+): boolean {
+  if (!(canvasSize.width > 0 && canvasSize.height > 0)) {
+    console.error('[Security] Stroke validation failed: Invalid canvas size');
+    return false;
+  }
+
+  const points = strokes.flatMap((stroke) => stroke.points);
+  if (points.length === 0 || points.length > MAX_STROKE_POINTS) {
+    console.error(
+      `[Security] Stroke validation failed: ${points.length} points (allowed: 1-${MAX_STROKE_POINTS})`
+    );
+    return false;
+  }
+
+  const valid = points.every(({ x, y, time, pressure }) =>
+    Number.isFinite(x) && x >= 0 && x <= canvasSize.width &&
+    Number.isFinite(y) && y >= 0 && y <= canvasSize.height &&
+    (time === undefined || (Number.isFinite(time) && time >= 0)) &&
+    (pressure === undefined || (pressure >= 0 && pressure <= 1))
+  );
+  if (!valid) {
+    console.error('[Security] Stroke validation failed: Point outside the canvas or not a finite number');
+  }
+  return valid;
+}
+
+/**
+ * Map strokes onto a field as PSPDFKit ink lines
+ *
+ * The canvas is scaled to fit the bounding box and centered, preserving its
+ * aspect ratio (as for images). Points are in the same PDF coordinate space
+ * as the annotation's bbox; each point's pen pressure becomes its intensity
+ * (0.5 when strokes carry no pressure).
+ *
+ * @param strokes - Drawn signature strokes
+ * @param canvasSize - Size of the capture canvas
+ * @param bbox - Field rectangle in PDF coordinates [x1, y1, x2, y2]
+ */
+export function strokesToInkLines(
+  strokes: SignatureStroke[],
+  canvasSize: { width: number; height: number },
+  bbox: [number, number, number, number]
+): NonNullable<PSPDFKitAnnotation['lines']> {
+  const [x1, y1, x2, y2] = bbox;
+  const scale = Math.min((x2 - x1) / canvasSize.width, (y2 - y1) / canvasSize.height);
+  const left = x1 + (x2 - x1 - canvasSize.width * scale) / 2;
+  const top = y2 - (y2 - y1 - canvasSize.height * scale) / 2;
+
+  return strokes.map((stroke) => ({
+    points: stroke.points.flatMap(({ x, y }) => [round(left + x * scale), round(top - y * scale)]),
+    intensities: stroke.points.map(({ pressure = 0.5 }) => pressure),
+  }));
+}
+
+/**
+ * Build an SVG path (the "d" attribute) tracing the strokes in canvas pixels
+ *
+ * Single-point strokes become a dot, drawn as a zero-length segment with a
+ * round line cap.
+ */
+export function strokesToSvgPath(strokes: SignatureStroke[]): string {
+  return strokes
+    .filter((stroke) => stroke.points.length > 0)
+    .map(({ points: [first, ...rest] }) => {
+      const start = `M${round(first.x)} ${round(first.y)}`;
+      return rest.length > 0
+        ? `${start} ${rest.map(({ x, y }) => `L${round(x)} ${round(y)}`).join(' ')}`
+        : `${start} l0 0`;
+    })
+    .join(' ');
+}
+
+/**
+ * Render strokes as a standalone SVG document
+ *
+ * A vector alternative to the PNG in SignatureData.data that stays sharp at
+ * any zoom. The viewBox is the capture canvas.
+ *
+ * @param strokes - Drawn signature strokes
+ * @param canvasSize - Size of the capture canvas
+ * @returns SVG markup (contains only generated numbers, no signer input)
+ */
+export function createSignatureSvg(
+  strokes: SignatureStroke[],
+  canvasSize: { width: number; height: number }
+): string {
+  const { width, height } = canvasSize;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">` +
+    `<path d="${strokesToSvgPath(strokes)}" fill="none" stroke="#000" stroke-width="${SIGNATURE_STROKE_WIDTH}" ` +
+    'stroke-linecap="round" stroke-linejoin="round"/>' +
+    '</svg>'
+  );
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
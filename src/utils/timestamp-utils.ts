@@ -0,0 +1,131 @@
+import { TimestampAuthority } from '../types';
+import {
+  ASN1_TAG,
+  bytesEqual,
+  derBoolean,
+  derInteger,
+  derOctetString,
+  derOid,
+  derSequence,
+  parseDer,
+} from './asn1-utils';
+import { OID, parseSignedData } from './cms-utils';
+
+// SECURITY: Cap the TSA response size (tokens are a few KB)
+const MAX_RESPONSE_SIZE = 64 * 1024;
+
+export interface HttpTimestampAuthorityOptions {
+  /** Extra request headers, e.g. Authorization for commercial TSAs */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+/**
+ * Create a TimestampAuthority that talks RFC 3161 over HTTP(S)
+ *
+ * Plain http: is accepted because the returned token is itself signed by
+ * the TSA; any other protocol is rejected.
+ *
+ * SECURITY: A random nonce is sent with every request and checked in the
+ * response to prevent replay of old tokens.
+ *
+ * @param url - TSA endpoint accepting application/timestamp-query
+ */
+export function createHttpTimestampAuthority(
+  url: string,
+  options: HttpTimestampAuthorityOptions = {}
+): TimestampAuthority {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error(`[Security] TSA URL protocol "${parsed.protocol}" not allowed`);
+  }
+
+  return {
+    timestamp: async (messageImprint: Uint8Array) => {
+      const nonce = crypto.getRandomValues(new Uint8Array(8));
+      nonce[0] &= 0x7f; // Keep the INTEGER positive without padding
+
+      const request = derSequence(
+        derInteger(1),
+        derSequence(derSequence(derOid(OID.SHA256)), derOctetString(messageImprint)),
+        derInteger(nonce),
+        derBoolean(true) // certReq: include the TSA certificate
+      );
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), options.timeout ?? 10000);
+      let response: Response;
+      try {
+        response = await fetch(parsed.toString(), {
+          method: 'POST',
+          headers: { ...options.headers, 'Content-Type': 'application/timestamp-query' },
+          body: request as BufferSource,
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok) {
+        throw new Error(`TSA request failed with HTTP ${response.status}`);
+      }
+
+      const body = new Uint8Array(await response.arrayBuffer());
+      if (body.length > MAX_RESPONSE_SIZE) {
+        throw new Error('TSA response exceeds maximum size');
+      }
+
+      return parseTimestampResponse(body, messageImprint, nonce);
+    },
+  };
+}
+
+/**
+ * Validate an RFC 3161 TimeStampResp and return its TimeStampToken
+ *
+ * @throws Error if the TSA rejected the request, or the token does not
+ * match the requested imprint and nonce
+ */
+export function parseTimestampResponse(
+  response: Uint8Array,
+  messageImprint: Uint8Array,
+  nonce?: Uint8Array
+): Uint8Array {
+  const resp = parseDer(response);
+  const [statusInfo, tokenNode] = resp.children;
+  const status = statusInfo?.children[0];
+  if (!status || status.tag !== ASN1_TAG.INTEGER) {
+    throw new Error('Invalid TSA response');
+  }
+
+  // PKIStatus: 0 = granted, 1 = grantedWithMods
+  const statusValue = status.content[status.content.length - 1];
+  if (status.content.length !== 1 || statusValue > 1) {
+    throw new Error(`TSA rejected the request (status ${statusValue})`);
+  }
+  if (!tokenNode) {
+    throw new Error('TSA response has no timestamp token');
+  }
+
+  const token = parseSignedData(tokenNode.der);
+  if (token.encapContentType !== OID.TST_INFO || !token.encapContent) {
+    throw new Error('Timestamp token does not contain TSTInfo');
+  }
+
+  // TSTInfo: version, policy, messageImprint, serialNumber, genTime, accuracy?, ordering?, nonce?, ...
+  const tstInfo = parseDer(token.encapContent);
+  const imprint = tstInfo.children[2]?.children[1];
+  if (!imprint || !bytesEqual(imprint.content, messageImprint)) {
+    throw new Error('Timestamp token message imprint does not match the request');
+  }
+
+  if (nonce) {
+    const tokenNonce = tstInfo.children.slice(5).find((child) => child.tag === ASN1_TAG.INTEGER);
+    if (!tokenNonce || !bytesEqual(parseDer(derInteger(nonce)).content, tokenNonce.content)) {
+      throw new Error('Timestamp token nonce does not match the request');
+    }
+  }
+
+  return tokenNode.der;
+}
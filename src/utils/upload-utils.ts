@@ -0,0 +1,235 @@
+import { SignatureImagePixels } from '../types';
+import { MAX_IMAGE_SIZE, validateImageDataUrl } from './signature-utils';
+
+// SECURITY: Largest image side accepted for decoding
+// A small compressed file can expand to gigabytes of pixels (decompression bomb)
+export const MAX_UPLOAD_DIMENSION = 4096;
+
+// Uploaded signatures are scaled down to fit within this size
+export const UPLOAD_OUTPUT_SIZE = { width: 1000, height: 400 };
+
+// Luminance at or above which a pixel counts as background
+const WHITE_THRESHOLD = 235;
+// Luminance from which pixels fade out, to keep anti-aliased edges smooth
+const EDGE_THRESHOLD = 190;
+const CROP_PADDING = 4;
+
+const UPLOAD_TYPES = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+} as const;
+
+/**
+ * A signature upload was rejected; the message can be shown to the signer
+ */
+export class SignatureUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureUploadError';
+  }
+}
+
+/**
+ * SECURITY: Identify PNG/JPEG files by their signature bytes
+ *
+ * The browser-provided MIME type comes from the file extension, so it is
+ * not trusted on its own.
+ */
+export function detectImageType(bytes: Uint8Array): 'png' | 'jpeg' | null {
+  const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (PNG.every((byte, i) => bytes[i] === byte)) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  return null;
+}
+
+/**
+ * Read the pixel dimensions from a PNG or JPEG header without decoding it
+ *
+ * @returns Width and height, or null if the header is malformed
+ */
+export function readImageDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = detectImageType(bytes);
+
+  if (type === 'png') {
+    // IHDR is always the first chunk: width and height follow its type
+    if (bytes.length < 24) return null;
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (type === 'jpeg') {
+    // Walk the marker segments up to the start-of-frame (SOF0-SOF15,
+    // except DHT/JPG/DAC, which share the range)
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Make a near-white background transparent
+ *
+ * Pixels at or above WHITE_THRESHOLD luminance become fully transparent;
+ * pixels between EDGE_THRESHOLD and WHITE_THRESHOLD fade out gradually, so
+ * the edges of the ink stay smooth.
+ */
+export function removeBackground(pixels: SignatureImagePixels): SignatureImagePixels {
+  const data = new Uint8ClampedArray(pixels.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    if (luminance >= WHITE_THRESHOLD) {
+      data[i + 3] = 0;
+    } else if (luminance > EDGE_THRESHOLD) {
+      data[i + 3] = Math.round(data[i + 3] * (WHITE_THRESHOLD - luminance) / (WHITE_THRESHOLD - EDGE_THRESHOLD));
+    }
+  }
+  return { width: pixels.width, height: pixels.height, data };
+}
+
+/**
+ * Crop to the visible (non-transparent) pixels plus a small padding
+ *
+ * @returns The cropped pixels, or null if every pixel is transparent
+ */
+export function cropToContent(pixels: SignatureImagePixels, padding = CROP_PADDING): SignatureImagePixels | null {
+  const { width, height, data } = pixels;
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+  if (right < 0) return null;
+
+  left = Math.max(0, left - padding);
+  top = Math.max(0, top - padding);
+  right = Math.min(width - 1, right + padding);
+  bottom = Math.min(height - 1, bottom + padding);
+
+  const croppedWidth = right - left + 1;
+  const croppedHeight = bottom - top + 1;
+  const cropped = new Uint8ClampedArray(croppedWidth * croppedHeight * 4);
+  for (let y = 0; y < croppedHeight; y++) {
+    const start = ((top + y) * width + left) * 4;
+    cropped.set(data.subarray(start, start + croppedWidth * 4), y * croppedWidth * 4);
+  }
+  return { width: croppedWidth, height: croppedHeight, data: cropped };
+}
+
+/**
+ * Scale a size down (never up) to fit within a maximum, keeping its aspect ratio
+ */
+export function fitWithin(
+  size: { width: number; height: number },
+  max: { width: number; height: number } = UPLOAD_OUTPUT_SIZE
+): { width: number; height: number } {
+  const scale = Math.min(1, max.width / size.width, max.height / size.height);
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+}
+
+/**
+ * Turn an uploaded PNG/JPEG file into a signature image
+ *
+ * SECURITY: The file is checked before decoding (type, signature bytes, file
+ * size consistent with validateImageDataUrl, pixel dimensions from the
+ * header), and the result is validated again with validateImageDataUrl.
+ *
+ * The background is removed, the image is cropped to the ink and scaled
+ * down to UPLOAD_OUTPUT_SIZE.
+ *
+ * @param file - File chosen by the signer
+ * @returns Promise resolving to a PNG data URL with a transparent background
+ * @throws SignatureUploadError with a message for the signer
+ */
+export async function processSignatureUpload(file: File): Promise<string> {
+  if (!(file.type in UPLOAD_TYPES)) {
+    throw new SignatureUploadError('Only PNG and JPEG images can be uploaded');
+  }
+  if (file.size > MAX_IMAGE_SIZE) {
+    throw new SignatureUploadError(`The image must be ${MAX_IMAGE_SIZE / 1024 / 1024}MB or smaller`);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (detectImageType(bytes) !== UPLOAD_TYPES[file.type as keyof typeof UPLOAD_TYPES]) {
+    console.error('[Security] Signature upload rejected: file content does not match its type');
+    throw new SignatureUploadError('The file is not a valid PNG or JPEG image');
+  }
+
+  const dimensions = readImageDimensions(bytes);
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    throw new SignatureUploadError('The file is not a valid PNG or JPEG image');
+  }
+  if (dimensions.width > MAX_UPLOAD_DIMENSION || dimensions.height > MAX_UPLOAD_DIMENSION) {
+    throw new SignatureUploadError(
+      `The image must be at most ${MAX_UPLOAD_DIMENSION}x${MAX_UPLOAD_DIMENSION} pixels`
+    );
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(new Blob([bytes as BlobPart], { type: file.type }));
+  } catch {
+    throw new SignatureUploadError('The image could not be read');
+  }
+
+  let content: SignatureImagePixels | null;
+  try {
+    const source = document.createElement('canvas');
+    source.width = bitmap.width;
+    source.height = bitmap.height;
+    const ctx = source.getContext('2d');
+    if (!ctx) throw new SignatureUploadError('The image could not be read');
+    ctx.drawImage(bitmap, 0, 0);
+    content = cropToContent(removeBackground(ctx.getImageData(0, 0, source.width, source.height)));
+  } finally {
+    bitmap.close();
+  }
+  if (!content) {
+    throw new SignatureUploadError('No signature was found in the image');
+  }
+
+  const cropped = document.createElement('canvas');
+  cropped.width = content.width;
+  cropped.height = content.height;
+  const croppedCtx = cropped.getContext('2d');
+  if (!croppedCtx) throw new SignatureUploadError('The image could not be read');
+  const imageData = croppedCtx.createImageData(content.width, content.height);
+  imageData.data.set(content.data);
+  croppedCtx.putImageData(imageData, 0, 0);
+
+  const size = fitWithin(content);
+  const output = document.createElement('canvas');
+  output.width = size.width;
+  output.height = size.height;
+  const outputCtx = output.getContext('2d');
+  if (!outputCtx) throw new SignatureUploadError('The image could not be read');
+  outputCtx.imageSmoothingQuality = 'high';
+  outputCtx.drawImage(cropped, 0, 0, size.width, size.height);
+
+  const dataUrl = output.toDataURL('image/png');
+  if (!validateImageDataUrl(dataUrl)) {
+    throw new SignatureUploadError('The processed image is too large');
+  }
+  return dataUrl;
+}
@@ -0,0 +1,550 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import {
+  SignatureField,
+  SignatureVerificationOptions,
+  SignatureVerificationResult,
+  SignatureVerificationStatus,
+} from '../types';
+import { ASN1_TAG, Asn1Node, bytesEqual, decodeOid, decodeTime, parseDer } from './asn1-utils';
+import {
+  OID,
+  ParsedCertificate,
+  ParsedSignerInfo,
+  findAttributeValue,
+  getCommonName,
+  parseCertificate,
+  parseSignedData,
+} from './cms-utils';
+import { FieldWidget, boundingBoxesMatch, byteRangeContent, listFieldWidgets } from './pdf-signing-utils';
+import { detectChangesSinceSigned, getDocMdpPermissions } from './modification-utils';
+
+// SECURITY: Bound chain building so a PDF cannot make us loop over its certificates
+const MAX_CHAIN_LENGTH = 10;
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  [OID.SHA256]: 'SHA-256',
+  [OID.SHA384]: 'SHA-384',
+  [OID.SHA512]: 'SHA-512',
+};
+
+// Signature algorithm OID -> WebCrypto hash (rsaEncryption takes the digest algorithm's hash)
+const SIGNATURE_HASHES: Record<string, string | null> = {
+  [OID.RSA_ENCRYPTION]: null,
+  [OID.SHA256_WITH_RSA]: 'SHA-256',
+  [OID.SHA384_WITH_RSA]: 'SHA-384',
+  [OID.SHA512_WITH_RSA]: 'SHA-512',
+  [OID.ECDSA_WITH_SHA256]: 'SHA-256',
+  [OID.ECDSA_WITH_SHA384]: 'SHA-384',
+  [OID.ECDSA_WITH_SHA512]: 'SHA-512',
+};
+
+const NAMED_CURVES: Record<string, { name: string; size: number }> = {
+  [OID.SECP256R1]: { name: 'P-256', size: 32 },
+  [OID.SECP384R1]: { name: 'P-384', size: 48 },
+  [OID.SECP521R1]: { name: 'P-521', size: 66 },
+};
+
+class VerificationError extends Error {
+  constructor(
+    public readonly status: SignatureVerificationStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+}
+
+/**
+ * CMS carries ECDSA signatures as a DER SEQUENCE; WebCrypto wants raw r||s
+ */
+function ecdsaDerToRaw(der: Uint8Array, size: number): Uint8Array {
+  const sequence = parseDer(der);
+  const raw = new Uint8Array(size * 2);
+  sequence.children.slice(0, 2).forEach((integer, i) => {
+    let value = integer.content;
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    if (value.length > size) {
+      throw new Error('ECDSA signature component too large');
+    }
+    raw.set(value, i * size + (size - value.length));
+  });
+  return raw;
+}
+
+/**
+ * Verify a signature value with the public key of a SubjectPublicKeyInfo
+ *
+ * @param algorithm - Signature algorithm OID
+ * @param digestHash - WebCrypto hash of the digest algorithm, used with rsaEncryption
+ */
+async function verifyWithPublicKey(
+  subjectPublicKeyInfo: Uint8Array,
+  algorithm: string,
+  digestHash: string | null,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> {
+  const hash = SIGNATURE_HASHES[algorithm] ?? digestHash;
+  if (!(algorithm in SIGNATURE_HASHES) || !hash) {
+    throw new VerificationError('invalid', `Unsupported signature algorithm ${algorithm}`);
+  }
+
+  const keyAlgorithm = parseDer(subjectPublicKeyInfo).children[0];
+  const keyType = decodeOid(keyAlgorithm.children[0]);
+
+  if (keyType === OID.RSA_ENCRYPTION) {
+    const params = { name: 'RSASSA-PKCS1-v1_5', hash };
+    const key = await crypto.subtle.importKey(
+      'spki', subjectPublicKeyInfo as BufferSource, params, false, ['verify']
+    );
+    return crypto.subtle.verify(params, key, signature as BufferSource, data as BufferSource);
+  }
+
+  if (keyType === OID.EC_PUBLIC_KEY) {
+    const curve = keyAlgorithm.children[1] && NAMED_CURVES[decodeOid(keyAlgorithm.children[1])];
+    if (!curve) {
+      throw new VerificationError('invalid', 'Unsupported elliptic curve');
+    }
+    const key = await crypto.subtle.importKey(
+      'spki', subjectPublicKeyInfo as BufferSource, { name: 'ECDSA', namedCurve: curve.name }, false, ['verify']
+    );
+    return crypto.subtle.verify(
+      { name: 'ECDSA', hash },
+      key,
+      ecdsaDerToRaw(signature, curve.size) as BufferSource,
+      data as BufferSource
+    );
+  }
+
+  throw new VerificationError('invalid', `Unsupported public key algorithm ${keyType}`);
+}
+
+function isValidAt(certificate: ParsedCertificate, date: Date): boolean {
+  return decodeTime(certificate.notBefore) <= date && date <= decodeTime(certificate.notAfter);
+}
+
+/**
+ * Build a chain from the signer's certificate to a trust anchor
+ *
+ * Issuers are looked up by subject among the trust anchors and the
+ * certificates embedded in the signature. Every link's signature is
+ * verified, intermediates must be CAs, and each certificate must have been
+ * valid at the given time.
+ *
+ * SECURITY: Embedded certificates are only ever used as intermediates; a
+ * signature is trusted solely because its chain ends at a certificate the
+ * application supplied.
+ */
+async function chainsToTrustAnchor(
+  signerCertificate: ParsedCertificate,
+  embedded: ParsedCertificate[],
+  trustAnchors: ParsedCertificate[],
+  validationTime: Date
+): Promise<boolean> {
+  let current = signerCertificate;
+
+  for (let depth = 0; depth < MAX_CHAIN_LENGTH; depth++) {
+    if (!isValidAt(current, validationTime)) return false;
+    if (trustAnchors.some((anchor) => bytesEqual(anchor.der, current.der))) return true;
+
+    let issuer: ParsedCertificate | null = null;
+    for (const candidate of [...trustAnchors, ...embedded]) {
+      if (bytesEqual(candidate.der, current.der) || !bytesEqual(candidate.subject, current.issuer)) continue;
+      if (!trustAnchors.includes(candidate) && !candidate.isCA) continue;
+      try {
+        const verified = await verifyWithPublicKey(
+          candidate.subjectPublicKeyInfo,
+          current.signatureAlgorithm,
+          null,
+          current.signatureValue,
+          current.tbsCertificate
+        );
+        if (verified) {
+          issuer = candidate;
+          break;
+        }
+      } catch {
+        // Unsupported key or algorithm: try the next candidate
+      }
+    }
+
+    if (!issuer) return false;
+    current = issuer;
+  }
+
+  return false;
+}
+
+function parsePdfDate(value: PDFString | PDFHexString | undefined): string | null {
+  if (!value) return null;
+  try {
+    return value.decodeDate().toISOString();
+  } catch {
+    return null;
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+}
+
+/**
+ * Validate a /ByteRange against the file and the signature's /Contents
+ *
+ * SECURITY: The excluded gap must be exactly the hex string holding this
+ * signature's /Contents, otherwise unsigned bytes could be smuggled in
+ * between the two covered ranges.
+ *
+ * CWE-347: Improper Verification of Cryptographic Signature
+ */
+function validateByteRange(
+  bytes: Uint8Array,
+  byteRangeArray: PDFArray | undefined,
+  contents: PDFHexString
+): [number, number, number, number] {
+  const values = byteRangeArray?.asArray().map((n) => (n instanceof PDFNumber ? n.asNumber() : NaN)) ?? [];
+  if (values.length !== 4 || values.some((n) => !Number.isInteger(n) || n < 0)) {
+    throw new VerificationError('invalid', 'Malformed /ByteRange');
+  }
+
+  const byteRange = values as [number, number, number, number];
+  const [start1, length1, start2, length2] = byteRange;
+  if (start1 !== 0 || length1 >= start2 || start2 + length2 > bytes.length) {
+    throw new VerificationError('invalid', '/ByteRange does not describe the file');
+  }
+
+  const gap = latin1(bytes.subarray(length1, start2));
+  if (gap[0] !== '<' || gap[gap.length - 1] !== '>' ||
+      gap.slice(1, -1).replace(/\s+/g, '').toLowerCase() !== contents.asString().replace(/\s+/g, '').toLowerCase()) {
+    throw new VerificationError('invalid', '/ByteRange gap is not the signature /Contents');
+  }
+
+  return byteRange;
+}
+
+/**
+ * Verify the CMS in /Contents against the bytes covered by its /ByteRange
+ *
+ * @returns The signer's certificate and SignerInfo, and the signingTime attribute, if any
+ */
+async function verifyCms(
+  cms: Uint8Array,
+  covered: Uint8Array
+): Promise<{
+  signerCertificate: ParsedCertificate;
+  embedded: ParsedCertificate[];
+  signerInfo: ParsedSignerInfo;
+  signingTime: Date | null;
+}> {
+  let parsed;
+  try {
+    parsed = parseSignedData(cms);
+  } catch (err) {
+    throw new VerificationError('invalid', `Malformed CMS: ${(err as Error).message}`);
+  }
+
+  const { signerInfo } = parsed;
+  const embedded = parsed.certificates.map(parseCertificate);
+
+  // sid: IssuerAndSerialNumber
+  const sid = signerInfo.node.children[1];
+  const signerCertificate = sid?.tag === ASN1_TAG.SEQUENCE
+    ? embedded.find((cert) =>
+      bytesEqual(cert.issuer, sid.children[0]?.der ?? new Uint8Array()) &&
+      bytesEqual(cert.serialNumber, sid.children[1]?.der ?? new Uint8Array()))
+    : undefined;
+  if (!signerCertificate) {
+    throw new VerificationError('invalid', 'Signer certificate is not embedded in the signature');
+  }
+
+  const digestHash = HASH_ALGORITHMS[decodeOid(signerInfo.node.children[2].children[0])];
+  if (!digestHash) {
+    throw new VerificationError('invalid', 'Unsupported digest algorithm');
+  }
+
+  let signedContent = covered;
+  let signingTime: Date | null = null;
+  if (signerInfo.signedAttrs) {
+    const messageDigest = findAttributeValue(signerInfo.signedAttrs, OID.MESSAGE_DIGEST);
+    const actualDigest = new Uint8Array(await crypto.subtle.digest(digestHash, covered as BufferSource));
+    if (!messageDigest || !bytesEqual(messageDigest.content, actualDigest)) {
+      throw new VerificationError('modified-after-signing', 'Document digest does not match the signature');
+    }
+
+    await checkSigningCertificate(signerInfo.signedAttrs, signerCertificate);
+
+    const signingTimeValue = findAttributeValue(signerInfo.signedAttrs, OID.SIGNING_TIME);
+    signingTime = signingTimeValue ? decodeTime(signingTimeValue) : null;
+
+    // The signature covers the signed attributes re-tagged as a SET
+    signedContent = signerInfo.signedAttrs.der.slice();
+    signedContent[0] = ASN1_TAG.SET;
+  }
+
+  const verified = await verifyWithPublicKey(
+    signerCertificate.subjectPublicKeyInfo,
+    signerInfo.signatureAlgorithm,
+    digestHash,
+    signerInfo.signature,
+    signedContent
+  );
+  if (!verified) {
+    // Without signed attributes the signature is over the document itself
+    throw signerInfo.signedAttrs
+      ? new VerificationError('invalid', 'Signature value does not verify')
+      : new VerificationError('modified-after-signing', 'Signature does not match the document');
+  }
+
+  return { signerCertificate, embedded, signerInfo, signingTime };
+}
+
+/**
+ * Read the time of a signature's RFC 3161 timestamp (PAdES B-T)
+ *
+ * SECURITY: /M and signingTime are set by the signer, so only the time
+ * vouched for by a TSA is used to judge certificate validity. The token
+ * must verify, its message imprint must cover this signature value and
+ * the TSA certificate must chain to a trust anchor at the token's time.
+ *
+ * @returns The token's genTime, or null when there is no trusted timestamp
+ */
+async function verifySignatureTimestamp(
+  signerInfo: ParsedSignerInfo,
+  trustAnchors: ParsedCertificate[]
+): Promise<Date | null> {
+  const token = findAttributeValue(signerInfo.unsignedAttrs, OID.SIGNATURE_TIMESTAMP_TOKEN);
+  if (!token) return null;
+
+  try {
+    const { encapContentType, encapContent } = parseSignedData(token.der);
+    if (encapContentType !== OID.TST_INFO || !encapContent) {
+      throw new Error('Timestamp token does not contain TSTInfo');
+    }
+
+    // TSTInfo: version, policy, messageImprint, serialNumber, genTime, ...
+    const [, , messageImprint, , genTimeNode] = parseDer(encapContent).children;
+    const [imprintAlgorithm, imprintValue] = messageImprint?.children ?? [];
+    const imprintHash = imprintAlgorithm && HASH_ALGORITHMS[decodeOid(imprintAlgorithm.children[0])];
+    if (!imprintHash || !imprintValue || !genTimeNode) {
+      throw new Error('Unsupported TSTInfo');
+    }
+    const imprint = new Uint8Array(await crypto.subtle.digest(imprintHash, signerInfo.signature as BufferSource));
+    if (!bytesEqual(imprintValue.content, imprint)) {
+      throw new Error('Timestamp does not cover the signature value');
+    }
+
+    const genTime = decodeTime(genTimeNode);
+    const { signerCertificate, embedded } = await verifyCms(token.der, encapContent);
+    if (!(await chainsToTrustAnchor(signerCertificate, embedded, trustAnchors, genTime))) {
+      throw new Error('TSA certificate does not chain to a trusted certificate');
+    }
+    return genTime;
+  } catch (err) {
+    console.warn(`[Security] Ignoring signature timestamp: ${(err as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * SECURITY: When present, signing-certificate-v2 binds the signer's
+ * certificate into the signature; reject a substituted certificate
+ */
+async function checkSigningCertificate(signedAttrs: Asn1Node, certificate: ParsedCertificate): Promise<void> {
+  const value = findAttributeValue(signedAttrs, OID.SIGNING_CERTIFICATE_V2);
+  const essCertId = value?.children[0]?.children[0];
+  if (!essCertId) return;
+
+  // hashAlgorithm defaults to SHA-256 when omitted
+  const [first, second] = essCertId.children;
+  const hashOid = first.tag === ASN1_TAG.SEQUENCE ? decodeOid(first.children[0]) : OID.SHA256;
+  const certHash = first.tag === ASN1_TAG.SEQUENCE ? second : first;
+  const hash = HASH_ALGORITHMS[hashOid];
+  if (!hash || !certHash) {
+    throw new VerificationError('invalid', 'Unsupported signing-certificate-v2 attribute');
+  }
+
+  const actual = new Uint8Array(await crypto.subtle.digest(hash, certificate.der as BufferSource));
+  if (!bytesEqual(actual, certHash.content)) {
+    throw new VerificationError('invalid', 'signing-certificate-v2 does not match the signer certificate');
+  }
+}
+
+interface VerificationContext {
+  bytes: Uint8Array;
+  pdfDoc: PDFDocument;
+  trustAnchors: ParsedCertificate[];
+  docMdpPermissions: 1 | 2 | 3 | null;
+}
+
+async function verifyWidget(
+  { bytes, pdfDoc, trustAnchors, docMdpPermissions }: VerificationContext,
+  widget: FieldWidget,
+  sigDict: PDFDict
+): Promise<SignatureVerificationResult> {
+  const text = (key: string) =>
+    sigDict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)?.decodeText() ?? null;
+  const name = widget.fieldDict.lookupMaybe(PDFName.of('T'), PDFString, PDFHexString)?.decodeText();
+
+  const result: SignatureVerificationResult = {
+    fieldName: name ?? '',
+    pageIndex: widget.pageIndex,
+    boundingBox: widget.boundingBox,
+    status: 'invalid',
+    signedBy: text('Name'),
+    signedAt: parsePdfDate(sigDict.lookupMaybe(PDFName.of('M'), PDFString, PDFHexString)),
+    reason: text('Reason'),
+    subFilter: sigDict.lookupMaybe(PDFName.of('SubFilter'), PDFName)?.decodeText() ?? null,
+    timestampedAt: null,
+    byteRange: null,
+    coversWholeDocument: false,
+    changesSinceSigned: null,
+  };
+
+  try {
+    const contents = sigDict.lookupMaybe(PDFName.of('Contents'), PDFHexString);
+    if (!contents) {
+      throw new VerificationError('invalid', 'Signature dictionary has no /Contents');
+    }
+
+    const byteRange = validateByteRange(bytes, sigDict.lookupMaybe(PDFName.of('ByteRange'), PDFArray), contents);
+    result.byteRange = byteRange;
+    // Only end-of-line characters may follow the signed revision's %%EOF
+    result.coversWholeDocument = /^[\r\n]*$/.test(latin1(bytes.subarray(byteRange[2] + byteRange[3])));
+
+    const { signerCertificate, embedded, signerInfo, signingTime } = await verifyCms(
+      contents.asBytes(),
+      byteRangeContent(bytes, byteRange)
+    );
+    result.signedBy = result.signedBy ?? getCommonName(signerCertificate.subject);
+    result.signedAt = result.signedAt ?? signingTime?.toISOString() ?? null;
+
+    if (!result.coversWholeDocument) {
+      const changes = await detectChangesSinceSigned(
+        bytes,
+        byteRange[2] + byteRange[3],
+        pdfDoc,
+        docMdpPermissions
+      );
+      result.changesSinceSigned = changes;
+      if (!changes.permitted) {
+        const disallowed = [...new Set(changes.changes.filter((c) => !c.permitted).map((c) => c.type))];
+        throw new VerificationError(
+          'modified-after-signing',
+          disallowed.length > 0
+            ? `Changes not permitted after signing: ${disallowed.join(', ')}`
+            : 'Unrecognized data was appended after signing'
+        );
+      }
+    }
+
+    // Without a trusted timestamp the certificate must still be valid now
+    const timestampedAt = await verifySignatureTimestamp(signerInfo, trustAnchors);
+    result.timestampedAt = timestampedAt?.toISOString() ?? null;
+    if (!(await chainsToTrustAnchor(signerCertificate, embedded, trustAnchors, timestampedAt ?? new Date()))) {
+      throw new VerificationError('untrusted-cert', 'Signer certificate does not chain to a trusted certificate');
+    }
+
+    result.status = 'valid';
+  } catch (err) {
+    result.status = err instanceof VerificationError ? err.status : 'invalid';
+    result.detail = (err as Error).message;
+    if (result.status === 'invalid') {
+      console.error(`[Security] Invalid signature in field "${result.fieldName}": ${result.detail}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Verify the digital signatures already present in a PDF
+ *
+ * For every signed /Sig field (one with a /V signature dictionary), checks
+ * that /ByteRange covers the file except the /Contents hex string, that
+ * the CMS messageDigest matches the covered bytes, that the signature
+ * value verifies with the embedded signer certificate and that the
+ * certificate chains to one of options.trustedCertificates.
+ *
+ * Certificate validity is checked at the time of a trusted RFC 3161
+ * signature timestamp (reported as timestampedAt), otherwise at the
+ * current time; the signer's claimed signedAt is never relied on.
+ *
+ * When later incremental updates follow a signature, the changes since the
+ * signed revision are classified (see detectChangesSinceSigned) and
+ * reported as changesSinceSigned. The signature stays intact only if every
+ * change is permitted by the document's DocMDP level.
+ *
+ * Unsigned /Sig fields are not reported.
+ *
+ * @param source - Loaded PDF.js document, or the raw PDF bytes
+ * @param options - Trust anchors for certificate validation
+ * @returns One result per signed field, in page order
+ */
+export async function verifySignatures(
+  source: PDFDocumentProxy | Uint8Array | ArrayBuffer,
+  options: SignatureVerificationOptions = {}
+): Promise<SignatureVerificationResult[]> {
+  const bytes = source instanceof Uint8Array
+    ? source
+    : source instanceof ArrayBuffer
+      ? new Uint8Array(source)
+      : await source.getData();
+
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const signed = listFieldWidgets(pdfDoc).flatMap((widget) => {
+    const sigDict = widget.fieldDict.lookupMaybe(PDFName.of('V'), PDFDict);
+    return sigDict ? [{ widget, sigDict }] : [];
+  });
+
+  // A certification signature's /Reference (inside its signed bytes) sets the DocMDP level
+  const docMdpPermissions = signed.reduce<1 | 2 | 3 | null>(
+    (level, { sigDict }) => level ?? getDocMdpPermissions(sigDict),
+    null
+  );
+
+  const context: VerificationContext = {
+    bytes,
+    pdfDoc,
+    trustAnchors: (options.trustedCertificates ?? []).map(parseCertificate),
+    docMdpPermissions,
+  };
+
+  const results: SignatureVerificationResult[] = [];
+  for (const { widget, sigDict } of signed) {
+    results.push(await verifyWidget(context, widget, sigDict));
+  }
+  return results;
+}
+
+/**
+ * Merge verification results into the fields from extractSignatureFields
+ *
+ * Fields are matched by page and rect; fields without a result are
+ * returned unchanged.
+ */
+export function applyVerificationResults(
+  fields: SignatureField[],
+  results: SignatureVerificationResult[]
+): SignatureField[] {
+  if (results.length === 0) return fields;
+
+  return fields.map((field) => {
+    const result = results.find(
+      (r) => r.pageIndex === field.pageIndex && boundingBoxesMatch(r.boundingBox, field.boundingBox)
+    );
+    return result
+      ? {
+        ...field,
+        signedBy: result.signedBy,
+        signedAt: result.signedAt,
+        verificationStatus: result.status,
+        changesSinceSigned: result.changesSinceSigned,
+      }
+      : field;
+  });
+}
@@ -17,6 +17,7 @@ jest.mock('pdfjs-dist', () => ({
   getDocument: jest.fn(() => ({
     promise: Promise.resolve({
       numPages: 1,
+      getData: jest.fn(() => Promise.resolve(new Uint8Array([0x25, 0x50, 0x44, 0x46]))),
       getPage: jest.fn(() =>
         Promise.resolve({
           getAnnotations: jest.fn(() => Promise.resolve([])),
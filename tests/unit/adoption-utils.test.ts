@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createWebStorageSignatureStorage,
+  reuseAdoptedSignature,
+  toAdoptedSignature,
+  validateAdoptedSignature,
+} from '../../src/utils/adoption-utils';
+import { createCFRCompliantSignature, generateSignatureHash } from '../../src/utils/signature-utils';
+import { AdoptedSignature } from '../../src/types';
+
+/**
+ * Adopted signature reuse
+ *
+ * Tests reusing one captured signature across fields and sessions:
+ * - Each reuse is a new signature (own timestamp, meaning and hash)
+ * - SECURITY: Stored signatures are validated and bound to their signer
+ * - Pen dynamics are never kept with the adopted signature
+ */
+
+const CONTEXT = {
+  signerName: 'John Doe',
+  signerId: 'user-123',
+  sessionId: 'session-abc',
+  documentHash: 'doc-hash-xyz',
+  authMethod: 'okta_2fa',
+};
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const ADOPTED: AdoptedSignature = {
+  type: 'drawn',
+  data: IMAGE,
+  strokes: [{ points: [{ x: 10, y: 20 }, { x: 30, y: 40 }] }],
+  canvasSize: { width: 500, height: 200 },
+  signerId: 'user-123',
+  adoptedAt: '2024-02-07T10:30:00.000Z',
+};
+
+/** In-memory Web Storage */
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+describe('toAdoptedSignature', () => {
+  it('should keep the image and stroke shape but not the pen dynamics', async () => {
+    const signature = await createCFRCompliantSignature(
+      {
+        type: 'drawn',
+        data: IMAGE,
+        strokes: [{ points: [{ x: 10, y: 20, time: 0, pressure: 0.7 }] }],
+        canvasSize: { width: 500, height: 200 },
+      },
+      CONTEXT,
+      'I approve this document',
+      false,
+      CONTEXT.documentHash
+    );
+
+    const adopted = toAdoptedSignature(signature);
+
+    expect(adopted).toMatchObject({ type: 'drawn', data: IMAGE, signerId: 'user-123' });
+    expect(adopted.strokes).toEqual([{ points: [{ x: 10, y: 20 }] }]);
+    expect(Date.parse(adopted.adoptedAt)).not.toBeNaN();
+    expect(adopted).not.toHaveProperty('timestamp');
+    expect(adopted).not.toHaveProperty('signatureHash');
+  });
+
+  it('should keep the original adoption time of a reused signature', async () => {
+    const reused = await reuseAdoptedSignature(ADOPTED, CONTEXT, 'I approve this document', false, CONTEXT.documentHash);
+
+    expect(toAdoptedSignature(reused).adoptedAt).toBe(ADOPTED.adoptedAt);
+  });
+});
+
+describe('reuseAdoptedSignature', () => {
+  it('should sign each reuse anew with its own meaning and hash', async () => {
+    const first = await reuseAdoptedSignature(ADOPTED, CONTEXT, 'I approve this document', false, CONTEXT.documentHash);
+    const second = await reuseAdoptedSignature(ADOPTED, CONTEXT, 'I have reviewed this document', false, CONTEXT.documentHash);
+
+    expect(first).toMatchObject({ data: IMAGE, adoptedAt: ADOPTED.adoptedAt, signerIntent: 'I approve this document' });
+    expect(second.signerIntent).toBe('I have reviewed this document');
+    expect(first.signatureHash).not.toBe(second.signatureHash);
+  });
+
+  it('should cover the adoption time with the signature hash', async () => {
+    const { signatureHash, ...signature } = await reuseAdoptedSignature(ADOPTED, CONTEXT, 'I approve this document', false, CONTEXT.documentHash);
+
+    expect(await generateSignatureHash(signature)).toBe(signatureHash);
+    expect(await generateSignatureHash({ ...signature, adoptedAt: '2024-01-01T00:00:00.000Z' })).not.toBe(signatureHash);
+  });
+
+  it('should refuse a signature adopted by a different signer', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      reuseAdoptedSignature({ ...ADOPTED, signerId: 'user-456' }, CONTEXT, 'I approve this document', false, CONTEXT.documentHash)
+    ).rejects.toThrow('different signer');
+    consoleError.mockRestore();
+  });
+});
+
+describe('validateAdoptedSignature', () => {
+  it('should accept a well-formed signature of the current signer', () => {
+    expect(validateAdoptedSignature(ADOPTED, 'user-123')).toBe(true);
+  });
+
+  it('should reject other signers, malformed values and unsafe images', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(validateAdoptedSignature(ADOPTED, 'user-456')).toBe(false);
+    expect(validateAdoptedSignature(null, 'user-123')).toBe(false);
+    expect(validateAdoptedSignature({ ...ADOPTED, type: 'stamp' }, 'user-123')).toBe(false);
+    expect(validateAdoptedSignature({ ...ADOPTED, adoptedAt: 'yesterday' }, 'user-123')).toBe(false);
+    expect(validateAdoptedSignature({ ...ADOPTED, data: 'data:image/svg+xml;base64,PHN2Zz4=' }, 'user-123')).toBe(false);
+    expect(
+      validateAdoptedSignature({ ...ADOPTED, strokes: [{ points: [{ x: 900, y: 20 }] }] }, 'user-123')
+    ).toBe(false);
+    consoleError.mockRestore();
+  });
+});
+
+describe('createWebStorageSignatureStorage', () => {
+  it('should save, load and remove per signer', () => {
+    const storage = createWebStorageSignatureStorage(memoryStorage());
+
+    storage.save('user-123', ADOPTED);
+
+    expect(storage.load('user-123')).toEqual(ADOPTED);
+    expect(storage.load('user-456')).toBeNull();
+    storage.remove('user-123');
+    expect(storage.load('user-123')).toBeNull();
+  });
+
+  it('should ignore corrupted entries', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const webStorage = memoryStorage();
+    webStorage.setItem('helix-pdf-signer:adopted-signature:user-123', '{not json');
+
+    expect(createWebStorageSignatureStorage(webStorage).load('user-123')).toBeNull();
+    consoleError.mockRestore();
+  });
+});
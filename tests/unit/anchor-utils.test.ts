@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { extractAnchorFields } from '../../src/utils/anchor-utils';
+
+/**
+ * Anchor-text field placement
+ *
+ * Tests fields placed from the text of a page:
+ * - Literal and regex anchors, including text split across items
+ * - Offsets and sizes relative to the matched text
+ * - Names and roles taken from the rule or the text
+ */
+
+interface FakeTextItem {
+  str: string;
+  x: number;
+  baseline: number;
+  width: number;
+  height?: number;
+  hasEOL?: boolean;
+}
+
+// A PDF.js document with US Letter pages holding the given text items
+function fakeDocument(pages: FakeTextItem[][]): PDFDocumentProxy {
+  return {
+    numPages: pages.length,
+    getPage: async (pageNumber: number) => ({
+      view: [0, 0, 612, 792],
+      getTextContent: async () => ({
+        items: pages[pageNumber - 1].map(({ str, x, baseline, width, height = 10, hasEOL = false }) => ({
+          str,
+          transform: [height, 0, 0, height, x, baseline],
+          width,
+          height,
+          hasEOL,
+        })),
+      }),
+    }),
+  } as unknown as PDFDocumentProxy;
+}
+
+describe('extractAnchorFields', () => {
+  it('should place a field relative to the end of literal anchor text', async () => {
+    const document = fakeDocument([[{ str: 'Signature: ____', x: 72, baseline: 100, width: 150 }]]);
+
+    const fields = await extractAnchorFields(document, [
+      { pattern: 'Signature:', relativeTo: 'end', offset: { x: 5, y: -20 }, size: { width: 150, height: 30 } },
+    ]);
+
+    expect(fields).toEqual([
+      {
+        id: 'anchor-1-0-0',
+        pageIndex: 0,
+        fieldName: 'Signature_1',
+        type: 'signature',
+        boundingBox: { x: 177, y: 662, width: 150, height: 30 },
+        required: true,
+      },
+    ]);
+  });
+
+  it('should take the role from tags split across text items', async () => {
+    const document = fakeDocument([
+      [],
+      [
+        { str: '{{sig:', x: 100, baseline: 500, width: 60 },
+        { str: 'approver}}', x: 160, baseline: 500, width: 100, hasEOL: true },
+        { str: '{{date:approver}}', x: 300, baseline: 500, width: 170 },
+      ],
+    ]);
+
+    const fields = await extractAnchorFields(document, [
+      { pattern: /\{\{sig:(?<role>\w+)\}\}/, fieldName: 'Approver_Signature' },
+      { pattern: /\{\{date:(?<role>\w+)\}\}/, type: 'date', required: false },
+    ]);
+
+    expect(fields).toEqual([
+      expect.objectContaining({
+        pageIndex: 1,
+        fieldName: 'Approver_Signature',
+        boundingBox: { x: 100, y: 282, width: 200, height: 50 },
+        role: 'approver',
+      }),
+      expect.objectContaining({
+        fieldName: 'Date_1',
+        type: 'date',
+        boundingBox: { x: 300, y: 282, width: 100, height: 20 },
+        required: false,
+        role: 'approver',
+      }),
+    ]);
+  });
+
+  it('should give repeated matches distinct names', async () => {
+    const document = fakeDocument([[
+      { str: 'Initial here', x: 72, baseline: 700, width: 120, hasEOL: true },
+      { str: 'Initial here', x: 72, baseline: 400, width: 120 },
+    ]]);
+
+    const fields = await extractAnchorFields(document, [{ pattern: 'Initial here', type: 'initials', fieldName: 'Page_Initials' }]);
+
+    expect(fields.map((field) => field.fieldName)).toEqual(['Page_Initials', 'Page_Initials_2']);
+    expect(fields.map((field) => field.boundingBox.y)).toEqual([82, 382]);
+  });
+
+  it('should keep fields on the page', async () => {
+    const document = fakeDocument([[{ str: '{{sig:buyer}}', x: 580, baseline: 20, width: 30 }]]);
+
+    const fields = await extractAnchorFields(document, [{ pattern: /\{\{sig:(?<role>[^}]+)\}\}/ }]);
+
+    expect(fields[0].boundingBox).toEqual({ x: 412, y: 742, width: 200, height: 50 });
+  });
+
+  it('should place no field for anchor text with an invalid role', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const document = fakeDocument([[
+      { str: '{{sig:<b>}}', x: 72, baseline: 100, width: 60 },
+      { str: '{{sig:buyer}}', x: 300, baseline: 100, width: 70 },
+    ]]);
+
+    const fields = await extractAnchorFields(document, [{ pattern: /\{\{sig:(?<role>[^}]+)\}\}/ }]);
+
+    // Without a role the field could be signed by any signer
+    expect(fields.map((field) => field.role)).toEqual(['buyer']);
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('invalid role'));
+    consoleSpy.mockRestore();
+  });
+
+  it('should place nothing for empty patterns or missing text', async () => {
+    const document = fakeDocument([[{ str: 'Signature', x: 72, baseline: 100, width: 90 }]]);
+
+    expect(await extractAnchorFields(document, [{ pattern: '' }, { pattern: /x*/ }, { pattern: 'Witness' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AUDIT_GENESIS_HASH, createAuditLog, verifyChain } from '../../src/utils/audit-utils';
+import { AuditEntry } from '../../src/types';
+
+/**
+ * Audit trail (CFR Part 11.10(e))
+ *
+ * Tests that the audit log is an append-only, hash-chained record:
+ * - Entries link to their predecessor and are chained in record() order
+ * - Each entry records the actor current when it was recorded
+ * - verifyChain detects edited, deleted, inserted and reordered entries
+ * - The sink receives every entry in order, and sink failures are reported
+ *   without breaking the local chain
+ * - record() never rejects, and failed events leave no gap in the chain
+ */
+
+async function recordSampleTrail() {
+  const log = createAuditLog({ actor: { signerId: 'user-123', sessionId: 'session-abc' } });
+  log.record('document.loaded', { details: { numPages: 2 } });
+  log.record('signature.dialog-opened', { fieldId: 'sig-0-0' });
+  log.record('signature.mode-changed', { fieldId: 'sig-0-0', details: { from: 'draw', to: 'type' } });
+  await log.record('signature.dialog-cancelled', { fieldId: 'sig-0-0' });
+  return log.getEntries();
+}
+
+describe('createAuditLog', () => {
+  it('should chain entries in the order they were recorded', async () => {
+    const entries = await recordSampleTrail();
+
+    expect(entries.map((entry) => entry.sequence)).toEqual([0, 1, 2, 3]);
+    expect(entries.map((entry) => entry.type)).toEqual([
+      'document.loaded',
+      'signature.dialog-opened',
+      'signature.mode-changed',
+      'signature.dialog-cancelled',
+    ]);
+    expect(entries[0].previousHash).toBe(AUDIT_GENESIS_HASH);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(entries[0].hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(entries[0].actor).toEqual({ signerId: 'user-123', sessionId: 'session-abc' });
+  });
+
+  it('should record the actor current at each record()', async () => {
+    let actor = { signerId: 'user-1', sessionId: 'session-abc' };
+    const log = createAuditLog({ actor: () => actor });
+
+    log.record('kiosk.handoff-confirmed');
+    actor = { signerId: 'user-2', sessionId: 'session-abc' };
+    await log.record('signature.applied', { fieldId: 'sig-0-0' });
+
+    expect(log.getEntries().map((entry) => entry.actor?.signerId)).toEqual(['user-1', 'user-2']);
+    expect(await log.verify()).toEqual({ valid: true, brokenAt: null });
+  });
+
+  it('should keep sequence numbers contiguous when an entry cannot be hashed', async () => {
+    const onSinkError = vi.fn();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = createAuditLog({ onSinkError });
+    log.record('page.viewed', { details: { page: 1 } });
+    // canonicalJson cannot serialize a BigInt
+    const failed = await log.record('page.viewed', { details: { page: BigInt(2) as unknown as number } });
+    await log.record('page.viewed', { details: { page: 3 } });
+
+    expect(failed).toBeNull();
+    expect(onSinkError).toHaveBeenCalledWith(expect.any(TypeError), null);
+    expect(log.getEntries().map((entry) => entry.sequence)).toEqual([0, 1]);
+    expect(await log.verify()).toEqual({ valid: true, brokenAt: null });
+    consoleError.mockRestore();
+  });
+
+  it('should not reject when the error handler throws', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = createAuditLog({
+      sink: () => {
+        throw new Error('Network unavailable');
+      },
+      onSinkError: () => {
+        throw new Error('Handler failed');
+      },
+    });
+
+    const entry = await log.record('signature.applied', { fieldId: 'sig-0-0' });
+
+    expect(entry?.sequence).toBe(0);
+    expect(consoleError).toHaveBeenCalledWith('[Audit] onSinkError threw:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it('should verify its own chain', async () => {
+    const log = createAuditLog();
+    log.record('page.viewed', { details: { page: 1 } });
+    log.record('page.viewed', { details: { page: 2 } });
+
+    expect(await log.verify()).toEqual({ valid: true, brokenAt: null });
+    expect(log.getEntries()).toHaveLength(2);
+  });
+
+  it('should freeze entries', async () => {
+    const [entry] = await recordSampleTrail();
+
+    expect(Object.isFrozen(entry)).toBe(true);
+    expect(() => {
+      (entry as { type: string }).type = 'page.viewed';
+    }).toThrow();
+  });
+
+  it('should not expose its internal entry list', async () => {
+    const log = createAuditLog();
+    await log.record('page.viewed', { details: { page: 1 } });
+
+    log.getEntries().pop();
+
+    expect(log.getEntries()).toHaveLength(1);
+  });
+
+  it('should deliver every entry to the sink in sequence order', async () => {
+    const delivered: number[] = [];
+    const log = createAuditLog({
+      sink: async (entry) => {
+        // Slow sink: later entries must still wait for earlier ones
+        await new Promise((resolve) => setTimeout(resolve, entry.sequence === 0 ? 10 : 0));
+        delivered.push(entry.sequence);
+      },
+    });
+
+    log.record('document.loaded');
+    log.record('page.viewed', { details: { page: 1 } });
+    log.record('page.viewed', { details: { page: 2 } });
+    await log.flush();
+
+    expect(delivered).toEqual([0, 1, 2]);
+  });
+
+  it('should report sink failures and keep the entry in the chain', async () => {
+    const onSinkError = vi.fn();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = createAuditLog({
+      sink: () => {
+        throw new Error('Network unavailable');
+      },
+      onSinkError,
+    });
+
+    const entry = await log.record('signature.applied', { fieldId: 'sig-0-0' });
+
+    expect(onSinkError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Network unavailable' }), entry);
+    expect(consoleError).toHaveBeenCalledWith(
+      expect.stringContaining('[Audit] Sink failed for entry 0'),
+      expect.any(Error)
+    );
+    expect(log.getEntries()).toEqual([entry]);
+    expect((await log.verify()).valid).toBe(true);
+    consoleError.mockRestore();
+  });
+});
+
+describe('verifyChain', () => {
+  it('should accept an empty trail', async () => {
+    expect(await verifyChain([])).toEqual({ valid: true, brokenAt: null });
+  });
+
+  it('should accept a trail that survived a JSON round trip', async () => {
+    const entries = await recordSampleTrail();
+
+    const restored: AuditEntry[] = JSON.parse(JSON.stringify(entries));
+
+    expect(await verifyChain(restored)).toEqual({ valid: true, brokenAt: null });
+  });
+
+  it('should detect an edited entry', async () => {
+    const entries = await recordSampleTrail();
+
+    const tampered = entries.map((entry) =>
+      entry.sequence === 2 ? { ...entry, details: { from: 'draw', to: 'draw' } } : entry
+    );
+
+    expect(await verifyChain(tampered)).toMatchObject({
+      valid: false,
+      brokenAt: 2,
+      reason: 'Entry hash does not match its contents',
+    });
+  });
+
+  it('should detect a deleted entry', async () => {
+    const entries = await recordSampleTrail();
+
+    const result = await verifyChain([entries[0], entries[1], entries[3]]);
+
+    expect(result).toMatchObject({ valid: false, brokenAt: 2 });
+  });
+
+  it('should detect a deleted first entry even when renumbered', async () => {
+    const entries = await recordSampleTrail();
+
+    // Dropping the first entry and renumbering still breaks the link to genesis
+    const renumbered = entries.slice(1).map((entry, i) => ({ ...entry, sequence: i }));
+
+    expect(await verifyChain(renumbered)).toMatchObject({ valid: false, brokenAt: 0 });
+  });
+
+  it('should detect reordered entries', async () => {
+    const entries = await recordSampleTrail();
+
+    const result = await verifyChain([entries[1], entries[0], entries[2], entries[3]]);
+
+    expect(result).toMatchObject({ valid: false, brokenAt: 0 });
+  });
+});
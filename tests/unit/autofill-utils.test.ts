@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import {
+  classifyAutoFillFieldName,
+  createAutoFillFormFieldValues,
+  fillAutoFillFields,
+  formatAutoFillDate,
+  linkAutoFillField,
+} from '../../src/utils/autofill-utils';
+import { AutoFillField, SignatureData, SignatureField } from '../../src/types';
+import { extractAutoFillFields } from '../../src/utils/pdf-utils';
+import { pageOperators, TEST_SIGNATURE_DATA, TEST_SIGNATURE_FIELD, widgetPlacement } from '../fixtures/signing-fixtures';
+
+/**
+ * Auto-filled date and name fields
+ *
+ * Tests the text fields filled from a signature:
+ * - Recognising date and printed-name fields by name
+ * - Linking them to a signature field by prefix or proximity
+ * - Date formatting with a configurable locale and time zone
+ * - Filling and locking the fields in the exported PDF
+ */
+
+function signatureField(fieldName: string, overrides: Partial<SignatureField> = {}): SignatureField {
+  return { ...TEST_SIGNATURE_FIELD, id: `${fieldName}-0`, fieldName, ...overrides };
+}
+
+const DATE_FIELD: AutoFillField = {
+  id: 'autofill-1-0',
+  pageIndex: 0,
+  fieldName: 'Buyer_Date',
+  boundingBox: { x: 100, y: 40, width: 150, height: 20 },
+  source: 'date',
+  signatureFieldId: 'sig-1-0',
+};
+
+const NAME_FIELD: AutoFillField = {
+  ...DATE_FIELD,
+  id: 'autofill-1-1',
+  fieldName: 'Buyer_Printed_Name',
+  boundingBox: { x: 300, y: 40, width: 150, height: 20 },
+  source: 'name',
+};
+
+const SIGNATURES = new Map<string, SignatureData>([
+  ['sig-1-0', { ...TEST_SIGNATURE_DATA, timestamp: '2024-03-01T02:30:00.000Z' }],
+]);
+
+describe('classifyAutoFillFieldName', () => {
+  it('should recognise date and printed-name fields with their signer prefix', () => {
+    expect(classifyAutoFillFieldName('Date')).toEqual({ source: 'date', prefix: [] });
+    expect(classifyAutoFillFieldName('DateSigned')).toEqual({ source: 'date', prefix: [] });
+    expect(classifyAutoFillFieldName('Buyer_Date')).toEqual({ source: 'date', prefix: ['buyer'] });
+    expect(classifyAutoFillFieldName('PrintedName')).toEqual({ source: 'name', prefix: [] });
+    expect(classifyAutoFillFieldName('witness.print_name')).toEqual({ source: 'name', prefix: ['witness'] });
+  });
+
+  it('should ignore other text fields', () => {
+    expect(classifyAutoFillFieldName('Address')).toBeNull();
+    expect(classifyAutoFillFieldName('Name_and_Date')).toBeNull();
+  });
+});
+
+describe('linkAutoFillField', () => {
+  const fields = [
+    signatureField('Buyer_Signature', { id: 'buyer', boundingBox: { x: 100, y: 100, width: 200, height: 50 } }),
+    signatureField('Seller_Signature', { id: 'seller', boundingBox: { x: 100, y: 500, width: 200, height: 50 } }),
+    signatureField('Initials', { id: 'initials', kind: 'initials', boundingBox: { x: 100, y: 60, width: 50, height: 25 } }),
+  ];
+
+  it('should link by signer prefix', () => {
+    const box = { x: 400, y: 700, width: 100, height: 20 };
+
+    expect(linkAutoFillField({ pageIndex: 0, boundingBox: box, prefix: ['seller'] }, fields)).toBe('seller');
+    expect(linkAutoFillField({ pageIndex: 3, boundingBox: box, prefix: ['buyer'] }, fields)).toBe('buyer');
+    expect(linkAutoFillField({ pageIndex: 0, boundingBox: box, prefix: ['witness'] }, fields)).toBeNull();
+  });
+
+  it('should link unprefixed fields to the nearest signature field on the page, never initials', () => {
+    const besideSeller = { x: 320, y: 510, width: 100, height: 20 };
+    const besideInitials = { x: 100, y: 40, width: 50, height: 20 };
+    const farAway = { x: 500, y: 20, width: 50, height: 20 };
+
+    expect(linkAutoFillField({ pageIndex: 0, boundingBox: besideSeller, prefix: [] }, fields)).toBe('seller');
+    expect(linkAutoFillField({ pageIndex: 0, boundingBox: besideInitials, prefix: [] }, fields)).toBe('buyer');
+    expect(linkAutoFillField({ pageIndex: 0, boundingBox: farAway, prefix: [] }, fields)).toBeNull();
+    expect(linkAutoFillField({ pageIndex: 1, boundingBox: besideSeller, prefix: [] }, fields)).toBeNull();
+  });
+
+  it('should link text fields read from the PDF to authored signature fields beside them', async () => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([612, 792]);
+    const dateBox = { x: 320, y: 510, width: 100, height: 20 };
+    doc.getForm().createTextField('Date').addToPage(page, { ...widgetPlacement(dateBox), borderWidth: 0 });
+    const pdfDocument = (await getDocument({ data: await doc.save() }).promise) as unknown as PDFDocumentProxy;
+
+    const authored = fields.map((field) => ({ ...field, authored: true }));
+    const [dateField] = await extractAutoFillFields(pdfDocument, authored);
+
+    expect(dateField).toMatchObject({ fieldName: 'Date', boundingBox: dateBox, signatureFieldId: 'seller' });
+  });
+});
+
+describe('formatAutoFillDate', () => {
+  const timestamp = '2024-03-01T02:30:00.000Z';
+
+  it('should format in UTC by default', () => {
+    expect(formatAutoFillDate(timestamp)).toBe('03/01/2024');
+  });
+
+  it('should use the configured locale, time zone and format', () => {
+    expect(formatAutoFillDate(timestamp, { timeZone: 'America/New_York' })).toBe('02/29/2024');
+    expect(
+      formatAutoFillDate(timestamp, {
+        locale: 'en-GB',
+        dateFormat: { day: 'numeric', month: 'long', year: 'numeric' },
+      })
+    ).toBe('1 March 2024');
+  });
+
+  it('should fall back to UTC for an invalid time zone', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(formatAutoFillDate(timestamp, { timeZone: 'Mars/Olympus_Mons' })).toBe('03/01/2024');
+    expect(consoleError).toHaveBeenCalled();
+    expect(formatAutoFillDate('not a date')).toBe('');
+    consoleError.mockRestore();
+  });
+});
+
+describe('createAutoFillFormFieldValues', () => {
+  it('should include only fields whose signature field is signed', () => {
+    const unlinked = { ...NAME_FIELD, id: 'autofill-1-2', fieldName: 'Seller_Name', signatureFieldId: 'sig-2-0' };
+
+    expect(createAutoFillFormFieldValues([DATE_FIELD, NAME_FIELD, unlinked], SIGNATURES)).toEqual([
+      { v: 1, type: 'pspdfkit/form-field-value', name: 'Buyer_Date', value: '03/01/2024' },
+      { v: 1, type: 'pspdfkit/form-field-value', name: 'Buyer_Printed_Name', value: 'John Doe' },
+    ]);
+  });
+});
+
+describe('fillAutoFillFields', () => {
+  async function createPdfWithTextFields(fields: AutoFillField[]): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([612, 792]);
+    const form = doc.getForm();
+    for (const field of fields) {
+      form.createTextField(field.fieldName).addToPage(page, { ...widgetPlacement(field.boundingBox), borderWidth: 0 });
+    }
+    return doc.save();
+  }
+
+  it('should fill the linked text fields and make them read-only', async () => {
+    const pdfBytes = await createPdfWithTextFields([DATE_FIELD, NAME_FIELD]);
+
+    const filled = await fillAutoFillFields(pdfBytes, [DATE_FIELD, NAME_FIELD], SIGNATURES, {
+      timeZone: 'Asia/Tokyo',
+    });
+
+    const form = (await PDFDocument.load(filled)).getForm();
+    expect(form.getTextField('Buyer_Date').getText()).toBe('03/01/2024');
+    expect(form.getTextField('Buyer_Date').isReadOnly()).toBe(true);
+    expect(form.getTextField('Buyer_Printed_Name').getText()).toBe('John Doe');
+    expect(form.getTextField('Buyer_Printed_Name').isReadOnly()).toBe(true);
+  });
+
+  it('should draw authored fields onto the page', async () => {
+    const pdfBytes = await createPdfWithTextFields([]);
+    const authored = { ...DATE_FIELD, authored: true };
+
+    const filled = await fillAutoFillFields(pdfBytes, [authored], SIGNATURES);
+
+    expect(filled).not.toBe(pdfBytes);
+    const doc = await PDFDocument.load(filled);
+    expect(doc.getForm().getFields()).toHaveLength(0);
+    // DATE_FIELD spans y 40-60 from the top, so 732-752 from the bottom of the page
+    const [, baseline] = /1 0 0 1 [\d.]+ ([\d.]+) Tm/.exec(pageOperators(doc))!.map(Number);
+    expect(baseline).toBeGreaterThan(732);
+    expect(baseline).toBeLessThan(752);
+    expect(createAutoFillFormFieldValues([authored], SIGNATURES)).toEqual([]);
+  });
+
+  it('should leave the PDF unchanged when no linked field is signed', async () => {
+    const pdfBytes = await createPdfWithTextFields([DATE_FIELD]);
+
+    expect(await fillAutoFillFields(pdfBytes, [DATE_FIELD], new Map())).toBe(pdfBytes);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  BIOMETRIC_ENCRYPTION_ALGORITHM,
+  createBiometricRecord,
+  decryptBiometricRecord,
+  encryptBiometricRecord,
+  stripStrokeDynamics,
+} from '../../src/utils/biometric-utils';
+import { SignatureStroke } from '../../src/types';
+
+/**
+ * Biometric signature dynamics
+ *
+ * Tests the forensic record of a drawn signature:
+ * - Per-point velocity, acceleration and pressure; pen-up intervals
+ * - SECURITY: Hybrid RSA-OAEP + AES-GCM encryption, readable only with the private key
+ */
+
+const CANVAS = { width: 500, height: 200 };
+
+const STROKES: SignatureStroke[] = [
+  {
+    points: [
+      { x: 0, y: 0, time: 0, pressure: 0.5 },
+      { x: 30, y: 40, time: 10, pressure: 0.6 },
+      { x: 90, y: 120, time: 20, pressure: 0.7 },
+    ],
+  },
+  {
+    points: [
+      { x: 200, y: 100, time: 150, pressure: 0.4 },
+      { x: 200, y: 100, time: 150, pressure: 0.4 },
+      { x: 210, y: 100, time: 170, pressure: 0.3 },
+    ],
+  },
+];
+
+let keyPair: CryptoKeyPair;
+
+beforeAll(async () => {
+  keyPair = await crypto.subtle.generateKey(
+    { name: 'RSA-OAEP', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    false,
+    ['encrypt', 'decrypt']
+  );
+});
+
+describe('createBiometricRecord', () => {
+  it('should compute velocity and acceleration from the previous point', () => {
+    const record = createBiometricRecord(STROKES, CANVAS);
+    const [first, second, third] = record.strokes[0].points;
+
+    expect(first).toMatchObject({ t: 0, pressure: 0.5, velocity: 0, acceleration: 0 });
+    // 50px in 10ms, then 100px in 10ms
+    expect(second).toMatchObject({ velocity: 5, acceleration: 0.5, pressure: 0.6 });
+    expect(third).toMatchObject({ velocity: 10, acceleration: 0.5 });
+  });
+
+  it('should repeat the previous dynamics for points sampled at the same time', () => {
+    const [, duplicate] = createBiometricRecord(STROKES, CANVAS).strokes[1].points;
+
+    expect(duplicate).toMatchObject({ velocity: 0, acceleration: 0 });
+  });
+
+  it('should record pen-down/pen-up times, intervals and duration', () => {
+    const record = createBiometricRecord(STROKES, CANVAS);
+
+    expect(record.version).toBe('1.0');
+    expect(record.canvasSize).toEqual(CANVAS);
+    expect(record.strokes.map(({ penDown, penUp }) => [penDown, penUp])).toEqual([[0, 20], [150, 170]]);
+    expect(record.penUpIntervals).toEqual([130]);
+    expect(record.duration).toBe(170);
+  });
+});
+
+describe('stripStrokeDynamics', () => {
+  it('should keep only the coordinates', () => {
+    expect(stripStrokeDynamics(STROKES)[0].points[1]).toEqual({ x: 30, y: 40 });
+  });
+});
+
+describe('encryptBiometricRecord', () => {
+  it('should round-trip through the private key', async () => {
+    const record = createBiometricRecord(STROKES, CANVAS);
+
+    const encrypted = await encryptBiometricRecord(record, { publicKey: keyPair.publicKey, keyId: 'forensics-2024' });
+
+    expect(encrypted).toMatchObject({ version: '1.0', algorithm: BIOMETRIC_ENCRYPTION_ALGORITHM, keyId: 'forensics-2024' });
+    expect(await decryptBiometricRecord(encrypted, keyPair.privateKey)).toEqual(record);
+  });
+
+  it('should not expose the record in the ciphertext', async () => {
+    const encrypted = await encryptBiometricRecord(createBiometricRecord(STROKES, CANVAS), {
+      publicKey: keyPair.publicKey,
+    });
+
+    expect(JSON.stringify(encrypted)).not.toContain('velocity');
+    expect(atob(encrypted.ciphertext)).not.toContain('velocity');
+    expect(encrypted.keyId).toBeUndefined();
+  });
+
+  it('should use a fresh key and nonce for every record', async () => {
+    const record = createBiometricRecord(STROKES, CANVAS);
+
+    const a = await encryptBiometricRecord(record, { publicKey: keyPair.publicKey });
+    const b = await encryptBiometricRecord(record, { publicKey: keyPair.publicKey });
+
+    expect(a.iv).not.toBe(b.iv);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+
+  it('should reject keys that are not RSA-OAEP encryption keys', async () => {
+    const aesKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt']);
+
+    await expect(
+      encryptBiometricRecord(createBiometricRecord(STROKES, CANVAS), { publicKey: aesKey })
+    ).rejects.toThrow('RSA-OAEP');
+  });
+
+  it('should fail to decrypt a tampered record', async () => {
+    const encrypted = await encryptBiometricRecord(createBiometricRecord(STROKES, CANVAS), {
+      publicKey: keyPair.publicKey,
+    });
+    const bytes = Uint8Array.from(atob(encrypted.ciphertext), (c) => c.charCodeAt(0));
+    bytes[0] ^= 1;
+    const tampered = { ...encrypted, ciphertext: btoa(String.fromCharCode(...bytes)) };
+
+    await expect(decryptBiometricRecord(tampered, keyPair.privateKey)).rejects.toThrow();
+  });
+});
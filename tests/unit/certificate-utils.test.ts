@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, PDFRef, decodePDFRawStream } from 'pdf-lib';
+import {
+  appendCompletionCertificate,
+  createCompletionCertificate,
+} from '../../src/utils/certificate-utils';
+import { SignatureData, SignatureField } from '../../src/types';
+import { TEST_SIGNATURE_DATA, TEST_SIGNATURE_FIELD, createPdfWithSignatureFields } from '../fixtures/signing-fixtures';
+
+/**
+ * Certificate of completion
+ *
+ * Tests that the certificate lists every collected signature in readable form:
+ * - Printed name, meaning, UTC time, auth method, hashes, field and page
+ * - A thumbnail of each signature image
+ * - Appended after the document's own pages, paginated when long
+ * - Never appended to a digitally signed document
+ */
+
+const GENERATED_AT = '2024-01-02T03:04:05.000Z';
+
+const SIGNATURE: SignatureData = {
+  ...TEST_SIGNATURE_DATA,
+  signatureHash: 'a'.repeat(64),
+  documentHash: 'b'.repeat(64),
+};
+
+/**
+ * Collect the strings shown by a page's text operators
+ */
+function pageText(pdfDoc: PDFDocument, pageIndex: number): string {
+  const page = pdfDoc.getPages()[pageIndex];
+  const contents = page.node.get(PDFName.of('Contents'));
+  const refs = contents instanceof PDFArray ? contents.asArray() : [contents];
+
+  return refs
+    .map((ref) => {
+      const stream = pdfDoc.context.lookup(ref as PDFRef) as PDFRawStream;
+      const operators = new TextDecoder('latin1').decode(decodePDFRawStream(stream).decode());
+      return [...operators.matchAll(/<([0-9A-Fa-f]*)> Tj/g)]
+        .map(([, hex]) => hex.match(/../g)?.map((byte) => String.fromCharCode(parseInt(byte, 16))).join('') ?? '')
+        .join('\n');
+    })
+    .join('\n');
+}
+
+function imageCount(pdfDoc: PDFDocument, pageIndex: number): number {
+  const xObjects = pdfDoc.getPages()[pageIndex].node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  return xObjects?.keys().length ?? 0;
+}
+
+async function createBlankPdf(pageCount = 1): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) doc.addPage([612, 792]);
+  return doc.save();
+}
+
+describe('createCompletionCertificate', () => {
+  it('should list the signature manifestation, hashes and field', async () => {
+    const certificate = await createCompletionCertificate(
+      new Map([[TEST_SIGNATURE_FIELD.id, SIGNATURE]]),
+      [TEST_SIGNATURE_FIELD],
+      { generatedAt: GENERATED_AT, documentName: 'Batch Record 42' }
+    );
+
+    const pdfDoc = await PDFDocument.load(certificate);
+    const text = pageText(pdfDoc, 0);
+
+    expect(pdfDoc.getPageCount()).toBe(1);
+    expect(text).toContain('Certificate of Completion');
+    expect(text).toContain('Document: Batch Record 42');
+    expect(text).toContain('1 signature - generated 2024-01-02 03:04:05 UTC');
+    expect(text).toContain('John Doe');
+    expect(text).toContain('Meaning: I approve this document');
+    expect(text).toContain('Signed: 2024-01-01 00:00:00 UTC');
+    expect(text).toContain('Authentication: okta_2fa');
+    expect(text).toContain('Field: signature (page 1)');
+    expect(text).toContain(`Signature hash: ${'a'.repeat(64)}`);
+    expect(text).toContain(`Document hash:  ${'b'.repeat(64)}`);
+  });
+
+  it('should include a thumbnail of each signature image', async () => {
+    const certificate = await createCompletionCertificate(
+      new Map([[TEST_SIGNATURE_FIELD.id, SIGNATURE]]),
+      [TEST_SIGNATURE_FIELD],
+      { generatedAt: GENERATED_AT }
+    );
+
+    const pdfDoc = await PDFDocument.load(certificate);
+
+    expect(imageCount(pdfDoc, 0)).toBe(1);
+  });
+
+  it('should note signatures whose image is invalid instead of embedding it', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const certificate = await createCompletionCertificate(
+      new Map([[TEST_SIGNATURE_FIELD.id, { ...SIGNATURE, data: 'data:image/svg+xml;base64,PHN2Zz4=' }]]),
+      [TEST_SIGNATURE_FIELD],
+      { generatedAt: GENERATED_AT }
+    );
+
+    const pdfDoc = await PDFDocument.load(certificate);
+
+    expect(imageCount(pdfDoc, 0)).toBe(0);
+    expect(pageText(pdfDoc, 0)).toContain('Image unavailable');
+    consoleError.mockRestore();
+  });
+
+  it('should replace characters the standard fonts cannot encode', async () => {
+    const certificate = await createCompletionCertificate(
+      new Map([[TEST_SIGNATURE_FIELD.id, { ...SIGNATURE, signerName: 'Zoë 李\nDoe' }]]),
+      [TEST_SIGNATURE_FIELD],
+      { generatedAt: GENERATED_AT }
+    );
+
+    const text = pageText(await PDFDocument.load(certificate), 0);
+
+    expect(text).toContain('Zoë ??Doe');
+  });
+
+  it('should list signatures in field order and paginate', async () => {
+    const fields: SignatureField[] = Array.from({ length: 8 }, (_, i) => ({
+      ...TEST_SIGNATURE_FIELD,
+      id: `sig-${i}-0`,
+      pageIndex: i,
+      fieldName: `signature-${i}`,
+    }));
+    const signatures = new Map(
+      [...fields].reverse().map((field) => [field.id, { ...SIGNATURE, signerName: `Signer ${field.pageIndex}` }])
+    );
+
+    const pdfDoc = await PDFDocument.load(
+      await createCompletionCertificate(signatures, fields, { generatedAt: GENERATED_AT })
+    );
+
+    expect(pdfDoc.getPageCount()).toBe(2);
+    const text = [pageText(pdfDoc, 0), pageText(pdfDoc, 1)].join('\n');
+    const order = fields.map((field) => text.indexOf(`Signer ${field.pageIndex}\n`));
+    expect(order.every((position) => position >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+  });
+
+  it('should skip signatures for unknown fields', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const pdfDoc = await PDFDocument.load(
+      await createCompletionCertificate(new Map([['unknown-field', SIGNATURE]]), [TEST_SIGNATURE_FIELD], {
+        generatedAt: GENERATED_AT,
+      })
+    );
+
+    expect(pageText(pdfDoc, 0)).toContain('No signatures were applied.');
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('unknown-field'));
+    consoleError.mockRestore();
+  });
+});
+
+describe('appendCompletionCertificate', () => {
+  it('should add the certificate after the existing pages', async () => {
+    const appended = await appendCompletionCertificate(
+      await createBlankPdf(2),
+      new Map([[TEST_SIGNATURE_FIELD.id, SIGNATURE]]),
+      [TEST_SIGNATURE_FIELD],
+      { generatedAt: GENERATED_AT }
+    );
+
+    const pdfDoc = await PDFDocument.load(appended);
+
+    expect(pdfDoc.getPageCount()).toBe(3);
+    expect(pageText(pdfDoc, 2)).toContain('Certificate of Completion');
+  });
+
+  it('should refuse a digitally signed document', async () => {
+    const pdfDoc = await PDFDocument.load(await createPdfWithSignatureFields());
+    const widget = pdfDoc.getPages()[0].node.Annots()!.lookup(0, PDFDict);
+    widget.set(PDFName.of('V'), pdfDoc.context.register(pdfDoc.context.obj({ Type: 'Sig' })));
+
+    await expect(
+      appendCompletionCertificate(await pdfDoc.save(), new Map([[TEST_SIGNATURE_FIELD.id, SIGNATURE]]), [TEST_SIGNATURE_FIELD])
+    ).rejects.toThrow('digitally signed');
+  });
+});
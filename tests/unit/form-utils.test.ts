@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+  cleanFormText,
+  createFormFieldValues,
+  fillFormFields,
+  FormFieldValueError,
+  getDefaultFormValues,
+  getMissingRequiredFormFields,
+  groupFormFields,
+  validateFormValue,
+} from '../../src/utils/form-utils';
+import { FormField } from '../../src/types';
+import { widgetPlacement } from '../fixtures/signing-fixtures';
+
+/**
+ * Form field filling
+ *
+ * Tests the fillable text, check box, radio and dropdown fields:
+ * - SECURITY: Values are validated against the field before they are stored
+ * - Required fields, including consent check boxes
+ * - Values written into the exported PDF and Instant JSON
+ */
+
+function formField(fieldName: string, overrides: Partial<FormField>): FormField {
+  return {
+    id: `form-${fieldName}`,
+    pageIndex: 0,
+    fieldName,
+    boundingBox: { x: 50, y: 700, width: 200, height: 20 },
+    type: 'text',
+    required: false,
+    readOnly: false,
+    defaultValue: '',
+    ...overrides,
+  };
+}
+
+const EMAIL = formField('Email', { required: true, maxLength: 40 });
+const CONSENT = formField('Consent', {
+  id: 'form-consent',
+  type: 'checkbox',
+  required: true,
+  exportValue: 'Yes',
+  defaultValue: false,
+  boundingBox: { x: 50, y: 650, width: 15, height: 15 },
+});
+const PLAN_A = formField('Plan', {
+  id: 'form-plan-a',
+  type: 'radio',
+  exportValue: 'Basic',
+  boundingBox: { x: 50, y: 600, width: 15, height: 15 },
+});
+const PLAN_B = formField('Plan', {
+  id: 'form-plan-b',
+  type: 'radio',
+  exportValue: 'Premium',
+  defaultValue: 'Premium',
+  boundingBox: { x: 100, y: 600, width: 15, height: 15 },
+});
+const STATE = formField('State', {
+  id: 'form-state',
+  type: 'dropdown',
+  options: [
+    { value: 'CA', label: 'California' },
+    { value: 'NY', label: 'New York' },
+  ],
+  boundingBox: { x: 50, y: 550, width: 150, height: 20 },
+});
+const FIELDS = [EMAIL, CONSENT, PLAN_A, PLAN_B, STATE];
+
+describe('validateFormValue', () => {
+  it('should accept values that fit the field', () => {
+    expect(validateFormValue([EMAIL], 'jane@example.com')).toBe('jane@example.com');
+    expect(validateFormValue([CONSENT], true)).toBe(true);
+    expect(validateFormValue([PLAN_A, PLAN_B], 'Basic')).toBe('Basic');
+    expect(validateFormValue([STATE], 'NY')).toBe('NY');
+    expect(validateFormValue([STATE], '')).toBe('');
+  });
+
+  it('should clean control characters and line breaks from single-line text', () => {
+    expect(validateFormValue([EMAIL], 'jane\u0000@example.com\r\n')).toBe('jane@example.com ');
+    expect(cleanFormText('line 1\r\nline 2', true)).toBe('line 1\nline 2');
+  });
+
+  it('should reject values that do not fit the field', () => {
+    expect(() => validateFormValue([EMAIL], 'x'.repeat(41))).toThrow(FormFieldValueError);
+    expect(() => validateFormValue([CONSENT], 'Yes')).toThrow('checked or unchecked');
+    expect(() => validateFormValue([PLAN_A, PLAN_B], 'Gold')).toThrow('no option');
+    expect(() => validateFormValue([STATE], 'TX')).toThrow('no option');
+    expect(() => validateFormValue([{ ...EMAIL, readOnly: true }], 'a')).toThrow('read-only');
+  });
+});
+
+describe('required form fields', () => {
+  it('should start from the values in the PDF and report unfilled required fields', () => {
+    const values = getDefaultFormValues(FIELDS);
+
+    expect(values).toEqual({ Email: '', Consent: false, Plan: 'Premium', State: '' });
+    expect(getMissingRequiredFormFields(FIELDS, values)).toEqual(['Email', 'Consent']);
+    expect(getMissingRequiredFormFields(FIELDS, { ...values, Email: '  ', Consent: true })).toEqual(['Email']);
+    expect(getMissingRequiredFormFields(FIELDS, { ...values, Email: 'a@b.c', Consent: true })).toEqual([]);
+  });
+});
+
+describe('createFormFieldValues', () => {
+  it('should express values as Instant JSON form field values', () => {
+    expect(createFormFieldValues(FIELDS, { Email: 'a@b.c', Consent: true, Plan: 'Basic', State: '' })).toEqual([
+      { v: 1, type: 'pspdfkit/form-field-value', name: 'Email', value: 'a@b.c' },
+      { v: 1, type: 'pspdfkit/form-field-value', name: 'Consent', value: ['Yes'] },
+      { v: 1, type: 'pspdfkit/form-field-value', name: 'Plan', value: 'Basic' },
+      { v: 1, type: 'pspdfkit/form-field-value', name: 'State', value: null },
+    ]);
+  });
+});
+
+describe('fillFormFields', () => {
+  async function createPdfWithFormFields(): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([612, 792]);
+    const form = doc.getForm();
+    form.createTextField('Email').addToPage(page, { ...widgetPlacement(EMAIL.boundingBox), borderWidth: 0 });
+    form.createCheckBox('Consent').addToPage(page, { ...widgetPlacement(CONSENT.boundingBox), borderWidth: 0 });
+    const plan = form.createRadioGroup('Plan');
+    plan.addOptionToPage('Basic', page, { ...widgetPlacement(PLAN_A.boundingBox), borderWidth: 0 });
+    plan.addOptionToPage('Premium', page, { ...widgetPlacement(PLAN_B.boundingBox), borderWidth: 0 });
+    const state = form.createDropdown('State');
+    state.addOptions(['CA', 'NY']);
+    state.addToPage(page, { ...widgetPlacement(STATE.boundingBox), borderWidth: 0 });
+    return doc.save();
+  }
+
+  it('should write the values and make the fields read-only', async () => {
+    const filled = await fillFormFields(await createPdfWithFormFields(), FIELDS, {
+      Email: 'jane@example.com',
+      Consent: true,
+      Plan: 'Basic',
+      State: 'NY',
+    });
+
+    const form = (await PDFDocument.load(filled)).getForm();
+    expect(form.getTextField('Email').getText()).toBe('jane@example.com');
+    expect(form.getCheckBox('Consent').isChecked()).toBe(true);
+    expect(form.getRadioGroup('Plan').getSelected()).toBe('Basic');
+    expect(form.getDropdown('State').getSelected()).toEqual(['NY']);
+    expect(form.getFields().every((field) => field.isReadOnly())).toBe(true);
+  });
+
+  it('should leave read-only fields and fields without a value alone', async () => {
+    const pdfBytes = await createPdfWithFormFields();
+
+    expect(await fillFormFields(pdfBytes, [{ ...EMAIL, readOnly: true }], { Email: 'a@b.c' })).toBe(pdfBytes);
+    expect(await fillFormFields(pdfBytes, FIELDS, {})).toBe(pdfBytes);
+  });
+});
+
+describe('groupFormFields', () => {
+  it('should group radio buttons by field name', () => {
+    expect([...groupFormFields(FIELDS).keys()]).toEqual(['Email', 'Consent', 'Plan', 'State']);
+    expect(groupFormFields(FIELDS).get('Plan')).toEqual([PLAN_A, PLAN_B]);
+  });
+});
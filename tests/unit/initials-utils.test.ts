@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFieldKinds,
+  countSignatureStatus,
+  deriveInitials,
+  isInitialsFieldName,
+} from '../../src/utils/initials-utils';
+import { DEFAULT_INITIALS_INTENT, resolveFieldIntents } from '../../src/utils/intent-utils';
+import { SignatureField } from '../../src/types';
+import { TEST_SIGNATURE_FIELD } from '../fixtures/signing-fixtures';
+
+/**
+ * Initials fields
+ *
+ * Tests how initials fields are recognised and counted:
+ * - Field-name convention and initialsFields configuration
+ * - Initials suggested from the signer's name
+ * - Separate progress for signatures and initials
+ */
+
+function field(fieldName: string, overrides: Partial<SignatureField> = {}): SignatureField {
+  return { ...TEST_SIGNATURE_FIELD, id: `${fieldName}-0`, fieldName, ...overrides };
+}
+
+describe('isInitialsFieldName', () => {
+  it('should recognise initials in common naming styles', () => {
+    expect(isInitialsFieldName('Initials_Page1')).toBe(true);
+    expect(isInitialsFieldName('buyer.initials')).toBe(true);
+    expect(isInitialsFieldName('InitialHere')).toBe(true);
+    expect(isInitialsFieldName('BUYER_INITIALED')).toBe(true);
+  });
+
+  it('should not match words that merely contain "initial"', () => {
+    expect(isInitialsFieldName('Buyer_Signature')).toBe(false);
+    expect(isInitialsFieldName('initialization')).toBe(false);
+    expect(isInitialsFieldName('Uninitialed')).toBe(false);
+  });
+});
+
+describe('applyFieldKinds', () => {
+  it('should mark configured fields by name or ID, keeping detected kinds', () => {
+    const fields = [
+      field('Clause_4'),
+      field('Page_2', { id: 'sig-2-0' }),
+      field('Initials_Page3', { kind: 'initials' }),
+      field('Buyer_Signature'),
+    ];
+
+    expect(applyFieldKinds(fields, ['Clause_4', 'sig-2-0']).map((f) => f.kind)).toEqual([
+      'initials',
+      'initials',
+      'initials',
+      'signature',
+    ]);
+  });
+
+  it('should default initials fields to the initials meaning', () => {
+    const [initials] = applyFieldKinds([field('Clause_4')], ['Clause_4']);
+
+    expect(resolveFieldIntents(initials)).toEqual([DEFAULT_INITIALS_INTENT]);
+    expect(resolveFieldIntents(initials, { Clause_4: 'I accept clause 4' })).toEqual(['I accept clause 4']);
+  });
+});
+
+describe('deriveInitials', () => {
+  it('should take the first letter of each part of the name', () => {
+    expect(deriveInitials('John Doe')).toBe('JD');
+    expect(deriveInitials("Mary-Jane O'Neil")).toBe('MJO');
+    expect(deriveInitials('  ada   lovelace ')).toBe('AL');
+  });
+
+  it('should skip parts without letters and cap the length', () => {
+    expect(deriveInitials('Zoë Smith 3')).toBe('ZS');
+    expect(deriveInitials('A B C D E F G')).toBe('ABCDE');
+    expect(deriveInitials('')).toBe('');
+  });
+});
+
+describe('countSignatureStatus', () => {
+  it('should count signatures and initials separately', () => {
+    const fields = [
+      field('Buyer_Signature'),
+      field('Seller_Signature', { required: false }),
+      field('Initials_1', { kind: 'initials' }),
+      field('Initials_2', { kind: 'initials' }),
+      field('Initials_3', { kind: 'initials' }),
+    ];
+
+    const counts = countSignatureStatus(fields, new Set(['Buyer_Signature-0', 'Initials_2-0']));
+
+    expect(counts).toEqual({
+      signatures: { signed: 1, required: 1, total: 2 },
+      initials: { signed: 1, required: 3, total: 3 },
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SIGNATURE_INTENT,
+  applyFieldIntents,
+  parseFieldNameIntents,
+  resolveFieldIntents,
+} from '../../src/utils/intent-utils';
+import { SignatureField } from '../../src/types';
+import { TEST_SIGNATURE_FIELD } from '../fixtures/signing-fixtures';
+
+/**
+ * Per-field signature meanings (CFR Part 11.50(a)(3))
+ *
+ * Tests how the meanings a field allows are resolved:
+ * - fieldIntents by field name, then by field ID
+ * - Role words parsed from the field name
+ * - defaultSignatureIntent as the fallback
+ */
+
+const REVIEW = 'I have reviewed this document';
+const APPROVE = 'I approve this document';
+
+function field(fieldName: string, id = `${fieldName}-0`): SignatureField {
+  return { ...TEST_SIGNATURE_FIELD, id, fieldName };
+}
+
+describe('parseFieldNameIntents', () => {
+  it('should recognise role words in common naming styles', () => {
+    expect(parseFieldNameIntents('Reviewer_Signature')).toEqual([REVIEW]);
+    expect(parseFieldNameIntents('sig.approver')).toEqual([APPROVE]);
+    expect(parseFieldNameIntents('authorSignature')).toEqual(['I am the author of this document']);
+  });
+
+  it('should return each meaning once, in name order', () => {
+    expect(parseFieldNameIntents('QAReviewApproval')).toEqual([REVIEW, APPROVE]);
+    expect(parseFieldNameIntents('review-reviewed')).toEqual([REVIEW]);
+  });
+
+  it('should not match role words inside other words', () => {
+    expect(parseFieldNameIntents('Preview')).toEqual([]);
+    expect(parseFieldNameIntents('signature')).toEqual([]);
+  });
+});
+
+describe('resolveFieldIntents', () => {
+  it('should prefer fieldIntents by name over the ID and the parsed name', () => {
+    const reviewer = field('Reviewer', 'sig-1-0');
+
+    expect(resolveFieldIntents(reviewer, { Reviewer: 'Custom', 'sig-1-0': 'By ID' })).toEqual(['Custom']);
+    expect(resolveFieldIntents(reviewer, { 'sig-1-0': ['By ID', APPROVE] })).toEqual(['By ID', APPROVE]);
+  });
+
+  it('should trim and de-duplicate supplied meanings, ignoring empty ones', () => {
+    expect(resolveFieldIntents(field('QA'), { QA: [' Checked ', 'Checked', ''] })).toEqual(['Checked']);
+    expect(resolveFieldIntents(field('Reviewer'), { Reviewer: ['  '] })).toEqual([REVIEW]);
+  });
+
+  it('should fall back to the default intent', () => {
+    expect(resolveFieldIntents(field('signature'))).toEqual([DEFAULT_SIGNATURE_INTENT]);
+    expect(resolveFieldIntents(field('signature'), {}, 'I agree')).toEqual(['I agree']);
+  });
+
+  it('should ignore inherited properties of the fieldIntents map', () => {
+    expect(resolveFieldIntents(field('constructor'), {})).toEqual([DEFAULT_SIGNATURE_INTENT]);
+  });
+});
+
+describe('applyFieldIntents', () => {
+  it('should attach the resolved meanings without mutating the fields', () => {
+    const fields = [field('Author'), field('Approver')];
+
+    const result = applyFieldIntents(fields, { Author: 'Written by me' });
+
+    expect(result.map((f) => f.intents)).toEqual([['Written by me'], [APPROVE]]);
+    expect(fields[0].intents).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createKioskSignatureContext,
+  DEFAULT_KIOSK_AUTH_METHOD,
+  getKioskCandidates,
+  KioskConfigError,
+  matchesSignerName,
+  validateKioskSigners,
+} from '../../src/utils/kiosk-utils';
+import { getRoleStatus } from '../../src/utils/role-utils';
+import { KioskSigner, SignatureField } from '../../src/types';
+import { TEST_SIGNATURE_FIELD } from '../fixtures/signing-fixtures';
+
+/**
+ * Kiosk signing
+ *
+ * Tests several signers taking turns on one device:
+ * - Signer configuration checks
+ * - Name confirmation at the handoff screen
+ * - Who may sign next in sequential and parallel order
+ * - Binding the signature context to the signer
+ */
+
+const BUYER: KioskSigner = { role: 'Buyer', signerName: 'Ana Buyer', signerId: 'user-1' };
+const SELLER: KioskSigner = { role: 'Seller', signerName: 'Sam Seller', signerId: 'user-2', authMethod: 'id-scan' };
+
+function signatureField(role: string): SignatureField {
+  return { ...TEST_SIGNATURE_FIELD, id: `sig-${role}`, fieldName: `${role}_Signature`, role };
+}
+
+describe('validateKioskSigners', () => {
+  it('should accept signers with their own role and ID', () => {
+    expect(() => validateKioskSigners([BUYER, SELLER])).not.toThrow();
+  });
+
+  it('should reject missing, incomplete or ambiguous signers', () => {
+    expect(() => validateKioskSigners([])).toThrow(KioskConfigError);
+    expect(() => validateKioskSigners([{ ...BUYER, signerName: ' ' }])).toThrow(/signerName, signerId and role/);
+    expect(() => validateKioskSigners([BUYER, { ...SELLER, role: 'Buyer' }])).toThrow(/role "Buyer"/);
+    expect(() => validateKioskSigners([BUYER, { ...SELLER, signerId: 'user-1' }])).toThrow(/signerId "user-1"/);
+  });
+});
+
+describe('matchesSignerName', () => {
+  it('should ignore case and spacing', () => {
+    expect(matchesSignerName('  ana   BUYER ', 'Ana Buyer')).toBe(true);
+  });
+
+  it('should reject other and empty names', () => {
+    expect(matchesSignerName('Sam Seller', 'Ana Buyer')).toBe(false);
+    expect(matchesSignerName('Ana', 'Ana Buyer')).toBe(false);
+    expect(matchesSignerName('   ', '')).toBe(false);
+  });
+});
+
+describe('getKioskCandidates', () => {
+  const fields = [signatureField('Buyer'), signatureField('Seller')];
+
+  it('should offer only the signer whose turn it is in a sequential order', () => {
+    const before = getRoleStatus(fields, new Set(), { signerRoles: ['Buyer', 'Seller'], signingOrder: 'sequential' });
+    const after = getRoleStatus(fields, new Set(['sig-Buyer']), { signerRoles: ['Buyer', 'Seller'], signingOrder: 'sequential' });
+
+    expect(getKioskCandidates([BUYER, SELLER], before)).toEqual([BUYER]);
+    expect(getKioskCandidates([BUYER, SELLER], after)).toEqual([SELLER]);
+  });
+
+  it('should offer every signer with fields left in a parallel order', () => {
+    const status = getRoleStatus(fields, new Set(), { signerRoles: ['Buyer', 'Seller'] });
+    const done = getRoleStatus(fields, new Set(['sig-Buyer', 'sig-Seller']), { signerRoles: ['Buyer', 'Seller'] });
+
+    expect(getKioskCandidates([BUYER, SELLER], status)).toEqual([BUYER, SELLER]);
+    expect(getKioskCandidates([BUYER, SELLER], done)).toEqual([]);
+  });
+});
+
+describe('createKioskSignatureContext', () => {
+  const base = {
+    signerName: 'Kiosk',
+    signerId: 'kiosk-1',
+    sessionId: 'session-1',
+    documentHash: 'a'.repeat(64),
+    authMethod: 'password',
+  };
+
+  it('should keep the session and take the identity and role from the signer', () => {
+    expect(createKioskSignatureContext(base, BUYER)).toEqual({
+      ...base,
+      signerName: 'Ana Buyer',
+      signerId: 'user-1',
+      authMethod: DEFAULT_KIOSK_AUTH_METHOD,
+      signerRole: 'Buyer',
+    });
+    expect(createKioskSignatureContext(base, SELLER).authMethod).toBe('id-scan');
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument, PDFSignature, PDFTextField } from 'pdf-lib';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import {
+  clampFieldBox,
+  createFieldLayout,
+  FieldLayoutError,
+  linkAuthoredDateFields,
+  mergeAuthoredFields,
+  nextFieldName,
+  parseFieldLayout,
+  writeAuthoredFields,
+} from '../../src/utils/layout-utils';
+import { findFieldWidget } from '../../src/utils/pdf-signing-utils';
+import { extractAutoFillFields, extractSignatureFields } from '../../src/utils/pdf-utils';
+import { AuthoredField, SignatureField } from '../../src/types';
+import { createPdfWithSignatureFields, TEST_SIGNATURE_FIELD } from '../fixtures/signing-fixtures';
+
+/**
+ * Field layouts from the field editor
+ *
+ * Tests the authored fields a PDF is signed with:
+ * - Validation of layouts loaded from JSON
+ * - Merging with the fields found in the PDF
+ * - Linking date fields to the signature they date
+ * - Writing them into the PDF as AcroForm fields, and reading them back
+ */
+
+function authoredField(fieldName: string, overrides: Partial<AuthoredField> = {}): AuthoredField {
+  return {
+    id: `authored-${fieldName}`,
+    pageIndex: 0,
+    fieldName,
+    type: 'signature',
+    boundingBox: { x: 100, y: 600, width: 200, height: 50 },
+    required: true,
+    ...overrides,
+  };
+}
+
+const BUYER = authoredField('Buyer', { role: 'Buyer' });
+const SELLER = authoredField('Seller', { role: 'Seller', boundingBox: { x: 100, y: 300, width: 200, height: 50 } });
+
+describe('parseFieldLayout', () => {
+  it('should round-trip a layout through JSON', () => {
+    const fields = [BUYER, authoredField('Buyer_Initials', { type: 'initials', required: false })];
+
+    expect(parseFieldLayout(JSON.stringify(createFieldLayout(fields)))).toEqual(fields);
+  });
+
+  it('should reject layouts that are not valid', () => {
+    expect(() => parseFieldLayout('{')).toThrow('not valid JSON');
+    expect(() => parseFieldLayout({ version: 2, fields: [] })).toThrow('Unsupported field layout version');
+    expect(() => parseFieldLayout({ version: 1 })).toThrow(FieldLayoutError);
+  });
+
+  it('should name the first invalid field', () => {
+    const layout = (field: Partial<AuthoredField>) => ({ version: 1, fields: [BUYER, { ...BUYER, id: 'second', ...field }] });
+
+    expect(() => parseFieldLayout(layout({ id: BUYER.id }))).toThrow('Field 2 has a missing, invalid or duplicate id');
+    expect(() => parseFieldLayout(layout({ type: 'checkbox' as never }))).toThrow('Field 2 has an unknown type');
+    expect(() => parseFieldLayout(layout({ boundingBox: { x: 0, y: 0, width: 5, height: 50 } }))).toThrow(
+      'Field 2 has an invalid bounding box'
+    );
+    expect(() => parseFieldLayout(layout({ pageIndex: -1 }))).toThrow('Field 2 has an invalid page index');
+    expect(() => parseFieldLayout(layout({ role: '<script>' }))).toThrow('Field 2 has an invalid role');
+  });
+});
+
+describe('mergeAuthoredFields', () => {
+  it('should add authored signature and initials fields, not dates', () => {
+    const merged = mergeAuthoredFields(
+      [TEST_SIGNATURE_FIELD],
+      [BUYER, authoredField('Buyer_Initials', { type: 'initials' }), authoredField('Date', { type: 'date' })]
+    );
+
+    expect(merged.map((field) => field.fieldName)).toEqual([TEST_SIGNATURE_FIELD.fieldName, 'Buyer', 'Buyer_Initials']);
+    expect(merged[1]).toMatchObject({ authored: true, role: 'Buyer', kind: 'signature', signedBy: null });
+    expect(merged[2].kind).toBe('initials');
+  });
+
+  it('should skip authored fields whose id is taken', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const merged = mergeAuthoredFields([TEST_SIGNATURE_FIELD], [authoredField('Copy', { id: TEST_SIGNATURE_FIELD.id })]);
+
+    expect(merged).toEqual([TEST_SIGNATURE_FIELD]);
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('duplicate id'));
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('linkAuthoredDateFields', () => {
+  const signatureFields: SignatureField[] = mergeAuthoredFields([], [BUYER, SELLER]);
+
+  it('should link a date field to the nearest signature on its page', () => {
+    const date = authoredField('Date', { type: 'date', boundingBox: { x: 320, y: 310, width: 100, height: 20 } });
+
+    expect(linkAuthoredDateFields([date], signatureFields)).toEqual([
+      {
+        id: date.id,
+        pageIndex: 0,
+        fieldName: 'Date',
+        boundingBox: date.boundingBox,
+        source: 'date',
+        signatureFieldId: SELLER.id,
+        authored: true,
+      },
+    ]);
+  });
+
+  it('should prefer a signature with the same role and skip pages without one', () => {
+    const buyerDate = authoredField('Buyer_Date', {
+      type: 'date',
+      role: 'Buyer',
+      boundingBox: { x: 320, y: 310, width: 100, height: 20 },
+    });
+    const otherPage = authoredField('Date_2', { type: 'date', pageIndex: 1 });
+
+    const linked = linkAuthoredDateFields([buyerDate, otherPage], signatureFields);
+
+    expect(linked.map((field) => field.signatureFieldId)).toEqual([BUYER.id]);
+  });
+
+  it('should measure against signature fields read from the PDF in the same space', async () => {
+    const pdfBytes = await createPdfWithSignatureFields([
+      { ...TEST_SIGNATURE_FIELD, id: 'seller', fieldName: 'Seller_Signature', boundingBox: SELLER.boundingBox },
+      { ...TEST_SIGNATURE_FIELD, id: 'buyer', fieldName: 'Buyer_Signature', boundingBox: BUYER.boundingBox },
+    ]);
+    const pdfDocument = (await getDocument({ data: pdfBytes }).promise) as unknown as PDFDocumentProxy;
+    const [seller, buyer] = await extractSignatureFields(pdfDocument);
+    const besideBuyer = authoredField('Date', { type: 'date', boundingBox: { x: 320, y: 610, width: 100, height: 20 } });
+
+    const [linked] = linkAuthoredDateFields([besideBuyer], [seller, buyer]);
+
+    expect(buyer.fieldName).toBe('Buyer_Signature');
+    expect(linked.signatureFieldId).toBe(buyer.id);
+  });
+});
+
+describe('field editor helpers', () => {
+  it('should pick the next free default name', () => {
+    expect(nextFieldName([], 'initials')).toBe('Initials_1');
+    expect(nextFieldName([authoredField('Signature_1'), authoredField('Signature_3')], 'signature')).toBe('Signature_2');
+  });
+
+  it('should keep boxes on the page and above the minimum size', () => {
+    expect(clampFieldBox({ x: -20, y: 780, width: 2, height: 30 }, 612, 792)).toEqual({
+      x: 0,
+      y: 762,
+      width: 10,
+      height: 30,
+    });
+  });
+});
+
+describe('writeAuthoredFields', () => {
+  async function createBlankPdf(): Promise<Uint8Array> {
+    const doc = await PDFDocument.create();
+    doc.addPage([612, 792]);
+    doc.addPage([612, 792]);
+    return doc.save();
+  }
+
+  it('should add signature, initials and date fields with their required flags', async () => {
+    const fields = [
+      BUYER,
+      authoredField('Buyer_Initials', { type: 'initials', pageIndex: 1, required: false }),
+      authoredField('Buyer_Date', { type: 'date', boundingBox: { x: 320, y: 610, width: 100, height: 20 } }),
+    ];
+
+    const prepared = await PDFDocument.load(await writeAuthoredFields(await createBlankPdf(), fields));
+
+    const form = prepared.getForm();
+    expect(form.getFields().map((field) => [field.getName(), field.constructor.name, field.isRequired()])).toEqual([
+      ['Buyer', PDFSignature.name, true],
+      ['Buyer_Initials', PDFSignature.name, false],
+      ['Buyer_Date', PDFTextField.name, true],
+    ]);
+    // Widgets are found at the authored (top-left origin) positions
+    expect(findFieldWidget(prepared, { pageIndex: 0, boundingBox: BUYER.boundingBox })).not.toBeNull();
+    expect(findFieldWidget(prepared, { pageIndex: 1, boundingBox: BUYER.boundingBox })).not.toBeNull();
+    expect(findFieldWidget(prepared, { pageIndex: 0, boundingBox: fields[2].boundingBox }, 'Tx')).not.toBeNull();
+  });
+
+  it('should keep authored positions when the prepared PDF is read back', async () => {
+    const doc = await PDFDocument.load(await createBlankPdf());
+    // A page whose boxes do not start at the origin
+    doc.getPages()[1].setMediaBox(50, 50, 612, 792);
+    const fields = [
+      BUYER,
+      authoredField('Buyer_Initials', { type: 'initials', pageIndex: 1 }),
+      authoredField('Buyer_Date', { type: 'date', boundingBox: { x: 320, y: 610, width: 100, height: 20 } }),
+    ];
+
+    const prepared = await writeAuthoredFields(await doc.save(), fields);
+    const pdfDocument = (await getDocument({ data: prepared }).promise) as unknown as PDFDocumentProxy;
+    const signatureFields = await extractSignatureFields(pdfDocument);
+    const dateFields = await extractAutoFillFields(pdfDocument, signatureFields);
+
+    expect(signatureFields.map(({ fieldName, pageIndex, boundingBox }) => ({ fieldName, pageIndex, boundingBox }))).toEqual(
+      [BUYER, fields[1]].map(({ fieldName, pageIndex, boundingBox }) => ({ fieldName, pageIndex, boundingBox }))
+    );
+    expect(dateFields).toMatchObject([{ fieldName: 'Buyer_Date', boundingBox: fields[2].boundingBox }]);
+  });
+
+  it('should reject names already in the PDF and missing pages', async () => {
+    const pdfBytes = await writeAuthoredFields(await createBlankPdf(), [BUYER]);
+
+    await expect(writeAuthoredFields(pdfBytes, [BUYER])).rejects.toThrow('A field named "Buyer" already exists');
+    await expect(writeAuthoredFields(pdfBytes, [authoredField('Late', { pageIndex: 5 })])).rejects.toThrow(
+      FieldLayoutError
+    );
+  });
+
+  it('should log fields whose type will not be recognised from their name', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await writeAuthoredFields(await createBlankPdf(), [authoredField('Witness', { type: 'date' })]);
+
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('"Witness" will not be auto-filled'));
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_MANIFESTATION_LINES,
+  formatManifestationDate,
+  layoutManifestation,
+  renderManifestationLines,
+} from '../../src/utils/manifestation-utils';
+import { SignatureData } from '../../src/types';
+import { TEST_SIGNATURE_DATA } from '../fixtures/signing-fixtures';
+
+/**
+ * Signature manifestation (CFR Part 11.50(b))
+ *
+ * Tests the wording and layout shared by the on-screen overlay and the
+ * flattened PDF:
+ * - Printed name, date/time and meaning from a line template
+ * - Date formatting hook
+ * - Splitting the field box between image and text
+ */
+
+const SIGNATURE: SignatureData = {
+  ...TEST_SIGNATURE_DATA,
+  timestamp: '2024-01-02T03:04:05.000Z',
+};
+
+describe('renderManifestationLines', () => {
+  it('should print the name, UTC date and meaning by default', () => {
+    expect(DEFAULT_MANIFESTATION_LINES).toHaveLength(3);
+    expect(renderManifestationLines(SIGNATURE)).toEqual([
+      'John Doe',
+      '2024-01-02 03:04:05 UTC',
+      'I approve this document',
+    ]);
+  });
+
+  it('should fill placeholders in custom lines and keep unknown ones', () => {
+    const lines = renderManifestationLines(SIGNATURE, {
+      lines: ['Signed by {signerName} ({signerId})', 'via {authMethod} {unknown}'],
+    });
+
+    expect(lines).toEqual(['Signed by John Doe (user-123)', 'via okta_2fa {unknown}']);
+  });
+
+  it('should format the date with the template hook', () => {
+    const formatDate = vi.fn(() => '02/01/2024');
+
+    expect(renderManifestationLines(SIGNATURE, { lines: ['{date}'], formatDate })).toEqual(['02/01/2024']);
+    expect(formatDate).toHaveBeenCalledWith(SIGNATURE.timestamp);
+  });
+
+  it('should fall back to the default date format when the hook throws', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const lines = renderManifestationLines(SIGNATURE, {
+      lines: ['{date}'],
+      formatDate: () => {
+        throw new Error('bad locale');
+      },
+    });
+
+    expect(lines).toEqual(['2024-01-02 03:04:05 UTC']);
+    consoleError.mockRestore();
+  });
+
+  it('should not resolve inherited properties as placeholders', () => {
+    expect(renderManifestationLines(SIGNATURE, { lines: ['{constructor}'] })).toEqual(['{constructor}']);
+  });
+});
+
+describe('formatManifestationDate', () => {
+  it('should return unparseable timestamps unchanged', () => {
+    expect(formatManifestationDate('not a date')).toBe('not a date');
+  });
+});
+
+describe('layoutManifestation', () => {
+  it('should put the text below the image by default', () => {
+    const layout = layoutManifestation({ width: 200, height: 100 }, 3);
+
+    expect(layout.image).toMatchObject({ x: 0, y: 0, width: 200 });
+    expect(layout.image.height).toBeCloseTo(55);
+    expect(layout.text).toMatchObject({ x: 0, width: 200 });
+    expect(layout.text!.y).toBeCloseTo(55);
+    expect(layout.text!.height).toBeCloseTo(45);
+    expect(layout.fontSize).toBe(8);
+    expect(layout.lineHeight).toBeCloseTo(9.6);
+  });
+
+  it('should put the text right of the image', () => {
+    const layout = layoutManifestation({ width: 200, height: 60 }, 3, { layout: 'right', imageRatio: 0.5 });
+
+    expect(layout.image).toEqual({ x: 0, y: 0, width: 100, height: 60 });
+    expect(layout.text).toMatchObject({ y: 0, height: 60 });
+    expect(layout.text!.x + layout.text!.width).toBe(200);
+  });
+
+  it('should shrink the font so every line fits', () => {
+    const layout = layoutManifestation({ width: 200, height: 40 }, 3, { maxFontSize: 12 });
+
+    expect(layout.fontSize * 1.2 * 3).toBeCloseTo(layout.text!.height);
+  });
+
+  it('should give the whole box to the image when the text would be illegible', () => {
+    const layout = layoutManifestation({ width: 200, height: 20 }, 3);
+
+    expect(layout.text).toBeNull();
+    expect(layout.image).toEqual({ x: 0, y: 0, width: 200, height: 20 });
+  });
+});
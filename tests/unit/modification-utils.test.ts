@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import {
+  appendIncrementalUpdate,
+  loadForIncrementalUpdate,
+  signPdfFields,
+} from '../../src/utils/pdf-signing-utils';
+import { detectChangesSinceSigned, getDocMdpPermissions } from '../../src/utils/modification-utils';
+import { verifySignatures } from '../../src/utils/verification-utils';
+import { createSoftwareSigner, pemToDer } from '../../src/utils/cms-utils';
+import { Signer } from '../../src/types';
+import {
+  TEST_CERTIFICATE_PEM,
+  TEST_SIGNATURE_DATA,
+  TEST_SIGNATURE_FIELD,
+  createPdfWithSignatureFields,
+  importTestPrivateKey,
+  stubTimestampAuthority,
+} from '../fixtures/signing-fixtures';
+
+/**
+ * Changes since signing (incremental update diffing)
+ *
+ * Tests that detectChangesSinceSigned classifies the objects changed after
+ * a signed revision and applies DocMDP permissions:
+ * - Signatures and DSS validation data are permitted
+ * - Annotations are permitted only at DocMDP level 3
+ * - Content and page changes are never permitted
+ * - Objects are classified by their role, not by what they claim to be
+ */
+
+// Signing time within the test certificate's validity period
+const SIGNATURE_DATA = { ...TEST_SIGNATURE_DATA, timestamp: '2030-01-01T00:00:00.000Z' };
+
+describe('detectChangesSinceSigned', () => {
+  let signer: Signer;
+  let signed: Uint8Array;
+
+  beforeAll(async () => {
+    signer = createSoftwareSigner({
+      certificate: pemToDer(TEST_CERTIFICATE_PEM),
+      privateKey: await importTestPrivateKey(),
+    });
+    signed = await signPdfFields(
+      await createPdfWithSignatureFields(),
+      new Map([[TEST_SIGNATURE_FIELD.id, SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer
+    );
+  });
+
+  /**
+   * Append a revision that replaces the first page's content stream
+   */
+  async function appendContentChange(bytes: Uint8Array, streamDict = '') {
+    const pdfDoc = await loadForIncrementalUpdate(bytes);
+    const page = pdfDoc.getPages()[0];
+    const contentRef = pdfDoc.context.nextRef();
+    const content = new TextEncoder().encode('BT /F1 24 Tf 100 700 Td (Altered) Tj ET');
+    page.node.set(PDFName.of('Contents'), contentRef);
+    return appendIncrementalUpdate(bytes, pdfDoc, [
+      { ref: contentRef, body: `<< ${streamDict} /Length ${content.length} >>`, stream: content },
+      { ref: page.ref, body: page.node.toString() },
+    ]);
+  }
+
+  /**
+   * Append a revision that adds a sticky-note annotation to the first page
+   */
+  async function appendAnnotation(bytes: Uint8Array) {
+    const pdfDoc = await loadForIncrementalUpdate(bytes);
+    const page = pdfDoc.getPages()[0];
+    const annotRef = pdfDoc.context.nextRef();
+    page.node.Annots()!.push(annotRef);
+    return appendIncrementalUpdate(bytes, pdfDoc, [
+      { ref: annotRef, body: '<< /Type /Annot /Subtype /Text /Rect [10 10 30 30] /Contents (Note) >>' },
+      { ref: page.ref, body: page.node.toString() },
+    ]);
+  }
+
+  async function changesAfterFirstSignature(bytes: Uint8Array, docMdpPermissions: 1 | 2 | 3 | null = null) {
+    const [{ byteRange }] = await verifySignatures(bytes);
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    return detectChangesSinceSigned(bytes, byteRange![2] + byteRange![3], pdfDoc, docMdpPermissions);
+  }
+
+  it('should classify a content stream change as not permitted', async () => {
+    const altered = await appendContentChange(signed);
+
+    const changes = await changesAfterFirstSignature(altered);
+
+    expect(changes.revisions).toBe(1);
+    expect(changes.types).toEqual(['content']);
+    expect(changes.permitted).toBe(false);
+  });
+
+  it('should classify by role rather than the object\'s own /Type', async () => {
+    const altered = await appendContentChange(signed, '/Type /Sig /SubFilter /ETSI.RFC3161');
+
+    const changes = await changesAfterFirstSignature(altered);
+
+    expect(changes.types).toEqual(['content']);
+    expect(changes.permitted).toBe(false);
+  });
+
+  it('should permit added annotations only at DocMDP level 3', async () => {
+    const annotated = await appendAnnotation(signed);
+
+    const level3 = await changesAfterFirstSignature(annotated, 3);
+    expect(level3.types).toEqual(['annotation']);
+    expect(level3.permitted).toBe(true);
+    expect(level3.changes.find((change) => change.added)).toMatchObject({ type: 'annotation', permitted: true });
+
+    const level2 = await changesAfterFirstSignature(annotated, 2);
+    expect(level2.permitted).toBe(false);
+  });
+
+  it('should permit DSS validation data even at DocMDP level 1', async () => {
+    const ltv = await signPdfFields(
+      await createPdfWithSignatureFields(),
+      new Map([[TEST_SIGNATURE_FIELD.id, SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer,
+      { profile: 'pades-b-lt', timestampAuthority: stubTimestampAuthority }
+    );
+
+    const changes = await changesAfterFirstSignature(ltv, 1);
+
+    expect(changes.types).toEqual(['validation-data']);
+    expect(changes.permitted).toBe(true);
+  });
+
+  it('should not permit appended data that is not a revision', async () => {
+    const padded = new Uint8Array(signed.length + 4);
+    padded.set(signed);
+    padded.set(new TextEncoder().encode('junk'), signed.length);
+
+    const changes = await changesAfterFirstSignature(padded);
+
+    expect(changes.revisions).toBe(0);
+    expect(changes.permitted).toBe(false);
+  });
+
+  it('should report not-permitted changes through verifySignatures', async () => {
+    const altered = await appendContentChange(signed);
+
+    const [result] = await verifySignatures(altered, { trustedCertificates: [pemToDer(TEST_CERTIFICATE_PEM)] });
+
+    expect(result.status).toBe('modified-after-signing');
+    expect(result.detail).toBe('Changes not permitted after signing: content');
+    expect(result.changesSinceSigned?.types).toEqual(['content']);
+  });
+});
+
+describe('getDocMdpPermissions', () => {
+  it('should read /P from a DocMDP signature reference', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const certification = pdfDoc.context.obj({
+      Type: 'Sig',
+      Reference: [{ Type: 'SigRef', TransformMethod: 'DocMDP', TransformParams: { Type: 'TransformParams', P: 1 } }],
+    });
+
+    expect(getDocMdpPermissions(certification)).toBe(1);
+  });
+
+  it('should default to level 2 when /P is absent', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const certification = pdfDoc.context.obj({
+      Type: 'Sig',
+      Reference: [{ Type: 'SigRef', TransformMethod: 'DocMDP', TransformParams: { Type: 'TransformParams' } }],
+    });
+
+    expect(getDocMdpPermissions(certification)).toBe(2);
+  });
+
+  it('should return null for approval signatures', async () => {
+    const pdfDoc = await PDFDocument.create();
+
+    expect(getDocMdpPermissions(pdfDoc.context.obj({ Type: 'Sig' }))).toBeNull();
+  });
+});
@@ -0,0 +1,364 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import { signPdfFields, digestByteRange, findFieldWidget } from '../../src/utils/pdf-signing-utils';
+import {
+  createSoftwareSigner,
+  findAttributeValue,
+  parseCertificate,
+  parseSignedData,
+  pemToDer,
+  OID,
+} from '../../src/utils/cms-utils';
+import { parseDer, decodeOid, bytesEqual, hexToBytes, derSet } from '../../src/utils/asn1-utils';
+import { Signer } from '../../src/types';
+import {
+  TEST_CERTIFICATE_PEM,
+  TEST_SIGNATURE_DATA,
+  TEST_SIGNATURE_FIELD,
+  createPdfWithSignatureFields,
+  importTestPrivateKey,
+  stubTimestampAuthority,
+} from '../fixtures/signing-fixtures';
+
+/**
+ * PKCS#7/CMS PDF Signatures
+ *
+ * Tests that signPdfFields produces cryptographically valid
+ * adbe.pkcs7.detached signatures:
+ * - /ByteRange covers the whole file except the /Contents placeholder
+ * - The CMS messageDigest matches the digest of the covered bytes
+ * - The CMS signature verifies against the signing certificate
+ * - Each field is signed in its own incremental update
+ */
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+}
+
+function extractSignatures(bytes: Uint8Array) {
+  const text = latin1(bytes);
+  return [...text.matchAll(/\/ByteRange \[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]\s*\/Contents <([0-9A-Fa-f]+)>/g)]
+    .map((match) => ({
+      byteRange: match.slice(1, 5).map(Number) as [number, number, number, number],
+      cms: hexToBytes(match[5]),
+    }));
+}
+
+async function verifyCms(cmsBytes: Uint8Array, digest: Uint8Array): Promise<boolean> {
+  // Trailing zero padding from the placeholder is not part of the DER
+  const contentInfo = parseDer(cmsBytes);
+  expect(decodeOid(contentInfo.children[0])).toBe(OID.SIGNED_DATA);
+
+  const signedData = contentInfo.children[1].children[0];
+  const signerInfo = signedData.children[signedData.children.length - 1].children[0];
+  const signedAttrs = signerInfo.children[3];
+  const signature = signerInfo.children[5].content;
+
+  const messageDigest = signedAttrs.children.find(
+    (attr) => decodeOid(attr.children[0]) === OID.MESSAGE_DIGEST
+  );
+  expect(messageDigest).toBeDefined();
+  expect(bytesEqual(messageDigest!.children[1].children[0].content, digest)).toBe(true);
+
+  const cert = parseCertificate(pemToDer(TEST_CERTIFICATE_PEM));
+  const publicKey = await crypto.subtle.importKey(
+    'spki',
+    cert.subjectPublicKeyInfo,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  return crypto.subtle.verify(
+    { name: 'RSASSA-PKCS1-v1_5' },
+    publicKey,
+    signature,
+    derSet(...signedAttrs.children.map((attr) => attr.der))
+  );
+}
+
+describe('signPdfFields - PKCS#7/CMS Signatures', () => {
+  let signer: Signer;
+
+  beforeAll(async () => {
+    signer = createSoftwareSigner({
+      certificate: pemToDer(TEST_CERTIFICATE_PEM),
+      privateKey: await importTestPrivateKey(),
+    });
+  });
+
+  it('should produce a ByteRange covering everything except /Contents', async () => {
+    const signed = await signPdfFields(
+      await createPdfWithSignatureFields(),
+      new Map([[TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer
+    );
+
+    const [{ byteRange }] = extractSignatures(signed);
+    expect(byteRange[0]).toBe(0);
+    expect(byteRange[2] + byteRange[3]).toBe(signed.length);
+    expect(String.fromCharCode(signed[byteRange[1]])).toBe('<');
+    expect(String.fromCharCode(signed[byteRange[2] - 1])).toBe('>');
+  });
+
+  it('should embed a CMS signature that verifies over the ByteRange digest', async () => {
+    const signed = await signPdfFields(
+      await createPdfWithSignatureFields(),
+      new Map([[TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer
+    );
+
+    const [{ byteRange, cms }] = extractSignatures(signed);
+    const digest = await digestByteRange(signed, byteRange);
+
+    expect(await verifyCms(cms, digest)).toBe(true);
+  });
+
+  it('should link the signature dictionary from the field /V entry', async () => {
+    const signed = await signPdfFields(
+      await createPdfWithSignatureFields(),
+      new Map([[TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer
+    );
+
+    const doc = await PDFDocument.load(signed);
+    const target = findFieldWidget(doc, TEST_SIGNATURE_FIELD);
+    const sigDict = target!.fieldDict.lookup(PDFName.of('V'), PDFDict);
+
+    expect(sigDict.lookup(PDFName.of('SubFilter'))?.toString()).toBe('/adbe.pkcs7.detached');
+    expect(sigDict.lookup(PDFName.of('Name'))?.toString()).toBe('(John Doe)');
+    expect(sigDict.lookup(PDFName.of('Reason'))?.toString()).toBe('(I approve this document)');
+  });
+
+  it('should append an incremental update without altering the original bytes', async () => {
+    const original = await createPdfWithSignatureFields();
+    const signed = await signPdfFields(
+      original,
+      new Map([[TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer
+    );
+
+    expect(bytesEqual(signed.subarray(0, original.length), original)).toBe(true);
+  });
+
+  it('should support documents that use cross-reference streams', async () => {
+    const signed = await signPdfFields(
+      await createPdfWithSignatureFields(undefined, { useObjectStreams: true }),
+      new Map([[TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer
+    );
+
+    const [{ byteRange, cms }] = extractSignatures(signed);
+    expect(await verifyCms(cms, await digestByteRange(signed, byteRange))).toBe(true);
+
+    const doc = await PDFDocument.load(signed);
+    expect(findFieldWidget(doc, TEST_SIGNATURE_FIELD)!.fieldDict.has(PDFName.of('V'))).toBe(true);
+
+    // The new xref stream must not reuse the original xref stream's object number
+    const xrefObjectNumbers = [...latin1(signed).matchAll(/(\d+) 0 obj\s*<<(?:(?!>>)[\s\S])*\/Type \/XRef/g)]
+      .map((match) => match[1]);
+    expect(xrefObjectNumbers).toHaveLength(2);
+    expect(new Set(xrefObjectNumbers).size).toBe(2);
+  });
+
+  it('should sign each field in its own revision so earlier signatures stay valid', async () => {
+    const secondField = {
+      ...TEST_SIGNATURE_FIELD,
+      id: 'sig-1-1',
+      fieldName: 'approver',
+      boundingBox: { x: 100, y: 300, width: 200, height: 50 },
+    };
+
+    const signed = await signPdfFields(
+      await createPdfWithSignatureFields([TEST_SIGNATURE_FIELD, secondField]),
+      new Map([
+        [TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA],
+        [secondField.id, TEST_SIGNATURE_DATA],
+      ]),
+      [TEST_SIGNATURE_FIELD, secondField],
+      signer
+    );
+
+    const signatures = extractSignatures(signed);
+    expect(signatures).toHaveLength(2);
+
+    // The first signature only covers the first revision
+    const [first, second] = signatures;
+    expect(first.byteRange[2] + first.byteRange[3]).toBeLessThan(signed.length);
+    expect(second.byteRange[2] + second.byteRange[3]).toBe(signed.length);
+
+    for (const { byteRange, cms } of signatures) {
+      expect(await verifyCms(cms, await digestByteRange(signed, byteRange))).toBe(true);
+    }
+  });
+
+  it('should skip fields without captured signatures', async () => {
+    const original = await createPdfWithSignatureFields();
+    const signed = await signPdfFields(original, new Map(), [TEST_SIGNATURE_FIELD], signer);
+
+    expect(signed).toBe(original);
+  });
+
+  it('should reject fields without a matching /Sig widget', async () => {
+    const missingField = { ...TEST_SIGNATURE_FIELD, boundingBox: { x: 0, y: 0, width: 20, height: 20 } };
+
+    await expect(
+      signPdfFields(
+        await createPdfWithSignatureFields(),
+        new Map([[missingField.id, TEST_SIGNATURE_DATA]]),
+        [missingField],
+        signer
+      )
+    ).rejects.toThrow('No /Sig widget found');
+  });
+
+  it('should reject signatures larger than the reserved placeholder', async () => {
+    const oversizedSigner: Signer = { sign: async () => new Uint8Array(64) };
+
+    await expect(
+      signPdfFields(
+        await createPdfWithSignatureFields(),
+        new Map([[TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA]]),
+        [TEST_SIGNATURE_FIELD],
+        oversizedSigner,
+        { signatureSize: 32 }
+      )
+    ).rejects.toThrow('exceeding the reserved 32 bytes');
+  });
+});
+
+describe('signPdfFields - PAdES Baseline Profiles', () => {
+  let signer: Signer;
+
+  beforeAll(async () => {
+    signer = createSoftwareSigner({
+      certificate: pemToDer(TEST_CERTIFICATE_PEM),
+      privateKey: await importTestPrivateKey(),
+    });
+  });
+
+  async function signWithProfile(options: Parameters<typeof signPdfFields>[4]) {
+    return signPdfFields(
+      await createPdfWithSignatureFields(),
+      new Map([[TEST_SIGNATURE_FIELD.id, TEST_SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD],
+      signer,
+      options
+    );
+  }
+
+  it('should emit the ETSI.CAdES.detached SubFilter for PAdES profiles', async () => {
+    const signed = await signWithProfile({ profile: 'pades-b-b' });
+
+    expect(latin1(signed)).toContain('/SubFilter /ETSI.CAdES.detached');
+    expect(latin1(signed)).not.toContain('/adbe.pkcs7.detached');
+  });
+
+  it('should include signing-certificate-v2 and omit signingTime (B-B)', async () => {
+    const signed = await signWithProfile({ profile: 'pades-b-b' });
+    const [{ byteRange, cms }] = extractSignatures(signed);
+
+    const { signerInfo } = parseSignedData(cms);
+    expect(findAttributeValue(signerInfo.signedAttrs, OID.SIGNING_CERTIFICATE_V2)).toBeDefined();
+    expect(findAttributeValue(signerInfo.signedAttrs, OID.SIGNING_TIME)).toBeUndefined();
+    expect(await verifyCms(cms, await digestByteRange(signed, byteRange))).toBe(true);
+  });
+
+  it('should bind the signing certificate hash in signing-certificate-v2', async () => {
+    const signed = await signWithProfile({ profile: 'pades-b-b' });
+    const [{ cms }] = extractSignatures(signed);
+
+    const value = findAttributeValue(parseSignedData(cms).signerInfo.signedAttrs, OID.SIGNING_CERTIFICATE_V2)!;
+    const certHash = value.children[0].children[0].children[0].content;
+    const expected = new Uint8Array(
+      await crypto.subtle.digest('SHA-256', pemToDer(TEST_CERTIFICATE_PEM))
+    );
+
+    expect(bytesEqual(certHash, expected)).toBe(true);
+  });
+
+  it('should add an RFC 3161 signature timestamp over the signature value (B-T)', async () => {
+    const signed = await signWithProfile({
+      profile: 'pades-b-t',
+      timestampAuthority: stubTimestampAuthority,
+    });
+    const [{ byteRange, cms }] = extractSignatures(signed);
+
+    const { signerInfo } = parseSignedData(cms);
+    const token = findAttributeValue(signerInfo.unsignedAttrs, OID.SIGNATURE_TIMESTAMP_TOKEN);
+    expect(token).toBeDefined();
+
+    const tstInfo = parseDer(parseSignedData(token!.der).encapContent!);
+    const imprint = tstInfo.children[2].children[1].content;
+    const expected = new Uint8Array(await crypto.subtle.digest('SHA-256', signerInfo.signature));
+    expect(bytesEqual(imprint, expected)).toBe(true);
+
+    // Unsigned attributes do not affect the signature itself
+    expect(await verifyCms(cms, await digestByteRange(signed, byteRange))).toBe(true);
+  });
+
+  it('should require a timestamp authority for B-T and B-LT', async () => {
+    await expect(signWithProfile({ profile: 'pades-b-t' })).rejects.toThrow(
+      'requires a timestampAuthority'
+    );
+    await expect(signWithProfile({ profile: 'pades-b-lt' })).rejects.toThrow(
+      'requires a timestampAuthority'
+    );
+  });
+
+  it('should reject timestamp tokens for a different imprint', async () => {
+    await expect(
+      signWithProfile({
+        profile: 'pades-b-t',
+        timestampAuthority: {
+          timestamp: () => stubTimestampAuthority.timestamp(new Uint8Array(32)),
+        },
+      })
+    ).rejects.toThrow('message imprint does not match');
+  });
+
+  it('should append a DSS dictionary with certificates, CRLs and OCSP responses (B-LT)', async () => {
+    const crl = Uint8Array.of(0x30, 0x00);
+    const ocsp = Uint8Array.of(0x30, 0x03, 0x0a, 0x01, 0x00);
+    let requestedCertificates: Uint8Array[] = [];
+
+    const signed = await signWithProfile({
+      profile: 'pades-b-lt',
+      timestampAuthority: stubTimestampAuthority,
+      fetchValidationData: async (certificates) => {
+        requestedCertificates = certificates;
+        return { crls: [crl], ocspResponses: [ocsp] };
+      },
+    });
+
+    // Signer and TSA certificates are both offered for revocation lookup
+    expect(requestedCertificates.length).toBeGreaterThanOrEqual(2);
+
+    const doc = await PDFDocument.load(signed);
+    const dss = doc.catalog.lookup(PDFName.of('DSS'), PDFDict);
+    // The test TSA reuses the signing certificate, so it is stored once
+    expect(dss.lookup(PDFName.of('Certs'), PDFArray).size()).toBe(1);
+    expect(dss.lookup(PDFName.of('CRLs'), PDFArray).size()).toBe(1);
+    expect(dss.lookup(PDFName.of('OCSPs'), PDFArray).size()).toBe(1);
+
+    const certStream = doc.context.lookup(dss.lookup(PDFName.of('Certs'), PDFArray).get(0), PDFRawStream);
+    expect(bytesEqual(certStream.getContents(), pemToDer(TEST_CERTIFICATE_PEM))).toBe(true);
+  });
+
+  it('should keep the signature valid after appending the DSS (B-LT)', async () => {
+    const signed = await signWithProfile({
+      profile: 'pades-b-lt',
+      timestampAuthority: stubTimestampAuthority,
+    });
+    const [{ byteRange, cms }] = extractSignatures(signed);
+
+    // The DSS lives in a later revision outside the ByteRange
+    expect(byteRange[2] + byteRange[3]).toBeLessThan(signed.length);
+    expect(await verifyCms(cms, await digestByteRange(signed, byteRange))).toBe(true);
+  });
+});
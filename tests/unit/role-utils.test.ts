@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { applyFieldRoles, getRoleStatus, isFieldForSigner, roleFromFieldName } from '../../src/utils/role-utils';
+import { SignatureField } from '../../src/types';
+import { TEST_SIGNATURE_FIELD } from '../fixtures/signing-fixtures';
+
+/**
+ * Multi-signer routing
+ *
+ * Tests who may sign which field, and when:
+ * - Roles from configuration, authored fields and field names
+ * - Sequential and parallel signing order
+ * - "Waiting on" status for the current signer
+ */
+
+function signatureField(fieldName: string, overrides: Partial<SignatureField> = {}): SignatureField {
+  return { ...TEST_SIGNATURE_FIELD, id: `sig-${fieldName}`, fieldName, ...overrides };
+}
+
+const ROLES = ['Buyer', 'Loan Officer', 'Seller'];
+
+describe('roleFromFieldName', () => {
+  it('should find the role named in a field name', () => {
+    expect(roleFromFieldName('Buyer_Signature', ROLES)).toBe('Buyer');
+    expect(roleFromFieldName('seller.initials', ROLES)).toBe('Seller');
+    expect(roleFromFieldName('LoanOfficerSign', ROLES)).toBe('Loan Officer');
+  });
+
+  it('should not match parts of words or other roles', () => {
+    expect(roleFromFieldName('Buyers_Signature', ROLES)).toBeUndefined();
+    expect(roleFromFieldName('Officer_Signature', ROLES)).toBeUndefined();
+    expect(roleFromFieldName('Buyer_Signature', [])).toBeUndefined();
+  });
+});
+
+describe('applyFieldRoles', () => {
+  it('should prefer configured roles, then authored roles, then the field name', () => {
+    const fields = [
+      signatureField('Buyer_Signature'),
+      signatureField('Witness', { role: 'Seller' }),
+      signatureField('Seller_Signature'),
+      signatureField('Notary'),
+    ];
+
+    const roles = applyFieldRoles(fields, { 'sig-Seller_Signature': 'Loan Officer' }, ROLES).map((field) => field.role);
+
+    expect(roles).toEqual(['Buyer', 'Seller', 'Loan Officer', undefined]);
+  });
+
+  it('should ignore inherited keys of the configuration', () => {
+    const [field] = applyFieldRoles([signatureField('toString')], {});
+
+    expect(field.role).toBeUndefined();
+  });
+});
+
+describe('getRoleStatus', () => {
+  const fields = [
+    signatureField('Buyer_Signature', { role: 'Buyer' }),
+    signatureField('Buyer_Initials', { role: 'Buyer', required: false }),
+    signatureField('Seller_Signature', { role: 'Seller' }),
+    signatureField('Notary_Signature', { role: 'Notary' }),
+    signatureField('Any_Signature'),
+  ];
+
+  it('should make later roles wait in a sequential order', () => {
+    const status = getRoleStatus(fields, new Set(), { signerRole: 'Seller', signerRoles: ['Buyer', 'Seller'], signingOrder: 'sequential' });
+
+    expect(status).toEqual({
+      signerRole: 'Seller',
+      canSign: false,
+      waitingOn: ['Buyer'],
+      roles: [
+        { role: 'Buyer', state: 'active', signed: 0, required: 1 },
+        { role: 'Seller', state: 'waiting', signed: 0, required: 1 },
+        { role: 'Notary', state: 'waiting', signed: 0, required: 1 },
+      ],
+    });
+  });
+
+  it('should pass the turn on once a role has signed its required fields', () => {
+    const status = getRoleStatus(fields, new Set(['sig-Buyer_Signature']), {
+      signerRole: 'Seller',
+      signerRoles: ['Buyer', 'Seller'],
+      signingOrder: 'sequential',
+    });
+
+    expect(status.canSign).toBe(true);
+    expect(status.waitingOn).toEqual([]);
+    expect(status.roles.map((progress) => progress.state)).toEqual(['completed', 'active', 'waiting']);
+  });
+
+  it('should let every role sign in a parallel order and report who is left', () => {
+    const signed = new Set(['sig-Buyer_Signature']);
+
+    const buyer = getRoleStatus(fields, signed, { signerRole: 'Buyer', signerRoles: ['Buyer', 'Seller'] });
+    const seller = getRoleStatus(fields, signed, { signerRole: 'Seller', signerRoles: ['Buyer', 'Seller'] });
+
+    expect(buyer.canSign).toBe(true);
+    expect(buyer.waitingOn).toEqual(['Seller', 'Notary']);
+    expect(seller.canSign).toBe(true);
+    expect(seller.waitingOn).toEqual([]);
+  });
+
+  it('should not restrict signers without a role', () => {
+    const status = getRoleStatus(fields, new Set(), { signerRoles: ['Buyer', 'Seller'], signingOrder: 'sequential' });
+
+    expect(status.canSign).toBe(true);
+    expect(status.waitingOn).toEqual([]);
+    expect(fields.every((field) => isFieldForSigner(field))).toBe(true);
+    expect(fields.filter((field) => isFieldForSigner(field, 'Buyer')).map((field) => field.fieldName)).toEqual([
+      'Buyer_Signature',
+      'Buyer_Initials',
+      'Any_Signature',
+    ]);
+  });
+});
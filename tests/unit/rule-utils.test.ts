@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { applyFieldRules, describeCondition } from '../../src/utils/rule-utils';
+import { FieldRule, FormField, SignatureField } from '../../src/types';
+import { TEST_SIGNATURE_FIELD } from '../fixtures/signing-fixtures';
+
+/**
+ * Conditional field rules
+ *
+ * Tests requirements and visibility that depend on other fields:
+ * - Required when a form field has a value or another field is signed
+ * - Hidden fields are never required
+ * - Messages naming the rule that blocks completion
+ */
+
+function signatureField(fieldName: string, overrides: Partial<SignatureField> = {}): SignatureField {
+  return { ...TEST_SIGNATURE_FIELD, id: `sig-${fieldName}`, fieldName, ...overrides };
+}
+
+function formField(fieldName: string, overrides: Partial<FormField> = {}): FormField {
+  return {
+    id: `form-${fieldName}`,
+    pageIndex: 0,
+    fieldName,
+    boundingBox: { x: 50, y: 700, width: 15, height: 15 },
+    type: 'checkbox',
+    required: false,
+    readOnly: false,
+    defaultValue: false,
+    exportValue: 'Yes',
+    ...overrides,
+  };
+}
+
+const APPLICANT = signatureField('Applicant_Signature');
+const SPOUSE = signatureField('Spouse_Signature', { required: false });
+const WITNESS = signatureField('Witness_Signature', { required: false });
+const MARRIED = formField('Married');
+const STATUS = formField('Status', {
+  type: 'dropdown',
+  defaultValue: '',
+  options: [
+    { value: 'single', label: 'Single' },
+    { value: 'married', label: 'Married' },
+  ],
+});
+
+describe('applyFieldRules', () => {
+  const rules: FieldRule[] = [
+    { field: 'Spouse_Signature', requiredWhen: { field: 'Married', equals: true } },
+    { field: 'sig-Witness_Signature', requiredWhen: { field: 'Applicant_Signature', signed: true } },
+  ];
+
+  it('should keep the required flags from the PDF without rules', () => {
+    const state = applyFieldRules([], [APPLICANT, SPOUSE], new Set());
+
+    expect(state.signatureFields).toEqual([APPLICANT, SPOUSE]);
+    expect(state.blockers).toEqual([
+      { fieldId: 'sig-Applicant_Signature', fieldName: 'Applicant_Signature', kind: 'signature', message: 'Applicant_Signature must be signed' },
+    ]);
+  });
+
+  it('should require a field when a form field has a value', () => {
+    const fields = [APPLICANT, SPOUSE];
+
+    const single = applyFieldRules(rules, fields, new Set(['sig-Applicant_Signature']), [MARRIED], { Married: false });
+    const married = applyFieldRules(rules, fields, new Set(['sig-Applicant_Signature']), [MARRIED], { Married: true });
+
+    expect(single.blockers).toEqual([]);
+    expect(married.signatureFields[1].required).toBe(true);
+    expect(married.blockers.map((blocker) => blocker.message)).toEqual([
+      'Spouse_Signature must be signed because Married is checked',
+    ]);
+    expect(married.blockers[0].rule).toBe(rules[0]);
+  });
+
+  it('should require a field, by ID, once another field is signed', () => {
+    const unsigned = applyFieldRules(rules, [APPLICANT, WITNESS], new Set());
+    const signed = applyFieldRules(rules, [APPLICANT, WITNESS], new Set(['sig-Applicant_Signature']));
+
+    expect(unsigned.blockers.map((blocker) => blocker.fieldName)).toEqual(['Applicant_Signature']);
+    expect(signed.blockers.map((blocker) => blocker.message)).toEqual([
+      'Witness_Signature must be signed because Applicant_Signature is signed',
+    ]);
+  });
+
+  it('should hide fields whose visibility conditions do not hold', () => {
+    const visibility: FieldRule[] = [
+      { field: 'Spouse_Signature', visibleWhen: { field: 'Status', equals: 'married' }, requiredWhen: [] },
+      { field: 'Married', visibleWhen: { field: 'Status', filled: true } },
+    ];
+
+    const hidden = applyFieldRules(visibility, [APPLICANT, SPOUSE], new Set(), [MARRIED, STATUS], { Status: '' });
+    const shown = applyFieldRules(visibility, [APPLICANT, SPOUSE], new Set(), [MARRIED, STATUS], { Status: 'married' });
+
+    expect(hidden.signatureFields.map((field) => field.fieldName)).toEqual(['Applicant_Signature']);
+    expect(hidden.formFields.map((field) => field.fieldName)).toEqual(['Status']);
+    expect(shown.signatureFields.map((field) => field.fieldName)).toEqual(['Applicant_Signature', 'Spouse_Signature']);
+    expect(shown.blockers.map((blocker) => blocker.fieldName)).toEqual(['Applicant_Signature', 'Spouse_Signature']);
+  });
+
+  it('should report existing signatures that are not valid', () => {
+    const tampered = { ...APPLICANT, verificationStatus: 'modified-after-signing' as const };
+
+    const state = applyFieldRules([], [tampered], new Set());
+
+    expect(state.blockers.map((blocker) => blocker.message)).toEqual([
+      'Applicant_Signature has a signature that is not valid (modified-after-signing)',
+    ]);
+  });
+
+  it('should use the rule message and report required form fields', () => {
+    const consent: FieldRule[] = [
+      { field: 'Married', requiredWhen: { field: 'Status', equals: ['married'] }, message: 'Confirm your marital status' },
+    ];
+
+    const state = applyFieldRules(consent, [], new Set(), [MARRIED, STATUS], { Married: false, Status: 'married' });
+
+    expect(state.blockers).toEqual([
+      { fieldId: 'form-Married', fieldName: 'Married', kind: 'form', rule: consent[0], message: 'Confirm your marital status' },
+    ]);
+  });
+});
+
+describe('describeCondition', () => {
+  it('should describe each kind of condition', () => {
+    expect(describeCondition({ field: 'Plan', equals: ['basic', 'premium'] })).toBe('Plan is "basic" or "premium"');
+    expect(describeCondition({ field: 'Notes', filled: false })).toBe('Notes is empty');
+    expect(describeCondition({ field: 'Buyer', signed: false })).toBe('Buyer is not signed');
+  });
+});
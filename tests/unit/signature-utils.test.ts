@@ -1,10 +1,23 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
 import {
   generateSignatureHash,
   createCFRCompliantSignature,
+  createSignedPDF,
+  createPSPDFKitInstantJSON,
+  computeDocumentHash,
+  DocumentHashMismatchError,
+  applyReauthentication,
   generateSignatureId,
+  getReauthenticationAttempts,
+  recordReauthenticationResult,
   validateImageDataUrl,
 } from '../../src/utils/signature-utils';
+import { extractSignatureFields } from '../../src/utils/pdf-utils';
+import { SignatureData, SignatureField } from '../../src/types';
+import { createPdfWithSignatureFields, pageOperators, TEST_SIGNATURE_FIELD } from '../fixtures/signing-fixtures';
 
 /**
  * SECURITY TEST: CFR Part 11 Compliance (CRIT-5)
@@ -17,6 +30,7 @@ import {
  * Also tests:
  * - CRIT-6: Cryptographically secure signature IDs
  * - CRIT-3: Data URL validation
+ * - CWE-307: Re-authentication attempts kept per signer
  */
 
 describe('CFR Part 11 Signature Compliance', () => {
@@ -113,7 +127,9 @@ describe('CFR Part 11 Signature Compliance', () => {
       const signature = await createCFRCompliantSignature(
         { type: 'drawn', data: 'data:image/png;base64,abc123' },
         validContext,
-        'I approve this document'
+        'I approve this document',
+        false,
+        validContext.documentHash
       );
 
       // 11.50(a)(1): Printed name of the signer
@@ -130,7 +146,10 @@ describe('CFR Part 11 Signature Compliance', () => {
     it('should include all CFR Part 11.100 required fields', async () => {
       const signature = await createCFRCompliantSignature(
         { type: 'drawn', data: 'data:image/png;base64,abc123' },
-        validContext
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
       );
 
       // 11.100: Identification codes and passwords
@@ -141,7 +160,10 @@ describe('CFR Part 11 Signature Compliance', () => {
     it('should include all CFR Part 11.70 required fields', async () => {
       const signature = await createCFRCompliantSignature(
         { type: 'drawn', data: 'data:image/png;base64,abc123' },
-        validContext
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
       );
 
       // 11.70: Electronic signatures and records linking
@@ -153,7 +175,10 @@ describe('CFR Part 11 Signature Compliance', () => {
     it('should include audit trail fields', async () => {
       const signature = await createCFRCompliantSignature(
         { type: 'drawn', data: 'data:image/png;base64,abc123' },
-        validContext
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
       );
 
       expect(signature.sessionId).toBe('session-abc');
@@ -165,7 +190,10 @@ describe('CFR Part 11 Signature Compliance', () => {
     it('should include device metadata', async () => {
       const signature = await createCFRCompliantSignature(
         { type: 'drawn', data: 'data:image/png;base64,abc123' },
-        validContext
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
       );
 
       expect(signature.deviceInfo).toBeDefined();
@@ -205,18 +233,248 @@ describe('CFR Part 11 Signature Compliance', () => {
     it('should support both drawn and typed signatures', async () => {
       const drawnSignature = await createCFRCompliantSignature(
         { type: 'drawn', data: 'data:image/png;base64,abc123' },
-        validContext
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
       );
 
       const typedSignature = await createCFRCompliantSignature(
         { type: 'typed', data: 'data:image/png;base64,def456' },
-        validContext
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
       );
 
       expect(drawnSignature.type).toBe('drawn');
       expect(typedSignature.type).toBe('typed');
       expect(drawnSignature.signatureHash).not.toBe(typedSignature.signatureHash);
     });
+
+    it('should record drawn strokes and cover them by the signature hash', async () => {
+      const canvasSize = { width: 500, height: 200 };
+      const strokes = [{ points: [{ x: 10, y: 20, time: 0, pressure: 0.5 }] }];
+
+      const signature = await createCFRCompliantSignature(
+        { type: 'drawn', data: 'data:image/png;base64,abc123', strokes, canvasSize },
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
+      );
+      const { signatureHash, ...rest } = signature;
+      const movedStroke = [{ points: [{ x: 11, y: 20, time: 0, pressure: 0.5 }] }];
+
+      expect(signature.strokes).toEqual(strokes);
+      expect(signature.canvasSize).toEqual(canvasSize);
+      expect(await generateSignatureHash(rest)).toBe(signatureHash);
+      expect(await generateSignatureHash({ ...rest, strokes: movedStroke })).not.toBe(signatureHash);
+    });
+
+    it('should cover the encrypted biometric record by the signature hash', async () => {
+      const biometrics = {
+        version: '1.0' as const,
+        algorithm: 'RSA-OAEP-256+A256GCM' as const,
+        encryptedKey: 'a2V5',
+        iv: 'aXY=',
+        ciphertext: 'Y2lwaGVy',
+      };
+
+      const signature = await createCFRCompliantSignature(
+        { type: 'drawn', data: 'data:image/png;base64,abc123', biometrics },
+        validContext,
+        'I approve this document',
+        false,
+        validContext.documentHash
+      );
+      const { signatureHash, ...rest } = signature;
+
+      expect(signature.biometrics).toEqual(biometrics);
+      expect(await generateSignatureHash({ ...rest, biometrics: { ...biometrics, ciphertext: 'b3RoZXI=' } }))
+        .not.toBe(signatureHash);
+    });
+
+    it('should reject invalid stroke data', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(
+        createCFRCompliantSignature(
+          {
+            type: 'drawn',
+            data: 'data:image/png;base64,abc123',
+            strokes: [{ points: [{ x: Infinity, y: 0, time: 0, pressure: 0.5 }] }],
+            canvasSize: { width: 500, height: 200 },
+          },
+          validContext,
+          'I approve this document',
+          false,
+          validContext.documentHash
+        )
+      ).rejects.toThrow('Invalid signature stroke data');
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('applyReauthentication - CFR Part 11.200', () => {
+    const context = {
+      signerName: 'John Doe',
+      signerId: 'user-123',
+      sessionId: 'session-abc',
+      documentHash: 'doc-hash-xyz',
+      authMethod: 'saml_sso',
+    };
+
+    it('should record the re-authentication method and time', async () => {
+      const signature = await createCFRCompliantSignature(
+        { type: 'drawn', data: 'data:image/png;base64,abc123' },
+        context,
+        'I approve this document',
+        false,
+        context.documentHash
+      );
+
+      const reauthenticated = await applyReauthentication(signature, 'password_reauth', '2024-01-01T00:00:05.000Z');
+
+      expect(reauthenticated.authMethod).toBe('password_reauth');
+      expect(reauthenticated.authenticatedAt).toBe('2024-01-01T00:00:05.000Z');
+      expect(reauthenticated.signerName).toBe('John Doe');
+    });
+
+    it('should cover authMethod and authenticatedAt with the signature hash', async () => {
+      const signature = await createCFRCompliantSignature(
+        { type: 'drawn', data: 'data:image/png;base64,abc123' },
+        context,
+        'I approve this document',
+        false,
+        context.documentHash
+      );
+
+      const first = await applyReauthentication(signature, 'password_reauth', '2024-01-01T00:00:05.000Z');
+      const otherTime = await applyReauthentication(signature, 'password_reauth', '2024-01-01T00:00:06.000Z');
+      const otherMethod = await applyReauthentication(signature, 'totp', '2024-01-01T00:00:05.000Z');
+
+      expect(first.signatureHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(first.signatureHash).not.toBe(signature.signatureHash);
+      expect(otherTime.signatureHash).not.toBe(first.signatureHash);
+      expect(otherMethod.signatureHash).not.toBe(first.signatureHash);
+      expect(await generateSignatureHash(first)).toBe(first.signatureHash);
+    });
+
+    it('should leave hashes of signatures without re-authentication unchanged', async () => {
+      const data = {
+        type: 'drawn' as const,
+        data: 'data:image/png;base64,abc123',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        signerName: 'John Doe',
+        signerId: 'user-123',
+        signerIntent: 'I approve this document',
+        documentHash: 'doc-hash-123',
+      };
+
+      // authMethod only enters the hash together with authenticatedAt
+      expect(await generateSignatureHash({ ...data, authMethod: 'a' } as any))
+        .toBe(await generateSignatureHash({ ...data, authMethod: 'b' } as any));
+    });
+  });
+
+  describe('recordReauthenticationResult - CWE-307', () => {
+    it('should lock out a signer after maxAttempts failures', () => {
+      let attempts = {};
+      for (let i = 0; i < 3; i++) {
+        attempts = recordReauthenticationResult(attempts, 'user-1', { success: false }, 3);
+      }
+
+      expect(getReauthenticationAttempts(attempts, 'user-1', 3)).toEqual({ failed: 3, remaining: 0, lockedOut: true });
+    });
+
+    it('should not carry one signer\'s failures or lockout over to the next', () => {
+      let attempts = recordReauthenticationResult({}, 'user-1', { success: false, lockedOut: true }, 3);
+      attempts = recordReauthenticationResult(attempts, 'user-2', { success: false }, 3);
+
+      expect(getReauthenticationAttempts(attempts, 'user-1', 3).lockedOut).toBe(true);
+      expect(getReauthenticationAttempts(attempts, 'user-2', 3)).toEqual({ failed: 1, remaining: 2, lockedOut: false });
+      expect(getReauthenticationAttempts(attempts, 'user-3', 3)).toEqual({ failed: 0, remaining: 3, lockedOut: false });
+    });
+
+    it('should start a fresh window on success and honor the backend count', () => {
+      let attempts = recordReauthenticationResult({}, 'user-1', { success: false, remainingAttempts: 1 }, 3);
+      expect(getReauthenticationAttempts(attempts, 'user-1', 3).remaining).toBe(1);
+
+      attempts = recordReauthenticationResult(attempts, 'user-1', { success: true }, 3);
+      expect(getReauthenticationAttempts(attempts, 'user-1', 3)).toEqual({ failed: 0, remaining: 3, lockedOut: false });
+    });
+  });
+
+  describe('createCFRCompliantSignature - Document Hash Verification', () => {
+    const pdfBytes = new TextEncoder().encode('%PDF-1.7 rendered document');
+    const context = {
+      signerName: 'John Doe',
+      signerId: 'user-123',
+      sessionId: 'session-abc',
+      documentHash: '',
+      authMethod: 'okta_2fa',
+    };
+
+    it('should compute a hex SHA-256 of the document bytes', async () => {
+      const hash = await computeDocumentHash(pdfBytes);
+
+      expect(hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(await computeDocumentHash(pdfBytes.slice().buffer)).toBe(hash);
+    });
+
+    it('should sign when the rendered document matches the backend hash', async () => {
+      const renderedHash = await computeDocumentHash(pdfBytes);
+
+      const signature = await createCFRCompliantSignature(
+        { type: 'drawn', data: 'data:image/png;base64,abc123' },
+        { ...context, documentHash: renderedHash.toUpperCase() },
+        'I approve this document',
+        false,
+        renderedHash
+      );
+
+      expect(signature.signatureHash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should refuse to sign when the rendered document does not match', async () => {
+      const renderedHash = await computeDocumentHash(pdfBytes);
+      const otherHash = await computeDocumentHash(new TextEncoder().encode('%PDF-1.7 other document'));
+
+      const attempt = createCFRCompliantSignature(
+        { type: 'drawn', data: 'data:image/png;base64,abc123' },
+        { ...context, documentHash: otherHash },
+        'I approve this document',
+        false,
+        renderedHash
+      );
+
+      await expect(attempt).rejects.toBeInstanceOf(DocumentHashMismatchError);
+      await expect(attempt).rejects.toMatchObject({ expectedHash: otherHash, actualHash: renderedHash });
+    });
+
+    it('should refuse to sign when no rendered document hash is given', async () => {
+      // @ts-expect-error - JavaScript callers can still omit it
+      const attempt = createCFRCompliantSignature(
+        { type: 'drawn', data: 'data:image/png;base64,abc123' },
+        { ...context, documentHash: 'a'.repeat(64) }
+      );
+
+      await expect(attempt).rejects.toBeInstanceOf(DocumentHashMismatchError);
+      await expect(attempt).rejects.toMatchObject({ actualHash: null });
+    });
+
+    it('should refuse to sign before the rendered document is hashed', async () => {
+      await expect(
+        createCFRCompliantSignature(
+          { type: 'drawn', data: 'data:image/png;base64,abc123' },
+          { ...context, documentHash: 'a'.repeat(64) },
+          'I approve this document',
+          false,
+          null
+        )
+      ).rejects.toBeInstanceOf(DocumentHashMismatchError);
+    });
   });
 
   describe('generateSignatureId - Cryptographic Security (CRIT-6)', () => {
@@ -324,4 +582,187 @@ describe('CFR Part 11 Signature Compliance', () => {
       expect(validateImageDataUrl(tooLargeDataUrl)).toBe(false);
     });
   });
+
+  describe('createPSPDFKitInstantJSON', () => {
+    const field: SignatureField = {
+      id: 'sig-1-0',
+      pageIndex: 0,
+      fieldName: 'signature',
+      boundingBox: { x: 100, y: 100, width: 200, height: 50 },
+      required: true,
+      signedBy: null,
+      signedAt: null,
+    };
+
+    const signature = {
+      type: 'typed',
+      data: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      signerName: 'John Doe',
+      signerId: 'user-123',
+      signerIntent: 'I approve this document',
+      authMethod: 'okta_2fa',
+      signatureHash: 'hash',
+      documentHash: 'doc-hash',
+      sessionId: 'session-abc',
+      signatureVersion: '1.0.0',
+    } as SignatureData;
+
+    it('should export typed signatures as image annotations with an attachment', () => {
+      const json = createPSPDFKitInstantJSON(new Map([[field.id, { data: signature, field, pageHeight: 792 }]]));
+
+      expect(json.annotations).toHaveLength(1);
+      expect(json.annotations[0]).toMatchObject({
+        type: 'pspdfkit/image',
+        bbox: [100, 642, 300, 692],
+        imageAttachmentId: 'sig-1-0-attachment',
+        contentType: 'image/png',
+      });
+      expect(json.annotations[0].lines).toBeUndefined();
+      expect(json.attachments?.['sig-1-0-attachment']).toEqual({
+        contentType: 'image/png',
+        data: signature.data.split(',')[1],
+      });
+    });
+
+    it('should export drawn signatures with strokes as ink lines', () => {
+      const drawn = {
+        ...signature,
+        type: 'drawn' as const,
+        strokes: [{ points: [{ x: 0, y: 0, time: 0, pressure: 0.5 }, { x: 400, y: 100, time: 20, pressure: 0.75 }] }],
+        canvasSize: { width: 400, height: 100 },
+      };
+
+      const json = createPSPDFKitInstantJSON(new Map([[field.id, { data: drawn, field, pageHeight: 792 }]]));
+
+      expect(json.annotations[0]).toMatchObject({
+        type: 'pspdfkit/ink',
+        bbox: [100, 642, 300, 692],
+        lines: [{ points: [100, 692, 300, 642], intensities: [0.5, 0.75] }],
+      });
+      expect(json.attachments).toBeUndefined();
+    });
+
+    it('should use the content type of JPEG images', () => {
+      const jpeg = { ...signature, type: 'drawn' as const, data: 'data:image/jpg;base64,/9j/4AAQSkZJRg==' };
+
+      const json = createPSPDFKitInstantJSON(new Map([[field.id, { data: jpeg, field, pageHeight: 792 }]]));
+
+      expect(json.annotations[0].contentType).toBe('image/jpeg');
+      expect(json.attachments?.['sig-1-0-attachment'].contentType).toBe('image/jpeg');
+    });
+
+    it('should leave out signatures with invalid image data', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const svg = { ...signature, data: 'data:image/svg+xml;base64,PHN2Zz4=' };
+
+      const json = createPSPDFKitInstantJSON(new Map([[field.id, { data: svg, field, pageHeight: 792 }]]));
+
+      expect(json.annotations).toHaveLength(0);
+      expect(json.attachments).toBeUndefined();
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('sig-1-0'));
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('createSignedPDF - Flattening', () => {
+    const PNG_1X1 =
+      'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+    const field: SignatureField = {
+      id: 'sig-1-0',
+      pageIndex: 0,
+      fieldName: 'signature',
+      boundingBox: { x: 100, y: 100, width: 200, height: 50 },
+      required: true,
+      signedBy: null,
+      signedAt: null,
+    };
+
+    const signature = {
+      type: 'drawn',
+      data: PNG_1X1,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      signerName: 'John Doe',
+      signerId: 'user-123',
+      signerIntent: 'I approve this document',
+      authMethod: 'okta_2fa',
+      signatureHash: 'hash',
+      documentHash: 'doc-hash',
+      sessionId: 'session-abc',
+      signatureVersion: '1.0.0',
+    } as SignatureData;
+
+    async function createBlankPdf(): Promise<Uint8Array> {
+      const doc = await PDFDocument.create();
+      doc.addPage([612, 792]);
+      return doc.save();
+    }
+
+    it('should embed the signature image on the field page', async () => {
+      const signed = await createSignedPDF(
+        await createBlankPdf(),
+        new Map([[field.id, signature]]),
+        [field]
+      );
+
+      const doc = await PDFDocument.load(signed);
+      const resources = doc.getPages()[0].node.Resources();
+      expect(resources?.toString()).toContain('/XObject');
+    });
+
+    it('should draw the image inside the widget of a field extracted from the PDF', async () => {
+      const pdfBytes = await createPdfWithSignatureFields();
+      const pdfDocument = await getDocument({ data: pdfBytes.slice() }).promise;
+      const [extracted] = await extractSignatureFields(pdfDocument as unknown as PDFDocumentProxy);
+
+      const signed = await createSignedPDF(pdfBytes, new Map([[extracted.id, signature]]), [extracted]);
+
+      const doc = await PDFDocument.load(signed);
+      // pdf-lib translates to the image's corner, then scales to its size
+      const [, x, y, height] = /1 0 0 1 ([\d.]+) ([\d.]+) cm\n1 0 0 1 0 0 cm\n[\d.]+ 0 0 ([\d.]+) 0 0 cm/
+        .exec(pageOperators(doc))!
+        .map(Number);
+      // The fixture's widget /Rect is [100, 642, 300, 692]
+      expect(extracted.boundingBox).toEqual(TEST_SIGNATURE_FIELD.boundingBox);
+      expect(x).toBeGreaterThanOrEqual(100);
+      expect(y).toBeGreaterThanOrEqual(642);
+      expect(y + height).toBeLessThanOrEqual(692);
+    });
+
+    it('should print the signer name, date and meaning beneath the image', async () => {
+      const signed = await createSignedPDF(
+        await createBlankPdf(),
+        new Map([[field.id, { ...signature, signerIntent: 'I have reviewed this document' }]]),
+        [field]
+      );
+
+      const operators = pageOperators(await PDFDocument.load(signed));
+      for (const line of ['John Doe', '2024-01-01 00:00:00 UTC', 'I have reviewed this document']) {
+        expect(operators).toContain(`<${Buffer.from(line, 'latin1').toString('hex').toUpperCase()}> Tj`);
+      }
+    });
+
+    it('should skip signatures with invalid image data', async () => {
+      const signed = await createSignedPDF(
+        await createBlankPdf(),
+        new Map([[field.id, { ...signature, data: 'data:image/svg+xml;base64,PHN2Zz4=' }]]),
+        [field]
+      );
+
+      const doc = await PDFDocument.load(signed);
+      const resources = doc.getPages()[0].node.Resources();
+      expect(resources?.toString() ?? '').not.toContain('/XObject');
+    });
+
+    it('should skip signatures for unknown fields', async () => {
+      const signed = await createSignedPDF(
+        await createBlankPdf(),
+        new Map([['unknown-field', signature]]),
+        [field]
+      );
+
+      expect((await PDFDocument.load(signed)).getPageCount()).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createSignatureSvg,
+  strokesToInkLines,
+  strokesToSvgPath,
+  toSignatureStrokes,
+  validateStrokes,
+} from '../../src/utils/stroke-utils';
+import { SignatureStroke } from '../../src/types';
+
+/**
+ * Drawn signature stroke data
+ *
+ * Tests the vector record kept alongside the PNG of a drawn signature:
+ * - Conversion from signature_pad point groups (relative timing, clamping)
+ * - SECURITY: Validation of untrusted stroke data
+ * - PSPDFKit ink lines and SVG path export
+ */
+
+const CANVAS = { width: 500, height: 200 };
+
+const STROKES: SignatureStroke[] = [
+  {
+    points: [
+      { x: 0, y: 0, time: 0, pressure: 0.5 },
+      { x: 500, y: 200, time: 16, pressure: 1 },
+    ],
+  },
+  { points: [{ x: 250, y: 100, time: 120, pressure: 0.25 }] },
+];
+
+describe('toSignatureStrokes', () => {
+  it('should make times relative to the first point', () => {
+    const strokes = toSignatureStrokes(
+      [
+        { points: [{ x: 10, y: 20, time: 1_700_000_000_000, pressure: 0.5 }] },
+        { points: [{ x: 30, y: 40, time: 1_700_000_000_250, pressure: 0.8 }] },
+      ],
+      CANVAS
+    );
+
+    expect(strokes).toEqual([
+      { points: [{ x: 10, y: 20, time: 0, pressure: 0.5 }] },
+      { points: [{ x: 30, y: 40, time: 250, pressure: 0.8 }] },
+    ]);
+  });
+
+  it('should clamp points that left the canvas and drop empty groups', () => {
+    const strokes = toSignatureStrokes(
+      [{ points: [{ x: -5, y: 250, time: 0, pressure: 1.5 }] }, { points: [] }],
+      CANVAS
+    );
+
+    expect(strokes).toEqual([{ points: [{ x: 0, y: 200, time: 0, pressure: 1 }] }]);
+  });
+});
+
+describe('validateStrokes', () => {
+  it('should accept strokes inside the canvas', () => {
+    expect(validateStrokes(STROKES, CANVAS)).toBe(true);
+  });
+
+  it('should reject empty, out-of-range and non-finite strokes', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const point = { x: 1, y: 1, time: 0, pressure: 0.5 };
+
+    expect(validateStrokes([], CANVAS)).toBe(false);
+    expect(validateStrokes([{ points: [{ ...point, x: 501 }] }], CANVAS)).toBe(false);
+    expect(validateStrokes([{ points: [{ ...point, y: NaN }] }], CANVAS)).toBe(false);
+    expect(validateStrokes([{ points: [{ ...point, pressure: 2 }] }], CANVAS)).toBe(false);
+    expect(validateStrokes([{ points: [point] }], { width: 0, height: 200 })).toBe(false);
+    expect(consoleError).toHaveBeenCalledTimes(5);
+    consoleError.mockRestore();
+  });
+
+  it('should reject more points than the limit', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const points = Array.from({ length: 20001 }, (_, time) => ({ x: 1, y: 1, time, pressure: 0.5 }));
+
+    expect(validateStrokes([{ points }], CANVAS)).toBe(false);
+    consoleError.mockRestore();
+  });
+});
+
+describe('strokesToInkLines', () => {
+  it('should fit the canvas into the bounding box, centered, flipping y', () => {
+    // 500x200 canvas into a 100x100 box: scale 0.2, 100x40 centered vertically
+    const lines = strokesToInkLines(STROKES, CANVAS, [100, 600, 200, 700]);
+
+    expect(lines[0].points).toEqual([100, 670, 200, 630]);
+    expect(lines[1].points).toEqual([150, 650]);
+  });
+
+  it('should use pen pressure as intensity', () => {
+    const lines = strokesToInkLines(STROKES, CANVAS, [0, 0, 500, 200]);
+
+    expect(lines.map((line) => line.intensities)).toEqual([[0.5, 1], [0.25]]);
+  });
+});
+
+describe('strokesToSvgPath', () => {
+  it('should trace each stroke and draw single points as dots', () => {
+    expect(strokesToSvgPath(STROKES)).toBe('M0 0 L500 200 M250 100 l0 0');
+  });
+});
+
+describe('createSignatureSvg', () => {
+  it('should use the canvas as viewBox', () => {
+    const svg = createSignatureSvg(STROKES, CANVAS);
+
+    expect(svg).toContain('viewBox="0 0 500 200"');
+    expect(svg).toContain('d="M0 0 L500 200 M250 100 l0 0"');
+  });
+});
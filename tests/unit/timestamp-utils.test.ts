@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHttpTimestampAuthority } from '../../src/utils/timestamp-utils';
+import { derInteger, derSequence, parseDer, bytesEqual } from '../../src/utils/asn1-utils';
+import { createStubTimestampToken } from '../fixtures/signing-fixtures';
+
+/**
+ * RFC 3161 Time-Stamp Protocol client
+ *
+ * Tests that createHttpTimestampAuthority:
+ * - Sends a well-formed TimeStampReq with a nonce
+ * - Returns the TimeStampToken from a granted response
+ * - Rejects refused requests, mismatched imprints and replayed nonces
+ */
+
+const IMPRINT = new Uint8Array(32).fill(0xab);
+
+function mockTsa(
+  respond: (imprint: Uint8Array, nonce: Uint8Array) => Promise<Uint8Array>
+) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+    const request = parseDer(new Uint8Array(init!.body as ArrayBuffer));
+    const imprint = request.children[1].children[1].content;
+    const nonce = request.children[2].content;
+    return new Response(await respond(imprint, nonce), { status: 200 });
+  });
+}
+
+function grantedResponse(token: Uint8Array): Uint8Array {
+  return derSequence(derSequence(derInteger(0)), token);
+}
+
+describe('createHttpTimestampAuthority', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the token from a granted response', async () => {
+    let token: Uint8Array | null = null;
+    mockTsa(async (imprint, nonce) => {
+      token = await createStubTimestampToken(imprint, nonce);
+      return grantedResponse(token);
+    });
+
+    const tsa = createHttpTimestampAuthority('https://tsa.example.com/tsr');
+    const result = await tsa.timestamp(IMPRINT);
+
+    expect(bytesEqual(result, token!)).toBe(true);
+  });
+
+  it('should send a TimeStampReq with the message imprint', async () => {
+    const fetchSpy = mockTsa(async (imprint, nonce) =>
+      grantedResponse(await createStubTimestampToken(imprint, nonce))
+    );
+
+    await createHttpTimestampAuthority('https://tsa.example.com/tsr').timestamp(IMPRINT);
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://tsa.example.com/tsr');
+    expect((init!.headers as Record<string, string>)['Content-Type']).toBe('application/timestamp-query');
+
+    const request = parseDer(new Uint8Array(init!.body as ArrayBuffer));
+    expect(bytesEqual(request.children[1].children[1].content, IMPRINT)).toBe(true);
+  });
+
+  it('should reject responses the TSA did not grant', async () => {
+    mockTsa(async () => derSequence(derSequence(derInteger(2))));
+
+    await expect(
+      createHttpTimestampAuthority('https://tsa.example.com/tsr').timestamp(IMPRINT)
+    ).rejects.toThrow('TSA rejected the request (status 2)');
+  });
+
+  it('should reject tokens for a different message imprint', async () => {
+    mockTsa(async (_imprint, nonce) =>
+      grantedResponse(await createStubTimestampToken(new Uint8Array(32), nonce))
+    );
+
+    await expect(
+      createHttpTimestampAuthority('https://tsa.example.com/tsr').timestamp(IMPRINT)
+    ).rejects.toThrow('message imprint does not match');
+  });
+
+  it('should reject tokens with a mismatched nonce (replay)', async () => {
+    mockTsa(async (imprint) =>
+      grantedResponse(await createStubTimestampToken(imprint, Uint8Array.of(1, 2, 3)))
+    );
+
+    await expect(
+      createHttpTimestampAuthority('https://tsa.example.com/tsr').timestamp(IMPRINT)
+    ).rejects.toThrow('nonce does not match');
+  });
+
+  it('should reject HTTP errors', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 503 }));
+
+    await expect(
+      createHttpTimestampAuthority('https://tsa.example.com/tsr').timestamp(IMPRINT)
+    ).rejects.toThrow('HTTP 503');
+  });
+
+  it('should reject non-HTTP TSA URLs', () => {
+    expect(() => createHttpTimestampAuthority('file:///etc/tsa')).toThrow('not allowed');
+    expect(() => createHttpTimestampAuthority('javascript:alert(1)')).toThrow('not allowed');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  cropToContent,
+  detectImageType,
+  fitWithin,
+  MAX_UPLOAD_DIMENSION,
+  processSignatureUpload,
+  readImageDimensions,
+  removeBackground,
+} from '../../src/utils/upload-utils';
+import { SignatureImagePixels } from '../../src/types';
+
+/**
+ * Uploaded signature images
+ *
+ * Tests the processing of a scanned/photographed signature:
+ * - SECURITY: File type by signature bytes, size and dimension limits before decoding
+ * - Near-white background removal, cropping to the ink, downscaling
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function pngHeader(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(33);
+  bytes.set(PNG_SIGNATURE);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12); // IHDR
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+function jpegHeader(width: number, height: number): Uint8Array {
+  return new Uint8Array([
+    0xff, 0xd8, // SOI
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, // APP0 (truncated payload)
+    0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x01, 0x11, 0x00,
+  ]);
+}
+
+/** White image with a black rectangle of ink */
+function pixels(width: number, height: number, ink: { x: number; y: number; w: number; h: number }): SignatureImagePixels {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = ink.y; y < ink.y + ink.h; y++) {
+    for (let x = ink.x; x < ink.x + ink.w; x++) {
+      data.set([0, 0, 0, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('detectImageType', () => {
+  it('should identify PNG and JPEG by their signature bytes', () => {
+    expect(detectImageType(pngHeader(1, 1))).toBe('png');
+    expect(detectImageType(jpegHeader(1, 1))).toBe('jpeg');
+    expect(detectImageType(new TextEncoder().encode('<svg></svg>'))).toBeNull();
+  });
+});
+
+describe('readImageDimensions', () => {
+  it('should read PNG and JPEG dimensions from the header', () => {
+    expect(readImageDimensions(pngHeader(640, 480))).toEqual({ width: 640, height: 480 });
+    expect(readImageDimensions(jpegHeader(1200, 300))).toEqual({ width: 1200, height: 300 });
+  });
+
+  it('should return null for truncated headers', () => {
+    expect(readImageDimensions(pngHeader(640, 480).slice(0, 20))).toBeNull();
+    expect(readImageDimensions(jpegHeader(640, 480).slice(0, 10))).toBeNull();
+  });
+});
+
+describe('removeBackground', () => {
+  it('should make white transparent, keep ink and fade light grey', () => {
+    const input: SignatureImagePixels = {
+      width: 3,
+      height: 1,
+      data: new Uint8ClampedArray([250, 250, 250, 255, 20, 20, 80, 255, 212, 212, 212, 255]),
+    };
+
+    const { data } = removeBackground(input);
+
+    expect([data[3], data[7], data[11]]).toEqual([0, 255, 130]);
+    // The input is left untouched
+    expect(input.data[3]).toBe(255);
+  });
+});
+
+describe('cropToContent', () => {
+  it('should crop to the ink with padding, clamped to the image', () => {
+    const cropped = cropToContent(removeBackground(pixels(100, 50, { x: 20, y: 2, w: 30, h: 10 })));
+
+    expect(cropped).toMatchObject({ width: 38, height: 16 });
+    // First ink pixel sits after the padding
+    expect(cropped!.data[(2 * 38 + 4) * 4 + 3]).toBe(255);
+    expect(cropped!.data[3]).toBe(0);
+  });
+
+  it('should return null when no ink is left', () => {
+    expect(cropToContent(removeBackground(pixels(10, 10, { x: 0, y: 0, w: 0, h: 0 })))).toBeNull();
+  });
+});
+
+describe('fitWithin', () => {
+  it('should scale down to fit, keeping the aspect ratio', () => {
+    expect(fitWithin({ width: 3000, height: 600 })).toEqual({ width: 1000, height: 200 });
+    expect(fitWithin({ width: 500, height: 800 })).toEqual({ width: 250, height: 400 });
+  });
+
+  it('should never scale up', () => {
+    expect(fitWithin({ width: 200, height: 80 })).toEqual({ width: 200, height: 80 });
+  });
+});
+
+describe('processSignatureUpload', () => {
+  it('should reject types other than PNG and JPEG', async () => {
+    const file = new File(['<svg></svg>'], 'signature.svg', { type: 'image/svg+xml' });
+
+    await expect(processSignatureUpload(file)).rejects.toThrow('Only PNG and JPEG');
+  });
+
+  it('should reject files over the image size limit', async () => {
+    const file = new File([new Uint8Array(2 * 1024 * 1024 + 1)], 'signature.png', { type: 'image/png' });
+
+    await expect(processSignatureUpload(file)).rejects.toThrow('2MB or smaller');
+  });
+
+  it('should reject content that does not match the declared type', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const file = new File([jpegHeader(10, 10) as BlobPart], 'signature.png', { type: 'image/png' });
+
+    await expect(processSignatureUpload(file)).rejects.toThrow('not a valid PNG or JPEG');
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('[Security]'));
+    consoleError.mockRestore();
+  });
+
+  it('should reject oversized dimensions before decoding', async () => {
+    const file = new File([pngHeader(MAX_UPLOAD_DIMENSION + 1, 10) as BlobPart], 'signature.png', {
+      type: 'image/png',
+    });
+
+    await expect(processSignatureUpload(file)).rejects.toThrow(`at most ${MAX_UPLOAD_DIMENSION}x`);
+  });
+});
@@ -24,6 +24,7 @@ describe('usePDFDocument - Memory Leak Prevention', () => {
     destroySpy = vi.fn();
     mockPdfDocument = {
       numPages: 1,
+      getData: vi.fn(() => Promise.resolve(new TextEncoder().encode('%PDF-1.7'))),
       destroy: destroySpy,
     };
 
@@ -36,6 +37,21 @@ describe('usePDFDocument - Memory Leak Prevention', () => {
     vi.restoreAllMocks();
   });
 
+  it('should expose the SHA-256 of the loaded bytes', async () => {
+    const { result } = renderHook(() =>
+      usePDFDocument('https://example.com/test.pdf')
+    );
+
+    // SHA-256 of "%PDF-1.7"
+    const expected = Array.from(
+      new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode('%PDF-1.7')))
+    ).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+    await waitFor(() => {
+      expect(result.current.documentHash).toBe(expected);
+    });
+  });
+
   it('should clean up PDF document on unmount', async () => {
     const { unmount } = renderHook(() =>
       usePDFDocument('https://example.com/test.pdf')
@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { signPdfFields } from '../../src/utils/pdf-signing-utils';
+import { createSignedPDF } from '../../src/utils/signature-utils';
+import { fillFormFields } from '../../src/utils/form-utils';
+import { applyVerificationResults, verifySignatures } from '../../src/utils/verification-utils';
+import { createSoftwareSigner, pemToDer } from '../../src/utils/cms-utils';
+import { FormField, FormValues, SignatureField, Signer } from '../../src/types';
+import {
+  TEST_CA_CERTIFICATE_PEM,
+  TEST_CERTIFICATE_PEM,
+  TEST_EC_CERTIFICATE_PEM,
+  TEST_SIGNATURE_DATA,
+  TEST_SIGNATURE_FIELD,
+  createPdfWithSignatureFields,
+  createStubTimestampToken,
+  importTestEcPrivateKey,
+  importTestPrivateKey,
+  widgetPlacement,
+} from '../fixtures/signing-fixtures';
+
+/**
+ * Verification of existing PDF signatures
+ *
+ * Tests that verifySignatures:
+ * - Reports intact signatures from trusted certificates as valid
+ * - Detects changes to signed bytes and reports later revisions
+ * - Keeps earlier signatures valid through a later signer's export
+ * - Builds certificate chains to the supplied trust anchors only
+ * - Checks certificate validity at a trusted timestamp, not the claimed time
+ * - Rejects /ByteRange values that do not exclude exactly /Contents
+ */
+
+const SECOND_FIELD: SignatureField = {
+  ...TEST_SIGNATURE_FIELD,
+  id: 'sig-1-1',
+  fieldName: 'approver',
+  boundingBox: { x: 100, y: 300, width: 200, height: 50 },
+};
+
+// Signing time within the test certificates' validity period
+const SIGNATURE_DATA = { ...TEST_SIGNATURE_DATA, timestamp: '2030-01-01T00:00:00.000Z' };
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+}
+
+function fromLatin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+describe('verifySignatures', () => {
+  let rsaSigner: Signer;
+  let ecSigner: Signer;
+  const rsaCertificate = pemToDer(TEST_CERTIFICATE_PEM);
+  const caCertificate = pemToDer(TEST_CA_CERTIFICATE_PEM);
+
+  beforeAll(async () => {
+    rsaSigner = createSoftwareSigner({
+      certificate: rsaCertificate,
+      privateKey: await importTestPrivateKey(),
+    });
+    ecSigner = createSoftwareSigner({
+      certificate: pemToDer(TEST_EC_CERTIFICATE_PEM),
+      privateKey: await importTestEcPrivateKey(),
+    });
+  });
+
+  async function signTestPdf(signer: Signer, fields = [TEST_SIGNATURE_FIELD], profile?: 'pades-b-b') {
+    const pdf = await createPdfWithSignatureFields(fields);
+    const signatures = new Map(fields.map((field) => [field.id, SIGNATURE_DATA]));
+    return signPdfFields(pdf, signatures, fields, signer, { profile });
+  }
+
+  it('should report an intact signature from a trusted certificate as valid', async () => {
+    const signed = await signTestPdf(rsaSigner);
+
+    const [result] = await verifySignatures(signed, { trustedCertificates: [rsaCertificate] });
+
+    expect(result.status).toBe('valid');
+    expect(result.fieldName).toBe('signature');
+    expect(result.pageIndex).toBe(0);
+    expect(result.boundingBox).toEqual(TEST_SIGNATURE_FIELD.boundingBox);
+    expect(result.signedBy).toBe('John Doe');
+    expect(result.signedAt).toBe('2030-01-01T00:00:00.000Z');
+    expect(result.reason).toBe('I approve this document');
+    expect(result.subFilter).toBe('adbe.pkcs7.detached');
+    expect(result.coversWholeDocument).toBe(true);
+  });
+
+  it('should report untrusted-cert without trust anchors', async () => {
+    const signed = await signTestPdf(rsaSigner);
+
+    const [result] = await verifySignatures(signed);
+
+    expect(result.status).toBe('untrusted-cert');
+  });
+
+  it('should not report unsigned signature fields', async () => {
+    const pdf = await createPdfWithSignatureFields();
+
+    expect(await verifySignatures(pdf)).toEqual([]);
+  });
+
+  it('should detect changes to the signed bytes', async () => {
+    const signed = await signTestPdf(rsaSigner);
+    const tampered = fromLatin1(latin1(signed).replace('/Name (John Doe)', '/Name (Jane Doe)'));
+
+    const [result] = await verifySignatures(tampered, { trustedCertificates: [rsaCertificate] });
+
+    expect(result.status).toBe('modified-after-signing');
+    expect(result.detail).toContain('digest does not match');
+  });
+
+  it('should accept later signatures as permitted changes', async () => {
+    const signed = await signTestPdf(rsaSigner, [TEST_SIGNATURE_FIELD, SECOND_FIELD]);
+
+    const results = await verifySignatures(signed, { trustedCertificates: [rsaCertificate] });
+
+    expect(results).toHaveLength(2);
+    expect(results[0].status).toBe('valid');
+    expect(results[0].coversWholeDocument).toBe(false);
+    expect(results[0].changesSinceSigned).toMatchObject({ revisions: 1, types: ['signature'], permitted: true });
+    expect(results[1].status).toBe('valid');
+    expect(results[1].changesSinceSigned).toBeNull();
+  });
+
+  it('should keep the first signature valid after the next signer flattens, fills and signs', async () => {
+    const comments: FormField = {
+      id: 'form-comments',
+      pageIndex: 0,
+      fieldName: 'Comments',
+      boundingBox: { x: 100, y: 500, width: 200, height: 20 },
+      type: 'text',
+      required: false,
+      readOnly: false,
+      defaultValue: '',
+    };
+    const blank = await PDFDocument.load(await createPdfWithSignatureFields([TEST_SIGNATURE_FIELD, SECOND_FIELD]));
+    blank.getForm().createTextField('Comments').addToPage(blank.getPage(0), { ...widgetPlacement(comments.boundingBox), borderWidth: 0 });
+    const pdf = await blank.save({ useObjectStreams: false });
+
+    // As getSignedPdf exports: flatten the signature, fill the form, then sign
+    const exportSigned = async (bytes: Uint8Array, field: SignatureField, values: FormValues) => {
+      const signatures = new Map([[field.id, SIGNATURE_DATA]]);
+      const flattened = await fillFormFields(await createSignedPDF(bytes, signatures, [field]), [comments], values);
+      return signPdfFields(flattened, signatures, [field], rsaSigner);
+    };
+    const first = await exportSigned(pdf, TEST_SIGNATURE_FIELD, {});
+    const second = await exportSigned(first, SECOND_FIELD, { Comments: 'Approved' });
+
+    const results = await verifySignatures(second, { trustedCertificates: [rsaCertificate] });
+
+    expect(second.subarray(0, first.length)).toEqual(first);
+    expect(results.map((result) => result.status)).toEqual(['valid', 'valid']);
+    expect(results[0].changesSinceSigned).toMatchObject({ revisions: 3, permitted: true });
+    expect(results[0].changesSinceSigned!.types).toEqual(expect.arrayContaining(['signature', 'form-fill']));
+    expect(results[0].changesSinceSigned!.types).not.toContain('content');
+  });
+
+  it('should reject a /ByteRange whose gap is not the /Contents string', async () => {
+    const signed = await signTestPdf(rsaSigner);
+    const text = latin1(signed);
+    const match = text.match(/\/ByteRange \[0 (\d+)/)!;
+    const shifted = text.replace(match[0], `/ByteRange [0 ${Number(match[1]) + 1}`);
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const [result] = await verifySignatures(fromLatin1(shifted), { trustedCertificates: [rsaCertificate] });
+
+    expect(result.status).toBe('invalid');
+    expect(result.detail).toContain('not the signature /Contents');
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('[Security] Invalid signature'));
+    consoleSpy.mockRestore();
+  });
+
+  it('should chain an ECDSA signer certificate to its issuing CA', async () => {
+    const signed = await signTestPdf(ecSigner, [TEST_SIGNATURE_FIELD], 'pades-b-b');
+
+    const [result] = await verifySignatures(signed, { trustedCertificates: [caCertificate] });
+
+    expect(result.status).toBe('valid');
+    expect(result.subFilter).toBe('ETSI.CAdES.detached');
+  });
+
+  it('should not trust a certificate issued by an unrelated CA', async () => {
+    const signed = await signTestPdf(ecSigner);
+
+    const [result] = await verifySignatures(signed, { trustedCertificates: [rsaCertificate] });
+
+    expect(result.status).toBe('untrusted-cert');
+  });
+
+  async function signWithTimestamp(signer: Signer, genTime: string) {
+    const pdf = await createPdfWithSignatureFields();
+    return signPdfFields(pdf, new Map([[TEST_SIGNATURE_FIELD.id, SIGNATURE_DATA]]), [TEST_SIGNATURE_FIELD], signer, {
+      profile: 'pades-b-t',
+      timestampAuthority: {
+        timestamp: (messageImprint) => createStubTimestampToken(messageImprint, undefined, new Date(genTime)),
+      },
+    });
+  }
+
+  it('should check certificate validity at the time of a trusted signature timestamp', async () => {
+    const trustedCertificates = [rsaCertificate, caCertificate];
+    const valid = await signWithTimestamp(ecSigner, '2030-01-01T00:00:00Z');
+    // The RSA test certificate (the stub TSA) was issued minutes before the EC signer's
+    const early = await signWithTimestamp(ecSigner, '2026-10-19T18:20:00Z');
+
+    const [validResult] = await verifySignatures(valid, { trustedCertificates });
+    const [earlyResult] = await verifySignatures(early, { trustedCertificates });
+
+    expect(validResult.status).toBe('valid');
+    expect(validResult.timestampedAt).toBe('2030-01-01T00:00:00.000Z');
+    expect(earlyResult.status).toBe('untrusted-cert');
+    expect(earlyResult.timestampedAt).toBe('2026-10-19T18:20:00.000Z');
+  });
+
+  it('should not rely on the signing time claimed by the signer', async () => {
+    const pdf = await createPdfWithSignatureFields();
+    const signed = await signPdfFields(
+      pdf,
+      new Map([[TEST_SIGNATURE_FIELD.id, { ...SIGNATURE_DATA, timestamp: '2000-01-01T00:00:00.000Z' }]]),
+      [TEST_SIGNATURE_FIELD],
+      rsaSigner,
+      { profile: 'pades-b-b' }
+    );
+
+    const [result] = await verifySignatures(signed, { trustedCertificates: [rsaCertificate] });
+
+    // Checked at the current time instead, and reported as not trusted
+    expect(result.status).toBe('valid');
+    expect(result.signedAt).toBe('2000-01-01T00:00:00.000Z');
+    expect(result.timestampedAt).toBeNull();
+  });
+
+  it('should ignore a timestamp from an untrusted TSA', async () => {
+    const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const signed = await signWithTimestamp(rsaSigner, '2030-01-01T00:00:00Z');
+
+    const [result] = await verifySignatures(signed, { trustedCertificates: [caCertificate] });
+
+    expect(result.timestampedAt).toBeNull();
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('[Security] Ignoring signature timestamp'));
+    consoleSpy.mockRestore();
+  });
+
+  it('should read the bytes of a loaded PDF.js document', async () => {
+    const signed = await signTestPdf(rsaSigner);
+    const pdfDocument = { getData: async () => signed } as unknown as PDFDocumentProxy;
+
+    const [result] = await verifySignatures(pdfDocument, { trustedCertificates: [rsaCertificate] });
+
+    expect(result.status).toBe('valid');
+  });
+});
+
+describe('applyVerificationResults', () => {
+  it('should merge results into the matching fields', async () => {
+    const signer = createSoftwareSigner({
+      certificate: pemToDer(TEST_CERTIFICATE_PEM),
+      privateKey: await importTestPrivateKey(),
+    });
+    const pdf = await createPdfWithSignatureFields([TEST_SIGNATURE_FIELD, SECOND_FIELD]);
+    const signed = await signPdfFields(
+      pdf,
+      new Map([[SECOND_FIELD.id, SIGNATURE_DATA]]),
+      [TEST_SIGNATURE_FIELD, SECOND_FIELD],
+      signer
+    );
+
+    const fields = applyVerificationResults(
+      [TEST_SIGNATURE_FIELD, SECOND_FIELD],
+      await verifySignatures(signed)
+    );
+
+    expect(fields[0]).toEqual(TEST_SIGNATURE_FIELD);
+    expect(fields[1]).toMatchObject({
+      id: 'sig-1-1',
+      signedBy: 'John Doe',
+      signedAt: '2030-01-01T00:00:00.000Z',
+      verificationStatus: 'untrusted-cert',
+    });
+  });
+});